@@ -0,0 +1,305 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { Hono } from 'hono'
+import { graphql } from 'graphql'
+import { GraphQLPlugin } from './index'
+import { buildGraphQLSchema, buildWhereClause, createContext } from './schema'
+import { executeQuery } from '../../src/operation'
+import { StarbaseApp } from '../../src/handler'
+import { TableSchema } from '../../src/openapi'
+
+vi.mock('../../src/operation', () => ({
+    executeQuery: vi.fn(),
+}))
+
+const tables: TableSchema[] = [
+    {
+        schema: 'main',
+        name: 'users',
+        columns: [
+            { name: 'id', type: 'INTEGER', nullable: false, primaryKey: true },
+            { name: 'name', type: 'TEXT', nullable: true, primaryKey: false },
+        ],
+    },
+    {
+        schema: 'main',
+        name: 'posts',
+        columns: [
+            { name: 'id', type: 'INTEGER', nullable: false, primaryKey: true },
+            {
+                name: 'author_id',
+                type: 'INTEGER',
+                nullable: true,
+                primaryKey: false,
+            },
+            { name: 'title', type: 'TEXT', nullable: true, primaryKey: false },
+        ],
+    },
+]
+
+const foreignKeys = [
+    {
+        schema: 'main',
+        table: 'posts',
+        column: 'author_id',
+        referencedSchema: 'main',
+        referencedTable: 'users',
+        referencedColumn: 'id',
+    },
+]
+
+function run(
+    source: string,
+    query: (sql: string, params: unknown[]) => Promise<any[]>,
+    dialect: 'sqlite' | 'postgresql' | 'mysql' = 'sqlite'
+) {
+    return graphql({
+        schema: buildGraphQLSchema({ tables, foreignKeys, dialect }),
+        source,
+        contextValue: createContext(dialect, query),
+    })
+}
+
+describe('GraphQL - buildWhereClause', () => {
+    it('should combine column comparisons and nested groups', () => {
+        expect(
+            buildWhereClause(
+                {
+                    name: { ilike: 'a%', is_null: false },
+                    or: [{ id: { in: [1, 2] } }, { not: { id: { gt: 5 } } }],
+                },
+                'sqlite'
+            )
+        ).toEqual({
+            sql: 'LOWER(name) LIKE LOWER(?) AND name IS NOT NULL AND (id IN (?, ?) OR NOT (id > ?))',
+            params: ['a%', 1, 2, 5],
+        })
+    })
+
+    it('should match every row for an empty filter inside of or', () => {
+        expect(
+            buildWhereClause({ or: [{}, { id: { eq: 1 } }] }, 'sqlite')
+        ).toEqual({ sql: '', params: [] })
+    })
+
+    it('should reject null comparisons', () => {
+        expect(() =>
+            buildWhereClause({ name: { eq: null } }, 'sqlite')
+        ).toThrow("Filter 'eq' on 'name' expects a value")
+    })
+})
+
+describe('GraphQL - queries', () => {
+    it('should filter, order and paginate a table', async () => {
+        const query = vi.fn().mockResolvedValue([{ id: 2, name: 'Bob' }])
+
+        const result = await run(
+            `{ users(where: { name: { eq: "Bob" } }, order_by: [{ name: DESC }], limit: 10, offset: 5) { id name } }`,
+            query
+        )
+
+        expect(result.errors).toBeUndefined()
+        expect(result.data).toEqual({ users: [{ id: 2, name: 'Bob' }] })
+        expect(query).toHaveBeenCalledWith(
+            'SELECT id, name FROM users WHERE name = ? ORDER BY name DESC LIMIT 10 OFFSET 5',
+            ['Bob']
+        )
+    })
+
+    it('should read a row by its primary key', async () => {
+        const query = vi.fn().mockResolvedValue([])
+
+        const result = await run(`{ users_by_pk(id: 3) { name } }`, query)
+
+        expect(result.data).toEqual({ users_by_pk: null })
+        expect(query).toHaveBeenCalledWith(
+            'SELECT id, name FROM users WHERE id = ? LIMIT 1',
+            [3]
+        )
+    })
+
+    it('should load relationships of sibling rows with one query', async () => {
+        const query = vi.fn(async (sql: string) => {
+            if (sql.startsWith('SELECT id, name FROM users')) {
+                return [
+                    { id: 1, name: 'Ann' },
+                    { id: 2, name: 'Bob' },
+                ]
+            }
+
+            if (sql.includes('author_id IN')) {
+                return [
+                    { id: 10, author_id: 1, title: 'First' },
+                    { id: 11, author_id: 1, title: 'Second' },
+                ]
+            }
+
+            return [{ id: 1, name: 'Ann' }]
+        })
+
+        const result = await run(
+            `{ users { name posts(limit: 1) { title author { name } } } }`,
+            query
+        )
+
+        expect(result.errors).toBeUndefined()
+        expect(result.data).toEqual({
+            users: [
+                {
+                    name: 'Ann',
+                    posts: [{ title: 'First', author: { name: 'Ann' } }],
+                },
+                { name: 'Bob', posts: [] },
+            ],
+        })
+        expect(query).toHaveBeenCalledTimes(3)
+        expect(query).toHaveBeenCalledWith(
+            'SELECT id, author_id, title FROM posts WHERE author_id IN (?, ?)',
+            [1, 2]
+        )
+        expect(query).toHaveBeenCalledWith(
+            'SELECT id, name FROM users WHERE id IN (?)',
+            [1]
+        )
+    })
+})
+
+describe('GraphQL - mutations', () => {
+    it('should insert rows with the columns they provide', async () => {
+        const query = vi.fn(async (_sql: string, params: unknown[]) =>
+            params.length === 2
+                ? [
+                      { id: 1, name: 'Ann' },
+                      { id: 2, name: 'Bob' },
+                  ]
+                : [{ id: 3, name: null }]
+        )
+
+        const result = await run(
+            `mutation { insert_users(objects: [{ name: "Ann" }, { name: "Bob" }, { id: 3 }]) { affected_rows returning { id } } }`,
+            query
+        )
+
+        expect(result.errors).toBeUndefined()
+        expect(result.data).toEqual({
+            insert_users: {
+                affected_rows: 3,
+                returning: [{ id: 1 }, { id: 2 }, { id: 3 }],
+            },
+        })
+        expect(query).toHaveBeenCalledWith(
+            'INSERT INTO users (name) VALUES (?), (?) RETURNING id, name',
+            ['Ann', 'Bob']
+        )
+        expect(query).toHaveBeenCalledWith(
+            'INSERT INTO users (id) VALUES (?) RETURNING id, name',
+            [3]
+        )
+    })
+
+    it('should update and delete the rows matching a filter', async () => {
+        const query = vi.fn().mockResolvedValue([{ id: 1, name: 'Ann' }])
+
+        const result = await run(
+            `mutation {
+                update_users(where: { id: { eq: 1 } }, _set: { name: "Ann" }) { affected_rows }
+                delete_posts(where: { author_id: { is_null: true } }) { affected_rows }
+            }`,
+            query
+        )
+
+        expect(result.errors).toBeUndefined()
+        expect(query).toHaveBeenCalledWith(
+            'UPDATE users SET name = ? WHERE id = ? RETURNING id, name',
+            ['Ann', 1]
+        )
+        expect(query).toHaveBeenCalledWith(
+            'DELETE FROM posts WHERE author_id IS NULL RETURNING id, author_id, title',
+            []
+        )
+    })
+
+    it('should count affected rows on MySQL without returning them', async () => {
+        const query = vi.fn(async (sql: string) =>
+            sql.includes('ROW_COUNT') ? [{ affected: 2 }] : []
+        )
+
+        const result = await run(
+            `mutation { delete_users(where: {}) { affected_rows returning { id } } }`,
+            query,
+            'mysql'
+        )
+
+        expect(result.data).toBeNull()
+        expect(result.errors?.[0].message).toBe(
+            'Returning rows is not supported on MySQL.'
+        )
+        expect(query).toHaveBeenCalledWith('DELETE FROM users', [])
+    })
+})
+
+describe('GraphQLPlugin - routes', () => {
+    let app: Hono
+
+    beforeEach(async () => {
+        vi.clearAllMocks()
+        vi.mocked(executeQuery).mockImplementation(async ({ sql }) => {
+            if (sql.includes('sqlite_master')) return [{ name: 'users' }]
+            if (sql.startsWith('PRAGMA table_info')) {
+                return [
+                    { name: 'id', type: 'INTEGER', notnull: 1, pk: 1 },
+                    { name: 'name', type: 'TEXT', notnull: 0, pk: 0 },
+                ]
+            }
+            if (sql.startsWith('PRAGMA foreign_key_list')) return []
+            return [{ id: 1, name: 'Ann' }]
+        })
+
+        app = new Hono()
+        app.use(async (c: any, next) => {
+            c.set('config', { role: 'client' })
+            c.set('dataSource', { source: 'internal' })
+            await next()
+        })
+        await new GraphQLPlugin().register(app as unknown as StarbaseApp)
+    })
+
+    it('should execute queries through executeQuery', async () => {
+        const response = await app.request('/graphql', {
+            method: 'POST',
+            body: JSON.stringify({ query: '{ users { id name } }' }),
+            headers: { 'Content-Type': 'application/json' },
+        })
+
+        expect(response.status).toBe(200)
+        expect(await response.json()).toEqual({
+            data: { users: [{ id: 1, name: 'Ann' }] },
+        })
+        expect(vi.mocked(executeQuery)).toHaveBeenLastCalledWith({
+            sql: 'SELECT id, name FROM users',
+            params: [],
+            isRaw: false,
+            dataSource: { source: 'internal' },
+            config: { role: 'client' },
+        })
+    })
+
+    it('should report invalid queries as a bad request', async () => {
+        const response = await app.request(
+            `/graphql?query=${encodeURIComponent('{ unknown }')}`
+        )
+
+        expect(response.status).toBe(400)
+        expect(((await response.json()) as any).errors[0].message).toContain(
+            'Cannot query field "unknown"'
+        )
+    })
+
+    it('should only accept mutations through POST', async () => {
+        const response = await app.request(
+            `/graphql?query=${encodeURIComponent('mutation { delete_users(where: {}) { affected_rows } }')}`
+        )
+
+        expect(response.status).toBe(405)
+        expect(response.headers.get('Allow')).toBe('POST')
+    })
+})
@@ -0,0 +1,294 @@
+import {
+    getOperationAST,
+    GraphQLError,
+    parse,
+    validate,
+    execute,
+} from 'graphql'
+import { StarbaseApp, StarbaseDBConfiguration } from '../../src/handler'
+import { StarbasePlugin } from '../../src/plugin'
+import { DataSource } from '../../src/types'
+import { executeQuery } from '../../src/operation'
+import { getTableSchemas, TableSchema } from '../../src/openapi'
+import { SqlDialect } from '../../src/literest/filter'
+import { corsHeaders } from '../../src/cors'
+import { buildGraphQLSchema, createContext, ForeignKey } from './schema'
+
+type GraphQLParams = {
+    query?: string
+    variables?: Record<string, unknown>
+    operationName?: string
+}
+
+export class GraphQLPlugin extends StarbasePlugin {
+    // Configuration details about the request and user
+    private config?: StarbaseDBConfiguration
+    // Data source the schema is introspected from and queries run against
+    private dataSource?: DataSource
+
+    constructor(opts?: { pathPrefix?: string }) {
+        super(
+            'starbasedb:graphql',
+            {
+                requiresAuth: true,
+            },
+            opts?.pathPrefix ?? '/graphql'
+        )
+    }
+
+    override async register(app: StarbaseApp) {
+        app.use(async (c, next) => {
+            this.config = c?.get('config')
+            this.dataSource = c?.get('dataSource')
+            await next()
+        })
+
+        app.get(this.pathPrefix!, async (c) => {
+            const url = new URL(c.req.url)
+            let variables: Record<string, unknown> | undefined
+
+            try {
+                const value = url.searchParams.get('variables')
+                variables = value ? JSON.parse(value) : undefined
+            } catch {
+                return this.respond(
+                    { errors: [{ message: 'Invalid variables.' }] },
+                    400
+                )
+            }
+
+            return this.handle(
+                {
+                    query: url.searchParams.get('query') ?? undefined,
+                    variables,
+                    operationName:
+                        url.searchParams.get('operationName') ?? undefined,
+                },
+                'GET'
+            )
+        })
+
+        app.post(this.pathPrefix!, async (c) => {
+            let params: GraphQLParams
+
+            try {
+                params = await c.req.json()
+            } catch {
+                return this.respond(
+                    { errors: [{ message: 'Invalid JSON body.' }] },
+                    400
+                )
+            }
+
+            return this.handle(params ?? {}, 'POST')
+        })
+    }
+
+    private getDialect(): SqlDialect {
+        return this.dataSource?.source === 'external'
+            ? (this.dataSource.external?.dialect ?? 'sqlite')
+            : 'sqlite'
+    }
+
+    private respond(body: unknown, status: number = 200): Response {
+        return new Response(JSON.stringify(body), {
+            status,
+            headers: {
+                ...corsHeaders,
+                'Content-Type': 'application/json',
+            },
+        })
+    }
+
+    private async handle(params: GraphQLParams, method: 'GET' | 'POST') {
+        if (!this.dataSource || !this.config) {
+            return this.respond(
+                { errors: [{ message: 'Data source not found.' }] },
+                500
+            )
+        }
+
+        if (typeof params.query !== 'string' || !params.query.trim()) {
+            return this.respond(
+                { errors: [{ message: 'Missing query.' }] },
+                400
+            )
+        }
+
+        let document
+
+        try {
+            document = parse(params.query)
+        } catch (error) {
+            return this.respond({ errors: [error as GraphQLError] }, 400)
+        }
+
+        // Mutations change data, so they are only accepted through POST
+        const operation = getOperationAST(document, params.operationName)
+
+        if (method === 'GET' && operation?.operation === 'mutation') {
+            return new Response(
+                JSON.stringify({
+                    errors: [{ message: 'Mutations require a POST request.' }],
+                }),
+                {
+                    status: 405,
+                    headers: {
+                        ...corsHeaders,
+                        'Content-Type': 'application/json',
+                        Allow: 'POST',
+                    },
+                }
+            )
+        }
+
+        const dialect = this.getDialect()
+        const dataSource = this.dataSource
+        const config = this.config
+        const tables = await getTableSchemas(dataSource, config)
+        const schema = buildGraphQLSchema({
+            tables,
+            foreignKeys: await getForeignKeys(
+                dataSource,
+                config,
+                dialect,
+                tables
+            ),
+            dialect,
+        })
+        const errors = validate(schema, document)
+
+        if (errors.length) {
+            return this.respond({ errors }, 400)
+        }
+
+        const result = await execute({
+            schema,
+            document,
+            variableValues: params.variables,
+            operationName: params.operationName,
+            contextValue: createContext(
+                dialect,
+                (sql, params) =>
+                    executeQuery({
+                        sql,
+                        params,
+                        isRaw: false,
+                        dataSource,
+                        config,
+                    }) as Promise<Record<string, unknown>[]>
+            ),
+        })
+
+        return this.respond(result)
+    }
+}
+
+/**
+ * Reads the single column foreign keys between the tables of the data source, which
+ * become the relationship fields of the GraphQL schema.
+ *
+ * @param tables - Tables of the data source, whose foreign keys are read on SQLite.
+ */
+export async function getForeignKeys(
+    dataSource: DataSource,
+    config: StarbaseDBConfiguration,
+    dialect: SqlDialect,
+    tables: TableSchema[]
+): Promise<ForeignKey[]> {
+    const query = (sql: string) =>
+        executeQuery({
+            sql,
+            params: [],
+            isRaw: false,
+            dataSource,
+            config,
+        }) as Promise<any[]>
+
+    if (dialect === 'postgresql' || dialect === 'mysql') {
+        const rows = await query(
+            dialect === 'postgresql'
+                ? `
+                SELECT tc.constraint_name AS "id", kcu.table_schema AS "schema",
+                    kcu.table_name AS "table", kcu.column_name AS "column",
+                    ccu.table_schema AS "referencedSchema",
+                    ccu.table_name AS "referencedTable",
+                    ccu.column_name AS "referencedColumn"
+                FROM information_schema.table_constraints tc
+                JOIN information_schema.key_column_usage kcu
+                ON tc.constraint_name = kcu.constraint_name
+                AND tc.table_schema = kcu.table_schema
+                JOIN information_schema.constraint_column_usage ccu
+                ON tc.constraint_name = ccu.constraint_name
+                AND tc.table_schema = ccu.table_schema
+                WHERE tc.constraint_type = 'FOREIGN KEY';`
+                : `
+                SELECT CONSTRAINT_NAME AS \`id\`, TABLE_SCHEMA AS \`schema\`,
+                    TABLE_NAME AS \`table\`, COLUMN_NAME AS \`column\`,
+                    REFERENCED_TABLE_SCHEMA AS \`referencedSchema\`,
+                    REFERENCED_TABLE_NAME AS \`referencedTable\`,
+                    REFERENCED_COLUMN_NAME AS \`referencedColumn\`
+                FROM information_schema.key_column_usage
+                WHERE TABLE_SCHEMA = DATABASE()
+                AND REFERENCED_TABLE_NAME IS NOT NULL;`
+        )
+
+        return singleColumnKeys(
+            rows.map((row) => ({
+                id: `${row.schema}.${row.table}.${row.id}`,
+                key: {
+                    schema: row.schema,
+                    table: row.table,
+                    column: row.column,
+                    referencedSchema: row.referencedSchema,
+                    referencedTable: row.referencedTable,
+                    referencedColumn: row.referencedColumn,
+                },
+            }))
+        )
+    }
+
+    const keys: { id: string; key: ForeignKey }[] = []
+
+    for (const table of tables) {
+        const rows = await query(
+            `PRAGMA foreign_key_list(${table.name.replace(/[^a-zA-Z0-9_]/g, '')});`
+        )
+
+        for (const row of rows) {
+            // Without a column, the key references the primary key of the other table
+            const primaryKey = tables
+                .find((other) => other.name === row.table)
+                ?.columns.filter((column) => column.primaryKey)
+
+            keys.push({
+                id: `${table.name}.${row.id}`,
+                key: {
+                    schema: 'main',
+                    table: table.name,
+                    column: row.from,
+                    referencedSchema: 'main',
+                    referencedTable: row.table,
+                    referencedColumn:
+                        row.to ??
+                        (primaryKey?.length === 1 ? primaryKey[0].name : ''),
+                },
+            })
+        }
+    }
+
+    return singleColumnKeys(keys)
+}
+
+// Keys spanning several columns have no single value to relate rows with
+function singleColumnKeys(keys: { id: string; key: ForeignKey }[]) {
+    const counts = new Map<string, number>()
+
+    for (const { id } of keys) {
+        counts.set(id, (counts.get(id) ?? 0) + 1)
+    }
+
+    return keys
+        .filter(({ id, key }) => counts.get(id) === 1 && key.referencedColumn)
+        .map(({ key }) => key)
+}
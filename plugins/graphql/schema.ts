@@ -0,0 +1,904 @@
+import {
+    GraphQLBoolean,
+    GraphQLEnumType,
+    GraphQLError,
+    GraphQLFieldConfig,
+    GraphQLFieldConfigArgumentMap,
+    GraphQLFloat,
+    GraphQLInputFieldConfigMap,
+    GraphQLInputObjectType,
+    GraphQLInputType,
+    GraphQLInt,
+    GraphQLList,
+    GraphQLNonNull,
+    GraphQLObjectType,
+    GraphQLScalarType,
+    GraphQLSchema,
+    GraphQLString,
+    valueFromASTUntyped,
+} from 'graphql'
+import { SqlDialect } from '../../src/literest/filter'
+import { TableColumn, TableSchema, toJsonSchema } from '../../src/openapi'
+
+type Row = Record<string, unknown>
+
+type Args = Record<string, any>
+
+export type ForeignKey = {
+    schema: string
+    table: string
+    column: string
+    referencedSchema: string
+    referencedTable: string
+    referencedColumn: string
+}
+
+type Batch = {
+    values: unknown[]
+    rows: Promise<Map<string, Row[]>>
+}
+
+export type GraphQLContext = {
+    dialect: SqlDialect
+    // Runs a statement through `executeQuery`, so RLS, the allowlist, caching and the
+    // plugin hooks apply to every resolver.
+    query: (sql: string, params: unknown[]) => Promise<Row[]>
+    // Relationships of sibling rows being loaded together, by relationship and arguments
+    batches: Map<string, Batch>
+}
+
+type Relationship = {
+    name: string
+    column: string
+    target: GraphTable
+    targetColumn: string
+    many: boolean
+}
+
+type GraphTable = {
+    name: string
+    sqlName: string
+    columns: TableColumn[]
+    primaryKey: string[]
+    relationships: Relationship[]
+    type?: GraphQLObjectType
+    filter?: GraphQLInputObjectType
+    orderBy?: GraphQLInputObjectType
+}
+
+// Parameters bound to a single statement are limited, so related rows are loaded in batches.
+const BATCH_SIZE = 100
+
+const NAME_PATTERN = /^[_A-Za-z][_0-9A-Za-z]*$/
+
+// Types every schema has, tables whose types would collide with them are left out
+const RESERVED_TYPES = [
+    'Query',
+    'Mutation',
+    'JSON',
+    'OrderDirection',
+    ...['Int', 'Float', 'String', 'Boolean', 'JSON'].map(
+        (scalar) => `${scalar}Comparison`
+    ),
+]
+
+const TYPE_SUFFIXES = [
+    '',
+    '_filter',
+    '_order_by',
+    '_insert_input',
+    '_set_input',
+    '_mutation_response',
+]
+
+const JSONScalar = new GraphQLScalarType({
+    name: 'JSON',
+    description: 'Any JSON value.',
+    serialize: (value) => value,
+    parseValue: (value) => value,
+    parseLiteral: (ast, variables) => valueFromASTUntyped(ast, variables),
+})
+
+const OrderDirection = new GraphQLEnumType({
+    name: 'OrderDirection',
+    values: { ASC: { value: 'ASC' }, DESC: { value: 'DESC' } },
+})
+
+const COMPARISONS: Record<string, string> = {
+    eq: '=',
+    neq: '!=',
+    gt: '>',
+    gte: '>=',
+    lt: '<',
+    lte: '<=',
+}
+
+/**
+ * Creates the context a request executes the schema with.
+ *
+ * @param dialect - Dialect of the data source the statements are written for.
+ * @param query - Runs a statement and returns its rows.
+ */
+export function createContext(
+    dialect: SqlDialect,
+    query: GraphQLContext['query']
+): GraphQLContext {
+    return { dialect, query, batches: new Map() }
+}
+
+// Comparison input types are shared by every column of the same scalar type
+const comparisonTypes = new Map<GraphQLScalarType, GraphQLInputObjectType>()
+
+function getComparisonType(scalar: GraphQLScalarType): GraphQLInputObjectType {
+    if (comparisonTypes.has(scalar)) {
+        return comparisonTypes.get(scalar)!
+    }
+
+    const fields: GraphQLInputFieldConfigMap = {}
+
+    if (scalar !== JSONScalar) {
+        fields.eq = { type: scalar }
+        fields.neq = { type: scalar }
+    }
+
+    if (scalar !== JSONScalar && scalar !== GraphQLBoolean) {
+        for (const operator of ['gt', 'gte', 'lt', 'lte']) {
+            fields[operator] = { type: scalar }
+        }
+
+        fields.in = { type: new GraphQLList(new GraphQLNonNull(scalar)) }
+        fields.nin = { type: new GraphQLList(new GraphQLNonNull(scalar)) }
+    }
+
+    if (scalar === GraphQLString) {
+        fields.like = { type: GraphQLString }
+        fields.ilike = { type: GraphQLString }
+    }
+
+    fields.is_null = { type: GraphQLBoolean }
+
+    const type = new GraphQLInputObjectType({
+        name: `${scalar.name}Comparison`,
+        fields,
+    })
+
+    comparisonTypes.set(scalar, type)
+    return type
+}
+
+/**
+ * Maps the declared type of a column to a GraphQL scalar. Big integers exceed the 32 bit
+ * `Int` of GraphQL and are exposed as `Float`.
+ */
+export function toGraphQLScalar(type: string): GraphQLScalarType {
+    if (/big|int8/i.test(type)) {
+        return GraphQLFloat
+    }
+
+    const schema = toJsonSchema(type)
+
+    switch (schema.type) {
+        case 'boolean':
+            return GraphQLBoolean
+        case 'integer':
+            return GraphQLInt
+        case 'number':
+            return GraphQLFloat
+        case 'string':
+            return GraphQLString
+        default:
+            return JSONScalar
+    }
+}
+
+// SQLite has no boolean type and JSON values are stored as text
+function toParam(value: unknown, dialect: SqlDialect): unknown {
+    if (typeof value === 'boolean' && dialect === 'sqlite') {
+        return value ? 1 : 0
+    }
+
+    if (value !== null && typeof value === 'object') {
+        return JSON.stringify(value)
+    }
+
+    return value
+}
+
+/**
+ * Builds the conditions of a `where` argument, where every column compares with its
+ * own operators and `and`, `or` and `not` nest other filters.
+ *
+ * @returns The conditions joined with `AND`, or an empty string without conditions.
+ */
+export function buildWhereClause(
+    where: Args | undefined,
+    dialect: SqlDialect
+): { sql: string; params: unknown[] } {
+    const conditions: string[] = []
+    const params: unknown[] = []
+
+    const add = (clause: { sql: string; params: unknown[] }) => {
+        if (clause.sql) {
+            conditions.push(clause.sql)
+            params.push(...clause.params)
+        }
+    }
+
+    for (const [key, value] of Object.entries(where ?? {})) {
+        if (value === undefined || value === null) {
+            continue
+        }
+
+        if (key === 'and' || key === 'or') {
+            const groups = (value as Args[]).map((filter) =>
+                buildWhereClause(filter, dialect)
+            )
+
+            // An empty filter matches every row, and with it the whole `or`
+            if (key === 'or' && groups.some((group) => !group.sql)) {
+                continue
+            }
+
+            const nonEmpty = groups.filter((group) => group.sql)
+
+            if (nonEmpty.length) {
+                add({
+                    sql: `(${nonEmpty.map((group) => group.sql).join(key === 'and' ? ' AND ' : ' OR ')})`,
+                    params: nonEmpty.flatMap((group) => group.params),
+                })
+            }
+            continue
+        }
+
+        if (key === 'not') {
+            const group = buildWhereClause(value, dialect)
+            add({
+                sql: group.sql && `NOT (${group.sql})`,
+                params: group.params,
+            })
+            continue
+        }
+
+        for (const [operator, operand] of Object.entries(value as Args)) {
+            if (operand === undefined) {
+                continue
+            }
+
+            if (operand === null) {
+                throw new GraphQLError(
+                    `Filter '${operator}' on '${key}' expects a value, use is_null to compare with null.`
+                )
+            }
+
+            if (operator === 'is_null') {
+                add({
+                    sql: `${key} ${operand ? 'IS NULL' : 'IS NOT NULL'}`,
+                    params: [],
+                })
+            } else if (operator === 'in' || operator === 'nin') {
+                const values = operand as unknown[]
+
+                add(
+                    values.length
+                        ? {
+                              sql: `${key} ${operator === 'in' ? 'IN' : 'NOT IN'} (${values.map(() => '?').join(', ')})`,
+                              params: values.map((item) =>
+                                  toParam(item, dialect)
+                              ),
+                          }
+                        : {
+                              sql: operator === 'in' ? '1 = 0' : '1 = 1',
+                              params: [],
+                          }
+                )
+            } else if (operator === 'like') {
+                add({ sql: `${key} LIKE ?`, params: [operand] })
+            } else if (operator === 'ilike') {
+                add({
+                    sql: `LOWER(${key}) LIKE LOWER(?)`,
+                    params: [operand],
+                })
+            } else {
+                add({
+                    sql: `${key} ${COMPARISONS[operator]} ?`,
+                    params: [toParam(operand, dialect)],
+                })
+            }
+        }
+    }
+
+    return { sql: conditions.join(' AND '), params }
+}
+
+// `ORDER BY` of an `order_by` argument, a list of objects mapping columns to a direction
+function buildOrderClause(orderBy: Args[] | undefined): string {
+    const terms = (orderBy ?? []).flatMap((order) =>
+        Object.entries(order)
+            .filter(([, direction]) => direction)
+            .map(([column, direction]) => `${column} ${direction}`)
+    )
+
+    return terms.length ? ` ORDER BY ${terms.join(', ')}` : ''
+}
+
+function buildLimitClause(args: Args, dialect: SqlDialect): string {
+    let clause = ''
+
+    if (args.limit !== undefined && args.limit !== null) {
+        clause += ` LIMIT ${Math.max(0, args.limit)}`
+    }
+
+    if (args.offset) {
+        if (!clause && dialect === 'sqlite') {
+            clause += ' LIMIT -1'
+        } else if (!clause && dialect === 'mysql') {
+            clause += ' LIMIT 18446744073709551615'
+        }
+
+        clause += ` OFFSET ${Math.max(0, args.offset)}`
+    }
+
+    return clause
+}
+
+function buildSelectQuery(
+    table: GraphTable,
+    args: Args,
+    dialect: SqlDialect,
+    condition?: { sql: string; params: unknown[] }
+): { sql: string; params: unknown[] } {
+    const where = buildWhereClause(args.where, dialect)
+    const conditions = [condition?.sql, where.sql].filter(Boolean)
+    const columns = table.columns.map((column) => column.name).join(', ')
+
+    return {
+        sql:
+            `SELECT ${columns} FROM ${table.sqlName}` +
+            (conditions.length ? ` WHERE ${conditions.join(' AND ')}` : '') +
+            buildOrderClause(args.order_by),
+        params: [...(condition?.params ?? []), ...where.params],
+    }
+}
+
+/**
+ * Loads the rows related to a value of a parent row. Siblings resolved in the same tick
+ * are loaded together with `IN`, instead of a query per parent row.
+ */
+function loadRelated(
+    context: GraphQLContext,
+    relationship: Relationship,
+    args: Args,
+    value: unknown
+): Promise<Row[]> {
+    const { target, targetColumn } = relationship
+    const key = `${target.sqlName}.${targetColumn}:${JSON.stringify(args)}`
+    let batch = context.batches.get(key)
+
+    if (!batch) {
+        const values: unknown[] = []
+
+        batch = {
+            values,
+            rows: Promise.resolve().then(async () => {
+                context.batches.delete(key)
+
+                const groups = new Map<string, Row[]>()
+                const unique = [...new Set(values)]
+
+                for (let i = 0; i < unique.length; i += BATCH_SIZE) {
+                    const chunk = unique.slice(i, i + BATCH_SIZE)
+                    const { sql, params } = buildSelectQuery(
+                        target,
+                        args,
+                        context.dialect,
+                        {
+                            sql: `${targetColumn} IN (${chunk.map(() => '?').join(', ')})`,
+                            params: chunk,
+                        }
+                    )
+
+                    for (const row of await context.query(sql, params)) {
+                        const group = String(row[targetColumn])
+                        groups.set(group, [...(groups.get(group) ?? []), row])
+                    }
+                }
+
+                return groups
+            }),
+        }
+
+        context.batches.set(key, batch)
+    }
+
+    batch.values.push(value)
+    return batch.rows.then((groups) => groups.get(String(value)) ?? [])
+}
+
+// Runs an INSERT, UPDATE or DELETE, returning the written rows where `RETURNING` exists
+async function executeMutation(
+    context: GraphQLContext,
+    table: GraphTable,
+    sql: string,
+    params: unknown[]
+): Promise<{ affected_rows: number; returning?: Row[] }> {
+    if (context.dialect === 'mysql') {
+        await context.query(sql, params)
+        const [row] = await context.query('SELECT ROW_COUNT() AS affected', [])
+        return { affected_rows: Number(row?.affected ?? 0) }
+    }
+
+    const columns = table.columns.map((column) => column.name).join(', ')
+    const returning = await context.query(`${sql} RETURNING ${columns}`, params)
+
+    return { affected_rows: returning.length, returning }
+}
+
+async function insertRows(
+    context: GraphQLContext,
+    table: GraphTable,
+    objects: Args[]
+) {
+    // Rows are inserted with one statement for each set of columns they provide, so
+    // omitted columns keep their defaults.
+    const groups = new Map<string, Args[]>()
+    const result = { affected_rows: 0, returning: [] as Row[] | undefined }
+
+    for (const object of objects) {
+        const key = Object.keys(object).join(',')
+        groups.set(key, [...(groups.get(key) ?? []), object])
+    }
+
+    for (const [key, rows] of groups) {
+        const columns = key ? key.split(',') : []
+        let sql: string
+
+        if (!columns.length) {
+            sql =
+                context.dialect === 'mysql'
+                    ? `INSERT INTO ${table.sqlName} () VALUES ${rows.map(() => '()').join(', ')}`
+                    : `INSERT INTO ${table.sqlName} DEFAULT VALUES`
+        } else {
+            const values = rows
+                .map(() => `(${columns.map(() => '?').join(', ')})`)
+                .join(', ')
+            sql = `INSERT INTO ${table.sqlName} (${columns.join(', ')}) VALUES ${values}`
+        }
+
+        // Without a column to bind, SQLite and Postgres insert one row per statement
+        const statements =
+            columns.length || context.dialect === 'mysql' ? 1 : rows.length
+        const params = rows.flatMap((row) =>
+            columns.map((column) => toParam(row[column], context.dialect))
+        )
+
+        for (let i = 0; i < statements; i++) {
+            const written = await executeMutation(context, table, sql, params)
+
+            result.affected_rows += written.affected_rows
+            result.returning = written.returning
+                ? [...(result.returning ?? []), ...written.returning]
+                : undefined
+        }
+    }
+
+    return result
+}
+
+function buildTables(
+    tables: TableSchema[],
+    foreignKeys: ForeignKey[],
+    dialect: SqlDialect
+): GraphTable[] {
+    const graphTables = new Map<string, GraphTable>()
+    const typeNames = new Set(RESERVED_TYPES)
+
+    for (const table of tables) {
+        // Tables outside of the default schema are prefixed with their schema
+        const name =
+            dialect === 'postgresql' && table.schema !== 'public'
+                ? `${table.schema}_${table.name}`
+                : table.name
+        const columns = table.columns.filter(
+            (column) =>
+                NAME_PATTERN.test(column.name) && !column.name.startsWith('__')
+        )
+
+        if (
+            !NAME_PATTERN.test(table.schema) ||
+            !NAME_PATTERN.test(name) ||
+            name.startsWith('__') ||
+            !columns.length ||
+            TYPE_SUFFIXES.some((suffix) => typeNames.has(name + suffix))
+        ) {
+            continue
+        }
+
+        TYPE_SUFFIXES.forEach((suffix) => typeNames.add(name + suffix))
+
+        graphTables.set(`${table.schema}.${table.name}`, {
+            name,
+            sqlName:
+                dialect === 'postgresql'
+                    ? `${table.schema}.${table.name}`
+                    : table.name,
+            columns,
+            primaryKey: columns
+                .filter((column) => column.primaryKey)
+                .map((column) => column.name),
+            relationships: [],
+        })
+    }
+
+    const addRelationship = (
+        table: GraphTable,
+        relationship: Omit<Relationship, 'name'>,
+        name: string
+    ) => {
+        const taken = (candidate: string) =>
+            table.columns.some((column) => column.name === candidate) ||
+            table.relationships.some((other) => other.name === candidate)
+
+        if (taken(name)) {
+            name = `${relationship.target.name}_by_${relationship.many ? relationship.targetColumn : relationship.column}`
+        }
+
+        if (!taken(name)) {
+            table.relationships.push({ ...relationship, name })
+        }
+    }
+
+    for (const key of foreignKeys) {
+        const table = graphTables.get(`${key.schema}.${key.table}`)
+        const target = graphTables.get(
+            `${key.referencedSchema}.${key.referencedTable}`
+        )
+        const has = (graphTable: GraphTable, column: string) =>
+            graphTable.columns.some((candidate) => candidate.name === column)
+
+        if (
+            !table ||
+            !target ||
+            !has(table, key.column) ||
+            !has(target, key.referencedColumn)
+        ) {
+            continue
+        }
+
+        // `author_id` relates to the `author`, otherwise to the referenced table
+        addRelationship(
+            table,
+            {
+                column: key.column,
+                target,
+                targetColumn: key.referencedColumn,
+                many: false,
+            },
+            key.column.endsWith('_id') && key.column.length > 3
+                ? key.column.slice(0, -3)
+                : target.name
+        )
+        addRelationship(
+            target,
+            {
+                column: key.referencedColumn,
+                target: table,
+                targetColumn: key.column,
+                many: true,
+            },
+            table.name
+        )
+    }
+
+    return [...graphTables.values()]
+}
+
+function listArgs(table: GraphTable): GraphQLFieldConfigArgumentMap {
+    return {
+        where: { type: table.filter! },
+        order_by: {
+            type: new GraphQLList(new GraphQLNonNull(table.orderBy!)),
+        },
+        limit: { type: GraphQLInt },
+        offset: { type: GraphQLInt },
+    }
+}
+
+/**
+ * Builds the GraphQL schema of the tables of a data source. Every table has a list and a
+ * `_by_pk` query, `insert_`, `update_` and `delete_` mutations, and fields for the rows
+ * it references and the rows referencing it through foreign keys.
+ *
+ * @param opts.tables - Tables with their columns, see `getTableSchemas`.
+ * @param opts.foreignKeys - Single column foreign keys between the tables.
+ * @param opts.dialect - Dialect the statements of the resolvers are written for.
+ */
+export function buildGraphQLSchema(opts: {
+    tables: TableSchema[]
+    foreignKeys: ForeignKey[]
+    dialect: SqlDialect
+}): GraphQLSchema {
+    const tables = buildTables(opts.tables, opts.foreignKeys, opts.dialect)
+    const queryFields: Record<string, GraphQLFieldConfig<any, any>> = {}
+    const mutationFields: Record<string, GraphQLFieldConfig<any, any>> = {}
+
+    for (const table of tables) {
+        table.filter = new GraphQLInputObjectType({
+            name: `${table.name}_filter`,
+            fields: () => {
+                const fields: GraphQLInputFieldConfigMap = {
+                    and: {
+                        type: new GraphQLList(
+                            new GraphQLNonNull(table.filter!)
+                        ),
+                    },
+                    or: {
+                        type: new GraphQLList(
+                            new GraphQLNonNull(table.filter!)
+                        ),
+                    },
+                    not: { type: table.filter! },
+                }
+
+                for (const column of table.columns) {
+                    fields[column.name] = {
+                        type: getComparisonType(toGraphQLScalar(column.type)),
+                    }
+                }
+
+                return fields
+            },
+        })
+
+        table.orderBy = new GraphQLInputObjectType({
+            name: `${table.name}_order_by`,
+            fields: Object.fromEntries(
+                table.columns.map((column) => [
+                    column.name,
+                    { type: OrderDirection },
+                ])
+            ),
+        })
+
+        table.type = new GraphQLObjectType({
+            name: table.name,
+            fields: () => {
+                const fields: Record<string, GraphQLFieldConfig<Row, any>> = {}
+
+                for (const column of table.columns) {
+                    const scalar = toGraphQLScalar(column.type)
+
+                    fields[column.name] = {
+                        type: column.nullable
+                            ? scalar
+                            : new GraphQLNonNull(scalar),
+                    }
+                }
+
+                for (const relationship of table.relationships) {
+                    fields[relationship.name] = relationship.many
+                        ? {
+                              type: new GraphQLNonNull(
+                                  new GraphQLList(
+                                      new GraphQLNonNull(
+                                          relationship.target.type!
+                                      )
+                                  )
+                              ),
+                              args: listArgs(relationship.target),
+                              resolve: async (row, args, context) => {
+                                  const { limit, offset = 0, ...filter } = args
+
+                                  if (row[relationship.column] == null) {
+                                      return []
+                                  }
+
+                                  const rows = await loadRelated(
+                                      context,
+                                      relationship,
+                                      filter,
+                                      row[relationship.column]
+                                  )
+
+                                  return rows.slice(
+                                      Math.max(0, offset),
+                                      limit === undefined || limit === null
+                                          ? undefined
+                                          : Math.max(0, offset) +
+                                                Math.max(0, limit)
+                                  )
+                              },
+                          }
+                        : {
+                              type: relationship.target.type!,
+                              resolve: async (row, _args, context) => {
+                                  if (row[relationship.column] == null) {
+                                      return null
+                                  }
+
+                                  const [related] = await loadRelated(
+                                      context,
+                                      relationship,
+                                      {},
+                                      row[relationship.column]
+                                  )
+
+                                  return related ?? null
+                              },
+                          }
+                }
+
+                return fields
+            },
+        })
+    }
+
+    for (const table of tables) {
+        const type = table.type!
+        const inputFields = Object.fromEntries(
+            table.columns.map((column) => [
+                column.name,
+                { type: toGraphQLScalar(column.type) as GraphQLInputType },
+            ])
+        )
+        const response = new GraphQLObjectType({
+            name: `${table.name}_mutation_response`,
+            fields: {
+                affected_rows: { type: new GraphQLNonNull(GraphQLInt) },
+                returning: {
+                    type: new GraphQLNonNull(
+                        new GraphQLList(new GraphQLNonNull(type))
+                    ),
+                    resolve: (result) => {
+                        if (!result.returning) {
+                            throw new GraphQLError(
+                                'Returning rows is not supported on MySQL.'
+                            )
+                        }
+
+                        return result.returning
+                    },
+                },
+            },
+        })
+
+        queryFields[table.name] = {
+            type: new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(type))),
+            args: listArgs(table),
+            resolve: (_source, args, context: GraphQLContext) => {
+                const { sql, params } = buildSelectQuery(
+                    table,
+                    args,
+                    context.dialect
+                )
+
+                return context.query(
+                    sql + buildLimitClause(args, context.dialect),
+                    params
+                )
+            },
+        }
+
+        if (table.primaryKey.length) {
+            queryFields[`${table.name}_by_pk`] = {
+                type,
+                args: Object.fromEntries(
+                    table.columns
+                        .filter((column) => column.primaryKey)
+                        .map((column) => [
+                            column.name,
+                            {
+                                type: new GraphQLNonNull(
+                                    toGraphQLScalar(column.type)
+                                ),
+                            },
+                        ])
+                ),
+                resolve: async (_source, args, context: GraphQLContext) => {
+                    const { sql, params } = buildSelectQuery(
+                        table,
+                        {
+                            where: Object.fromEntries(
+                                table.primaryKey.map((column) => [
+                                    column,
+                                    { eq: args[column] },
+                                ])
+                            ),
+                        },
+                        context.dialect
+                    )
+                    const [row] = await context.query(`${sql} LIMIT 1`, params)
+
+                    return row ?? null
+                },
+            }
+        }
+
+        mutationFields[`insert_${table.name}`] = {
+            type: new GraphQLNonNull(response),
+            args: {
+                objects: {
+                    type: new GraphQLNonNull(
+                        new GraphQLList(
+                            new GraphQLNonNull(
+                                new GraphQLInputObjectType({
+                                    name: `${table.name}_insert_input`,
+                                    fields: inputFields,
+                                })
+                            )
+                        )
+                    ),
+                },
+            },
+            resolve: (_source, args, context: GraphQLContext) =>
+                insertRows(context, table, args.objects),
+        }
+
+        mutationFields[`update_${table.name}`] = {
+            type: new GraphQLNonNull(response),
+            args: {
+                where: { type: new GraphQLNonNull(table.filter!) },
+                _set: {
+                    type: new GraphQLNonNull(
+                        new GraphQLInputObjectType({
+                            name: `${table.name}_set_input`,
+                            fields: inputFields,
+                        })
+                    ),
+                },
+            },
+            resolve: (_source, args, context: GraphQLContext) => {
+                const columns = Object.keys(args._set)
+
+                if (!columns.length) {
+                    throw new GraphQLError('No columns provided to update.')
+                }
+
+                const where = buildWhereClause(args.where, context.dialect)
+
+                return executeMutation(
+                    context,
+                    table,
+                    `UPDATE ${table.sqlName} SET ${columns.map((column) => `${column} = ?`).join(', ')}` +
+                        (where.sql ? ` WHERE ${where.sql}` : ''),
+                    [
+                        ...columns.map((column) =>
+                            toParam(args._set[column], context.dialect)
+                        ),
+                        ...where.params,
+                    ]
+                )
+            },
+        }
+
+        mutationFields[`delete_${table.name}`] = {
+            type: new GraphQLNonNull(response),
+            args: { where: { type: new GraphQLNonNull(table.filter!) } },
+            resolve: (_source, args, context: GraphQLContext) => {
+                const where = buildWhereClause(args.where, context.dialect)
+
+                return executeMutation(
+                    context,
+                    table,
+                    `DELETE FROM ${table.sqlName}` +
+                        (where.sql ? ` WHERE ${where.sql}` : ''),
+                    where.params
+                )
+            },
+        }
+    }
+
+    // A schema needs at least one query field, even for a database without tables
+    if (!tables.length) {
+        queryFields._empty = { type: GraphQLBoolean, resolve: () => null }
+    }
+
+    return new GraphQLSchema({
+        query: new GraphQLObjectType({ name: 'Query', fields: queryFields }),
+        mutation: tables.length
+            ? new GraphQLObjectType({
+                  name: 'Mutation',
+                  fields: mutationFields,
+              })
+            : undefined,
+    })
+}
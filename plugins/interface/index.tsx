@@ -98,6 +98,11 @@ export class InterfacePlugin extends StarbasePlugin {
                 return c.render(<div id="root" data-client="template"></div>)
             }
         )
+
+        // Interactive documentation of the API, built from `/openapi.json`.
+        this.registerRoute(app, { path: '/docs', page: 'docs' }, (c) => {
+            return c.render(<div id="root" data-client="docs"></div>)
+        })
     }
 
     public get supportedRoutes(): string[] {
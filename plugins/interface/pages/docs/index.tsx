@@ -0,0 +1,104 @@
+import { StrictMode, useEffect, useState } from 'hono/jsx'
+import { hydrateRoot } from 'hono/jsx/dom/client'
+
+import '../../public/global.css'
+import { Button } from '@interface/components/button/Button'
+import { Input } from '@interface/components/input/Input'
+
+// Swagger UI is loaded from a CDN rather than bundled with every deployment.
+const SWAGGER_UI_URL = 'https://unpkg.com/swagger-ui-dist@5'
+// The token is kept for the browser session so reloading the page keeps it.
+const TOKEN_STORAGE_KEY = 'starbasedb:docs-token'
+
+declare global {
+    interface Window {
+        SwaggerUIBundle?: (options: Record<string, unknown>) => unknown
+    }
+}
+
+const root = document.querySelector('#root[data-client="docs"]') as HTMLElement
+
+if (root) {
+    hydrateRoot(
+        root,
+        <StrictMode>
+            <Docs />
+        </StrictMode>
+    )
+}
+
+function loadSwaggerUI(): Promise<void> {
+    if (window.SwaggerUIBundle) {
+        return Promise.resolve()
+    }
+
+    const stylesheet = document.createElement('link')
+    stylesheet.rel = 'stylesheet'
+    stylesheet.href = `${SWAGGER_UI_URL}/swagger-ui.css`
+    document.head.appendChild(stylesheet)
+
+    return new Promise((resolve, reject) => {
+        const script = document.createElement('script')
+        script.src = `${SWAGGER_UI_URL}/swagger-ui-bundle.js`
+        script.onload = () => resolve()
+        script.onerror = () => reject(new Error('Failed to load Swagger UI.'))
+        document.head.appendChild(script)
+    })
+}
+
+function Docs() {
+    const [token, setToken] = useState(
+        sessionStorage.getItem(TOKEN_STORAGE_KEY) ?? ''
+    )
+    const [activeToken, setActiveToken] = useState(token)
+    const [error, setError] = useState<string>()
+
+    useEffect(() => {
+        if (!activeToken) return
+
+        sessionStorage.setItem(TOKEN_STORAGE_KEY, activeToken)
+        loadSwaggerUI()
+            .then(() => {
+                // The specification and every request sent from the page are
+                // authenticated with the token.
+                window.SwaggerUIBundle?.({
+                    url: '/openapi.json',
+                    dom_id: '#swagger-ui',
+                    requestInterceptor: (request: {
+                        headers: Record<string, string>
+                    }) => {
+                        request.headers.Authorization = `Bearer ${activeToken}`
+                        return request
+                    },
+                })
+                setError(undefined)
+            })
+            .catch((error: Error) => setError(error.message))
+    }, [activeToken])
+
+    return (
+        <section class="flex flex-col gap-4 p-6">
+            <h1 class="text-ob-base-300 text-xl">StarbaseDB API</h1>
+
+            <div class="flex max-w-xl gap-2">
+                <Input
+                    className="flex-1"
+                    type="password"
+                    placeholder="Authorization token"
+                    initialValue={token}
+                    onValueChange={(value) => setToken(value)}
+                />
+                <Button
+                    variant="primary"
+                    onClick={() => setActiveToken(token.trim())}
+                >
+                    Load
+                </Button>
+            </div>
+
+            {error && <p class="text-ob-destructive">{error}</p>}
+
+            <div id="swagger-ui" class="bg-white" />
+        </section>
+    )
+}
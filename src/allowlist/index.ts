@@ -1,5 +1,6 @@
 import { StarbaseDBConfiguration } from '../handler'
 import { DataSource, QueryResult } from '../types'
+import { getSourceName } from '../data-source'
 
 const parser = new (require('node-sql-parser').Parser)()
 
@@ -16,12 +17,15 @@ function normalizeSQL(sql: string) {
 
 async function loadAllowlist(dataSource: DataSource): Promise<string[]> {
     try {
-        const statement = `SELECT sql_statement, source FROM tmp_allowlist_queries WHERE source="${dataSource.source}"`
+        const source = getSourceName(dataSource)
+        const statement =
+            'SELECT sql_statement, source FROM tmp_allowlist_queries WHERE source = ?'
         const result = (await dataSource.rpc.executeQuery({
             sql: statement,
+            params: [source],
         })) as QueryResult[]
         return result
-            .filter((row) => row.source === dataSource.source)
+            .filter((row) => row.source === source)
             .map((row) => String(row.sql_statement))
     } catch (error) {
         console.error('Error loading allowlist:', error)
@@ -38,7 +42,7 @@ async function addRejectedQuery(
             'INSERT INTO tmp_allowlist_rejections (sql_statement, source) VALUES (?, ?)'
         const result = (await dataSource.rpc.executeQuery({
             sql: statement,
-            params: [query, dataSource.source],
+            params: [query, getSourceName(dataSource)],
         })) as QueryResult[]
         return result.map((row) => String(row.sql_statement))
     } catch (error) {
@@ -97,6 +97,24 @@ describe('Cache Module', () => {
 
             expect(result).toBeNull()
         })
+
+        it('should look up queries of a named source under its own key', async () => {
+            mockDataSource.sourceName = 'analytics'
+            vi.mocked(mockDataSource.rpc.executeQuery).mockResolvedValue(
+                [] as any
+            )
+
+            await beforeQueryCache({
+                sql: 'SELECT * FROM users',
+                params: [],
+                dataSource: mockDataSource,
+            })
+
+            expect(mockDataSource.rpc.executeQuery).toHaveBeenCalledWith({
+                sql: expect.stringContaining('FROM tmp_cache'),
+                params: ['/* analytics */ SELECT * FROM users'],
+            })
+        })
     })
 
     describe('afterQueryCache', () => {
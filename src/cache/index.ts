@@ -1,5 +1,6 @@
 import { StarbaseDBConfiguration } from '../handler'
 import { DataSource, QueryResult } from '../types'
+import { getSourceName } from '../data-source'
 import sqlparser from 'node-sql-parser'
 const parser = new sqlparser.Parser()
 
@@ -28,6 +29,13 @@ export function hasModifyingStatement(ast: any): boolean {
     return false
 }
 
+// Cached results are stored by query, queries made against a named data source are
+// prefixed with its name so sources never share each other's results.
+function getCacheKey(sql: string, dataSource: DataSource): string {
+    const source = getSourceName(dataSource)
+    return source === 'external' ? sql : `/* ${source} */ ${sql}`
+}
+
 export async function beforeQueryCache(opts: {
     sql: string
     params?: unknown[]
@@ -64,7 +72,7 @@ export async function beforeQueryCache(opts: {
 
     const result = (await dataSource.rpc.executeQuery({
         sql: fetchCacheStatement,
-        params: [sql],
+        params: [getCacheKey(sql, dataSource)],
     })) as any[]
 
     if (result?.length) {
@@ -114,20 +122,21 @@ export async function afterQueryCache(opts: {
 
         const timestamp = Date.now()
         const results = JSON.stringify(result)
+        const key = getCacheKey(sql, dataSource)
 
         const exists = (await dataSource.rpc.executeQuery({
             sql: 'SELECT 1 FROM tmp_cache WHERE query = ? LIMIT 1',
-            params: [sql],
+            params: [key],
         })) as QueryResult[]
 
         const query = exists?.length
             ? {
                   sql: 'UPDATE tmp_cache SET timestamp = ?, results = ? WHERE query = ?',
-                  params: [timestamp, results, sql],
+                  params: [timestamp, results, key],
               }
             : {
                   sql: 'INSERT INTO tmp_cache (timestamp, ttl, query, results) VALUES (?, ?, ?, ?)',
-                  params: [timestamp, dataSource.cacheTTL ?? 60, sql, results],
+                  params: [timestamp, dataSource.cacheTTL ?? 60, key, results],
               }
 
         await dataSource.rpc.executeQuery({
@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import {
+    getConnection,
+    closeConnection,
+    closeRequestConnections,
+} from './index'
+import type { DataSource } from '../types'
+
+const mockConnections = vi.hoisted(() => [] as any[])
+
+vi.mock('@outerbase/sdk', () => {
+    const createConnection = vi.fn(() => {
+        const connection = {
+            connect: vi.fn().mockResolvedValue(undefined),
+            disconnect: vi.fn().mockResolvedValue(undefined),
+            raw: vi.fn().mockResolvedValue({ data: [] }),
+        }
+        mockConnections.push(connection)
+        return connection
+    })
+
+    return {
+        PostgreSQLConnection: createConnection,
+        MySQLConnection: createConnection,
+        TursoConnection: createConnection,
+        CloudflareD1Connection: createConnection,
+        StarbaseConnection: createConnection,
+    }
+})
+
+vi.mock('pg', () => ({
+    Client: vi.fn(() => ({ on: vi.fn() })),
+}))
+
+vi.mock('mysql2', () => ({
+    createConnection: vi.fn(() => ({ on: vi.fn() })),
+}))
+
+vi.mock('@libsql/client/web', () => ({
+    createClient: vi.fn(() => ({})),
+}))
+
+function createDataSource(external: DataSource['external']): DataSource {
+    return {
+        source: 'external',
+        external,
+        rpc: {} as any,
+    }
+}
+
+const postgres = {
+    dialect: 'postgresql',
+    host: 'localhost',
+    port: 5432,
+    user: 'postgres',
+    password: 'secret',
+    database: 'app',
+} as const
+
+const turso = {
+    dialect: 'sqlite',
+    provider: 'turso',
+    uri: 'libsql://app.turso.io',
+    token: 'token',
+} as const
+
+beforeEach(() => {
+    vi.clearAllMocks()
+    mockConnections.length = 0
+})
+
+afterEach(() => {
+    vi.useRealTimers()
+})
+
+describe('Connection Pool', () => {
+    it('should reuse one connection for repeated queries on a data source', async () => {
+        const dataSource = createDataSource(postgres)
+
+        const [first, second] = await Promise.all([
+            getConnection(dataSource),
+            getConnection(dataSource),
+        ])
+        const third = await getConnection(dataSource)
+
+        expect(mockConnections).toHaveLength(1)
+        expect(first).toBe(second)
+        expect(first).toBe(third)
+        expect(first.connect).toHaveBeenCalledTimes(1)
+    })
+
+    it('should scope Postgres connections to the request', async () => {
+        const first = await getConnection(createDataSource(postgres))
+        const second = await getConnection(createDataSource(postgres))
+
+        expect(first).not.toBe(second)
+    })
+
+    it('should close the Postgres connections of a request once it is answered', async () => {
+        const dataSource = createDataSource(postgres)
+        const postgresConnection = await getConnection(dataSource)
+        const tursoConnection = await getConnection(createDataSource(turso))
+
+        await closeRequestConnections(dataSource)
+
+        expect(postgresConnection.disconnect).toHaveBeenCalled()
+        expect(tursoConnection.disconnect).not.toHaveBeenCalled()
+        await expect(getConnection(dataSource)).resolves.not.toBe(
+            postgresConnection
+        )
+        await closeConnection(createDataSource(turso))
+    })
+
+    it('should share HTTP provider connections across requests', async () => {
+        const first = await getConnection(createDataSource(turso))
+        const second = await getConnection(createDataSource(turso))
+
+        expect(first).toBe(second)
+        await closeConnection(createDataSource(turso))
+    })
+
+    it('should reconnect after a failed connection attempt', async () => {
+        const dataSource = createDataSource(postgres)
+        const pending = getConnection(dataSource)
+        await vi.waitFor(() => expect(mockConnections).toHaveLength(1))
+
+        mockConnections[0].connect.mockRejectedValueOnce(
+            new Error('Connection refused')
+        )
+
+        await expect(pending).rejects.toThrow('Connection refused')
+        expect(mockConnections[0].disconnect).toHaveBeenCalled()
+
+        const connection = await getConnection(dataSource)
+
+        expect(connection).toBe(mockConnections[1])
+    })
+
+    it('should open a new connection after closing the current one', async () => {
+        const dataSource = createDataSource(postgres)
+        const first = await getConnection(dataSource)
+
+        await closeConnection(dataSource)
+        const second = await getConnection(dataSource)
+
+        expect(first.disconnect).toHaveBeenCalled()
+        expect(second).not.toBe(first)
+    })
+
+    it('should close connections that have been idle', async () => {
+        vi.useFakeTimers()
+        const dataSource = createDataSource(turso)
+        const connection = await getConnection(dataSource)
+
+        await vi.advanceTimersByTimeAsync(30_000)
+        expect(connection.disconnect).not.toHaveBeenCalled()
+
+        await vi.advanceTimersByTimeAsync(30_000)
+        expect(connection.disconnect).toHaveBeenCalled()
+    })
+})
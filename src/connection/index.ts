@@ -0,0 +1,307 @@
+// Import the native Node libraries for connecting to various databases
+import { Client as PgClient } from 'pg'
+import { createConnection as createMySqlConnection } from 'mysql2'
+import { createClient as createTursoConnection } from '@libsql/client/web'
+
+// Import how we interact with the databases through the Outerbase SDK
+import {
+    CloudflareD1Connection,
+    MySQLConnection,
+    PostgreSQLConnection,
+    StarbaseConnection,
+    TursoConnection,
+} from '@outerbase/sdk'
+import type { SqlConnection } from '@outerbase/sdk/dist/connections/sql-base'
+import {
+    CloudflareD1Source,
+    DataSource,
+    ExternalDatabaseSource,
+    RemoteSource,
+    StarbaseDBSource,
+    TursoDBSource,
+} from '../types'
+
+export type ConnectionDetails = {
+    database: SqlConnection
+    defaultSchema: string
+}
+
+type PooledConnection = {
+    // Shared by concurrent callers so a connection is only established once
+    ready: Promise<SqlConnection>
+    timer?: ReturnType<typeof setTimeout>
+}
+
+// Connections that have not been used for this long are closed
+const IDLE_TIMEOUT = 60_000
+
+// Postgres and MySQL hold a TCP socket which Cloudflare Workers only allows the request
+// that opened it to use, so those connections are pooled per request (`DataSource`) and
+// closed by `closeRequestConnections` once it is answered. Pooling across requests for
+// them is what Hyperdrive is for, see `connectionString`.
+// The remaining providers talk over HTTP and can be reused for the life of the isolate.
+const isolateScope = {}
+const pools = new WeakMap<object, Map<string, PooledConnection>>()
+
+function getPool(
+    dataSource: DataSource,
+    external: ExternalDatabaseSource
+): Map<string, PooledConnection> {
+    const scope =
+        external.dialect === 'postgresql' || external.dialect === 'mysql'
+            ? dataSource
+            : isolateScope
+
+    let pool = pools.get(scope)
+    if (!pool) {
+        pool = new Map()
+        pools.set(scope, pool)
+    }
+
+    return pool
+}
+
+function getConnectionKey(external: ExternalDatabaseSource): string {
+    return JSON.stringify(external)
+}
+
+async function createSDKPostgresConnection(
+    source: RemoteSource,
+    onError: () => void
+): Promise<ConnectionDetails> {
+    const pgClient = new PgClient(
+        source.connectionString
+            ? { connectionString: source.connectionString }
+            : {
+                  host: source.host,
+                  port: source.port,
+                  user: source.user,
+                  password: source.password,
+                  database: source.database,
+              }
+    )
+
+    // An idle client emits connection errors which would otherwise go unhandled.
+    pgClient.on('error', onError)
+
+    return {
+        database: new PostgreSQLConnection(pgClient),
+        defaultSchema: source.defaultSchema || 'public',
+    }
+}
+
+async function createSDKMySQLConnection(
+    source: RemoteSource,
+    onError: () => void
+): Promise<ConnectionDetails> {
+    const mysqlConnection = source.connectionString
+        ? createMySqlConnection(source.connectionString)
+        : createMySqlConnection({
+              host: source.host,
+              port: source.port,
+              user: source.user,
+              password: source.password,
+              database: source.database,
+          })
+
+    mysqlConnection.on('error', onError)
+
+    return {
+        database: new MySQLConnection(mysqlConnection),
+        defaultSchema: source.defaultSchema || 'public',
+    }
+}
+
+async function createSDKTursoConnection(
+    source: TursoDBSource
+): Promise<ConnectionDetails> {
+    const client = new TursoConnection(
+        createTursoConnection({
+            url: source.uri,
+            authToken: source.token,
+        })
+    )
+
+    return {
+        database: client,
+        defaultSchema: source.defaultSchema || 'main',
+    }
+}
+
+async function createSDKCloudflareConnection(
+    source: CloudflareD1Source
+): Promise<ConnectionDetails> {
+    const client = new CloudflareD1Connection({
+        apiKey: source.apiKey,
+        accountId: source.accountId,
+        databaseId: source.databaseId,
+    })
+
+    return {
+        database: client,
+        defaultSchema: source.defaultSchema || 'main',
+    }
+}
+
+async function createSDKStarbaseConnection(
+    source: StarbaseDBSource
+): Promise<ConnectionDetails> {
+    const client = new StarbaseConnection({
+        apiKey: source.apiKey,
+        url: source.token,
+    })
+
+    return {
+        database: client,
+        defaultSchema: source.defaultSchema || 'main',
+    }
+}
+
+async function createSDKConnection(
+    external: ExternalDatabaseSource,
+    onError: () => void
+): Promise<ConnectionDetails> {
+    if (external.dialect === 'postgresql') {
+        return createSDKPostgresConnection(external, onError)
+    } else if (external.dialect === 'mysql') {
+        return createSDKMySQLConnection(external, onError)
+    } else if (external.provider === 'cloudflare-d1') {
+        return createSDKCloudflareConnection(external)
+    } else if (external.provider === 'starbase') {
+        return createSDKStarbaseConnection(external)
+    } else if (external.provider === 'turso') {
+        return createSDKTursoConnection(external)
+    }
+
+    throw new Error('Unsupported external database type')
+}
+
+async function openConnection(
+    external: ExternalDatabaseSource,
+    onError: () => void
+): Promise<SqlConnection> {
+    const { database } = await createSDKConnection(external, onError)
+
+    try {
+        await database.connect()
+    } catch (error) {
+        await database.disconnect().catch(() => {})
+        throw error
+    }
+
+    return database
+}
+
+async function evictConnection(
+    pool: Map<string, PooledConnection>,
+    key: string,
+    pooled?: PooledConnection
+): Promise<void> {
+    // A connection that was already replaced by a newer one is left alone.
+    if (!pooled || pool.get(key) !== pooled) {
+        return
+    }
+
+    pool.delete(key)
+    clearTimeout(pooled.timer)
+
+    try {
+        // Connections that failed to open were already closed by `openConnection`.
+        const connection = await pooled.ready.catch(() => undefined)
+        await connection?.disconnect()
+    } catch (error) {
+        console.error('Error closing external connection:', error)
+    }
+}
+
+/**
+ * Returns an open connection to the external database of a data source, reusing a
+ * previous one when possible. Connections close themselves after being idle.
+ *
+ * @param dataSource - The data source whose external database to connect to.
+ * @returns The connected SDK connection.
+ */
+export async function getConnection(
+    dataSource: DataSource
+): Promise<SqlConnection> {
+    const external = dataSource.external
+
+    if (!external) {
+        throw new Error('External connection not found.')
+    }
+
+    const pool = getPool(dataSource, external)
+    const key = getConnectionKey(external)
+    let pooled = pool.get(key)
+
+    if (!pooled) {
+        const entry: PooledConnection = {
+            ready: openConnection(external, () =>
+                evictConnection(pool, key, entry)
+            ),
+        }
+
+        pooled = entry
+        pool.set(key, entry)
+    }
+
+    let connection: SqlConnection
+
+    try {
+        connection = await pooled.ready
+    } catch (error) {
+        // Drop the failed connection so the next query attempts to reconnect.
+        await evictConnection(pool, key, pooled)
+        throw error
+    }
+
+    const entry = pooled
+    clearTimeout(entry.timer)
+    entry.timer = setTimeout(
+        () => evictConnection(pool, key, entry),
+        IDLE_TIMEOUT
+    )
+
+    return connection
+}
+
+/**
+ * Closes and forgets the pooled connection of a data source, if there is one. The
+ * next query made through the data source opens a new connection.
+ *
+ * @param dataSource - The data source whose external connection to close.
+ */
+export async function closeConnection(dataSource: DataSource): Promise<void> {
+    const external = dataSource.external
+
+    if (!external) {
+        return
+    }
+
+    const pool = getPool(dataSource, external)
+    const key = getConnectionKey(external)
+
+    await evictConnection(pool, key, pool.get(key))
+}
+
+/**
+ * Closes the Postgres and MySQL connections opened for a request, which no other
+ * request is allowed to use. Called once the response of the request is ready.
+ *
+ * @param dataSource - The data source of the request.
+ */
+export async function closeRequestConnections(
+    dataSource: DataSource
+): Promise<void> {
+    const pool = pools.get(dataSource)
+
+    if (!pool) {
+        return
+    }
+
+    await Promise.all(
+        [...pool.entries()].map(([key, pooled]) =>
+            evictConnection(pool, key, pooled)
+        )
+    )
+}
@@ -2,7 +2,9 @@ export const corsHeaders = {
     'Access-Control-Allow-Origin': '*',
     'Access-Control-Allow-Methods': 'GET, POST, PATCH, PUT, DELETE, OPTIONS',
     'Access-Control-Allow-Headers':
-        'Authorization, Content-Type, X-Starbase-Source, X-Data-Source',
+        'Authorization, Content-Type, X-Starbase-Source, X-Starbase-Transaction, X-Starbase-Database, X-Starbase-Bookmark, X-Data-Source, Prefer',
+    'Access-Control-Expose-Headers':
+        'X-Starbase-Bookmark, X-Starbase-Affected-Rows, X-Starbase-Next-Cursor, Content-Range',
     'Access-Control-Max-Age': '86400',
 } as const
 
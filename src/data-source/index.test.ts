@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { getSourceName, loadDataSource, parseDataSources } from './index'
+import type { DataSource } from '../types'
+
+const analytics = {
+    dialect: 'sqlite',
+    provider: 'turso',
+    uri: 'libsql://analytics.turso.io',
+    token: 'token',
+} as const
+
+let mockDataSource: DataSource
+
+beforeEach(() => {
+    vi.clearAllMocks()
+
+    mockDataSource = {
+        source: 'external',
+        rpc: {
+            executeQuery: vi.fn(),
+        },
+    } as any
+})
+
+describe('parseDataSources', () => {
+    it('should return no sources when the variable is not set', () => {
+        expect(parseDataSources(undefined)).toEqual({})
+    })
+
+    it('should accept a JSON string or an object', () => {
+        expect(parseDataSources(JSON.stringify({ analytics }))).toEqual({
+            analytics,
+        })
+        expect(parseDataSources({ analytics })).toEqual({ analytics })
+    })
+
+    it('should reject values that are not an object of sources', () => {
+        expect(() => parseDataSources('{')).toThrow(
+            'EXTERNAL_DB_SOURCES is not valid JSON.'
+        )
+        expect(() => parseDataSources('[]')).toThrow(
+            'EXTERNAL_DB_SOURCES must be an object of named data sources.'
+        )
+    })
+})
+
+describe('loadDataSource', () => {
+    it('should prefer sources configured through the environment', async () => {
+        const source = await loadDataSource({
+            name: 'analytics',
+            registry: { analytics },
+            dataSource: mockDataSource,
+        })
+
+        expect(source).toEqual(analytics)
+        expect(mockDataSource.rpc.executeQuery).not.toHaveBeenCalled()
+    })
+
+    it('should fall back to the tmp_data_sources table', async () => {
+        vi.mocked(mockDataSource.rpc.executeQuery).mockResolvedValue([
+            { config: JSON.stringify(analytics) },
+        ] as any)
+
+        const source = await loadDataSource({
+            name: 'analytics',
+            registry: {},
+            dataSource: mockDataSource,
+        })
+
+        expect(source).toEqual(analytics)
+        expect(mockDataSource.rpc.executeQuery).toHaveBeenCalledWith({
+            sql: 'SELECT "config" FROM tmp_data_sources WHERE "name" = ?',
+            params: ['analytics'],
+        })
+    })
+
+    it('should throw when the source does not exist', async () => {
+        vi.mocked(mockDataSource.rpc.executeQuery).mockResolvedValue([] as any)
+
+        await expect(
+            loadDataSource({
+                name: 'missing',
+                registry: {},
+                dataSource: mockDataSource,
+            })
+        ).rejects.toThrow("Data source 'missing' does not exist.")
+    })
+})
+
+describe('getSourceName', () => {
+    it('should use the registered name of named sources', () => {
+        expect(getSourceName(mockDataSource)).toBe('external')
+
+        mockDataSource.sourceName = 'analytics'
+        expect(getSourceName(mockDataSource)).toBe('analytics')
+    })
+})
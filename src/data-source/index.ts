@@ -0,0 +1,84 @@
+import { DataSource, ExternalDatabaseSource, QueryResult } from '../types'
+
+export type DataSourceRegistry = Record<string, ExternalDatabaseSource>
+
+/**
+ * Reads the registry of named external data sources from the `EXTERNAL_DB_SOURCES`
+ * environment variable, which maps each source name to its connection details.
+ * Wrangler passes JSON `[vars]` as objects and secrets as strings, both are accepted.
+ *
+ * @param value - The raw value of the environment variable.
+ * @returns The named data sources, empty when none are configured.
+ */
+export function parseDataSources(
+    value?: string | DataSourceRegistry
+): DataSourceRegistry {
+    if (!value) {
+        return {}
+    }
+
+    let sources: unknown = value
+
+    if (typeof value === 'string') {
+        try {
+            sources = JSON.parse(value)
+        } catch (error) {
+            throw new Error('EXTERNAL_DB_SOURCES is not valid JSON.')
+        }
+    }
+
+    if (!sources || typeof sources !== 'object' || Array.isArray(sources)) {
+        throw new Error(
+            'EXTERNAL_DB_SOURCES must be an object of named data sources.'
+        )
+    }
+
+    return sources as DataSourceRegistry
+}
+
+/**
+ * Finds a named external data source, first in the sources configured through the
+ * environment and otherwise in the `tmp_data_sources` table of the internal database.
+ *
+ * @param opts.name - Name of the data source, as sent in `X-Starbase-Source`.
+ * @param opts.registry - Data sources configured through the environment.
+ * @param opts.dataSource - The data source used to reach the internal database.
+ * @returns The connection details of the data source.
+ */
+export async function loadDataSource(opts: {
+    name: string
+    registry: DataSourceRegistry
+    dataSource: DataSource
+}): Promise<ExternalDatabaseSource> {
+    const { name, registry, dataSource } = opts
+
+    if (Object.prototype.hasOwnProperty.call(registry, name)) {
+        return registry[name]
+    }
+
+    const result = (await dataSource.rpc.executeQuery({
+        sql: 'SELECT "config" FROM tmp_data_sources WHERE "name" = ?',
+        params: [name],
+    })) as QueryResult[]
+
+    if (!result?.length) {
+        throw new Error(`Data source '${name}' does not exist.`)
+    }
+
+    try {
+        return JSON.parse(String(result[0].config))
+    } catch (error) {
+        throw new Error(`Data source '${name}' has an invalid configuration.`)
+    }
+}
+
+/**
+ * The name that features storing state per data source, such as the cache, allowlist
+ * and RLS policies, use to tell data sources apart.
+ *
+ * @param dataSource - The data source of the request.
+ * @returns The registered name, or `internal` / `external` for the default sources.
+ */
+export function getSourceName(dataSource: DataSource): string {
+    return dataSource.sourceName ?? dataSource.source
+}
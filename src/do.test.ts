@@ -74,6 +74,9 @@ const mockStorage = {
             rowsWritten: 1,
         }),
     },
+    transactionSync: vi.fn((closure: () => any) => closure()),
+    getCurrentBookmark: vi.fn().mockResolvedValue('0000-current'),
+    getBookmarkForTime: vi.fn().mockResolvedValue('0000-past'),
 }
 
 const mockDurableObjectState = {
@@ -81,7 +84,18 @@ const mockDurableObjectState = {
     getTags: vi.fn().mockReturnValue(['session-123']),
 } as any
 
-const mockEnv = {} as any
+const mockReplica = {
+    syncReplica: vi.fn(),
+    getReplicationChanges: vi.fn(),
+    getReplicationSnapshot: vi.fn(),
+}
+
+const mockEnv = {
+    DATABASE_DURABLE_OBJECT: {
+        idFromName: vi.fn((name: string) => name),
+        get: vi.fn(() => mockReplica),
+    },
+} as any
 
 let instance: StarbaseDBDurableObject
 
@@ -118,6 +132,357 @@ describe('StarbaseDBDurableObject Tests', () => {
         expect(result.length).toBe(2)
     })
 
+    it('should run a transaction atomically and report the failing statement', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {})
+
+        mockStorage.sql.exec
+            .mockImplementationOnce(() => ({
+                toArray: vi.fn().mockReturnValue([]),
+            }))
+            .mockImplementationOnce(() => {
+                throw new Error('no such table: missing')
+            })
+
+        await expect(
+            instance.executeTransaction(
+                [
+                    { sql: 'INSERT INTO orders VALUES (1)' },
+                    { sql: 'INSERT INTO missing VALUES (1)' },
+                ],
+                false
+            )
+        ).rejects.toThrow(
+            'Transaction failed at statement 1: no such table: missing'
+        )
+        expect(mockStorage.transactionSync).toHaveBeenCalledTimes(1)
+    })
+
+    it('should write interactive statements right away and keep them on commit', async () => {
+        const { transactionId } = await instance.beginTransaction({
+            owner: 'admin',
+        })
+
+        expect(mockStorage.sql.exec).toHaveBeenCalledWith(
+            expect.stringContaining(
+                'CREATE TABLE IF NOT EXISTS tmp_transaction_undo'
+            )
+        )
+
+        vi.clearAllMocks()
+        await instance.executeTransactionQuery({
+            transactionId,
+            sql: 'UPDATE accounts SET balance = balance - 10 WHERE id = ?',
+            params: [1],
+        })
+        await instance.executeTransactionQuery({
+            transactionId,
+            sql: 'SELECT balance FROM accounts WHERE id = ?',
+            params: [1],
+        })
+
+        // Earlier statements are not executed again
+        expect(mockStorage.sql.exec).toHaveBeenCalledTimes(2)
+
+        vi.clearAllMocks()
+        await instance.commitTransaction(transactionId)
+
+        expect(mockStorage.sql.exec).toHaveBeenCalledWith(
+            'DROP TABLE IF EXISTS tmp_transaction_undo'
+        )
+        await expect(
+            instance.rollbackTransaction(transactionId)
+        ).rejects.toThrow('does not exist or has expired')
+    })
+
+    it('should restore the rows written by a rolled back transaction', async () => {
+        const { transactionId } = await instance.beginTransaction({
+            owner: 'admin',
+        })
+        const exec = mockStorage.sql.exec.getMockImplementation()!
+        const result = (rows: Record<string, unknown>[]) => ({
+            columnNames: [],
+            raw: vi.fn().mockReturnValue([]),
+            toArray: vi.fn().mockReturnValue(rows),
+            rowsRead: rows.length,
+            rowsWritten: 0,
+        })
+        mockStorage.sql.exec.mockImplementation((sql: string) => {
+            if (sql.includes(`"name" = 'tmp_transaction_undo'`)) {
+                return result([{ 1: 1 }])
+            }
+            if (sql.includes(`"type" = 'trigger'`)) {
+                return result(
+                    sql.includes('LIKE')
+                        ? []
+                        : [{ name: 'audit', sql: 'CREATE TRIGGER audit ...' }]
+                )
+            }
+            if (sql.includes('FROM tmp_transaction_undo')) {
+                return result([
+                    { statement: 'DELETE FROM "accounts" WHERE rowid = 2' },
+                    { statement: 'UPDATE OR REPLACE "accounts" SET ...' },
+                ])
+            }
+            return result([])
+        })
+
+        try {
+            vi.clearAllMocks()
+            await instance.rollbackTransaction(transactionId)
+        } finally {
+            mockStorage.sql.exec.mockImplementation(exec)
+        }
+
+        const statements = mockStorage.sql.exec.mock.calls.map(
+            ([sql]) => sql as string
+        )
+        expect(statements.filter((sql) => !/^\s*SELECT/.test(sql))).toEqual([
+            'PRAGMA defer_foreign_keys = ON',
+            'DELETE FROM "accounts" WHERE rowid = 2',
+            'UPDATE OR REPLACE "accounts" SET ...',
+            'CREATE TRIGGER audit ...',
+            'DROP TABLE tmp_transaction_undo',
+        ])
+    })
+
+    it('should hold back other callers until the transaction closes', async () => {
+        const { transactionId } = await instance.beginTransaction({
+            owner: 'admin',
+        })
+
+        const settled: string[] = []
+        const read = instance
+            .executeQuery({ sql: 'SELECT * FROM accounts' })
+            .then(() => settled.push('read'))
+        const write = instance
+            .executeQuery({ sql: 'DELETE FROM accounts' })
+            .then(() => settled.push('write'))
+
+        // The caller owning the transaction is not held back
+        await instance.executeQuery({ sql: 'SELECT 1' }, transactionId)
+
+        await new Promise((resolve) => setTimeout(resolve, 0))
+        expect(settled).toEqual([])
+
+        await instance.rollbackTransaction(transactionId)
+        await Promise.all([read, write])
+
+        expect(settled).toEqual(['read', 'write'])
+    })
+
+    it('should allow a caller one interactive transaction at a time', async () => {
+        const { transactionId } = await instance.beginTransaction({
+            owner: 'jwt:user-1',
+        })
+
+        await expect(
+            instance.beginTransaction({ owner: 'jwt:user-1' })
+        ).rejects.toThrow(
+            'An interactive transaction is already open or waiting for this caller.'
+        )
+
+        const next = instance.beginTransaction({ owner: 'jwt:user-2' })
+        await instance.commitTransaction(transactionId)
+
+        await expect(next).resolves.toHaveProperty('transactionId')
+    })
+
+    it('should refuse statements an interactive transaction cannot roll back', async () => {
+        const { transactionId } = await instance.beginTransaction({
+            owner: 'admin',
+        })
+
+        await expect(
+            instance.executeTransactionQuery({
+                transactionId,
+                sql: 'DROP TABLE accounts',
+            })
+        ).rejects.toThrow(
+            'Interactive transactions only run single statements that read or write rows.'
+        )
+        await expect(
+            instance.executeTransactionQuery({
+                transactionId,
+                sql: 'INSERT OR REPLACE INTO accounts (id) VALUES (1)',
+            })
+        ).rejects.toThrow(
+            'Interactive transactions do not run statements that resolve conflicts with REPLACE.'
+        )
+    })
+
+    it('should roll back an interactive transaction after its timeout', async () => {
+        vi.useFakeTimers()
+
+        const { transactionId } = await instance.beginTransaction({
+            owner: 'admin',
+            timeout: 5000,
+        })
+        vi.advanceTimersByTime(5000)
+
+        await expect(instance.commitTransaction(transactionId)).rejects.toThrow(
+            'does not exist or has expired'
+        )
+
+        vi.useRealTimers()
+    })
+
+    it('should stream query results as newline delimited JSON', async () => {
+        mockStorage.sql.exec.mockReturnValueOnce({
+            columnNames: ['id', 'name'],
+            raw: vi.fn().mockReturnValue(
+                [
+                    [1, 'Alice'],
+                    [2, 'Bob'],
+                ][Symbol.iterator]()
+            ),
+            rowsRead: 2,
+            rowsWritten: 0,
+        })
+
+        const stream = await instance.executeQueryStream({
+            sql: 'SELECT * FROM users',
+            isRaw: true,
+        })
+
+        const reader = stream.getReader()
+        const decoder = new TextDecoder()
+        let text = ''
+
+        for (let chunk = await reader.read(); !chunk.done; ) {
+            text += decoder.decode(chunk.value)
+            chunk = await reader.read()
+        }
+
+        expect(text).toBe(
+            '{"columns":["id","name"]}\n' +
+                '[1,"Alice"]\n' +
+                '[2,"Bob"]\n' +
+                '{"meta":{"rows_read":2,"rows_written":0}}\n'
+        )
+    })
+
+    it('should log the rows writes produced for read replicas and notify them', async () => {
+        instance.init({ replicaRegions: ['weur'] })
+        vi.clearAllMocks()
+
+        const captured = `INSERT OR REPLACE INTO "users" (rowid, "id", "name") VALUES (3, 3, 'Alice')`
+        const exec = mockStorage.sql.exec.getMockImplementation()!
+        mockStorage.sql.exec.mockImplementation((sql: string, ...params) =>
+            sql.includes('FROM tmp_replication_rows')
+                ? {
+                      columnNames: ['statement'],
+                      raw: vi.fn().mockReturnValue([[captured]]),
+                      toArray: vi
+                          .fn()
+                          .mockReturnValue([{ statement: captured }]),
+                      rowsRead: 1,
+                      rowsWritten: 0,
+                  }
+                : exec(sql, ...params)
+        )
+
+        try {
+            await instance.executeQuery({
+                sql: 'INSERT INTO users (name) VALUES (?)',
+                params: ['Alice'],
+            })
+        } finally {
+            mockStorage.sql.exec.mockImplementation(exec)
+        }
+
+        expect(mockStorage.sql.exec).toHaveBeenCalledWith(
+            'INSERT INTO tmp_replication_log ("id", "statements") VALUES (?, ?)',
+            expect.any(String),
+            JSON.stringify([{ sql: captured }])
+        )
+        expect(mockStorage.sql.exec).toHaveBeenCalledWith(
+            'DELETE FROM tmp_replication_rows'
+        )
+        expect(mockEnv.DATABASE_DURABLE_OBJECT.idFromName).toHaveBeenCalledWith(
+            'replica:weur:sql-durable-object'
+        )
+        expect(mockReplica.syncReplica).toHaveBeenCalledWith({
+            database: undefined,
+            region: 'weur',
+        })
+    })
+
+    it('should not log changes while replication is disabled', async () => {
+        await instance.executeQuery({
+            sql: 'INSERT INTO users (name) VALUES (?)',
+            params: ['Alice'],
+        })
+
+        expect(mockStorage.sql.exec).toHaveBeenCalledTimes(1)
+        expect(mockReplica.syncReplica).not.toHaveBeenCalled()
+    })
+
+    it('should refuse writes on a read replica', async () => {
+        await expect(
+            instance.executeReplicaQuery({
+                sql: 'DELETE FROM users',
+                region: 'weur',
+            })
+        ).rejects.toThrow('Read replicas only execute read-only queries.')
+    })
+
+    it('should start over from a snapshot when the primary history changed', async () => {
+        const exec = mockStorage.sql.exec.getMockImplementation()!
+        mockStorage.sql.exec.mockImplementation((sql: string) => ({
+            columnNames: [],
+            raw: vi.fn().mockReturnValue([]),
+            toArray: vi
+                .fn()
+                .mockReturnValue(
+                    sql.includes('FROM tmp_replica_state')
+                        ? [{ sequence: 5, change_id: 'before-restore' }]
+                        : []
+                ),
+            rowsRead: 0,
+            rowsWritten: 0,
+        }))
+        // The primary was restored to a point in time before the replica's last change.
+        mockReplica.getReplicationChanges
+            .mockResolvedValueOnce([
+                { sequence: 5, id: 'after-restore', statements: [] },
+            ])
+            .mockResolvedValueOnce([
+                { sequence: 3, id: 'restored', statements: [] },
+            ])
+        mockReplica.getReplicationSnapshot.mockResolvedValue({
+            sequence: 3,
+            id: 'restored',
+            statements: [{ sql: 'CREATE TABLE users (id INTEGER)' }],
+        })
+
+        try {
+            await instance.syncReplica({ region: 'weur' })
+        } finally {
+            mockStorage.sql.exec.mockImplementation(exec)
+        }
+
+        expect(mockReplica.getReplicationSnapshot).toHaveBeenCalledTimes(1)
+        expect(mockStorage.sql.exec).toHaveBeenCalledWith(
+            'CREATE TABLE users (id INTEGER)'
+        )
+        expect(mockReplica.getReplicationChanges).toHaveBeenLastCalledWith({
+            after: 3,
+            region: 'weur',
+        })
+    })
+
+    it('should return point-in-time recovery bookmarks', async () => {
+        await expect(instance.getRecoveryBookmark()).resolves.toBe(
+            '0000-current'
+        )
+        await expect(instance.getRecoveryBookmark(1704067200000)).resolves.toBe(
+            '0000-past'
+        )
+        expect(mockStorage.getBookmarkForTime).toHaveBeenCalledWith(
+            1704067200000
+        )
+    })
+
     it('should handle WebSocket connections', async () => {
         const response = await instance.clientConnected('session-123')
 
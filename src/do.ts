@@ -1,4 +1,75 @@
 import { DurableObject } from 'cloudflare:workers'
+import { TransactionError } from './utils'
+import {
+    CAPTURE_TRIGGER_PREFIX,
+    CapturedTable,
+    getCaptureTriggers,
+    getReplicaStub,
+    getUndoTriggers,
+    isReadOnlyQuery,
+    isRowChange,
+    quoteIdentifier,
+    UNDO_TRIGGER_PREFIX,
+} from './replication'
+import { getDatabaseStub } from './tenant'
+
+type QueryOptions = {
+    sql: string
+    params?: unknown[]
+    isRaw?: boolean
+}
+
+type Statement = { sql: string; params?: unknown[] }
+
+// Statements logged by a primary in a single storage transaction. The random `id`
+// tells entries apart that reuse a sequence number after a point-in-time restore.
+type ReplicationChange = {
+    sequence: number
+    id: string
+    statements: Statement[]
+}
+
+type QueryResultSet =
+    | Record<string, SqlStorageValue>[]
+    | {
+          columns: string[]
+          rows: SqlStorageValue[][]
+          meta: { rows_read: number; rows_written: number }
+      }
+
+type InteractiveTransaction = {
+    id: string
+    // Caller that opened the transaction, see `beginTransaction`
+    owner: string
+    // Changes for read replicas, only logged once the transaction commits
+    changes: Statement[]
+    expiresAt: number
+    timer: ReturnType<typeof setTimeout>
+    // Resolves once the transaction has been committed or rolled back
+    closed: Promise<void>
+    close: () => void
+}
+
+// Number of rows encoded into each chunk of a streamed query result
+const STREAM_BATCH_SIZE = 500
+
+// Default and maximum lifetime of an interactive transaction before it is rolled back
+const TRANSACTION_TIMEOUT = 30_000
+const TRANSACTION_MAX_TIMEOUT = 300_000
+
+// Most requests that may wait for an interactive transaction to close at a time
+const TRANSACTION_QUEUE_LIMIT = 100
+
+// Maximum number of change log entries shipped to a read replica per call
+const REPLICATION_BATCH_SIZE = 500
+
+// Whether a statement modified the database and has to be shipped to read replicas.
+function isChange(
+    statement: Statement,
+    cursor: SqlStorageCursor<Record<string, SqlStorageValue>>
+): boolean {
+    return cursor.rowsWritten > 0 || !isReadOnlyQuery(statement.sql)
+}
 
 export class StarbaseDBDurableObject extends DurableObject {
     // Durable storage for the SQL database
@@ -9,6 +80,25 @@ export class StarbaseDBDurableObject extends DurableObject {
     public connections = new Map<string, WebSocket>()
     // Store the client auth token for requests back to our Worker
     private clientAuthToken: string
+    // Interactive transaction currently holding the database, if any
+    private activeTransaction?: InteractiveTransaction
+    // Requests waiting for the interactive transaction to close
+    private transactionQueue = 0
+    // Callers with an interactive transaction open or waiting to open one
+    private transactionOwners = new Set<string>()
+    // Name of the tenant database this instance holds, unset for the default database
+    private databaseName?: string
+    // Durable Object namespace, used to reach the primary and replicas of this database
+    private databases: Env['DATABASE_DURABLE_OBJECT']
+    // Regions with a read replica of this database, changes are only logged when set
+    private replicaRegions: string[] = []
+    // Pending notification of the replicas, and whether another one is needed after it
+    private replicaNotification?: Promise<void>
+    private replicaNotificationQueued = false
+    // Catch-up of this instance with its primary, when it is a read replica
+    private replicaSync?: Promise<void>
+    // Whether the capture of written rows was removed since replication is disabled
+    private replicationDisabled = false
 
     /**
      * The constructor is invoked once upon creation of the Durable Object, i.e. the first call to
@@ -22,6 +112,7 @@ export class StarbaseDBDurableObject extends DurableObject {
         this.clientAuthToken = env.CLIENT_AUTHORIZATION_TOKEN
         this.sql = ctx.storage.sql
         this.storage = ctx.storage
+        this.databases = env.DATABASE_DURABLE_OBJECT
 
         // Install default necessary `tmp_` tables for various features here.
         const cacheStatement = `
@@ -56,22 +147,170 @@ export class StarbaseDBDurableObject extends DurableObject {
             "column" TEXT NOT NULL,
             "value" TEXT NOT NULL,
             "value_type" TEXT NOT NULL DEFAULT 'string',
-            "operator" TEXT DEFAULT '='
+            "operator" TEXT DEFAULT '=',
+            "source" TEXT,
+            "role" TEXT
+        )`
+
+        const rlsExpressionStatement = `
+        CREATE TABLE IF NOT EXISTS tmp_rls_expression_policies (
+            "id" INTEGER PRIMARY KEY AUTOINCREMENT,
+            "actions" TEXT NOT NULL CHECK(actions IN ('SELECT', 'UPDATE', 'INSERT', 'DELETE')),
+            "schema" TEXT,
+            "table" TEXT NOT NULL,
+            "using_expression" TEXT,
+            "check_expression" TEXT,
+            "source" TEXT,
+            "role" TEXT,
+            CHECK("using_expression" IS NOT NULL OR "check_expression" IS NOT NULL)
+        )`
+
+        const rolesStatement = `
+        CREATE TABLE IF NOT EXISTS tmp_roles (
+            "name" TEXT PRIMARY KEY,
+            "description" TEXT
+        )`
+
+        const grantsStatement = `
+        CREATE TABLE IF NOT EXISTS tmp_grants (
+            "id" INTEGER PRIMARY KEY AUTOINCREMENT,
+            "role" TEXT NOT NULL REFERENCES tmp_roles("name") ON DELETE CASCADE,
+            "actions" TEXT NOT NULL CHECK(actions IN ('SELECT', 'UPDATE', 'INSERT', 'DELETE')),
+            "schema" TEXT,
+            "table" TEXT NOT NULL,
+            "column" TEXT,
+            "source" TEXT,
+            CHECK("column" IS NULL OR "actions" <> 'DELETE')
+        )`
+
+        const maskingStatement = `
+        CREATE TABLE IF NOT EXISTS tmp_masking_policies (
+            "id" INTEGER PRIMARY KEY AUTOINCREMENT,
+            "table" TEXT NOT NULL,
+            "column" TEXT NOT NULL,
+            "mask" TEXT NOT NULL CHECK(mask IN ('partial', 'hash', 'null')),
+            "role" TEXT,
+            "exempt_claim" TEXT,
+            "source" TEXT
+        )`
+
+        const dataSourcesStatement = `
+        CREATE TABLE IF NOT EXISTS tmp_data_sources (
+            "name" TEXT PRIMARY KEY,
+            "config" TEXT NOT NULL
+        )`
+
+        const databasesStatement = `
+        CREATE TABLE IF NOT EXISTS tmp_databases (
+            "name" TEXT PRIMARY KEY,
+            "created_at" TEXT DEFAULT (datetime('now'))
+        )`
+
+        const migrationsStatement = `
+        CREATE TABLE IF NOT EXISTS tmp_migrations (
+            "id" INTEGER PRIMARY KEY AUTOINCREMENT,
+            "source" TEXT NOT NULL,
+            "version" TEXT NOT NULL,
+            "checksum" TEXT NOT NULL,
+            "down" TEXT,
+            "applied_at" TEXT DEFAULT (datetime('now')),
+            UNIQUE ("source", "version")
+        )`
+
+        const restFunctionsStatement = `
+        CREATE TABLE IF NOT EXISTS tmp_rest_functions (
+            "id" INTEGER PRIMARY KEY AUTOINCREMENT,
+            "name" TEXT NOT NULL,
+            "sql" TEXT NOT NULL,
+            "arguments" TEXT NOT NULL DEFAULT '[]',
+            "source" TEXT,
+            UNIQUE ("name", "source")
         )`
 
         this.executeQuery({ sql: cacheStatement })
         this.executeQuery({ sql: allowlistStatement })
         this.executeQuery({ sql: allowlistRejectedStatement })
         this.executeQuery({ sql: rlsStatement })
+        this.executeQuery({ sql: rlsExpressionStatement })
+        this.executeQuery({ sql: rolesStatement })
+        this.executeQuery({ sql: grantsStatement })
+        this.executeQuery({ sql: maskingStatement })
+        this.executeQuery({ sql: dataSourcesStatement })
+        this.executeQuery({ sql: databasesStatement })
+        this.executeQuery({ sql: migrationsStatement })
+        this.executeQuery({ sql: restFunctionsStatement })
+
+        // Policies can be scoped to a named data source and to a role, tables created
+        // before that was possible gain the columns here.
+        const policyColumns: [string, string][] = [
+            ['tmp_rls_policies', 'source'],
+            ['tmp_rls_policies', 'role'],
+            ['tmp_rls_expression_policies', 'role'],
+        ]
+        for (const [table, name] of policyColumns) {
+            const columns = this.executeRawQuery({
+                sql: `PRAGMA table_info(${table})`,
+            }).toArray()
+            if (!columns.some((column) => column.name === name)) {
+                this.executeRawQuery({
+                    sql: `ALTER TABLE ${table} ADD COLUMN "${name}" TEXT`,
+                })
+            }
+        }
+
+        // An interactive transaction left open when this instance stopped never commits.
+        this.rollBackUndoLog()
     }
 
-    init() {
+    /**
+     * Creates the RPC surface used by the Worker for a single request.
+     *
+     * @param opts.transactionId - Interactive transaction owned by the request, its
+     * queries do not wait for that transaction to close.
+     * @param opts.database - Name of the tenant database the request was routed to.
+     * @param opts.replicaRegions - Regions with a read replica of this database.
+     */
+    init(opts?: {
+        transactionId?: string
+        database?: string
+        replicaRegions?: string[]
+    }) {
+        const transactionId = opts?.transactionId
+
+        // Remembered so that alarms, which run without a request, can call back
+        // into the Worker for the same tenant database.
+        if (opts?.database && opts.database !== this.databaseName) {
+            this.databaseName = opts.database
+            this.storage.put('database', opts.database)
+        }
+
+        if (opts?.replicaRegions?.length) {
+            this.enableReplication(opts.replicaRegions)
+        } else if (opts?.replicaRegions) {
+            this.disableReplication()
+        }
+
         return {
             getAlarm: this.getAlarm.bind(this),
             setAlarm: this.setAlarm.bind(this),
             deleteAlarm: this.deleteAlarm.bind(this),
             getStatistics: this.getStatistics.bind(this),
-            executeQuery: this.executeQuery.bind(this),
+            getBookmark: this.getBookmark.bind(this),
+            getRecoveryBookmark: this.getRecoveryBookmark.bind(this),
+            restoreRecoveryBookmark: this.restoreRecoveryBookmark.bind(this),
+            restart: this.restart.bind(this),
+            executeQuery: (query: QueryOptions) =>
+                this.executeQuery(query, transactionId),
+            executeTransaction: (
+                queries: { sql: string; params?: unknown[] }[],
+                isRaw: boolean
+            ) => this.executeTransaction(queries, isRaw, transactionId),
+            executeQueryStream: (query: QueryOptions) =>
+                this.executeQueryStream(query, transactionId),
+            beginTransaction: this.beginTransaction.bind(this),
+            executeTransactionQuery: this.executeTransactionQuery.bind(this),
+            commitTransaction: this.commitTransaction.bind(this),
+            rollbackTransaction: this.rollbackTransaction.bind(this),
         }
     }
 
@@ -118,11 +357,18 @@ export class StarbaseDBDurableObject extends DurableObject {
 
             try {
                 const firstTask = task[0]
+                const database =
+                    this.databaseName ??
+                    (await this.storage.get<string>('database'))
+
                 await fetch(`${firstTask.callback_host}/cron/callback`, {
                     method: 'POST',
                     headers: {
                         Authorization: `Bearer ${this.clientAuthToken}`,
                         'Content-Type': 'application/json',
+                        ...(database
+                            ? { 'X-Starbase-Database': database }
+                            : {}),
                     },
                     body: JSON.stringify(task ?? []),
                 })
@@ -148,6 +394,57 @@ export class StarbaseDBDurableObject extends DurableObject {
         }
     }
 
+    /**
+     * Permanently removes every table, row and alarm of this database. Used when a
+     * tenant database is deleted.
+     */
+    public async deleteDatabase(): Promise<void> {
+        await Promise.all(
+            this.replicaRegions.map((region) =>
+                getReplicaStub(this.databases, {
+                    name: this.databaseName,
+                    region,
+                }).deleteDatabase()
+            )
+        )
+
+        await this.storage.deleteAlarm()
+        await this.storage.deleteAll()
+        this.databaseName = undefined
+        this.replicaRegions = []
+    }
+
+    /**
+     * Returns a point-in-time recovery bookmark of this database, for its current state
+     * or for its state at a moment within the last 30 days.
+     *
+     * @param at - Unix timestamp in milliseconds, the current state if omitted.
+     */
+    public async getRecoveryBookmark(at?: number): Promise<string> {
+        return at === undefined
+            ? this.storage.getCurrentBookmark()
+            : this.storage.getBookmarkForTime(at)
+    }
+
+    /**
+     * Restores this database to a point-in-time recovery bookmark. The restore only takes
+     * effect once the Durable Object restarts, see `restart`.
+     *
+     * @param bookmark - Bookmark returned by `getRecoveryBookmark`.
+     * @returns A bookmark of the current state, which undoes the restore.
+     */
+    public async restoreRecoveryBookmark(bookmark: string): Promise<string> {
+        return this.storage.onNextSessionRestoreBookmark(bookmark)
+    }
+
+    /**
+     * Resets the Durable Object, which fails any call in progress, including this one.
+     * The next request starts a new instance.
+     */
+    public async restart(): Promise<void> {
+        this.ctx.abort('Restarting to restore a point-in-time bookmark.')
+    }
+
     public async getStatistics(): Promise<{
         databaseSize: number
         activeConnections: number
@@ -260,7 +557,7 @@ export class StarbaseDBDurableObject extends DurableObject {
         }
     }
 
-    private async executeRawQuery<
+    private executeRawQuery<
         T extends Record<string, SqlStorageValue> = Record<
             string,
             SqlStorageValue
@@ -284,14 +581,11 @@ export class StarbaseDBDurableObject extends DurableObject {
         }
     }
 
-    public async executeQuery(opts: {
-        sql: string
-        params?: unknown[]
+    private formatQueryResult(
+        cursor: SqlStorageCursor<Record<string, SqlStorageValue>>,
         isRaw?: boolean
-    }) {
-        const cursor = await this.executeRawQuery(opts)
-
-        if (opts.isRaw) {
+    ): QueryResultSet {
+        if (isRaw) {
             return {
                 columns: cursor.columnNames,
                 rows: Array.from(cursor.raw()),
@@ -305,23 +599,915 @@ export class StarbaseDBDurableObject extends DurableObject {
         return cursor.toArray()
     }
 
+    /**
+     * Waits for any interactive transaction other than the caller's own to close. Its
+     * rows are written as it goes, so other requests neither read nor write meanwhile.
+     */
+    private async waitForTransaction(transactionId?: string) {
+        while (
+            this.activeTransaction &&
+            this.activeTransaction.id !== transactionId
+        ) {
+            if (this.transactionQueue >= TRANSACTION_QUEUE_LIMIT) {
+                throw new Error(
+                    'Too many requests are waiting for an interactive transaction to close.'
+                )
+            }
+
+            this.transactionQueue++
+
+            try {
+                await this.activeTransaction.closed
+            } finally {
+                this.transactionQueue--
+            }
+        }
+    }
+
+    // Runs a unit of work right away unless it has to wait for a transaction to close.
+    private async withTransactionLock<T>(
+        work: () => T,
+        transactionId?: string
+    ): Promise<T> {
+        if (
+            this.activeTransaction &&
+            this.activeTransaction.id !== transactionId
+        ) {
+            await this.waitForTransaction(transactionId)
+        }
+
+        return work()
+    }
+
+    public async executeQuery(opts: QueryOptions, transactionId?: string) {
+        return this.withTransactionLock(() => {
+            const cursor = this.executeRawQuery(opts)
+            const result = this.formatQueryResult(cursor, opts.isRaw)
+            this.logChanges(this.getChanges(opts, cursor))
+
+            return result
+        }, transactionId)
+    }
+
     public async executeTransaction(
         queries: { sql: string; params?: unknown[] }[],
-        isRaw: boolean
-    ): Promise<any[]> {
-        const results = []
-
+        isRaw: boolean,
+        transactionId?: string
+    ) {
         try {
-            for (const queryObj of queries) {
-                const { sql, params } = queryObj
-                const result = await this.executeQuery({ sql, params, isRaw })
-                results.push(result)
-            }
+            return await this.withTransactionLock(() => {
+                const changes: Statement[] = []
+
+                // All statements share a single storage transaction, if any one of them
+                // throws then every statement before it is rolled back as well.
+                return this.storage.transactionSync(() => {
+                    const results = queries.map((queryObj, index) => {
+                        try {
+                            const cursor = this.executeRawQuery(queryObj)
+                            const result = this.formatQueryResult(cursor, isRaw)
+                            changes.push(...this.getChanges(queryObj, cursor))
 
-            return results
+                            return result
+                        } catch (error: any) {
+                            throw new TransactionError(
+                                index,
+                                error?.message ?? String(error)
+                            )
+                        }
+                    })
+
+                    this.logChanges(changes)
+                    return results
+                })
+            }, transactionId)
         } catch (error) {
             console.error('Transaction Execution Error:', error)
             throw error
         }
     }
+
+    /**
+     * Streams the results of a query as newline delimited JSON, reading rows from the
+     * cursor in batches as the client consumes them instead of buffering them all. Raw
+     * results start with a `{"columns":[...]}` line, followed by one array per row and
+     * a closing `{"meta":{...}}` line. Otherwise each line is a row object.
+     */
+    public async executeQueryStream(
+        opts: QueryOptions,
+        transactionId?: string
+    ): Promise<ReadableStream<Uint8Array>> {
+        await this.waitForTransaction(transactionId)
+
+        const cursor = this.executeRawQuery(opts)
+        let rows: Iterator<unknown> = opts.isRaw
+            ? cursor.raw()
+            : cursor[Symbol.iterator]()
+
+        // The rows a statement writes are only known once it has been read to the end,
+        // so statements that may write are read up front for their rows to be logged.
+        if (!isReadOnlyQuery(opts.sql)) {
+            const buffered: unknown[] = []
+
+            for (let row = rows.next(); !row.done; row = rows.next()) {
+                buffered.push(row.value)
+            }
+
+            rows = buffered.values()
+            this.logChanges(this.getChanges(opts, cursor))
+        }
+
+        const encoder = new TextEncoder()
+        let chunk = opts.isRaw
+            ? JSON.stringify({ columns: cursor.columnNames }) + '\n'
+            : ''
+
+        return new ReadableStream<Uint8Array>({
+            pull: (controller) => {
+                for (let count = 0; count < STREAM_BATCH_SIZE; count++) {
+                    const { done, value } = rows.next()
+
+                    if (done) {
+                        if (opts.isRaw) {
+                            chunk += JSON.stringify({
+                                meta: {
+                                    rows_read: cursor.rowsRead,
+                                    rows_written: cursor.rowsWritten,
+                                },
+                            })
+                            chunk += '\n'
+                        }
+
+                        if (chunk) {
+                            controller.enqueue(encoder.encode(chunk))
+                        }
+
+                        controller.close()
+                        return
+                    }
+
+                    chunk += JSON.stringify(value) + '\n'
+                }
+
+                controller.enqueue(encoder.encode(chunk))
+                chunk = ''
+            },
+        })
+    }
+
+    /**
+     * Opens an interactive transaction that spans multiple requests. Only one can be open
+     * at a time, so callers queue behind the active one until it closes. A caller can
+     * only have one transaction open or queued.
+     *
+     * @param opts.owner - Identifies the caller opening the transaction.
+     * @param opts.timeout - Milliseconds before the transaction is automatically rolled back.
+     * @returns The transaction identifier and the time at which it expires.
+     */
+    public async beginTransaction(opts: { owner: string; timeout?: number }) {
+        if (this.transactionOwners.has(opts.owner)) {
+            throw new Error(
+                'An interactive transaction is already open or waiting for this caller.'
+            )
+        }
+
+        this.transactionOwners.add(opts.owner)
+
+        try {
+            await this.waitForTransaction()
+            this.storage.transactionSync(() => this.startUndoLog())
+        } catch (error) {
+            this.transactionOwners.delete(opts.owner)
+            throw error
+        }
+
+        const id = crypto.randomUUID()
+        const timeout = Math.min(
+            Math.max(opts.timeout ?? TRANSACTION_TIMEOUT, 1000),
+            TRANSACTION_MAX_TIMEOUT
+        )
+
+        let close: () => void = () => {}
+        const closed = new Promise<void>((resolve) => (close = resolve))
+
+        this.activeTransaction = {
+            id,
+            owner: opts.owner,
+            changes: [],
+            expiresAt: Date.now() + timeout,
+            timer: setTimeout(() => this.closeTransaction(id), timeout),
+            closed,
+            close,
+        }
+
+        return {
+            transactionId: id,
+            expiresAt: this.activeTransaction.expiresAt,
+        }
+    }
+
+    /**
+     * Executes a statement within an interactive transaction. Its rows are written right
+     * away, while the triggers of `startUndoLog` record how to restore them should the
+     * transaction roll back. Statements that change the schema cannot be rolled back
+     * this way and are refused, as are replacements: the rows they delete to resolve a
+     * conflict do not run delete triggers.
+     */
+    public async executeTransactionQuery(
+        opts: QueryOptions & { transactionId: string }
+    ) {
+        const { transactionId, ...query } = opts
+        this.getTransaction(transactionId)
+
+        if (!isReadOnlyQuery(query.sql) && !isRowChange(query.sql)) {
+            throw new Error(
+                'Interactive transactions only run single statements that read or write rows.'
+            )
+        }
+
+        if (/^\s*replace\b|\bor\s+replace\b/i.test(query.sql)) {
+            throw new Error(
+                'Interactive transactions do not run statements that resolve conflicts with REPLACE.'
+            )
+        }
+
+        return this.executeQuery(query, transactionId)
+    }
+
+    public async commitTransaction(transactionId: string) {
+        const transaction = this.getTransaction(transactionId)
+
+        try {
+            this.storage.transactionSync(() => this.stopUndoLog())
+        } finally {
+            this.closeTransaction(transactionId)
+        }
+
+        this.logChanges(transaction.changes)
+    }
+
+    public async rollbackTransaction(transactionId: string) {
+        this.getTransaction(transactionId)
+        this.closeTransaction(transactionId)
+    }
+
+    private getTransaction(transactionId: string): InteractiveTransaction {
+        if (this.activeTransaction?.id !== transactionId) {
+            throw new Error(
+                `Transaction '${transactionId}' does not exist or has expired.`
+            )
+        }
+
+        return this.activeTransaction
+    }
+
+    // Rolls back whatever the transaction wrote unless it was committed.
+    private closeTransaction(transactionId: string) {
+        const transaction = this.activeTransaction
+
+        if (transaction?.id !== transactionId) {
+            return
+        }
+
+        try {
+            this.rollBackUndoLog()
+        } finally {
+            clearTimeout(transaction.timer)
+            this.activeTransaction = undefined
+            this.transactionOwners.delete(transaction.owner)
+            transaction.close()
+        }
+    }
+
+    private startUndoLog() {
+        this.executeRawQuery({
+            sql: `
+            CREATE TABLE IF NOT EXISTS tmp_transaction_undo (
+                "id" INTEGER PRIMARY KEY,
+                "statement" TEXT NOT NULL
+            )`,
+        })
+
+        for (const table of this.getTriggerTables()) {
+            for (const trigger of getUndoTriggers(table)) {
+                this.executeRawQuery({ sql: trigger })
+            }
+        }
+    }
+
+    private stopUndoLog() {
+        this.dropTriggers(UNDO_TRIGGER_PREFIX)
+        this.executeRawQuery({
+            sql: 'DROP TABLE IF EXISTS tmp_transaction_undo',
+        })
+    }
+
+    /**
+     * Restores the rows written since the interactive transaction began, newest first.
+     * Rows written by triggers are restored like any other, so the triggers of the
+     * database are set aside meanwhile.
+     */
+    private rollBackUndoLog() {
+        const hasUndoLog = this.executeRawQuery({
+            sql: `SELECT 1 FROM sqlite_master WHERE "type" = 'table' AND "name" = 'tmp_transaction_undo'`,
+        }).toArray().length
+
+        if (!hasUndoLog) {
+            return
+        }
+
+        this.storage.transactionSync(() => {
+            this.dropTriggers(UNDO_TRIGGER_PREFIX)
+            this.executeRawQuery({ sql: 'PRAGMA defer_foreign_keys = ON' })
+
+            const triggers = this.executeRawQuery({
+                sql: `SELECT "name", "sql" FROM sqlite_master WHERE "type" = 'trigger'`,
+            }).toArray()
+            this.dropTriggers()
+
+            const statements = this.executeRawQuery({
+                sql: 'SELECT "statement" FROM tmp_transaction_undo ORDER BY "id" DESC',
+            }).toArray()
+
+            for (const statement of statements) {
+                this.executeRawQuery({ sql: String(statement.statement) })
+            }
+
+            for (const trigger of triggers) {
+                this.executeRawQuery({ sql: String(trigger.sql) })
+            }
+
+            this.executeRawQuery({ sql: 'DROP TABLE tmp_transaction_undo' })
+        })
+    }
+
+    private enableReplication(regions: string[]) {
+        if (!this.replicaRegions.length) {
+            this.executeRawQuery({
+                sql: `
+                CREATE TABLE IF NOT EXISTS tmp_replication_log (
+                    "sequence" INTEGER PRIMARY KEY AUTOINCREMENT,
+                    "id" TEXT NOT NULL,
+                    "statements" TEXT NOT NULL,
+                    "created_at" TEXT DEFAULT (datetime('now'))
+                )`,
+            })
+            this.executeRawQuery({
+                sql: `
+                CREATE TABLE IF NOT EXISTS tmp_replication_replicas (
+                    "region" TEXT PRIMARY KEY,
+                    "sequence" INTEGER NOT NULL
+                )`,
+            })
+            this.executeRawQuery({
+                sql: `
+                CREATE TABLE IF NOT EXISTS tmp_replication_rows (
+                    "id" INTEGER PRIMARY KEY,
+                    "statement" TEXT NOT NULL
+                )`,
+            })
+            this.syncCaptureTriggers()
+        }
+
+        this.replicaRegions = regions
+        this.replicationDisabled = false
+    }
+
+    // Stops capturing written rows once replication has been turned off, as nothing
+    // would ship them to replicas anymore.
+    private disableReplication() {
+        if (this.replicationDisabled || this.replicaRegions.length) {
+            return
+        }
+
+        this.dropTriggers(CAPTURE_TRIGGER_PREFIX)
+        this.executeRawQuery({
+            sql: 'DROP TABLE IF EXISTS tmp_replication_rows',
+        })
+        this.replicationDisabled = true
+    }
+
+    /**
+     * Creates the triggers capturing the rows written to each table for read replicas,
+     * see `getCaptureTriggers`, replacing those of a previous schema.
+     */
+    private syncCaptureTriggers() {
+        this.dropTriggers(CAPTURE_TRIGGER_PREFIX)
+
+        for (const table of this.getTriggerTables()) {
+            for (const trigger of getCaptureTriggers(table)) {
+                this.executeRawQuery({ sql: trigger })
+            }
+        }
+    }
+
+    /**
+     * Returns the tables whose written rows are recorded by triggers. Virtual tables,
+     * such as search indexes, cannot have triggers and neither can the tables holding
+     * their contents. Writes to them are replicated as statements.
+     */
+    private getTriggerTables(): CapturedTable[] {
+        const tables = this.executeRawQuery({
+            sql: `
+            SELECT "name", "sql" FROM sqlite_master
+            WHERE "type" = 'table'
+            AND "name" NOT LIKE 'sqlite\\_%' ESCAPE '\\'
+            AND "name" NOT LIKE '\\_cf\\_%' ESCAPE '\\'
+            AND "name" NOT LIKE 'tmp\\_replica%' ESCAPE '\\'
+            AND "name" NOT LIKE 'tmp\\_transaction%' ESCAPE '\\'`,
+        }).toArray()
+        const virtualTables = tables
+            .filter((table) =>
+                /^\s*create\s+virtual\b/i.test(String(table.sql))
+            )
+            .map((table) => String(table.name))
+
+        return tables
+            .filter(
+                (table) =>
+                    !virtualTables.some(
+                        (virtual) =>
+                            table.name === virtual ||
+                            String(table.name).startsWith(`${virtual}_`)
+                    )
+            )
+            .map((table) => {
+                const name = String(table.name)
+                const columns = this.executeRawQuery({
+                    sql: `PRAGMA table_info(${quoteIdentifier(name)})`,
+                }).toArray()
+                const primaryKey = /\bwithout\s+rowid\b/i.test(
+                    String(table.sql)
+                )
+                    ? columns
+                          .filter((column) => Number(column.pk) > 0)
+                          .sort((a, b) => Number(a.pk) - Number(b.pk))
+                          .map((column) => String(column.name))
+                    : undefined
+
+                return {
+                    name,
+                    columns: columns.map((column) => String(column.name)),
+                    primaryKey,
+                }
+            })
+    }
+
+    private dropTriggers(prefix = '') {
+        const triggers = this.executeRawQuery({
+            sql: `SELECT "name" FROM sqlite_master WHERE "type" = 'trigger' AND "name" LIKE ? ESCAPE '\\'`,
+            params: [`${prefix.replace(/[\\%_]/g, '\\$&')}%`],
+        }).toArray()
+
+        for (const trigger of triggers) {
+            this.executeRawQuery({
+                sql: `DROP TRIGGER IF EXISTS ${quoteIdentifier(String(trigger.name))}`,
+            })
+        }
+    }
+
+    /**
+     * Returns what read replicas apply for a statement executed on this primary. Rows
+     * written by a statement are shipped as the statements captured by the triggers of
+     * `syncCaptureTriggers`, so that replicas end up with the same values. Statements
+     * that change the schema, or write to virtual tables, are shipped as they are.
+     */
+    private getChanges(
+        statement: Statement,
+        cursor: SqlStorageCursor<Record<string, SqlStorageValue>>
+    ): Statement[] {
+        if (!this.replicaRegions.length || !isChange(statement, cursor)) {
+            return []
+        }
+
+        const rows = this.executeRawQuery({
+            sql: 'SELECT "statement" FROM tmp_replication_rows ORDER BY "id"',
+        }).toArray()
+
+        if (rows.length) {
+            this.executeRawQuery({ sql: 'DELETE FROM tmp_replication_rows' })
+        }
+
+        if (isRowChange(statement.sql)) {
+            return rows.length
+                ? rows.map((row) => ({ sql: String(row.statement) }))
+                : cursor.rowsWritten > 0
+                  ? [statement]
+                  : []
+        }
+
+        // The statement may have added, altered or dropped tables, whose rows are
+        // captured by triggers naming their columns.
+        this.syncCaptureTriggers()
+        return [statement]
+    }
+
+    /**
+     * Appends statements that modified the database to the change log read replicas
+     * apply. Called inside of the same storage transaction as the statements.
+     */
+    private logChanges(changes: Statement[]) {
+        if (!this.replicaRegions.length || !changes.length) {
+            return
+        }
+
+        // Changes of an interactive transaction are only logged once it commits.
+        if (this.activeTransaction) {
+            this.activeTransaction.changes.push(...changes)
+            return
+        }
+
+        const statements = changes.map(({ sql, params }) => ({ sql, params }))
+        this.executeRawQuery({
+            sql: 'INSERT INTO tmp_replication_log ("id", "statements") VALUES (?, ?)',
+            params: [crypto.randomUUID(), JSON.stringify(statements)],
+        }).toArray()
+
+        this.notifyReplicas()
+    }
+
+    private notifyReplicas() {
+        // Writes made while replicas are being notified are picked up by one more round.
+        if (this.replicaNotification) {
+            this.replicaNotificationQueued = true
+            return
+        }
+
+        const notify = async () => {
+            do {
+                this.replicaNotificationQueued = false
+
+                const results = await Promise.allSettled(
+                    this.replicaRegions.map((region) =>
+                        getReplicaStub(this.databases, {
+                            name: this.databaseName,
+                            region,
+                        }).syncReplica({ database: this.databaseName, region })
+                    )
+                )
+
+                for (const result of results) {
+                    if (result.status === 'rejected') {
+                        console.error('Replica Sync Error:', result.reason)
+                    }
+                }
+            } while (this.replicaNotificationQueued)
+        }
+
+        this.replicaNotification = notify()
+            .catch((error) => console.error('Replica Sync Error:', error))
+            .finally(() => {
+                this.replicaNotification = undefined
+            })
+    }
+
+    /**
+     * Sequence number of the latest change made to this database. A read replica that
+     * has applied this change reflects every write made up to now.
+     */
+    public async getBookmark(): Promise<number> {
+        if (!this.replicaRegions.length) {
+            return 0
+        }
+
+        return this.getLatestSequence()
+    }
+
+    private getLatestSequence(): number {
+        return this.getLatestChange().sequence
+    }
+
+    private getLatestChange(): { sequence: number; id: string | null } {
+        const [row] = this.executeRawQuery({
+            sql: 'SELECT "sequence", "id" FROM tmp_replication_log ORDER BY "sequence" DESC LIMIT 1',
+        }).toArray()
+
+        return {
+            sequence: Number(row?.sequence ?? 0),
+            id: row ? String(row.id) : null,
+        }
+    }
+
+    /**
+     * Returns the changes logged after a sequence number for a read replica to apply,
+     * preceded by the entry at that sequence number so the replica can verify it still
+     * shares its history with the primary. Replicas acknowledge the sequence they have
+     * applied with each call, entries that every replica has applied are removed from
+     * the log.
+     *
+     * @param opts.after - The sequence number the replica has applied up to.
+     * @param opts.region - Region of the replica.
+     */
+    public async getReplicationChanges(opts: {
+        after: number
+        region: string
+    }): Promise<ReplicationChange[]> {
+        this.executeRawQuery({
+            sql: 'INSERT OR REPLACE INTO tmp_replication_replicas ("region", "sequence") VALUES (?, ?)',
+            params: [opts.region, opts.after],
+        }).toArray()
+
+        // Replicas that are no longer configured do not hold back the cleanup, and the
+        // latest entry is always kept as it holds the current bookmark.
+        if (this.replicaRegions.length) {
+            const placeholders = this.replicaRegions.map(() => '?').join(', ')
+
+            this.executeRawQuery({
+                sql: `
+                DELETE FROM tmp_replication_log
+                WHERE "sequence" < (SELECT MIN("sequence") FROM tmp_replication_replicas WHERE "region" IN (${placeholders}))
+                AND "sequence" < (SELECT MAX("sequence") FROM tmp_replication_log)`,
+                params: this.replicaRegions,
+            }).toArray()
+        }
+
+        const rows = this.executeRawQuery({
+            sql: 'SELECT "sequence", "id", "statements" FROM tmp_replication_log WHERE "sequence" >= ? ORDER BY "sequence" LIMIT ?',
+            params: [opts.after, REPLICATION_BATCH_SIZE],
+        }).toArray()
+
+        return rows.map((row) => ({
+            sequence: Number(row.sequence),
+            id: String(row.id),
+            statements: JSON.parse(String(row.statements)),
+        }))
+    }
+
+    /**
+     * Returns statements that recreate every table of this database along with the
+     * bookmark they reflect, used to initialize a read replica or one that fell too far
+     * behind. Rows keep their rowid and AUTOINCREMENT counters are carried over, so that
+     * the rows captured for later changes refer to the same rows on the replica. The
+     * snapshot is sent in a single call and is bound by the RPC size limit.
+     */
+    public async getReplicationSnapshot(): Promise<{
+        sequence: number
+        id: string | null
+        statements: Statement[]
+    }> {
+        // Rows of an open interactive transaction are not committed yet.
+        await this.waitForTransaction()
+
+        const statements: Statement[] = []
+        const schema = this.executeRawQuery({
+            sql: `
+            SELECT "type", "name", "sql" FROM sqlite_master
+            WHERE "sql" IS NOT NULL
+            AND "name" NOT LIKE 'sqlite\\_%' ESCAPE '\\'
+            AND "name" NOT LIKE '\\_cf\\_%' ESCAPE '\\'
+            AND "tbl_name" NOT LIKE 'tmp\\_replica%' ESCAPE '\\'
+            AND "name" NOT LIKE 'tmp\\_replica%' ESCAPE '\\'
+            AND "tbl_name" NOT LIKE 'tmp\\_transaction%' ESCAPE '\\'
+            ORDER BY CASE "type" WHEN 'table' THEN 0 ELSE 1 END`,
+        }).toArray()
+
+        for (const entry of schema) {
+            statements.push({ sql: String(entry.sql) })
+
+            if (entry.type !== 'table') {
+                continue
+            }
+
+            const table = quoteIdentifier(String(entry.name))
+            const hasRowid =
+                !/^\s*create\s+virtual\b|\bwithout\s+rowid\b/i.test(
+                    String(entry.sql)
+                )
+            const cursor = this.executeRawQuery({
+                sql: hasRowid
+                    ? `SELECT rowid AS "__rowid", * FROM ${table}`
+                    : `SELECT * FROM ${table}`,
+            })
+            const columns = cursor.columnNames
+                .map((column, index) =>
+                    hasRowid && index === 0 ? 'rowid' : quoteIdentifier(column)
+                )
+                .join(', ')
+            const values = cursor.columnNames.map(() => '?').join(', ')
+
+            for (const row of cursor.raw()) {
+                statements.push({
+                    sql: `INSERT INTO ${table} (${columns}) VALUES (${values})`,
+                    params: row,
+                })
+            }
+        }
+
+        const hasSequences = this.executeRawQuery({
+            sql: `SELECT 1 FROM sqlite_master WHERE "type" = 'table' AND "name" = 'sqlite_sequence'`,
+        }).toArray().length
+
+        if (hasSequences) {
+            const sequences = this.executeRawQuery({
+                sql: `SELECT "name", "seq" FROM sqlite_sequence WHERE "name" NOT LIKE 'tmp\\_replica%' ESCAPE '\\'`,
+            }).toArray()
+
+            for (const sequence of sequences) {
+                statements.push(
+                    {
+                        sql: 'DELETE FROM sqlite_sequence WHERE "name" = ?',
+                        params: [sequence.name],
+                    },
+                    {
+                        sql: 'INSERT INTO sqlite_sequence ("name", "seq") VALUES (?, ?)',
+                        params: [sequence.name, sequence.seq],
+                    }
+                )
+            }
+        }
+
+        return { ...this.getLatestChange(), statements }
+    }
+
+    /**
+     * Brings this read replica up to date with its primary. Called by the primary after
+     * each write, and by reads that require a more recent bookmark.
+     *
+     * @param opts.database - Name of the tenant database, unset for the default database.
+     * @param opts.region - Region of this replica.
+     */
+    public async syncReplica(opts: {
+        database?: string
+        region: string
+    }): Promise<void> {
+        // Catch-ups run one after the other so that changes are applied in order.
+        const sync = (this.replicaSync ?? Promise.resolve())
+            .catch(() => {})
+            .then(() => this.pullChanges(opts))
+        this.replicaSync = sync
+
+        try {
+            await sync
+        } finally {
+            if (this.replicaSync === sync) {
+                this.replicaSync = undefined
+            }
+        }
+    }
+
+    /**
+     * Executes a read-only query on this read replica. When the replica has not yet
+     * applied the change a bookmark refers to it first catches up with the primary.
+     */
+    public async executeReplicaQuery(
+        opts: QueryOptions & {
+            database?: string
+            region: string
+            bookmark?: number
+        }
+    ) {
+        const { database, region, bookmark, ...query } = opts
+
+        if (!isReadOnlyQuery(query.sql)) {
+            throw new Error('Read replicas only execute read-only queries.')
+        }
+
+        const state = this.getReplicaState()
+
+        if (state === undefined || (bookmark ?? 0) > state.sequence) {
+            await this.syncReplica({ database, region })
+        }
+
+        return this.formatQueryResult(this.executeRawQuery(query), query.isRaw)
+    }
+
+    private async pullChanges(opts: { database?: string; region: string }) {
+        const primary = getDatabaseStub(this.databases, { name: opts.database })
+        let state = this.getReplicaState()
+
+        while (true) {
+            if (state === undefined) {
+                // Statement parameters are `unknown`, which RPC types cannot express.
+                const snapshot = (await primary.getReplicationSnapshot()) as {
+                    sequence: number
+                    id: string | null
+                    statements: Statement[]
+                }
+
+                this.storage.transactionSync(() => {
+                    this.clearReplica()
+                    for (const statement of snapshot.statements) {
+                        this.applyReplicatedStatement(statement)
+                    }
+                    this.setReplicaState(snapshot)
+                })
+
+                state = { sequence: snapshot.sequence, id: snapshot.id }
+            }
+
+            const entries = (await primary.getReplicationChanges({
+                after: state.sequence,
+                region: opts.region,
+            })) as ReplicationChange[]
+
+            // The entry this replica applied last is missing or was replaced, either
+            // because it was removed from the log or because the primary was restored
+            // to an earlier point in time. Start over from a snapshot instead.
+            const [applied] = entries
+            if (
+                state.sequence > 0 &&
+                (applied?.sequence !== state.sequence ||
+                    applied.id !== state.id)
+            ) {
+                state = undefined
+                continue
+            }
+
+            const changes = entries.filter(
+                (entry) => entry.sequence > state!.sequence
+            )
+
+            if (!changes.length) {
+                return
+            }
+
+            if (changes[0].sequence !== state.sequence + 1) {
+                state = undefined
+                continue
+            }
+
+            const latest = changes[changes.length - 1]
+
+            this.storage.transactionSync(() => {
+                // A cascading update is captured child first, so foreign keys are only
+                // checked once every row of the batch has been written.
+                this.executeRawQuery({ sql: 'PRAGMA defer_foreign_keys = ON' })
+
+                for (const change of changes) {
+                    for (const statement of change.statements) {
+                        this.applyReplicatedStatement(statement)
+                    }
+                }
+                this.setReplicaState(latest)
+            })
+
+            state = { sequence: latest.sequence, id: latest.id }
+
+            if (entries.length < REPLICATION_BATCH_SIZE) {
+                return
+            }
+        }
+    }
+
+    // Replicas receive the rows written by the triggers of their primary, so they keep
+    // no triggers that would write those rows a second time.
+    private applyReplicatedStatement(statement: Statement) {
+        this.executeRawQuery(statement).toArray()
+
+        if (!isRowChange(statement.sql)) {
+            this.dropTriggers()
+        }
+    }
+
+    private getReplicaState():
+        | { sequence: number; id: string | null }
+        | undefined {
+        this.executeRawQuery({
+            sql: `
+            CREATE TABLE IF NOT EXISTS tmp_replica_state (
+                "id" INTEGER PRIMARY KEY CHECK ("id" = 1),
+                "sequence" INTEGER NOT NULL,
+                "change_id" TEXT
+            )`,
+        })
+
+        const [row] = this.executeRawQuery({
+            sql: 'SELECT "sequence", "change_id" FROM tmp_replica_state WHERE "id" = 1',
+        }).toArray()
+
+        return row
+            ? {
+                  sequence: Number(row.sequence),
+                  id: row.change_id === null ? null : String(row.change_id),
+              }
+            : undefined
+    }
+
+    private setReplicaState(state: { sequence: number; id: string | null }) {
+        this.executeRawQuery({
+            sql: 'INSERT OR REPLACE INTO tmp_replica_state ("id", "sequence", "change_id") VALUES (1, ?, ?)',
+            params: [state.sequence, state.id],
+        }).toArray()
+    }
+
+    // Drops everything but the replication state, before a snapshot is applied.
+    private clearReplica() {
+        this.executeRawQuery({ sql: 'PRAGMA defer_foreign_keys = ON' })
+
+        const entries = this.executeRawQuery({
+            sql: `
+            SELECT "type", "name" FROM sqlite_master
+            WHERE "type" IN ('table', 'view')
+            AND "name" NOT LIKE 'sqlite\\_%' ESCAPE '\\'
+            AND "name" NOT LIKE '\\_cf\\_%' ESCAPE '\\'
+            AND "name" != 'tmp_replica_state'
+            ORDER BY CASE "type" WHEN 'view' THEN 0 ELSE 1 END`,
+        }).toArray()
+
+        for (const entry of entries) {
+            const keyword = entry.type === 'view' ? 'VIEW' : 'TABLE'
+            this.executeRawQuery({
+                sql: `DROP ${keyword} IF EXISTS ${quoteIdentifier(String(entry.name))}`,
+            })
+        }
+    }
 }
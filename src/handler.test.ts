@@ -2,13 +2,18 @@ import { describe, expect, it, vi, beforeEach } from 'vitest'
 import { StarbaseDB } from './handler'
 import type { DataSource } from './types'
 import { Hono } from 'hono'
-import { executeQuery, executeTransaction } from './operation'
+import {
+    executeQuery,
+    executeQueryStream,
+    executeTransaction,
+} from './operation'
 import { LiteREST } from './literest'
-import { createResponse } from './utils'
+import { createResponse, TransactionError } from './utils'
 import { corsPreflight } from './cors'
 import { StarbasePluginRegistry } from './plugin'
 
 vi.mock('./cors', () => ({
+    corsHeaders: {},
     corsPreflight: vi.fn().mockReturnValue(new Response(null, { status: 204 })),
 }))
 
@@ -22,6 +27,7 @@ vi.mock('hono', () => {
             use: vi.fn(),
             post: vi.fn(),
             get: vi.fn(),
+            delete: vi.fn(),
             all: vi.fn(),
             fetch: vi.fn().mockResolvedValue(new Response('mock-response')),
             notFound: vi.fn(),
@@ -32,6 +38,9 @@ vi.mock('hono', () => {
 
 vi.mock('./operation', () => ({
     executeQuery: vi.fn().mockResolvedValue('mock-query-result'),
+    executeQueryStream: vi
+        .fn()
+        .mockResolvedValue(new Blob(['{"id":1}\n']).stream()),
     executeTransaction: vi.fn().mockResolvedValue('mock-transaction-result'),
 }))
 
@@ -49,7 +58,8 @@ vi.mock('./plugin', () => ({
     })),
 }))
 
-vi.mock('./utils', () => ({
+vi.mock('./utils', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('./utils')>()),
     createResponse: vi.fn((result, error, status) => ({
         result,
         error,
@@ -142,6 +152,26 @@ describe('StarbaseDB Query Execution', () => {
         expect(response.status).toBe(200)
     })
 
+    it('should stream results when newline delimited JSON is accepted', async () => {
+        const request = new Request('https://example.com/query', {
+            method: 'POST',
+            body: JSON.stringify({ sql: 'SELECT * FROM users' }),
+            headers: {
+                'Content-Type': 'application/json',
+                Accept: 'application/x-ndjson',
+            },
+        })
+
+        const response = await instance.queryRoute(request, false)
+
+        expect(executeQueryStream).toHaveBeenCalled()
+        expect(executeQuery).not.toHaveBeenCalled()
+        expect(response.headers.get('Content-Type')).toBe(
+            'application/x-ndjson'
+        )
+        expect(await response.text()).toBe('{"id":1}\n')
+    })
+
     it('should return 400 if SQL query is invalid', async () => {
         const request = new Request('https://example.com/query', {
             method: 'POST',
@@ -170,6 +200,89 @@ describe('StarbaseDB Query Execution', () => {
     })
 })
 
+describe('StarbaseDB Interactive Transactions', () => {
+    it('should begin a transaction with the requested timeout', async () => {
+        mockDataSource.rpc.beginTransaction = vi.fn().mockResolvedValue({
+            transactionId: 'tx-1',
+            expiresAt: 1000,
+        }) as any
+
+        const request = new Request(
+            'https://example.com/query/transaction/begin',
+            { method: 'POST', body: JSON.stringify({ timeout: 5000 }) }
+        )
+
+        const response = await instance.beginTransactionRoute(request)
+
+        expect(mockDataSource.rpc.beginTransaction).toHaveBeenCalledWith({
+            owner: 'admin',
+            timeout: 5000,
+        })
+        expect(response.status).toBe(200)
+    })
+
+    it('should refuse transactions of callers without an allowed role', async () => {
+        mockConfig.role = 'client'
+        mockConfig.databaseRole = 'analyst'
+        mockConfig.transactionRoles = ['service']
+        mockDataSource.rpc.beginTransaction = vi.fn() as any
+
+        const response = await instance.beginTransactionRoute(
+            new Request('https://example.com/query/transaction/begin', {
+                method: 'POST',
+            })
+        )
+
+        expect(response.status).toBe(403)
+        expect(mockDataSource.rpc.beginTransaction).not.toHaveBeenCalled()
+    })
+
+    it('should limit the timeout of client transactions', async () => {
+        mockConfig.role = 'client'
+        mockConfig.databaseRole = 'service'
+        mockConfig.transactionRoles = ['service']
+        mockDataSource.context = { sub: 'user-1' }
+        mockDataSource.rpc.beginTransaction = vi.fn().mockResolvedValue({
+            transactionId: 'tx-1',
+            expiresAt: 1000,
+        }) as any
+
+        const request = new Request(
+            'https://example.com/query/transaction/begin',
+            { method: 'POST', body: JSON.stringify({ timeout: 300000 }) }
+        )
+
+        await instance.beginTransactionRoute(request)
+
+        expect(mockDataSource.rpc.beginTransaction).toHaveBeenCalledWith({
+            owner: 'jwt:user-1',
+            timeout: 30000,
+        })
+    })
+
+    it('should require the transaction header to commit', async () => {
+        const response = await instance.endTransactionRoute('commit')
+
+        expect(response.status).toBe(400)
+    })
+
+    it('should commit and roll back the transaction from the header', async () => {
+        mockDataSource.transactionId = 'tx-1'
+        mockDataSource.rpc.commitTransaction = vi.fn() as any
+        mockDataSource.rpc.rollbackTransaction = vi.fn() as any
+
+        await instance.endTransactionRoute('commit')
+        await instance.endTransactionRoute('rollback')
+
+        expect(mockDataSource.rpc.commitTransaction).toHaveBeenCalledWith(
+            'tx-1'
+        )
+        expect(mockDataSource.rpc.rollbackTransaction).toHaveBeenCalledWith(
+            'tx-1'
+        )
+    })
+})
+
 describe('StarbaseDB Cache Expiry', () => {
     it('should remove expired cache entries', async () => {
         await instance['expireCache']()
@@ -199,4 +312,32 @@ describe('StarbaseDB Error Handling', () => {
 
         expect(response.status).toBe(500)
     })
+
+    it('should report the failing statement when a transaction rolls back', async () => {
+        vi.mocked(executeTransaction).mockRejectedValue(
+            new TransactionError(1, 'no such table: missing')
+        )
+
+        const request = new Request('https://example.com/query', {
+            method: 'POST',
+            body: JSON.stringify({
+                transaction: [
+                    { sql: "INSERT INTO users VALUES (1, 'Alice')" },
+                    { sql: "INSERT INTO missing VALUES (1, 'Bob')" },
+                ],
+            }),
+            headers: { 'Content-Type': 'application/json' },
+        })
+
+        vi.spyOn(console, 'error').mockImplementation(() => {})
+
+        const response = await instance.queryRoute(request, false)
+
+        expect(response.status).toBe(500)
+        expect(createResponse).toHaveBeenCalledWith(
+            { statementIndex: 1 },
+            'Transaction failed at statement 1: no such table: missing',
+            500
+        )
+    })
 })
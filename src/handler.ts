@@ -4,24 +4,74 @@ import { validator } from 'hono/validator'
 
 import { DataSource } from './types'
 import { LiteREST } from './literest'
-import { executeQuery, executeTransaction } from './operation'
-import { createResponse, QueryRequest, QueryTransactionRequest } from './utils'
+import {
+    executeQuery,
+    executeQueryStream,
+    executeTransaction,
+    updateBookmark,
+} from './operation'
+import {
+    createResponse,
+    QueryRequest,
+    QueryTransactionRequest,
+    TransactionError,
+} from './utils'
 import { dumpDatabaseRoute } from './export/dump'
 import { exportTableToJsonRoute } from './export/json'
 import { exportTableToCsvRoute } from './export/csv'
 import { importDumpRoute } from './import/dump'
 import { importTableFromJsonRoute } from './import/json'
 import { importTableFromCsvRoute } from './import/csv'
-import { corsPreflight } from './cors'
+import { corsHeaders, corsPreflight } from './cors'
 import { handleApiRequest } from './api'
-import { StarbasePlugin, StarbasePluginRegistry } from './plugin'
+import {
+    findAuthlessPlugin,
+    StarbasePlugin,
+    StarbasePluginRegistry,
+} from './plugin'
+import {
+    createDatabaseRoute,
+    DatabaseNamespace,
+    deleteDatabaseRoute,
+    listDatabasesRoute,
+} from './tenant'
+import {
+    applyMigrationsRoute,
+    listMigrationsRoute,
+    rollbackMigrationsRoute,
+} from './migrations'
+import {
+    getRecoveryBookmarkRoute,
+    restoreRecoveryBookmarkRoute,
+} from './recovery'
+import { openApiRoute } from './openapi'
+import {
+    createSearchIndexRoute,
+    dropSearchIndexRoute,
+    listSearchIndexesRoute,
+    searchRoute,
+} from './search'
+import { RLSViolationError } from './rls'
+import { PermissionDeniedError } from './rbac'
+
+// Longest interactive transaction a client request may open, as it holds the database
+// until it closes. The admin token can request up to five minutes.
+const CLIENT_TRANSACTION_MAX_TIMEOUT = 30_000
 
 export interface StarbaseDBConfiguration {
     outerbaseApiKey?: string
     role: 'admin' | 'client'
+    // Role of a client request in `tmp_roles`, see `enforceGrants`
+    databaseRole?: string
+    // Roles of `databaseRole` that may open interactive transactions besides the admin
+    transactionRoles?: string[]
+    // Key of the HMAC replacing the values of columns masked with `hash`
+    maskingSecret?: string
     features?: {
         allowlist?: boolean
         rls?: boolean
+        rbac?: boolean
+        masking?: boolean
         rest?: boolean
         websocket?: boolean
         export?: boolean
@@ -45,6 +95,7 @@ export class StarbaseDB {
     private config: StarbaseDBConfiguration
     private liteREST: LiteREST
     private plugins: StarbasePlugin[]
+    private databases?: DatabaseNamespace
     private initialized: boolean = false
     private app: StarbaseApp
 
@@ -52,11 +103,13 @@ export class StarbaseDB {
         dataSource: DataSource
         config: StarbaseDBConfiguration
         plugins?: StarbasePlugin[]
+        databases?: DatabaseNamespace
     }) {
         this.dataSource = options.dataSource
         this.config = options.config
         this.liteREST = new LiteREST(this.dataSource, this.config)
         this.plugins = options.plugins || []
+        this.databases = options.databases
         this.app = new Hono<HonoContext>()
 
         if (
@@ -93,6 +146,21 @@ export class StarbaseDB {
             this.queryRoute(c.req.raw, true)
         )
         this.app.post('/query', async (c) => this.queryRoute(c.req.raw, false))
+        this.app.post(
+            '/query/transaction/begin',
+            this.isInternalSource,
+            async (c) => this.beginTransactionRoute(c.req.raw)
+        )
+        this.app.post(
+            '/query/transaction/commit',
+            this.isInternalSource,
+            async () => this.endTransactionRoute('commit')
+        )
+        this.app.post(
+            '/query/transaction/rollback',
+            this.isInternalSource,
+            async () => this.endTransactionRoute('rollback')
+        )
         this.app.get('/status/trace', async (c) => {
             const response = await fetch('https://cloudflare.com/cdn-cgi/trace')
             return new Response(response.body, {
@@ -176,6 +244,79 @@ export class StarbaseDB {
             )
         }
 
+        if (this.databases) {
+            const databases = this.databases
+
+            this.app.get('/databases', this.isAdmin, async () =>
+                listDatabasesRoute(databases)
+            )
+            this.app.post('/databases', this.isAdmin, async (c) =>
+                createDatabaseRoute(c.req.raw, databases)
+            )
+            this.app.delete('/databases/:name', this.isAdmin, async (c) =>
+                deleteDatabaseRoute(c.req.param('name'), databases)
+            )
+        }
+
+        this.app.get('/admin/migrations', this.isAdmin, async () =>
+            listMigrationsRoute(this.dataSource)
+        )
+        this.app.post('/admin/migrations', this.isAdmin, async (c) =>
+            applyMigrationsRoute(c.req.raw, this.dataSource, this.config)
+        )
+        this.app.post('/admin/migrations/rollback', this.isAdmin, async (c) =>
+            rollbackMigrationsRoute(c.req.raw, this.dataSource, this.config)
+        )
+
+        this.app.get('/admin/search', this.isAdmin, async () =>
+            listSearchIndexesRoute(this.dataSource, this.config)
+        )
+        this.app.post('/admin/search', this.isAdmin, async (c) =>
+            createSearchIndexRoute(c.req.raw, this.dataSource, this.config)
+        )
+        this.app.delete(
+            '/admin/search/:tableName',
+            this.isAdmin,
+            this.hasTableName,
+            async (c) =>
+                dropSearchIndexRoute(
+                    c.req.valid('param').tableName,
+                    this.dataSource,
+                    this.config
+                )
+        )
+        this.app.get('/search/:tableName', this.hasTableName, async (c) =>
+            searchRoute(
+                c.req.valid('param').tableName,
+                c.req.raw,
+                this.dataSource,
+                this.config
+            )
+        )
+
+        this.app.get(
+            '/admin/pitr/bookmark',
+            this.isAdmin,
+            this.isInternalSource,
+            async (c) => getRecoveryBookmarkRoute(c.req.raw, this.dataSource)
+        )
+        this.app.post(
+            '/admin/pitr/restore',
+            this.isAdmin,
+            this.isInternalSource,
+            async (c) =>
+                restoreRecoveryBookmarkRoute(c.req.raw, this.dataSource)
+        )
+
+        this.app.get('/openapi.json', async (c) =>
+            openApiRoute(
+                c.req.raw,
+                this.app.routes,
+                this.dataSource,
+                this.config
+            )
+        )
+
         this.app.all('/api/*', async (c) => handleApiRequest(c.req.raw))
 
         // Set up error handlers
@@ -201,22 +342,7 @@ export class StarbaseDB {
         // Initialize everything once
         await this.initialize()
 
-        const authlessPlugin = this.plugins.find((plugin: StarbasePlugin) => {
-            if (!plugin.opts.requiresAuth && request.url && plugin.pathPrefix) {
-                // Extract the path from the full URL
-                const urlPath = new URL(request.url).pathname
-
-                // Convert plugin path pattern to regex
-                const pathPattern = plugin.pathPrefix
-                    .replace(/:[^/]+/g, '[^/]+') // Replace :param with regex pattern
-                    .replace(/\*/g, '.*') // Replace * with wildcard pattern
-
-                const regex = new RegExp(`^${pathPattern}`)
-                return regex.test(urlPath)
-            }
-
-            return false
-        })
+        const authlessPlugin = findAuthlessPlugin(this.plugins, request)
 
         if (authlessPlugin) {
             return this.app.fetch(request)
@@ -240,7 +366,22 @@ export class StarbaseDB {
             return corsPreflight()
         }
 
-        return this.app.fetch(request)
+        const response = await this.app.fetch(request)
+
+        // Clients send the bookmark back with later requests to read their own writes
+        // from a replica that may not have received them yet.
+        if (this.dataSource.bookmark === undefined || response.webSocket) {
+            return response
+        }
+
+        const headers = new Headers(response.headers)
+        headers.set('X-Starbase-Bookmark', String(this.dataSource.bookmark))
+
+        return new Response(response.body, {
+            status: response.status,
+            statusText: response.statusText,
+            headers,
+        })
     }
 
     /**
@@ -260,6 +401,19 @@ export class StarbaseDB {
         })
     }
 
+    /**
+     * Middleware to check if the request is authorized with the admin token.
+     */
+    private get isAdmin() {
+        return createMiddleware(async (_, next) => {
+            if (this.config.role !== 'admin') {
+                return createResponse(undefined, 'Unauthorized request', 401)
+            }
+
+            return next()
+        })
+    }
+
     /**
      * Validator middleware to check if the request path has a valid :tableName parameter.
      */
@@ -349,6 +503,28 @@ export class StarbaseDB {
                 )
             }
 
+            // Clients asking for newline delimited JSON receive the rows as they are
+            // read rather than after the whole result has been buffered.
+            if (
+                request.headers.get('Accept')?.includes('application/x-ndjson')
+            ) {
+                const stream = await executeQueryStream({
+                    sql,
+                    params,
+                    isRaw,
+                    dataSource: this.dataSource,
+                    config: this.config,
+                })
+
+                return new Response(stream, {
+                    status: 200,
+                    headers: {
+                        ...corsHeaders,
+                        'Content-Type': 'application/x-ndjson',
+                    },
+                })
+            }
+
             const response = await executeQuery({
                 sql,
                 params,
@@ -359,6 +535,116 @@ export class StarbaseDB {
             return createResponse(response, undefined, 200)
         } catch (error: any) {
             console.error('Query Route Error:', error)
+
+            if (
+                error instanceof RLSViolationError ||
+                error instanceof PermissionDeniedError
+            ) {
+                return createResponse(undefined, error.message, 403)
+            }
+
+            // Let the client know which statement caused the transaction to roll back.
+            if (error instanceof TransactionError) {
+                return createResponse(
+                    { statementIndex: error.statementIndex },
+                    error.message,
+                    500
+                )
+            }
+
+            return createResponse(
+                undefined,
+                error?.message || 'An unexpected error occurred.',
+                500
+            )
+        }
+    }
+
+    async beginTransactionRoute(request: Request): Promise<Response> {
+        // A transaction holds the whole database until it closes, so only trusted
+        // callers may open one. Roles are only set for requests authorized with a JWT.
+        const { role, databaseRole, transactionRoles } = this.config
+
+        if (
+            role !== 'admin' &&
+            !(databaseRole && transactionRoles?.includes(databaseRole))
+        ) {
+            return createResponse(
+                undefined,
+                'Interactive transactions require the admin token or a role listed in TRANSACTION_ROLES.',
+                403
+            )
+        }
+
+        try {
+            const body = await request.text()
+            const { timeout } = (body ? JSON.parse(body) : {}) as {
+                timeout?: number
+            }
+
+            if (timeout !== undefined && typeof timeout !== 'number') {
+                return createResponse(
+                    undefined,
+                    'Invalid "timeout" field. Must be a number of milliseconds.',
+                    400
+                )
+            }
+
+            const response = await this.dataSource.rpc.beginTransaction({
+                owner:
+                    role === 'admin'
+                        ? 'admin'
+                        : `jwt:${this.dataSource.context?.sub}`,
+                timeout:
+                    role === 'admin'
+                        ? timeout
+                        : Math.min(
+                              timeout ?? CLIENT_TRANSACTION_MAX_TIMEOUT,
+                              CLIENT_TRANSACTION_MAX_TIMEOUT
+                          ),
+            })
+            return createResponse(response, undefined, 200)
+        } catch (error: any) {
+            console.error('Begin Transaction Error:', error)
+            return createResponse(
+                undefined,
+                error?.message || 'An unexpected error occurred.',
+                500
+            )
+        }
+    }
+
+    async endTransactionRoute(
+        action: 'commit' | 'rollback'
+    ): Promise<Response> {
+        const transactionId = this.dataSource.transactionId
+
+        if (!transactionId) {
+            return createResponse(
+                undefined,
+                'Missing "X-Starbase-Transaction" header.',
+                400
+            )
+        }
+
+        try {
+            if (action === 'commit') {
+                await this.dataSource.rpc.commitTransaction(transactionId)
+                await updateBookmark(this.dataSource)
+            } else {
+                await this.dataSource.rpc.rollbackTransaction(transactionId)
+            }
+
+            return createResponse(
+                {
+                    transactionId,
+                    status: action === 'commit' ? 'committed' : 'rolled_back',
+                },
+                undefined,
+                200
+            )
+        } catch (error: any) {
+            console.error('End Transaction Error:', error)
             return createResponse(
                 undefined,
                 error?.message || 'An unexpected error occurred.',
@@ -3,7 +3,7 @@ import { DataSource } from '../types'
 import { executeOperation } from '../export'
 import { StarbaseDBConfiguration } from '../handler'
 
-function parseSqlStatements(sqlContent: string): string[] {
+export function parseSqlStatements(sqlContent: string): string[] {
     const lines = sqlContent.split('\n')
     let currentStatement = ''
     const statements: string[] = []
@@ -1,9 +1,21 @@
 import { createResponse } from './utils'
 import { StarbaseDB, StarbaseDBConfiguration } from './handler'
-import { DataSource, RegionLocationHint } from './types'
+import { DataSource } from './types'
 import { createRemoteJWKSet, jwtVerify } from 'jose'
 import { corsPreflight } from './cors'
-import { StarbasePlugin } from './plugin'
+import { closeRequestConnections } from './connection'
+import {
+    DataSourceRegistry,
+    loadDataSource,
+    parseDataSources,
+} from './data-source'
+import { databaseExists, getDatabaseStub, resolveDatabaseName } from './tenant'
+import {
+    getNearestRegion,
+    getReplicaStub,
+    parseReplicaRegions,
+} from './replication'
+import { findAuthlessPlugin, StarbasePlugin } from './plugin'
 import { WebSocketPlugin } from '../plugins/websocket'
 import { StudioPlugin } from '../plugins/studio'
 import { SqlMacrosPlugin } from '../plugins/sql-macros'
@@ -13,11 +25,10 @@ import { StatsPlugin } from '../plugins/stats'
 import { CronPlugin } from '../plugins/cron'
 import { InterfacePlugin } from '../plugins/interface'
 import { ClerkPlugin } from '../plugins/clerk'
+import { GraphQLPlugin } from '../plugins/graphql'
 
 export { StarbaseDBDurableObject } from './do'
 
-const DURABLE_OBJECT_ID = 'sql-durable-object'
-
 export interface Env {
     ADMIN_AUTHORIZATION_TOKEN: string
     CLIENT_AUTHORIZATION_TOKEN: string
@@ -32,6 +43,8 @@ export interface Env {
 
     ENABLE_ALLOWLIST?: boolean
     ENABLE_RLS?: boolean
+    ENABLE_RBAC?: boolean
+    ENABLE_MASKING?: boolean
 
     // External database source details
     OUTERBASE_API_KEY?: string
@@ -42,6 +55,9 @@ export interface Env {
     EXTERNAL_DB_PASS?: string
     EXTERNAL_DB_DATABASE?: string
     EXTERNAL_DB_DEFAULT_SCHEMA?: string
+    EXTERNAL_DB_HYPERDRIVE?: Hyperdrive
+    // Named external sources, selected by name with `X-Starbase-Source`
+    EXTERNAL_DB_SOURCES?: string | DataSourceRegistry
 
     EXTERNAL_DB_MONGODB_URI?: string
     EXTERNAL_DB_TURSO_URI?: string
@@ -55,6 +71,22 @@ export interface Env {
     AUTH_ALGORITHM?: string
     AUTH_JWKS_ENDPOINT?: string
 
+    // Tenant databases, see `resolveDatabaseName`
+    TENANT_HOSTNAME?: string
+    TENANT_JWT_CLAIM?: string
+
+    // Claim of the JWT naming the role of the request in `tmp_roles`
+    ROLE_JWT_CLAIM?: string
+
+    // Comma separated regions holding a read replica of the internal database
+    READ_REPLICA_REGIONS?: string
+
+    // Comma separated roles of `ROLE_JWT_CLAIM` that may open interactive transactions
+    TRANSACTION_ROLES?: string
+
+    // Key of the HMAC replacing the values of columns masked with `hash`
+    MASKING_SECRET?: string
+
     // ## DO NOT REMOVE: TEMPLATE INTERFACE ##
 }
 
@@ -84,41 +116,278 @@ export default {
                 }
             }
 
+            // JWT Payload from Header or WebSocket query param.
+            let authenticationToken: string | null = null
+
+            if (!isWebSocket) {
+                authenticationToken =
+                    request.headers
+                        .get('Authorization')
+                        ?.replace('Bearer ', '') ?? null
+            } else if (isWebSocket) {
+                authenticationToken = url.searchParams.get('token')
+            }
+
+            // Each tenant has a database of its own, requests without a tenant use
+            // the default database.
+            const databaseName = resolveDatabaseName({
+                request,
+                token: authenticationToken,
+                claim: env.TENANT_JWT_CLAIM,
+                hostname: env.TENANT_HOSTNAME,
+            })
+
+            const config: StarbaseDBConfiguration = {
+                outerbaseApiKey: env.OUTERBASE_API_KEY,
+                role,
+                transactionRoles: env.TRANSACTION_ROLES?.split(',')
+                    .map((name) => name.trim())
+                    .filter(Boolean),
+                maskingSecret: env.MASKING_SECRET,
+                features: {
+                    allowlist: env.ENABLE_ALLOWLIST,
+                    rls: env.ENABLE_RLS,
+                    rbac: env.ENABLE_RBAC,
+                    masking: env.ENABLE_MASKING,
+                },
+            }
+
+            async function authenticate(token: string) {
+                const isAdminAuthorization =
+                    token === env.ADMIN_AUTHORIZATION_TOKEN
+                const isClientAuthorization =
+                    token === env.CLIENT_AUTHORIZATION_TOKEN
+
+                // If not admin or client auth, check if JWT auth is available
+                if (!isAdminAuthorization && !isClientAuthorization) {
+                    if (env.AUTH_JWKS_ENDPOINT) {
+                        const { payload } = await jwtVerify(
+                            token,
+                            createRemoteJWKSet(new URL(env.AUTH_JWKS_ENDPOINT)),
+                            {
+                                algorithms: env.AUTH_ALGORITHM
+                                    ? [env.AUTH_ALGORITHM]
+                                    : undefined,
+                            }
+                        )
+
+                        if (!payload.sub) {
+                            throw new Error(
+                                'Invalid JWT payload, subject not found.'
+                            )
+                        }
+
+                        // A token that names its tenant database cannot be used
+                        // to reach any other database.
+                        if (env.TENANT_JWT_CLAIM) {
+                            const claim = payload[env.TENANT_JWT_CLAIM]
+                            const claimedDatabase =
+                                typeof claim === 'string'
+                                    ? claim.trim().toLowerCase()
+                                    : undefined
+
+                            if (claimedDatabase !== databaseName) {
+                                throw new Error(
+                                    'Token is not valid for this database.'
+                                )
+                            }
+                        } else if (databaseName) {
+                            // Without the claim a token could pick any tenant
+                            // database by its header or subdomain.
+                            throw new Error(
+                                'Token is not valid for this database.'
+                            )
+                        }
+
+                        if (env.ROLE_JWT_CLAIM) {
+                            const claim = payload[env.ROLE_JWT_CLAIM]
+                            config.databaseRole =
+                                typeof claim === 'string' ? claim : undefined
+                        }
+
+                        context = payload
+                    } else {
+                        // If no JWT secret or JWKS endpoint is provided, then the request has no authorization.
+                        throw new Error('Unauthorized request')
+                    }
+                } else if (isAdminAuthorization) {
+                    config.role = 'admin'
+                }
+            }
+
+            /**
+             * Prior to proceeding to the Durable Object, we can perform any necessary validation or
+             * authorization checks here to ensure the request signature is valid and authorized to
+             * interact with the Durable Object.
+             */
+            async function authorize(): Promise<Response | undefined> {
+                // There must be some form of authentication token provided to proceed.
+                if (!authenticationToken) {
+                    return createResponse(
+                        undefined,
+                        'Unauthorized request',
+                        401
+                    )
+                }
+
+                try {
+                    await authenticate(authenticationToken)
+                } catch (error: any) {
+                    return createResponse(
+                        undefined,
+                        error?.message ?? 'Unable to process request.',
+                        400
+                    )
+                }
+            }
+
+            // Tenant databases must be created through `/databases` first, this keeps
+            // arbitrary names from creating new Durable Objects. Only authorized callers
+            // learn whether a tenant database exists.
+            if (
+                databaseName &&
+                !(await databaseExists(
+                    env.DATABASE_DURABLE_OBJECT,
+                    databaseName,
+                    { cached: true }
+                ))
+            ) {
+                return (
+                    (await authorize()) ??
+                    createResponse(
+                        undefined,
+                        `Database '${databaseName}' does not exist.`,
+                        404
+                    )
+                )
+            }
+
             /**
              * Retrieve the Durable Object identifier from the environment bindings and instantiate a
              * Durable Object stub to interact with the Durable Object.
              */
-            const region = env.REGION ?? RegionLocationHint.AUTO
-            const id: DurableObjectId =
-                env.DATABASE_DURABLE_OBJECT.idFromName(DURABLE_OBJECT_ID)
-            const stub =
-                region !== RegionLocationHint.AUTO
-                    ? env.DATABASE_DURABLE_OBJECT.get(id, {
-                          locationHint: region as DurableObjectLocationHint,
-                      })
-                    : env.DATABASE_DURABLE_OBJECT.get(id)
+            const stub = getDatabaseStub(env.DATABASE_DURABLE_OBJECT, {
+                name: databaseName,
+                region: env.REGION,
+            })
+
+            // Queries sent with a transaction identifier belong to an interactive
+            // transaction that was opened with `/query/transaction/begin`.
+            const transactionId =
+                request.headers.get('X-Starbase-Transaction') ?? undefined
+
+            const replicaRegions = parseReplicaRegions(env.READ_REPLICA_REGIONS)
+
+            const webSocketPlugin = new WebSocketPlugin()
+            const cronPlugin = new CronPlugin()
+            const cdcPlugin = new ChangeDataCapturePlugin({
+                stub,
+                broadcastAllEvents: false,
+                events: [],
+            })
+
+            cdcPlugin.onEvent(async ({ action, schema, table, data }) => {
+                // Include change data capture code here
+            }, ctx)
+
+            cronPlugin.onEvent(async ({ name, cron_tab, payload }) => {
+                // Include cron event code here
+            }, ctx)
+
+            const interfacePlugin = new InterfacePlugin()
+
+            const plugins = [
+                webSocketPlugin,
+                new StudioPlugin({
+                    username: env.STUDIO_USER,
+                    password: env.STUDIO_PASS,
+                    apiKey: env.ADMIN_AUTHORIZATION_TOKEN,
+                }),
+                new SqlMacrosPlugin({
+                    preventSelectStar: false,
+                }),
+                new QueryLogPlugin({ ctx }),
+                cdcPlugin,
+                cronPlugin,
+                new StatsPlugin(),
+                new GraphQLPlugin(),
+                interfacePlugin,
+            ] satisfies StarbasePlugin[]
+
+            // Routes of plugins serving webhooks, and the pages of our InterfacePlugin,
+            // are reached without authentication. If a page is meant to have any sort
+            // of authentication, it can provide Basic Auth itself or expose itself in
+            // another plugin. Every other request is authorized before the database
+            // is configured for it.
+            const isAuthless =
+                findAuthlessPlugin(plugins, request) !== undefined ||
+                interfacePlugin.matchesRoute(url.pathname)
+
+            if (!isAuthless) {
+                const unauthorized = await authorize()
+                if (unauthorized) {
+                    return unauthorized
+                }
+            }
 
             // Create a new RPC Session on the Durable Object.
-            const rpc = await stub.init()
+            const rpc = await stub.init(
+                isAuthless
+                    ? { transactionId }
+                    : { transactionId, database: databaseName, replicaRegions }
+            )
 
-            // Get the source type from headers/query params.
-            const source =
+            // Get the source type from headers/query params. Besides `internal` and
+            // `external` this can be the name of a registered external source.
+            const source = (
                 request.headers.get('X-Starbase-Source') ||
-                url.searchParams.get('source') // TODO: Should this come from here, or per-websocket message?
+                url.searchParams.get('source') || // TODO: Should this come from here, or per-websocket message?
+                'internal'
+            ).trim()
+            const isNamedSource = !['internal', 'external'].includes(
+                source.toLowerCase()
+            )
 
             const dataSource: DataSource = {
                 rpc,
-                source: source
-                    ? source.toLowerCase().trim() === 'external'
-                        ? 'external'
-                        : 'internal'
-                    : 'internal',
+                source:
+                    source.toLowerCase() === 'internal'
+                        ? 'internal'
+                        : 'external',
+                transactionId,
                 cache: request.headers.get('X-Starbase-Cache') === 'true',
                 context: {
                     ...context,
                 },
             }
 
+            // Read-only queries are served by the replica nearest to the client, unless
+            // the primary is located in that region already.
+            if (replicaRegions.length) {
+                const bookmark = Number(
+                    request.headers.get('X-Starbase-Bookmark') ?? 0
+                )
+                const region = getNearestRegion(request.cf)
+
+                dataSource.bookmark =
+                    Number.isInteger(bookmark) && bookmark > 0 ? bookmark : 0
+
+                if (
+                    region &&
+                    region !== env.REGION &&
+                    replicaRegions.includes(region)
+                ) {
+                    dataSource.replica = {
+                        stub: getReplicaStub(env.DATABASE_DURABLE_OBJECT, {
+                            name: databaseName,
+                            region,
+                        }),
+                        region,
+                        database: databaseName,
+                    }
+                }
+            }
+
             if (
                 env.EXTERNAL_DB_TYPE === 'postgresql' ||
                 env.EXTERNAL_DB_TYPE === 'mysql'
@@ -131,6 +400,8 @@ export default {
                     password: env.EXTERNAL_DB_PASS!,
                     database: env.EXTERNAL_DB_DATABASE!,
                     defaultSchema: env.EXTERNAL_DB_DEFAULT_SCHEMA,
+                    connectionString:
+                        env.EXTERNAL_DB_HYPERDRIVE?.connectionString,
                 }
             }
 
@@ -166,141 +437,38 @@ export default {
                 }
             }
 
-            const config: StarbaseDBConfiguration = {
-                outerbaseApiKey: env.OUTERBASE_API_KEY,
-                role,
-                features: {
-                    allowlist: env.ENABLE_ALLOWLIST,
-                    rls: env.ENABLE_RLS,
-                },
-            }
-
-            const webSocketPlugin = new WebSocketPlugin()
-            const cronPlugin = new CronPlugin()
-            const cdcPlugin = new ChangeDataCapturePlugin({
-                stub,
-                broadcastAllEvents: false,
-                events: [],
-            })
-
-            cdcPlugin.onEvent(async ({ action, schema, table, data }) => {
-                // Include change data capture code here
-            }, ctx)
-
-            cronPlugin.onEvent(async ({ name, cron_tab, payload }) => {
-                // Include cron event code here
-            }, ctx)
-
-            const interfacePlugin = new InterfacePlugin()
-
-            const plugins = [
-                webSocketPlugin,
-                new StudioPlugin({
-                    username: env.STUDIO_USER,
-                    password: env.STUDIO_PASS,
-                    apiKey: env.ADMIN_AUTHORIZATION_TOKEN,
-                }),
-                new SqlMacrosPlugin({
-                    preventSelectStar: false,
-                }),
-                new QueryLogPlugin({ ctx }),
-                cdcPlugin,
-                cronPlugin,
-                new StatsPlugin(),
-                interfacePlugin,
-            ] satisfies StarbasePlugin[]
-
             const starbase = new StarbaseDB({
                 dataSource,
                 config,
                 plugins,
+                databases: env.DATABASE_DURABLE_OBJECT,
             })
 
-            const preAuthRequest = await starbase.handlePreAuth(request, ctx)
-
-            if (preAuthRequest) {
-                return preAuthRequest
-            }
-
-            // When our InterfacePlugin has a supported path within it then we
-            // are making the assumption here that it is rendering a UI page for
-            // our users to visually load and we should return early before the
-            // next authentication checks happen. If a page is meant to have any
-            // sort of authentication, it can provide Basic Auth itself or expose
-            // itself in another plugin.
-            if (interfacePlugin.matchesRoute(url.pathname)) {
-                return await starbase.handle(request, ctx)
-            }
-
-            async function authenticate(token: string) {
-                const isAdminAuthorization =
-                    token === env.ADMIN_AUTHORIZATION_TOKEN
-                const isClientAuthorization =
-                    token === env.CLIENT_AUTHORIZATION_TOKEN
-
-                // If not admin or client auth, check if JWT auth is available
-                if (!isAdminAuthorization && !isClientAuthorization) {
-                    if (env.AUTH_JWKS_ENDPOINT) {
-                        const { payload } = await jwtVerify(
-                            token,
-                            createRemoteJWKSet(new URL(env.AUTH_JWKS_ENDPOINT)),
-                            {
-                                algorithms: env.AUTH_ALGORITHM
-                                    ? [env.AUTH_ALGORITHM]
-                                    : undefined,
-                            }
-                        )
-
-                        if (!payload.sub) {
-                            throw new Error(
-                                'Invalid JWT payload, subject not found.'
-                            )
-                        }
-
-                        context = payload
-                    } else {
-                        // If no JWT secret or JWKS endpoint is provided, then the request has no authorization.
-                        throw new Error('Unauthorized request')
-                    }
-                } else if (isAdminAuthorization) {
-                    config.role = 'admin'
+            try {
+                if (isAuthless) {
+                    return (
+                        (await starbase.handlePreAuth(request, ctx)) ??
+                        (await starbase.handle(request, ctx))
+                    )
                 }
-            }
-
-            // JWT Payload from Header or WebSocket query param.
-            let authenticationToken: string | null = null
-
-            /**
-             * Prior to proceeding to the Durable Object, we can perform any necessary validation or
-             * authorization checks here to ensure the request signature is valid and authorized to
-             * interact with the Durable Object.
-             */
-            if (!isWebSocket) {
-                authenticationToken =
-                    request.headers
-                        .get('Authorization')
-                        ?.replace('Bearer ', '') ?? null
-            } else if (isWebSocket) {
-                authenticationToken = url.searchParams.get('token')
-            }
 
-            // There must be some form of authentication token provided to proceed.
-            if (!authenticationToken) {
-                return createResponse(undefined, 'Unauthorized request', 401)
-            }
+                // Named sources are looked up once the request is authorized, as their
+                // configuration may be stored in the internal database.
+                if (isNamedSource) {
+                    dataSource.external = await loadDataSource({
+                        name: source,
+                        registry: parseDataSources(env.EXTERNAL_DB_SOURCES),
+                        dataSource,
+                    })
+                    dataSource.sourceName = source
+                }
 
-            try {
-                await authenticate(authenticationToken)
-            } catch (error: any) {
-                return createResponse(
-                    undefined,
-                    error?.message ?? 'Unable to process request.',
-                    400
-                )
+                // Return the final response to our user
+                return await starbase.handle(request, ctx)
+            } finally {
+                // Sockets to Postgres and MySQL cannot be reused by later requests.
+                ctx.waitUntil(closeRequestConnections(dataSource))
             }
-
-            // Return the final response to our user
-            return await starbase.handle(request, ctx)
         } catch (error) {
             // Return error response to client
             return createResponse(
@@ -0,0 +1,184 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+    buildFilterClause,
+    FilterError,
+    parseFilterParam,
+    SqlDialect,
+} from './filter'
+import { applyRLS } from '../rls'
+import type { DataSource } from '../types'
+
+function build(key: string, value: string, dialect: SqlDialect = 'sqlite') {
+    return buildFilterClause(parseFilterParam(key, value), {
+        dialect,
+        sanitizeIdentifier: (name) => name.replace(/[^a-zA-Z0-9_]/g, ''),
+    })
+}
+
+describe('parseFilterParam', () => {
+    it('should treat a plain value as equality', () => {
+        expect(parseFilterParam('name', 'Alice')).toEqual({
+            column: 'name',
+            operator: 'eq',
+            negated: false,
+            value: 'Alice',
+        })
+    })
+
+    it('should parse operators and negation from the value', () => {
+        expect(parseFilterParam('age', 'not.gt.18')).toEqual({
+            column: 'age',
+            operator: 'gt',
+            negated: true,
+            value: '18',
+        })
+    })
+
+    it('should parse the column.op syntax', () => {
+        expect(parseFilterParam('name.like', 'Al%')).toEqual({
+            column: 'name',
+            operator: 'like',
+            negated: false,
+            value: 'Al%',
+        })
+    })
+
+    it('should reject groups without parentheses', () => {
+        expect(() => parseFilterParam('or', 'a.eq.1')).toThrow(FilterError)
+    })
+
+    it('should reject group items without an operator', () => {
+        expect(() => parseFilterParam('or', '(a.1,b.eq.2)')).toThrow(
+            FilterError
+        )
+    })
+})
+
+describe('buildFilterClause', () => {
+    it('should build comparisons with bound values', () => {
+        expect(build('age', 'gte.18')).toEqual({
+            sql: 'age >= ?',
+            params: ['18'],
+        })
+        expect(build('name', 'neq.Bob')).toEqual({
+            sql: 'name != ?',
+            params: ['Bob'],
+        })
+    })
+
+    it('should build OR groups with nested AND groups', () => {
+        expect(
+            build('or', '(age.lt.18,and(role.eq.admin,name.not.is.null))')
+        ).toEqual({
+            sql: '(age < ? OR (role = ? AND NOT (name IS NULL)))',
+            params: ['18', 'admin'],
+        })
+    })
+
+    it('should negate groups', () => {
+        expect(build('not.and', '(a.eq.1,b.eq.2)')).toEqual({
+            sql: 'NOT (a = ? AND b = ?)',
+            params: ['1', '2'],
+        })
+    })
+
+    it('should build IN and NOT IN lists with quoted values', () => {
+        expect(build('name', 'in.(Alice,"Smith, Bob")')).toEqual({
+            sql: 'name IN (?, ?)',
+            params: ['Alice', 'Smith, Bob'],
+        })
+        expect(build('name.nin', 'Alice,Bob')).toEqual({
+            sql: 'name NOT IN (?, ?)',
+            params: ['Alice', 'Bob'],
+        })
+    })
+
+    it('should build IS conditions without parameters', () => {
+        expect(build('deleted_at', 'is.null')).toEqual({
+            sql: 'deleted_at IS NULL',
+            params: [],
+        })
+        expect(() => build('deleted_at', 'is.maybe')).toThrow(
+            "Filter 'is' on 'deleted_at' expects null, true or false."
+        )
+    })
+
+    it('should build BETWEEN conditions', () => {
+        expect(build('age', 'between.(18,65)')).toEqual({
+            sql: 'age BETWEEN ? AND ?',
+            params: ['18', '65'],
+        })
+        expect(() => build('age', 'between.(18)')).toThrow(FilterError)
+    })
+
+    it('should build case insensitive LIKE with * wildcards', () => {
+        expect(build('name', 'ilike.al*')).toEqual({
+            sql: 'LOWER(name) LIKE LOWER(?)',
+            params: ['al%'],
+        })
+    })
+
+    it('should build JSON array containment for each dialect', () => {
+        expect(build('tags', 'cs.{a,b}')).toEqual({
+            sql: '(EXISTS (SELECT 1 FROM json_each(tags) WHERE value = ?) AND EXISTS (SELECT 1 FROM json_each(tags) WHERE value = ?))',
+            params: ['a', 'b'],
+        })
+        expect(build('tags', 'cd.[1,2]')).toEqual({
+            sql: 'NOT EXISTS (SELECT 1 FROM json_each(tags) WHERE value NOT IN (?, ?))',
+            params: [1, 2],
+        })
+        expect(build('tags', 'cs.{1,b}', 'postgresql')).toEqual({
+            sql: 'tags::jsonb @> ?::jsonb',
+            params: ['[1,"b"]'],
+        })
+        expect(build('tags', 'cd.["a"]', 'mysql')).toEqual({
+            sql: 'JSON_CONTAINS(?, tags)',
+            params: ['["a"]'],
+        })
+    })
+
+    it('should build JSON array containment row level security can be applied to', async () => {
+        const dataSource = {
+            source: 'internal',
+            context: { sub: 'user123' },
+            rpc: {
+                executeQuery: vi.fn(async ({ sql }) =>
+                    sql.includes('tmp_rls_expression_policies')
+                        ? []
+                        : [
+                              {
+                                  actions: 'SELECT',
+                                  table: 'posts',
+                                  column: 'author',
+                                  value: 'context.id()',
+                                  value_type: 'string',
+                                  operator: '=',
+                              },
+                          ]
+                ),
+            },
+        } as unknown as DataSource
+
+        for (const filter of ['cs.{a,b}', 'cd.[1,2]']) {
+            const { sql, params } = build('tags', filter)
+            const secured = await applyRLS({
+                sql: `SELECT * FROM main.posts WHERE ${sql} LIMIT ?`,
+                params: [...params, 10],
+                isEnabled: true,
+                dataSource,
+                config: { role: 'client', features: { rls: true } },
+            })
+
+            expect(secured.sql).toContain('json_each(`tags`)')
+            expect(secured.sql).toContain('AND (`posts`.`author` = ?)')
+            expect(secured.params).toEqual([...params, 'user123', 10])
+        }
+    })
+
+    it('should sanitize column names', () => {
+        expect(build('or', '(name;DROP.eq.1)')).toEqual({
+            sql: '(nameDROP = ?)',
+            params: ['1'],
+        })
+    })
+})
@@ -0,0 +1,410 @@
+export type SqlDialect = 'sqlite' | 'postgresql' | 'mysql'
+
+// Thrown for query string parameters that cannot be parsed, such as filters, reported
+// to the client as a bad request.
+export class FilterError extends Error {
+    constructor(message: string) {
+        super(message)
+        this.name = 'FilterError'
+    }
+}
+
+const FILTER_OPERATORS = [
+    'eq',
+    'neq',
+    'ne',
+    'gt',
+    'gte',
+    'lt',
+    'lte',
+    'like',
+    'ilike',
+    'in',
+    'nin',
+    'is',
+    'between',
+    'cs',
+    'cd',
+] as const
+
+export type FilterOperator = (typeof FILTER_OPERATORS)[number]
+
+export type FilterCondition = {
+    column: string
+    operator: FilterOperator
+    negated: boolean
+    value: string
+}
+
+export type FilterGroup = {
+    type: 'and' | 'or'
+    negated: boolean
+    filters: Filter[]
+}
+
+export type Filter = FilterCondition | FilterGroup
+
+const COMPARISON_OPERATORS: Partial<Record<FilterOperator, string>> = {
+    eq: '=',
+    neq: '!=',
+    ne: '!=',
+    gt: '>',
+    gte: '>=',
+    lt: '<',
+    lte: '<=',
+}
+
+// `op.value` or `not.op.value`, as used on the right hand side of a filter
+const OPERATOR_PATTERN = new RegExp(
+    `^(not\\.)?(${FILTER_OPERATORS.join('|')})\\.([\\s\\S]*)$`
+)
+
+// `or(...)`, `and(...)` and their negations, as nested inside of a group
+const GROUP_PATTERN = /^(not\.)?(and|or)\(([\s\S]*)\)$/
+
+function isFilterOperator(value: string): value is FilterOperator {
+    return (FILTER_OPERATORS as readonly string[]).includes(value)
+}
+
+/**
+ * Splits a comma separated list on the commas that are not nested inside of
+ * parentheses or double quotes. Quoted items are unquoted, `\"` escapes a quote.
+ */
+export function splitList(text: string): string[] {
+    const items: string[] = []
+    let current = ''
+    let depth = 0
+    let quoted = false
+    let wasQuoted = false
+
+    for (let index = 0; index < text.length; index++) {
+        const char = text[index]
+
+        if (quoted) {
+            if (char === '\\' && text[index + 1] === '"') {
+                current += '"'
+                index++
+            } else if (char === '"') {
+                quoted = false
+            } else {
+                current += char
+            }
+        } else if (char === '"') {
+            quoted = true
+            wasQuoted = true
+        } else if (char === ',' && depth === 0) {
+            items.push(wasQuoted ? current : current.trim())
+            current = ''
+            wasQuoted = false
+        } else {
+            if (char === '(') depth++
+            if (char === ')') depth--
+            current += char
+        }
+    }
+
+    if (quoted || depth !== 0) {
+        throw new FilterError(`Unbalanced quotes or parentheses in '${text}'.`)
+    }
+
+    items.push(wasQuoted ? current : current.trim())
+    return items
+}
+
+// Lists are written as `(a,b)`, `{a,b}` or, for the legacy syntax, `a,b`.
+function parseList(value: string): string[] {
+    const list = /^[({][\s\S]*[)}]$/.test(value) ? value.slice(1, -1) : value
+    return list.trim() === '' ? [] : splitList(list)
+}
+
+// JSON arrays are written as `["a","b"]`, or as a list whose items are JSON scalars
+// where possible so that `{1,2}` matches numbers.
+function parseArray(value: string): unknown[] {
+    if (value.trim().startsWith('[')) {
+        let array: unknown
+
+        try {
+            array = JSON.parse(value)
+        } catch (error) {
+            throw new FilterError(`Invalid JSON array '${value}'.`)
+        }
+
+        if (!Array.isArray(array)) {
+            throw new FilterError(`Invalid JSON array '${value}'.`)
+        }
+
+        return array
+    }
+
+    return parseList(value).map((item) => {
+        try {
+            const scalar = JSON.parse(item)
+            return typeof scalar === 'object' && scalar !== null ? item : scalar
+        } catch (error) {
+            return item
+        }
+    })
+}
+
+function parseCondition(
+    column: string,
+    expression: string,
+    requireOperator: boolean
+): FilterCondition {
+    const match = expression.match(OPERATOR_PATTERN)
+
+    if (!match) {
+        if (requireOperator) {
+            throw new FilterError(
+                `Invalid filter '${column}.${expression}', expected column.operator.value.`
+            )
+        }
+
+        return { column, operator: 'eq', negated: false, value: expression }
+    }
+
+    return {
+        column,
+        operator: match[2] as FilterOperator,
+        negated: Boolean(match[1]),
+        value: match[3],
+    }
+}
+
+function parseGroup(
+    type: 'and' | 'or',
+    negated: boolean,
+    items: string
+): FilterGroup {
+    const filters = splitList(items).map((item): Filter => {
+        const group = item.match(GROUP_PATTERN)
+
+        if (group) {
+            return parseGroup(
+                group[2] as 'and' | 'or',
+                Boolean(group[1]),
+                group[3]
+            )
+        }
+
+        const separator = item.indexOf('.')
+
+        if (separator <= 0) {
+            throw new FilterError(
+                `Invalid filter '${item}', expected column.operator.value.`
+            )
+        }
+
+        return parseCondition(
+            item.slice(0, separator),
+            item.slice(separator + 1),
+            true
+        )
+    })
+
+    return { type, negated, filters }
+}
+
+/**
+ * Parses a single query string parameter into a filter. Supported forms are:
+ *
+ * - `column=value` and `column=op.value`, optionally negated as `column=not.op.value`
+ * - `column.op=value`, the original LiteREST syntax
+ * - `or=(a.eq.1,b.gt.2)` and `and=(...)`, optionally negated as `not.or=(...)`, whose
+ *   items can nest further groups as `and(c.lt.3,d.is.null)`
+ *
+ * @param key - Name of the query string parameter.
+ * @param value - Value of the query string parameter.
+ */
+export function parseFilterParam(key: string, value: string): Filter {
+    const group = key.match(/^(not\.)?(and|or)$/)
+
+    if (group) {
+        if (!/^\([\s\S]*\)$/.test(value)) {
+            throw new FilterError(
+                `Invalid filter '${key}=${value}', expected a list in parentheses.`
+            )
+        }
+
+        return parseGroup(
+            group[2] as 'and' | 'or',
+            Boolean(group[1]),
+            value.slice(1, -1)
+        )
+    }
+
+    const separator = key.indexOf('.')
+
+    if (separator > 0) {
+        // Unknown operators compare for equality, as they always have.
+        const operator = key.slice(separator + 1)
+
+        return {
+            column: key.slice(0, separator),
+            operator: isFilterOperator(operator) ? operator : 'eq',
+            negated: false,
+            value,
+        }
+    }
+
+    return parseCondition(key, value, false)
+}
+
+function buildCondition(
+    condition: FilterCondition,
+    opts: { dialect: SqlDialect; sanitizeIdentifier: (name: string) => string }
+): { sql: string; params: unknown[] } {
+    const column = opts.sanitizeIdentifier(condition.column)
+    const { operator, value } = condition
+
+    if (!column) {
+        throw new FilterError(`Invalid column '${condition.column}'.`)
+    }
+
+    const comparison = COMPARISON_OPERATORS[operator]
+
+    if (comparison) {
+        return { sql: `${column} ${comparison} ?`, params: [value] }
+    }
+
+    switch (operator) {
+        case 'like':
+            return {
+                sql: `${column} LIKE ?`,
+                params: [value.replace(/\*/g, '%')],
+            }
+        case 'ilike':
+            // Lowering both sides behaves the same on every dialect, where `LIKE` is
+            // case sensitive on Postgres and `ILIKE` does not exist elsewhere.
+            return {
+                sql: `LOWER(${column}) LIKE LOWER(?)`,
+                params: [value.replace(/\*/g, '%')],
+            }
+        case 'in':
+        case 'nin': {
+            const values = parseList(value)
+
+            if (!values.length) {
+                throw new FilterError(
+                    `Filter '${operator}' on '${column}' requires at least one value.`
+                )
+            }
+
+            const placeholders = values.map(() => '?').join(', ')
+            const keyword = operator === 'in' ? 'IN' : 'NOT IN'
+            return {
+                sql: `${column} ${keyword} (${placeholders})`,
+                params: values,
+            }
+        }
+        case 'is': {
+            const keyword = (
+                {
+                    null: 'NULL',
+                    unknown: 'NULL',
+                    true: 'TRUE',
+                    false: 'FALSE',
+                } as Record<string, string>
+            )[value.toLowerCase()]
+
+            if (!keyword) {
+                throw new FilterError(
+                    `Filter 'is' on '${column}' expects null, true or false.`
+                )
+            }
+
+            return { sql: `${column} IS ${keyword}`, params: [] }
+        }
+        case 'between': {
+            const values = parseList(value)
+
+            if (values.length !== 2) {
+                throw new FilterError(
+                    `Filter 'between' on '${column}' requires two values.`
+                )
+            }
+
+            return { sql: `${column} BETWEEN ? AND ?`, params: values }
+        }
+        case 'cs':
+        case 'cd': {
+            const values = parseArray(value)
+
+            if (!values.length) {
+                throw new FilterError(
+                    `Filter '${operator}' on '${column}' requires at least one value.`
+                )
+            }
+
+            if (opts.dialect === 'postgresql') {
+                const keyword = operator === 'cs' ? '@>' : '<@'
+                return {
+                    sql: `${column}::jsonb ${keyword} ?::jsonb`,
+                    params: [JSON.stringify(values)],
+                }
+            }
+
+            if (opts.dialect === 'mysql') {
+                return {
+                    sql:
+                        operator === 'cs'
+                            ? `JSON_CONTAINS(${column}, ?)`
+                            : `JSON_CONTAINS(?, ${column})`,
+                    params: [JSON.stringify(values)],
+                }
+            }
+
+            // Contains: every value is an element of the column. Contained by: the
+            // column has no element outside of the values.
+            if (operator === 'cs') {
+                const exists = values.map(
+                    () =>
+                        `EXISTS (SELECT 1 FROM json_each(${column}) WHERE value = ?)`
+                )
+                return { sql: `(${exists.join(' AND ')})`, params: values }
+            }
+
+            const placeholders = values.map(() => '?').join(', ')
+            return {
+                sql: `NOT EXISTS (SELECT 1 FROM json_each(${column}) WHERE value NOT IN (${placeholders}))`,
+                params: values,
+            }
+        }
+        default:
+            throw new FilterError(`Unsupported filter operator '${operator}'.`)
+    }
+}
+
+/**
+ * Builds the SQL condition for a filter, every value is bound as a parameter.
+ *
+ * @param filter - The parsed filter.
+ * @param opts.dialect - SQL dialect of the data source, used by the JSON operators.
+ * @param opts.sanitizeIdentifier - Sanitizes the column names referenced by the filter.
+ */
+export function buildFilterClause(
+    filter: Filter,
+    opts: { dialect: SqlDialect; sanitizeIdentifier: (name: string) => string }
+): { sql: string; params: unknown[] } {
+    if (!('type' in filter)) {
+        const condition = buildCondition(filter, opts)
+
+        return filter.negated
+            ? { sql: `NOT (${condition.sql})`, params: condition.params }
+            : condition
+    }
+
+    if (!filter.filters.length) {
+        throw new FilterError(`Filter '${filter.type}' requires conditions.`)
+    }
+
+    const clauses = filter.filters.map((item) => buildFilterClause(item, opts))
+    const sql = `(${clauses
+        .map((clause) => clause.sql)
+        .join(filter.type === 'and' ? ' AND ' : ' OR ')})`
+
+    return {
+        sql: filter.negated ? `NOT ${sql}` : sql,
+        params: clauses.flatMap((clause) => clause.params),
+    }
+}
@@ -1,16 +1,19 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { LiteREST } from './index'
-import { createResponse } from '../utils'
+import { createResponse, TransactionError } from '../utils'
 import { executeQuery, executeTransaction } from '../operation'
 import type { DataSource } from '../types'
 import type { StarbaseDBConfiguration } from '../handler'
+import { RLSViolationError } from '../rls'
+import { PermissionDeniedError } from '../rbac'
 
 vi.mock('../operation', () => ({
     executeQuery: vi.fn(),
     executeTransaction: vi.fn(),
 }))
 
-vi.mock('../utils', () => ({
+vi.mock('../utils', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('../utils')>()),
     createResponse: vi.fn(
         (data, message, status) =>
             new Response(JSON.stringify({ result: data, error: message }), {
@@ -30,6 +33,7 @@ let liteRest: LiteREST
 
 beforeEach(() => {
     vi.clearAllMocks()
+    vi.mocked(executeQuery).mockResolvedValue([])
 
     mockDataSource = {
         source: 'external',
@@ -62,14 +66,26 @@ describe('LiteREST', () => {
         })
     })
 
-    describe('sanitizeOperator', () => {
-        it('should return valid SQL operator', () => {
+    describe('filter operators', () => {
+        it('should map the column.op syntax to SQL operators', async () => {
+            vi.mocked(executeQuery).mockResolvedValue([{ name: 'id', pk: 1 }])
+
             // @ts-expect-error: Testing private method
-            expect(liteRest.sanitizeOperator('eq')).toBe('=')
-            // @ts-expect-error
-            expect(liteRest.sanitizeOperator('gte')).toBe('>=')
-            // @ts-expect-error
-            expect(liteRest.sanitizeOperator('invalid')).toBe('=')
+            const { query, params } = await liteRest.buildSelectQuery(
+                'users',
+                undefined,
+                undefined,
+                new URLSearchParams({
+                    'name.eq': 'Alice',
+                    'age.gte': '18',
+                    'role.invalid': 'admin',
+                })
+            )
+
+            expect(query).toBe(
+                'SELECT * FROM users WHERE name = ? AND age >= ? AND role = ?'
+            )
+            expect(params).toEqual(['Alice', '18', 'admin'])
         })
     })
 
@@ -150,6 +166,20 @@ describe('LiteREST', () => {
             expect(jsonResponse.error).toBe('Invalid data format')
         })
 
+        it('should return 400 for malformed JSON bodies', async () => {
+            const response = await liteRest.handleRequest(
+                new Request('http://localhost/rest/main/users?status=eq.open', {
+                    method: 'PATCH',
+                    body: '{"status": ',
+                })
+            )
+
+            expect(response.status).toBe(400)
+            expect(((await response.json()) as any).error).toBe(
+                'Invalid JSON in the request body.'
+            )
+        })
+
         it('should return 500 for POST errors', async () => {
             vi.mocked(executeTransaction).mockRejectedValue(
                 new Error('Insert failed')
@@ -170,6 +200,38 @@ describe('LiteREST', () => {
             expect(jsonResponse.error).toBe('Insert failed')
         })
 
+        it('should return 403 for writes denied by row level security', async () => {
+            vi.mocked(executeTransaction).mockRejectedValueOnce(
+                new RLSViolationError(
+                    'Unauthorized access: New rows of table users violate its INSERT policy on column user_id'
+                )
+            )
+
+            const request = new Request('http://localhost/rest/main/users', {
+                method: 'POST',
+                body: JSON.stringify({ name: 'Mallory', user_id: 'alice' }),
+                headers: { 'Content-Type': 'application/json' },
+            })
+
+            const response = await liteRest.handleRequest(request)
+
+            expect(response.status).toBe(403)
+        })
+
+        it('should return 403 for tables the role has not been granted', async () => {
+            vi.mocked(executeQuery).mockRejectedValueOnce(
+                new PermissionDeniedError(
+                    'Permission denied: role analyst cannot SELECT column salary of table users.'
+                )
+            )
+
+            const response = await liteRest.handleRequest(
+                new Request('http://localhost/rest/main/users?salary=gt.1000')
+            )
+
+            expect(response.status).toBe(403)
+        })
+
         it('should handle PATCH requests successfully', async () => {
             vi.mocked(executeQuery).mockImplementation(async ({ sql }) => {
                 if (sql.includes('PRAGMA table_info(users)')) {
@@ -389,6 +451,885 @@ describe('LiteREST', () => {
         })
     })
 
+    describe('embedded resources', () => {
+        function mockForeignKeys(foreignKeys: Record<string, any[]>) {
+            vi.mocked(executeQuery).mockImplementation(async ({ sql }) => {
+                const table = sql.match(/foreign_key_list\((\w+)\)/)?.[1]
+                return table
+                    ? (foreignKeys[table] ?? [])
+                    : [{ name: 'id', pk: 1 }]
+            })
+        }
+
+        it('should embed the row a foreign key references', async () => {
+            mockForeignKeys({
+                posts: [{ id: 0, from: 'author_id', table: 'users', to: 'id' }],
+            })
+            vi.mocked(executeTransaction)
+                .mockResolvedValueOnce([
+                    [
+                        { title: 'Hello', author_id: 1 },
+                        { title: 'Draft', author_id: null },
+                    ],
+                ])
+                .mockResolvedValueOnce([[{ name: 'Alice', id: 1 }]])
+
+            const response = await liteRest.handleRequest(
+                new Request(
+                    'http://localhost/rest/main/posts?select=title,author:users(name)'
+                )
+            )
+            const body = (await response.json()) as any
+
+            expect(
+                vi.mocked(executeTransaction).mock.calls[0][0].queries
+            ).toEqual([
+                { sql: 'SELECT title, author_id FROM main.posts', params: [] },
+            ])
+            expect(
+                vi.mocked(executeTransaction).mock.calls[1][0].queries
+            ).toEqual([
+                {
+                    sql: 'SELECT name, id FROM main.users WHERE id IN (?)',
+                    params: [1],
+                },
+            ])
+            expect(body.result).toEqual([
+                { title: 'Hello', author: { name: 'Alice' } },
+                { title: 'Draft', author: null },
+            ])
+        })
+
+        it('should embed the rows referencing a table as a list', async () => {
+            mockForeignKeys({
+                posts: [{ id: 0, from: 'author_id', table: 'users', to: 'id' }],
+            })
+            vi.mocked(executeTransaction)
+                .mockResolvedValueOnce([
+                    [
+                        { id: 1, name: 'Alice' },
+                        { id: 2, name: 'Bob' },
+                    ],
+                ])
+                .mockResolvedValueOnce([
+                    [
+                        { title: 'Hello', author_id: 1 },
+                        { title: 'World', author_id: 1 },
+                    ],
+                ])
+
+            const response = await liteRest.handleRequest(
+                new Request(
+                    'http://localhost/rest/main/users?select=id,name,posts(title)'
+                )
+            )
+            const body = (await response.json()) as any
+
+            expect(body.result).toEqual([
+                {
+                    id: 1,
+                    name: 'Alice',
+                    posts: [{ title: 'Hello' }, { title: 'World' }],
+                },
+                { id: 2, name: 'Bob', posts: [] },
+            ])
+        })
+
+        it('should return 400 when tables are not related', async () => {
+            mockForeignKeys({})
+
+            const response = await liteRest.handleRequest(
+                new Request('http://localhost/rest/main/users?select=orders(*)')
+            )
+            const body = (await response.json()) as any
+
+            expect(response.status).toBe(400)
+            expect(body.error).toBe(
+                "No relationship found between 'users' and 'orders'."
+            )
+        })
+    })
+
+    describe('bulk insert and upserts', () => {
+        it('should insert every row of an array in one transaction', async () => {
+            vi.mocked(executeTransaction).mockResolvedValue([[], []])
+
+            const response = await liteRest.handleRequest(
+                new Request('http://localhost/rest/main/users', {
+                    method: 'POST',
+                    body: JSON.stringify([{ name: 'Alice' }, { name: 'Bob' }]),
+                })
+            )
+            const body = (await response.json()) as any
+
+            expect(response.status).toBe(201)
+            expect(executeTransaction).toHaveBeenCalledTimes(1)
+            expect(
+                vi.mocked(executeTransaction).mock.calls[0][0].queries
+            ).toEqual([
+                {
+                    sql: 'INSERT INTO main.users (name) VALUES (?)',
+                    params: ['Alice'],
+                },
+                {
+                    sql: 'INSERT INTO main.users (name) VALUES (?)',
+                    params: ['Bob'],
+                },
+            ])
+            expect(body.result).toEqual({
+                message: 'Resources created successfully',
+                data: [{ name: 'Alice' }, { name: 'Bob' }],
+                results: [
+                    { index: 0, status: 'created' },
+                    { index: 1, status: 'created' },
+                ],
+            })
+        })
+
+        it('should merge duplicates on the primary key', async () => {
+            vi.mocked(executeQuery).mockResolvedValue([{ name: 'id', pk: 1 }])
+            vi.mocked(executeTransaction).mockResolvedValue([[]])
+
+            const response = await liteRest.handleRequest(
+                new Request('http://localhost/rest/main/users', {
+                    method: 'POST',
+                    body: JSON.stringify([{ id: 1, name: 'Alice' }]),
+                    headers: { Prefer: 'resolution=merge-duplicates' },
+                })
+            )
+            const body = (await response.json()) as any
+
+            expect(
+                vi.mocked(executeTransaction).mock.calls[0][0].queries
+            ).toEqual([
+                {
+                    sql: 'INSERT INTO main.users (id, name) VALUES (?, ?) ON CONFLICT (id) DO UPDATE SET name = excluded.name',
+                    params: [1, 'Alice'],
+                },
+            ])
+            expect(body.result.results).toEqual([
+                { index: 0, status: 'merged' },
+            ])
+        })
+
+        it('should report which rows were ignored', async () => {
+            vi.mocked(executeTransaction).mockResolvedValue([
+                [{ written: 1 }],
+                [],
+            ])
+
+            const response = await liteRest.handleRequest(
+                new Request(
+                    'http://localhost/rest/main/users?on_conflict=email',
+                    {
+                        method: 'POST',
+                        body: JSON.stringify([
+                            { email: 'a@example.com' },
+                            { email: 'b@example.com' },
+                        ]),
+                        headers: { Prefer: 'resolution=ignore-duplicates' },
+                    }
+                )
+            )
+            const body = (await response.json()) as any
+
+            expect(
+                vi.mocked(executeTransaction).mock.calls[0][0].queries[0].sql
+            ).toBe(
+                'INSERT INTO main.users (email) VALUES (?) ON CONFLICT (email) DO NOTHING RETURNING 1 AS written'
+            )
+            expect(body.result.results).toEqual([
+                { index: 0, status: 'created' },
+                { index: 1, status: 'ignored' },
+            ])
+        })
+
+        it('should read the affected rows on MySQL', async () => {
+            mockDataSource.external!.dialect = 'mysql'
+            vi.mocked(executeTransaction).mockResolvedValue([
+                [],
+                [{ written: 0 }],
+            ])
+
+            const response = await liteRest.handleRequest(
+                new Request('http://localhost/rest/main/users', {
+                    method: 'POST',
+                    body: JSON.stringify([{ email: 'a@example.com' }]),
+                    headers: { Prefer: 'resolution=ignore-duplicates' },
+                })
+            )
+            const body = (await response.json()) as any
+
+            expect(
+                vi.mocked(executeTransaction).mock.calls[0][0].queries
+            ).toEqual([
+                {
+                    sql: 'INSERT IGNORE INTO main.users (email) VALUES (?)',
+                    params: ['a@example.com'],
+                },
+                { sql: 'SELECT ROW_COUNT() AS written', params: [] },
+            ])
+            expect(body.result.results).toEqual([
+                { index: 0, status: 'ignored' },
+            ])
+        })
+
+        it('should report the row that failed', async () => {
+            vi.mocked(executeTransaction).mockRejectedValue(
+                new TransactionError(1, 'UNIQUE constraint failed: users.email')
+            )
+
+            const response = await liteRest.handleRequest(
+                new Request('http://localhost/rest/main/users', {
+                    method: 'POST',
+                    body: JSON.stringify([
+                        { email: 'a@example.com' },
+                        { email: 'a@example.com' },
+                    ]),
+                })
+            )
+            const body = (await response.json()) as any
+
+            expect(response.status).toBe(500)
+            expect(body.error).toBe(
+                'Row 1 failed: UNIQUE constraint failed: users.email'
+            )
+        })
+
+        it('should return 400 for invalid rows', async () => {
+            const response = await liteRest.handleRequest(
+                new Request('http://localhost/rest/main/users', {
+                    method: 'POST',
+                    body: JSON.stringify([{ name: 'Alice' }, 'Bob']),
+                })
+            )
+            const body = (await response.json()) as any
+
+            expect(response.status).toBe(400)
+            expect(body.error).toBe('Invalid data format for row 1')
+            expect(executeTransaction).not.toHaveBeenCalled()
+        })
+    })
+
+    describe('bulk updates and deletes', () => {
+        beforeEach(() => {
+            vi.mocked(executeQuery).mockResolvedValue([{ name: 'id', pk: 1 }])
+        })
+
+        it('should update every row matching the filters', async () => {
+            vi.mocked(executeTransaction).mockResolvedValue([
+                [{ affected: 1 }, { affected: 1 }, { affected: 1 }],
+            ])
+
+            const response = await liteRest.handleRequest(
+                new Request(
+                    'http://localhost/rest/main/orders?status=eq.pending',
+                    {
+                        method: 'PATCH',
+                        body: JSON.stringify({ status: 'cancelled' }),
+                    }
+                )
+            )
+
+            expect(response.status).toBe(200)
+            expect(response.headers.get('X-Starbase-Affected-Rows')).toBe('3')
+            expect(
+                vi.mocked(executeTransaction).mock.calls[0][0].queries
+            ).toEqual([
+                {
+                    sql: 'UPDATE main.orders SET status = ? WHERE status = ? RETURNING 1 AS affected',
+                    params: ['cancelled', 'pending'],
+                },
+            ])
+        })
+
+        it('should delete every row matching the filters', async () => {
+            vi.mocked(executeTransaction).mockResolvedValue([
+                [{ affected: 1 }, { affected: 1 }],
+            ])
+
+            const response = await liteRest.handleRequest(
+                new Request(
+                    'http://localhost/rest/main/sessions?expires_at=lt.1700000000',
+                    { method: 'DELETE' }
+                )
+            )
+
+            expect(response.status).toBe(200)
+            expect(response.headers.get('X-Starbase-Affected-Rows')).toBe('2')
+            expect(
+                vi.mocked(executeTransaction).mock.calls[0][0].queries[0]
+            ).toEqual({
+                sql: 'DELETE FROM main.sessions WHERE expires_at < ? RETURNING 1 AS affected',
+                params: ['1700000000'],
+            })
+        })
+
+        it('should count the returned rows on Postgres', async () => {
+            mockDataSource.external!.dialect = 'postgresql'
+            vi.mocked(executeTransaction).mockResolvedValue([[{}, {}]])
+
+            const response = await liteRest.handleRequest(
+                new Request(
+                    'http://localhost/rest/main/sessions?user_id=eq.1',
+                    {
+                        method: 'DELETE',
+                    }
+                )
+            )
+
+            expect(response.headers.get('X-Starbase-Affected-Rows')).toBe('2')
+            expect(
+                vi.mocked(executeTransaction).mock.calls[0][0].queries
+            ).toEqual([
+                {
+                    sql: 'DELETE FROM main.sessions WHERE user_id = ? RETURNING 1 AS affected',
+                    params: ['1'],
+                },
+            ])
+        })
+
+        it('should read the row count on MySQL', async () => {
+            mockDataSource.external!.dialect = 'mysql'
+            vi.mocked(executeTransaction).mockResolvedValue([
+                [],
+                [{ affected: 4 }],
+            ])
+
+            const response = await liteRest.handleRequest(
+                new Request(
+                    'http://localhost/rest/main/sessions?user_id=eq.1',
+                    {
+                        method: 'DELETE',
+                    }
+                )
+            )
+
+            expect(response.headers.get('X-Starbase-Affected-Rows')).toBe('4')
+            expect(
+                vi.mocked(executeTransaction).mock.calls[0][0].queries[1]
+            ).toEqual({ sql: 'SELECT ROW_COUNT() AS affected', params: [] })
+        })
+
+        it('should combine filters with the id of a single row', async () => {
+            vi.mocked(executeTransaction).mockResolvedValue([[]])
+
+            const response = await liteRest.handleRequest(
+                new Request(
+                    'http://localhost/rest/main/orders/1?status=eq.paid',
+                    {
+                        method: 'DELETE',
+                    }
+                )
+            )
+
+            expect(response.headers.get('X-Starbase-Affected-Rows')).toBe('0')
+            expect(
+                vi.mocked(executeTransaction).mock.calls[0][0].queries[0]
+            ).toEqual({
+                sql: 'DELETE FROM main.orders WHERE id = ? AND status = ? RETURNING 1 AS affected',
+                params: ['1', 'paid'],
+            })
+        })
+
+        it('should refuse updates without an id or filters', async () => {
+            const response = await liteRest.handleRequest(
+                new Request('http://localhost/rest/main/orders', {
+                    method: 'PATCH',
+                    body: JSON.stringify({ status: 'cancelled' }),
+                })
+            )
+            const body = (await response.json()) as any
+
+            expect(response.status).toBe(400)
+            expect(body.error).toBe("Missing primary key value for 'id'")
+            expect(executeTransaction).not.toHaveBeenCalled()
+        })
+    })
+
+    describe('returning representations', () => {
+        beforeEach(() => {
+            vi.mocked(executeQuery).mockResolvedValue([{ name: 'id', pk: 1 }])
+        })
+
+        it('should return the stored row of a POST', async () => {
+            vi.mocked(executeTransaction).mockResolvedValue([
+                [{ id: 7, name: 'Alice', role: 'member' }],
+            ])
+
+            const response = await liteRest.handleRequest(
+                new Request('http://localhost/rest/main/users', {
+                    method: 'POST',
+                    body: JSON.stringify({ name: 'Alice' }),
+                    headers: { Prefer: 'return=representation' },
+                })
+            )
+            const body = (await response.json()) as any
+
+            expect(
+                vi.mocked(executeTransaction).mock.calls[0][0].queries
+            ).toEqual([
+                {
+                    sql: 'INSERT INTO main.users (name) VALUES (?) RETURNING *',
+                    params: ['Alice'],
+                },
+            ])
+            expect(body.result).toEqual({
+                message: 'Resource created successfully',
+                data: { id: 7, name: 'Alice', role: 'member' },
+            })
+        })
+
+        it('should read inserted rows back by their key on MySQL', async () => {
+            mockDataSource.external!.dialect = 'mysql'
+            vi.mocked(executeTransaction).mockResolvedValue([
+                [],
+                [{ id: 7, name: 'Alice' }],
+            ])
+
+            const response = await liteRest.handleRequest(
+                new Request('http://localhost/rest/main/users', {
+                    method: 'POST',
+                    body: JSON.stringify([{ name: 'Alice' }]),
+                    headers: { Prefer: 'return=representation' },
+                })
+            )
+            const body = (await response.json()) as any
+
+            expect(
+                vi.mocked(executeTransaction).mock.calls[0][0].queries
+            ).toEqual([
+                {
+                    sql: 'INSERT INTO main.users (name) VALUES (?)',
+                    params: ['Alice'],
+                },
+                {
+                    sql: 'SELECT * FROM main.users WHERE id = LAST_INSERT_ID()',
+                    params: [],
+                },
+            ])
+            expect(body.result.data).toEqual([{ id: 7, name: 'Alice' }])
+        })
+
+        it('should leave out the data for minimal returns', async () => {
+            vi.mocked(executeTransaction).mockResolvedValue([[]])
+
+            const response = await liteRest.handleRequest(
+                new Request('http://localhost/rest/main/users', {
+                    method: 'POST',
+                    body: JSON.stringify({ name: 'Alice' }),
+                    headers: { Prefer: 'return=minimal' },
+                })
+            )
+            const body = (await response.json()) as any
+
+            expect(response.status).toBe(201)
+            expect(body.result).toEqual({
+                message: 'Resource created successfully',
+            })
+        })
+
+        it('should return the updated row of a PATCH', async () => {
+            vi.mocked(executeTransaction).mockResolvedValue([
+                [{ id: 1, name: 'Bob', updated_at: 1700000000 }],
+            ])
+
+            const response = await liteRest.handleRequest(
+                new Request('http://localhost/rest/main/users/1', {
+                    method: 'PATCH',
+                    body: JSON.stringify({ name: 'Bob' }),
+                    headers: { Prefer: 'return=representation' },
+                })
+            )
+            const body = (await response.json()) as any
+
+            expect(
+                vi.mocked(executeTransaction).mock.calls[0][0].queries[0].sql
+            ).toBe('UPDATE main.users SET name = ? WHERE id = ? RETURNING *')
+            expect(response.headers.get('X-Starbase-Affected-Rows')).toBe('1')
+            expect(body.result.data).toEqual({
+                id: 1,
+                name: 'Bob',
+                updated_at: 1700000000,
+            })
+        })
+
+        it('should read updated rows back by their key on MySQL', async () => {
+            mockDataSource.external!.dialect = 'mysql'
+            vi.mocked(executeTransaction)
+                .mockResolvedValueOnce([
+                    [
+                        { id: 1, status: 'pending' },
+                        { id: 2, status: 'pending' },
+                    ],
+                ])
+                .mockResolvedValueOnce([[], [{ affected: 2 }]])
+                .mockResolvedValueOnce([
+                    [
+                        { id: 1, status: 'paid' },
+                        { id: 2, status: 'paid' },
+                    ],
+                ])
+
+            const response = await liteRest.handleRequest(
+                new Request(
+                    'http://localhost/rest/main/orders?status=eq.pending',
+                    {
+                        method: 'PATCH',
+                        body: JSON.stringify({ status: 'paid' }),
+                        headers: { Prefer: 'return=representation' },
+                    }
+                )
+            )
+            const body = (await response.json()) as any
+
+            expect(
+                vi.mocked(executeTransaction).mock.calls[0][0].queries
+            ).toEqual([
+                {
+                    sql: 'SELECT * FROM main.orders WHERE status = ?',
+                    params: ['pending'],
+                },
+            ])
+            expect(
+                vi.mocked(executeTransaction).mock.calls[2][0].queries
+            ).toEqual([
+                {
+                    sql: 'SELECT * FROM main.orders WHERE (id = ?) OR (id = ?)',
+                    params: [1, 2],
+                },
+            ])
+            expect(response.headers.get('X-Starbase-Affected-Rows')).toBe('2')
+            expect(body.result.data).toEqual([
+                { id: 1, status: 'paid' },
+                { id: 2, status: 'paid' },
+            ])
+        })
+
+        it('should return the deleted rows', async () => {
+            vi.mocked(executeTransaction).mockResolvedValue([
+                [{ id: 3, token: 'abc' }],
+            ])
+
+            const response = await liteRest.handleRequest(
+                new Request(
+                    'http://localhost/rest/main/sessions?user_id=eq.1',
+                    {
+                        method: 'DELETE',
+                        headers: { Prefer: 'return=representation' },
+                    }
+                )
+            )
+            const body = (await response.json()) as any
+
+            expect(body.result).toEqual({
+                message: 'Resource deleted successfully',
+                data: [{ id: 3, token: 'abc' }],
+            })
+        })
+
+        it('should require a primary key to return updated rows on MySQL', async () => {
+            mockDataSource.external!.dialect = 'mysql'
+            vi.mocked(executeQuery).mockResolvedValue([])
+
+            const response = await liteRest.handleRequest(
+                new Request('http://localhost/rest/main/logs?level=eq.debug', {
+                    method: 'PATCH',
+                    body: JSON.stringify({ level: 'info' }),
+                    headers: { Prefer: 'return=representation' },
+                })
+            )
+            const body = (await response.json()) as any
+
+            expect(response.status).toBe(400)
+            expect(body.error).toBe(
+                'Returning the representation on MySQL requires a primary key'
+            )
+        })
+    })
+
+    describe('pagination', () => {
+        beforeEach(() => {
+            vi.mocked(executeQuery).mockResolvedValue([{ name: 'id', pk: 1 }])
+        })
+
+        it('should return a cursor for the next page', async () => {
+            vi.mocked(executeTransaction).mockResolvedValue([
+                [
+                    { id: 3, name: 'Alice', created_at: 20 },
+                    { id: 2, name: 'Bob', created_at: 10 },
+                ],
+            ])
+
+            const response = await liteRest.handleRequest(
+                new Request(
+                    'http://localhost/rest/main/users?select=name&order=created_at.desc&limit=2'
+                )
+            )
+            const body = (await response.json()) as any
+            const cursor = response.headers.get('X-Starbase-Next-Cursor')
+
+            expect(
+                vi.mocked(executeTransaction).mock.calls[0][0].queries
+            ).toEqual([
+                {
+                    sql: 'SELECT name, created_at, id FROM main.users ORDER BY created_at DESC, id ASC LIMIT ?',
+                    params: [2],
+                },
+            ])
+            expect(body.result).toEqual([{ name: 'Alice' }, { name: 'Bob' }])
+            expect(cursor).toBeTruthy()
+
+            vi.mocked(executeTransaction).mockResolvedValue([
+                [{ id: 1, name: 'Carol', created_at: 5 }],
+            ])
+
+            const next = await liteRest.handleRequest(
+                new Request(
+                    `http://localhost/rest/main/users?select=name&order=created_at.desc&limit=2&cursor=${cursor}`
+                )
+            )
+
+            expect(
+                vi.mocked(executeTransaction).mock.calls[1][0].queries
+            ).toEqual([
+                {
+                    sql: 'SELECT name, created_at, id FROM main.users WHERE ((created_at < ?) OR (created_at = ? AND id > ?)) ORDER BY created_at DESC, id ASC LIMIT ?',
+                    params: [10, 10, 2, 2],
+                },
+            ])
+            expect(next.headers.get('X-Starbase-Next-Cursor')).toBeNull()
+        })
+
+        it('should return 400 for a cursor of a different order', async () => {
+            vi.mocked(executeTransaction).mockResolvedValue([
+                [{ id: 2, name: 'Bob' }],
+            ])
+
+            const first = await liteRest.handleRequest(
+                new Request('http://localhost/rest/main/users?limit=1')
+            )
+            const cursor = first.headers.get('X-Starbase-Next-Cursor')
+            const response = await liteRest.handleRequest(
+                new Request(
+                    `http://localhost/rest/main/users?order=name&limit=1&cursor=${cursor}`
+                )
+            )
+
+            expect(response.status).toBe(400)
+        })
+
+        it('should return the total in the Content-Range header', async () => {
+            vi.mocked(executeTransaction)
+                .mockResolvedValueOnce([[{ id: 11 }, { id: 12 }]])
+                .mockResolvedValueOnce([[{ count: 42 }]])
+
+            const response = await liteRest.handleRequest(
+                new Request(
+                    'http://localhost/rest/main/users?status=eq.active&limit=2&offset=10',
+                    { headers: { Prefer: 'count=exact' } }
+                )
+            )
+
+            expect(
+                vi.mocked(executeTransaction).mock.calls[1][0].queries
+            ).toEqual([
+                {
+                    sql: 'SELECT COUNT(*) AS count FROM main.users WHERE status = ?',
+                    params: ['active'],
+                },
+            ])
+            expect(response.headers.get('Content-Range')).toBe('10-11/42')
+        })
+
+        it('should estimate the total with the query planner', async () => {
+            mockDataSource.external!.dialect = 'postgresql'
+            vi.mocked(executeTransaction)
+                .mockResolvedValueOnce([[]])
+                .mockResolvedValueOnce([
+                    [{ 'QUERY PLAN': [{ Plan: { 'Plan Rows': 1200000 } }] }],
+                ])
+
+            const response = await liteRest.handleRequest(
+                new Request('http://localhost/rest/main/events', {
+                    headers: { Prefer: 'count=estimated' },
+                })
+            )
+
+            expect(
+                vi.mocked(executeTransaction).mock.calls[1][0].queries[0].sql
+            ).toBe('EXPLAIN (FORMAT JSON) SELECT 1 FROM main.events')
+            expect(response.headers.get('Content-Range')).toBe('*/1200000')
+        })
+    })
+
+    describe('functions and views', () => {
+        it('should call a registered function with its arguments', async () => {
+            vi.mocked(mockDataSource.rpc.executeQuery).mockResolvedValue([
+                {
+                    name: 'adults',
+                    sql: 'SELECT * FROM users WHERE age >= :min_age',
+                    arguments: '[{"name":"min_age","type":"integer"}]',
+                },
+            ] as any)
+            vi.mocked(executeQuery).mockResolvedValue([{ id: 1 }])
+
+            const response = await liteRest.handleRequest(
+                new Request('http://localhost/rest/rpc/adults', {
+                    method: 'POST',
+                    body: JSON.stringify({ min_age: 18 }),
+                })
+            )
+
+            expect(response.status).toBe(200)
+            expect(((await response.json()) as any).result).toEqual([{ id: 1 }])
+            expect(mockDataSource.rpc.executeQuery).toHaveBeenCalledWith({
+                sql: expect.stringContaining('FROM tmp_rest_functions'),
+                params: ['adults', 'external'],
+            })
+            expect(vi.mocked(executeQuery).mock.calls[0][0]).toMatchObject({
+                sql: 'SELECT * FROM users WHERE age >= :min_age',
+                params: { min_age: 18 },
+            })
+        })
+
+        it('should reject invalid arguments of a function', async () => {
+            vi.mocked(mockDataSource.rpc.executeQuery).mockResolvedValue([
+                {
+                    name: 'adults',
+                    sql: 'SELECT * FROM users WHERE age >= :min_age',
+                    arguments: '[{"name":"min_age","type":"integer"}]',
+                },
+            ] as any)
+
+            const response = await liteRest.handleRequest(
+                new Request('http://localhost/rest/rpc/adults', {
+                    method: 'POST',
+                    body: JSON.stringify({ min_age: 'old' }),
+                })
+            )
+
+            expect(response.status).toBe(400)
+            expect(((await response.json()) as any).error).toBe(
+                "Argument 'min_age' must be of type integer."
+            )
+            expect(executeQuery).not.toHaveBeenCalled()
+        })
+
+        it('should return 404 for unknown functions', async () => {
+            vi.mocked(mockDataSource.rpc.executeQuery).mockResolvedValue(
+                [] as any
+            )
+
+            const response = await liteRest.handleRequest(
+                new Request('http://localhost/rest/rpc/missing', {
+                    method: 'POST',
+                })
+            )
+
+            expect(response.status).toBe(404)
+            expect(((await response.json()) as any).error).toBe(
+                "Function 'missing' not found."
+            )
+        })
+
+        it('should only call functions with POST', async () => {
+            const response = await liteRest.handleRequest(
+                new Request('http://localhost/rest/rpc/adults')
+            )
+
+            expect(response.status).toBe(405)
+            expect(response.headers.get('Allow')).toBe('POST')
+        })
+
+        it('should reject changes to views', async () => {
+            vi.mocked(executeQuery).mockImplementation(async ({ sql }) =>
+                sql.includes('sqlite_master') ? [{ type: 'view' }] : []
+            )
+
+            for (const method of ['POST', 'PUT', 'PATCH', 'DELETE']) {
+                const response = await liteRest.handleRequest(
+                    new Request('http://localhost/rest/main/active_users/1', {
+                        method,
+                        body: method === 'DELETE' ? undefined : '{"a":1}',
+                    })
+                )
+
+                expect(response.status).toBe(405)
+                expect(response.headers.get('Allow')).toBe('GET')
+                expect(((await response.json()) as any).error).toBe(
+                    "'active_users' is a view and cannot be modified."
+                )
+            }
+
+            expect(executeTransaction).not.toHaveBeenCalled()
+        })
+
+        it('should query views with the filter grammar', async () => {
+            vi.mocked(executeQuery).mockResolvedValue([])
+
+            const response = await liteRest.handleRequest(
+                new Request(
+                    'http://localhost/rest/main/active_users?age=gte.18'
+                )
+            )
+
+            expect(response.status).toBe(200)
+            expect(
+                vi.mocked(executeTransaction).mock.calls[0][0].queries
+            ).toEqual([
+                {
+                    sql: 'SELECT * FROM main.active_users WHERE age >= ?',
+                    params: ['18'],
+                },
+            ])
+        })
+
+        it('should list tables and views', async () => {
+            vi.mocked(executeQuery).mockResolvedValue([
+                { schema: 'main', name: 'active_users', type: 'view' },
+                { schema: 'main', name: 'users', type: 'table' },
+            ])
+
+            const response = await liteRest.handleRequest(
+                new Request('http://localhost/rest')
+            )
+
+            expect(response.status).toBe(200)
+            expect(((await response.json()) as any).result).toHaveLength(2)
+            expect(vi.mocked(executeQuery).mock.calls[0][0].sql).toContain(
+                "type IN ('table', 'view')"
+            )
+        })
+
+        it('should address tables without a schema or with schema.table', async () => {
+            vi.mocked(executeQuery).mockResolvedValue([])
+
+            await liteRest.handleRequest(
+                new Request('http://localhost/rest/users')
+            )
+            await liteRest.handleRequest(
+                new Request('http://localhost/rest/temp.sessions')
+            )
+
+            const pragmas = vi
+                .mocked(executeQuery)
+                .mock.calls.map(([opts]) => opts.sql)
+            const queries = vi
+                .mocked(executeTransaction)
+                .mock.calls.map(([opts]) => opts.queries[0].sql)
+
+            expect(pragmas).toEqual([
+                'PRAGMA table_info(users);',
+                'PRAGMA temp.table_info(sessions);',
+            ])
+            expect(queries).toEqual([
+                'SELECT * FROM users',
+                'SELECT * FROM temp.sessions',
+            ])
+        })
+    })
+
     describe('buildSelectQuery', () => {
         it('should build a valid SELECT query', async () => {
             vi.mocked(executeQuery).mockResolvedValue([{ name: 'id', pk: 1 }])
@@ -473,6 +1414,78 @@ describe('LiteREST', () => {
             expect(params).toEqual([])
         })
 
+        it('should combine PostgREST style filters with the primary key', async () => {
+            vi.mocked(executeQuery).mockResolvedValue([{ name: 'id', pk: 1 }])
+
+            // @ts-expect-error: Testing private method
+            const { query, params } = await liteRest.buildSelectQuery(
+                'users',
+                undefined,
+                undefined,
+                new URLSearchParams({
+                    id: 'gt.10',
+                    or: '(name.eq.Alice,email.like.*@example.com)',
+                })
+            )
+
+            expect(query).toBe(
+                'SELECT * FROM users WHERE id > ? AND (name = ? OR email LIKE ?)'
+            )
+            expect(params).toEqual(['10', 'Alice', '%@example.com'])
+        })
+
+        it('should return 400 for invalid filters', async () => {
+            vi.mocked(executeQuery).mockResolvedValue([{ name: 'id', pk: 1 }])
+
+            const response = await liteRest.handleRequest(
+                new Request('http://localhost/rest/users?age=between.(1)')
+            )
+
+            expect(response.status).toBe(400)
+            expect(executeTransaction).not.toHaveBeenCalled()
+        })
+
+        it('should select and alias columns', async () => {
+            vi.mocked(executeQuery).mockResolvedValue([{ name: 'id', pk: 1 }])
+
+            // @ts-expect-error: Testing private method
+            const { query } = await liteRest.buildSelectQuery(
+                'users',
+                undefined,
+                undefined,
+                new URLSearchParams({ select: 'id,full_name:name' })
+            )
+
+            expect(query).toBe('SELECT id, name AS full_name FROM users')
+        })
+
+        it('should sort by several columns', async () => {
+            // @ts-expect-error: Testing private method
+            const { query } = await liteRest.buildSelectQuery(
+                'users',
+                undefined,
+                undefined,
+                new URLSearchParams({ order: 'created_at.desc,name' })
+            )
+
+            expect(query).toBe(
+                'SELECT * FROM users ORDER BY created_at DESC, name ASC'
+            )
+        })
+
+        it('should apply an offset without a limit', async () => {
+            // @ts-expect-error: Testing private method
+            const { query, params } = await liteRest.buildSelectQuery(
+                'users',
+                undefined,
+                undefined,
+                new URLSearchParams({ offset: '20' })
+            )
+
+            expect(query).toBe('SELECT * FROM users LIMIT -1 OFFSET ?')
+            expect(params).toEqual([20])
+        })
+
         it('should ignore invalid sort_by parameter', async () => {
             const searchParams = new URLSearchParams({
                 sort_by: 'DROP TABLE users;',
@@ -1,7 +1,57 @@
-import { createResponse } from '../utils'
+import { createResponse, TransactionError } from '../utils'
 import { DataSource } from '../types'
 import { executeQuery, executeTransaction } from '../operation'
 import { StarbaseDBConfiguration } from '../handler'
+import {
+    buildFilterClause,
+    FilterError,
+    parseFilterParam,
+    SqlDialect,
+} from './filter'
+import { buildColumnList, parseSelect, SelectEmbed, SelectItem } from './select'
+import { buildInsertQuery, RESOLUTIONS } from './insert'
+import { parsePreferHeader } from './prefer'
+import { bindFunctionArguments, parseFunctionArguments } from './rpc'
+import { getSourceName } from '../data-source'
+import { RLSViolationError } from '../rls'
+import { PermissionDeniedError } from '../rbac'
+import {
+    buildKeysetClause,
+    decodeCursor,
+    encodeCursor,
+    OrderTerm,
+    parseOrder,
+} from './order'
+
+type ForeignKey = {
+    // Column of the referencing table
+    from: string
+    // Referenced table and column
+    table: string
+    to: string
+}
+
+// How the rows of an embedded table relate to the rows they are embedded in: the
+// `from` column of the parent row matches the `to` column of the related rows.
+type Relationship = {
+    cardinality: 'one' | 'many'
+    from: string
+    to: string
+}
+
+type SelectPlan = {
+    columns: string
+    hidden: string[]
+    embeds: {
+        item: SelectEmbed
+        relationship: Relationship
+        plan: SelectPlan
+    }[]
+}
+
+// Number of keys sent in a single query when loading embedded or returned rows, which
+// stays below the bound parameter limit of Durable Objects and D1.
+const BATCH_SIZE = 100
 
 export class LiteREST {
     private dataSource: DataSource
@@ -21,6 +71,20 @@ export class LiteREST {
         return identifier.replace(/[^a-zA-Z0-9_]/g, '')
     }
 
+    /**
+     * Qualifies SQLite PRAGMAs and catalog tables with the schema of a table. Schemas
+     * other than `main`, such as `temp` or attached databases, have their own catalog.
+     * @param schemaName - The schema from the request path.
+     * @returns The schema followed by a dot, or an empty string for `main`.
+     */
+    private getPragmaSchema(schemaName?: string): string {
+        return schemaName &&
+            schemaName !== 'main' &&
+            this.getDialect() === 'sqlite'
+            ? `${schemaName}.`
+            : ''
+    }
+
     /**
      * Retrieves the primary key columns for a given table.
      * @param tableName - The name of the table.
@@ -30,7 +94,7 @@ export class LiteREST {
         tableName: string,
         schemaName?: string
     ): Promise<string[]> {
-        let query = `PRAGMA table_info(${tableName});`
+        let query = `PRAGMA ${this.getPragmaSchema(schemaName)}table_info(${tableName});`
 
         if (this.dataSource.source === 'external') {
             if (this.dataSource.external?.dialect === 'postgresql') {
@@ -84,6 +148,246 @@ export class LiteREST {
         return pkColumns
     }
 
+    /**
+     * Retrieves the single column foreign keys of a given table.
+     * @param tableName - The name of the table.
+     * @returns The foreign keys, with the referenced table and column.
+     */
+    private async getForeignKeys(
+        tableName: string,
+        schemaName?: string
+    ): Promise<ForeignKey[]> {
+        const dialect = this.getDialect()
+        let query = `PRAGMA ${this.getPragmaSchema(schemaName)}foreign_key_list(${tableName});`
+        let params: string[] = []
+
+        if (dialect === 'postgresql') {
+            query = `
+                SELECT kcu.column_name AS "from", ccu.table_name AS "table", ccu.column_name AS "to"
+                FROM information_schema.table_constraints tc
+                JOIN information_schema.key_column_usage kcu
+                ON tc.constraint_name = kcu.constraint_name
+                AND tc.table_schema = kcu.table_schema
+                JOIN information_schema.constraint_column_usage ccu
+                ON tc.constraint_name = ccu.constraint_name
+                AND tc.table_schema = ccu.table_schema
+                WHERE tc.constraint_type = 'FOREIGN KEY'
+                AND tc.table_name = ?
+                AND tc.table_schema = ?;`
+            params = [tableName, schemaName ?? 'public']
+        } else if (dialect === 'mysql') {
+            query = `
+                SELECT COLUMN_NAME AS \`from\`, REFERENCED_TABLE_NAME AS \`table\`, REFERENCED_COLUMN_NAME AS \`to\`
+                FROM information_schema.key_column_usage
+                WHERE table_name = ?
+                AND table_schema = COALESCE(?, DATABASE())
+                AND REFERENCED_TABLE_NAME IS NOT NULL;`
+            params = [tableName, schemaName ?? null] as string[]
+        }
+
+        const rows = (await executeQuery({
+            sql: query,
+            params,
+            isRaw: false,
+            dataSource: this.dataSource,
+            config: this.config,
+        })) as any[]
+
+        if (dialect !== 'sqlite') {
+            return rows as ForeignKey[]
+        }
+
+        // Composite foreign keys list one row per column, they cannot be embedded.
+        const singleColumn = rows.filter(
+            (row) => rows.filter((other) => other.id === row.id).length === 1
+        )
+        const foreignKeys: ForeignKey[] = []
+
+        for (const row of singleColumn) {
+            // Without a column the foreign key references the primary key.
+            const to =
+                row.to ??
+                (await this.getPrimaryKeyColumns(row.table, schemaName))[0]
+
+            if (to) {
+                foreignKeys.push({ from: row.from, table: row.table, to })
+            }
+        }
+
+        return foreignKeys
+    }
+
+    /**
+     * Finds the foreign key between a table and a table embedded in it. A foreign key on
+     * the table itself embeds a single row, one on the embedded table a list of rows.
+     * @param tableName - The name of the table the rows are embedded in.
+     * @param embed - The embedded table.
+     */
+    private async findRelationship(
+        tableName: string,
+        schemaName: string | undefined,
+        embed: SelectEmbed
+    ): Promise<Relationship> {
+        const matches = (foreignKeys: ForeignKey[], table: string) => {
+            const candidates = foreignKeys.filter(
+                (foreignKey) =>
+                    foreignKey.table === table &&
+                    (!embed.hint || foreignKey.from === embed.hint)
+            )
+
+            if (candidates.length > 1) {
+                throw new FilterError(
+                    `Multiple relationships between '${tableName}' and '${embed.table}', pick one with ${embed.table}!column(...).`
+                )
+            }
+
+            return candidates[0]
+        }
+
+        const parentKey = matches(
+            await this.getForeignKeys(tableName, schemaName),
+            embed.table
+        )
+
+        if (parentKey) {
+            return {
+                cardinality: 'one',
+                from: parentKey.from,
+                to: parentKey.to,
+            }
+        }
+
+        const childKey = matches(
+            await this.getForeignKeys(embed.table, schemaName),
+            tableName
+        )
+
+        if (childKey) {
+            return { cardinality: 'many', from: childKey.to, to: childKey.from }
+        }
+
+        throw new FilterError(
+            `No relationship found between '${tableName}' and '${embed.table}'.`
+        )
+    }
+
+    /**
+     * Resolves the columns to select from a table and the relationships of the tables
+     * embedded in it, recursively.
+     * @param items - The parsed `select` parameter.
+     * @param required - Columns needed to embed this table in its parent.
+     */
+    private async planSelect(
+        tableName: string,
+        schemaName: string | undefined,
+        items: SelectItem[],
+        required: string[] = []
+    ): Promise<SelectPlan> {
+        const embeds: SelectPlan['embeds'] = []
+
+        for (const item of items) {
+            if (item.type !== 'embed') continue
+
+            const relationship = await this.findRelationship(
+                tableName,
+                schemaName,
+                item
+            )
+            const plan = await this.planSelect(
+                this.sanitizeIdentifier(item.table),
+                schemaName,
+                item.select,
+                [relationship.to]
+            )
+
+            embeds.push({ item, relationship, plan })
+        }
+
+        const { columns, hidden } = buildColumnList(items, [
+            ...required,
+            ...embeds.map((embed) => embed.relationship.from),
+        ])
+
+        return { columns, hidden, embeds }
+    }
+
+    /**
+     * Adds the embedded rows of a select plan to the rows fetched for it, then removes
+     * the columns that were only selected to join them.
+     * @param rows - Rows of the table the plan was made for.
+     * @param plan - The select plan.
+     */
+    private async loadEmbeds(
+        rows: Record<string, unknown>[],
+        schemaName: string | undefined,
+        plan: SelectPlan
+    ): Promise<void> {
+        for (const { item, relationship, plan: embedPlan } of plan.embeds) {
+            const { cardinality, from, to } = relationship
+            const keys = [
+                ...new Set(
+                    rows
+                        .map((row) => row[from])
+                        .filter((key) => key !== null && key !== undefined)
+                ),
+            ]
+            const table = `${schemaName ? `${schemaName}.` : ''}${this.sanitizeIdentifier(item.table)}`
+            const queries = []
+
+            for (let index = 0; index < keys.length; index += BATCH_SIZE) {
+                const batch = keys.slice(index, index + BATCH_SIZE)
+                const placeholders = batch.map(() => '?').join(', ')
+
+                queries.push({
+                    sql: `SELECT ${embedPlan.columns} FROM ${table} WHERE ${to} IN (${placeholders})`,
+                    params: batch,
+                })
+            }
+
+            const results = queries.length
+                ? ((await executeTransaction({
+                      queries,
+                      isRaw: false,
+                      dataSource: this.dataSource,
+                      config: this.config,
+                  })) as Record<string, unknown>[][])
+                : []
+            const related = results.flat()
+            const groups = new Map<string, Record<string, unknown>[]>()
+
+            for (const row of related) {
+                const key = String(row[to])
+                groups.set(key, [...(groups.get(key) ?? []), row])
+            }
+
+            // Grouped first, as this removes the join column from the related rows.
+            await this.loadEmbeds(related, schemaName, embedPlan)
+
+            for (const row of rows) {
+                const group = groups.get(String(row[from])) ?? []
+                row[item.alias] =
+                    cardinality === 'one' ? (group[0] ?? null) : group
+            }
+        }
+
+        for (const row of rows) {
+            for (const column of plan.hidden) delete row[column]
+        }
+    }
+
+    /**
+     * The SQL dialect of the data source, internal and SQLite based external sources
+     * share the SQLite dialect.
+     */
+    private getDialect(): SqlDialect {
+        const dialect = this.dataSource.external?.dialect
+
+        return this.dataSource.source !== 'internal' &&
+            (dialect === 'postgresql' || dialect === 'mysql')
+            ? dialect
+            : 'sqlite'
+    }
+
     /**
      * Checks if the provided data is valid.
      * @param data - The data to validate.
@@ -93,25 +397,6 @@ export class LiteREST {
         return data && typeof data === 'object' && !Array.isArray(data)
     }
 
-    /**
-     * Sanitizes an operator by mapping it to a valid SQL operator.
-     * @param operator - The operator to sanitize.
-     * @returns The sanitized operator.
-     */
-    private sanitizeOperator(operator: string | undefined): string {
-        const allowedOperators: { [key: string]: string } = {
-            eq: '=',
-            ne: '!=',
-            gt: '>',
-            lt: '<',
-            gte: '>=',
-            lte: '<=',
-            like: 'LIKE',
-            in: 'IN',
-        }
-        return allowedOperators[operator || 'eq'] || '='
-    }
-
     /**
      * Retrieves the primary key conditions for a given table.
      * @param pkColumns - The primary key columns for the table.
@@ -179,41 +464,457 @@ export class LiteREST {
         }
     }
 
+    /**
+     * Executes an UPDATE or DELETE statement and counts the rows it affected.
+     * @param query - The statement to execute.
+     * @param returning - Returns the affected rows, read from the table and its primary key
+     * on MySQL, which has no RETURNING clause.
+     * @param returning.where - Conditions of the statement, to find the affected rows.
+     * @param returning.changes - Values an UPDATE sets, to find rows whose key changed.
+     * @returns The number of affected rows, and the rows when they are returned.
+     */
+    private async executeMutation(
+        query: { sql: string; params: any[] },
+        returning?: {
+            table: string
+            pkColumns: string[]
+            where: { sql: string; params: any[] }
+            changes?: Record<string, any>
+        }
+    ): Promise<{ affected: number; rows?: any[] }> {
+        const dialect = this.getDialect()
+
+        if (returning && dialect === 'mysql') {
+            const [before] = (await executeTransaction({
+                queries: [
+                    {
+                        sql: `SELECT * FROM ${returning.table} WHERE ${returning.where.sql}`,
+                        params: returning.where.params,
+                    },
+                ],
+                isRaw: false,
+                dataSource: this.dataSource,
+                config: this.config,
+            })) as any[]
+            const { affected } = await this.executeMutation(query)
+
+            if (!returning.changes) {
+                return { affected, rows: before }
+            }
+
+            const keys = (before as any[]).map((row) => ({
+                ...row,
+                ...Object.fromEntries(
+                    returning.pkColumns
+                        .filter((column) => column in returning.changes!)
+                        .map((column) => [column, returning.changes![column]])
+                ),
+            }))
+
+            return {
+                affected,
+                rows: await this.readByPrimaryKey(
+                    returning.table,
+                    returning.pkColumns,
+                    keys
+                ),
+            }
+        }
+
+        // Rows are counted from the statement itself, as `changes()` read by a second
+        // statement may run on another connection for external SQLite sources.
+        if (returning || dialect !== 'mysql') {
+            const [rows] = (await executeTransaction({
+                queries: [
+                    {
+                        ...query,
+                        sql: `${query.sql} ${returning ? 'RETURNING *' : 'RETURNING 1 AS affected'}`,
+                    },
+                ],
+                isRaw: false,
+                dataSource: this.dataSource,
+                config: this.config,
+            })) as any[]
+
+            return {
+                affected: Array.isArray(rows) ? rows.length : 0,
+                rows: returning ? rows : undefined,
+            }
+        }
+
+        const results = (await executeTransaction({
+            queries: [
+                query,
+                { sql: 'SELECT ROW_COUNT() AS affected', params: [] },
+            ],
+            isRaw: false,
+            dataSource: this.dataSource,
+            config: this.config,
+        })) as any[]
+
+        return { affected: Number(results?.[1]?.[0]?.affected ?? 0) }
+    }
+
+    /**
+     * Reads rows by their primary key, in batches that stay below the bound parameter
+     * limit.
+     * @param table - The table, qualified with its schema.
+     * @param pkColumns - The primary key columns of the table.
+     * @param keys - Rows holding the primary key values to read.
+     * @returns The rows that were found.
+     */
+    private async readByPrimaryKey(
+        table: string,
+        pkColumns: string[],
+        keys: any[]
+    ): Promise<any[]> {
+        const columns = pkColumns.map((column) =>
+            this.sanitizeIdentifier(column)
+        )
+        const condition = `(${columns.map((column) => `${column} = ?`).join(' AND ')})`
+        const batchSize = Math.max(1, Math.floor(BATCH_SIZE / columns.length))
+        const queries: { sql: string; params: any[] }[] = []
+
+        for (let index = 0; index < keys.length; index += batchSize) {
+            const batch = keys.slice(index, index + batchSize)
+            queries.push({
+                sql: `SELECT * FROM ${table} WHERE ${batch.map(() => condition).join(' OR ')}`,
+                params: batch.flatMap((key) =>
+                    pkColumns.map((column) => key[column])
+                ),
+            })
+        }
+
+        if (!queries.length) {
+            return []
+        }
+
+        const results = (await executeTransaction({
+            queries,
+            isRaw: false,
+            dataSource: this.dataSource,
+            config: this.config,
+        })) as any[][]
+
+        return results.flat()
+    }
+
+    /**
+     * Checks that the rows a mutation affected can be returned, MySQL reads them back by
+     * their primary key.
+     * @param prefer - The preferences of the request.
+     * @param pkColumns - The primary key columns of the table.
+     * @returns An error message if the rows cannot be returned.
+     */
+    private getRepresentationError(
+        prefer: Record<string, string>,
+        pkColumns: string[]
+    ): string | undefined {
+        if (
+            prefer.return === 'representation' &&
+            this.getDialect() === 'mysql' &&
+            !pkColumns.length
+        ) {
+            return 'Returning the representation on MySQL requires a primary key'
+        }
+    }
+
+    /**
+     * Builds the conditions of the filters in the search parameters, see `parseFilterParam`.
+     * @param searchParams - The search parameters, without any special parameters.
+     * @returns The conditions and their parameters.
+     */
+    private buildFilterConditions(searchParams: URLSearchParams): {
+        conditions: string[]
+        params: any[]
+    } {
+        const conditions: string[] = []
+        const params: any[] = []
+
+        for (const [key, value] of searchParams.entries()) {
+            const clause = buildFilterClause(parseFilterParam(key, value), {
+                dialect: this.getDialect(),
+                sanitizeIdentifier: (name) => this.sanitizeIdentifier(name),
+            })
+            conditions.push(clause.sql)
+            params.push(...clause.params)
+        }
+
+        return { conditions, params }
+    }
+
+    /**
+     * Adds the number of rows a mutation affected to its response.
+     * @param response - The response of the mutation.
+     * @param affected - The number of affected rows.
+     */
+    private withAffectedRows(response: Response, affected: number): Response {
+        response.headers.set('X-Starbase-Affected-Rows', String(affected))
+        return response
+    }
+
+    /**
+     * The data a mutation responds with. `Prefer: return=representation` returns the
+     * stored rows and `return=minimal` returns nothing, otherwise the request body is
+     * echoed back.
+     * @param prefer - The preferences of the request.
+     * @param body - The data of the request.
+     * @param rows - The stored rows.
+     */
+    private getRepresentation(
+        prefer: Record<string, string>,
+        body: any,
+        rows: any
+    ): { data?: any } {
+        if (prefer.return === 'minimal') {
+            return {}
+        }
+
+        return { data: prefer.return === 'representation' ? rows : body }
+    }
+
+    /**
+     * Whether a table is a view, from the schema of the data source.
+     * @param tableName - The name of the table.
+     * @returns `view` or `table`, undefined when the table does not exist.
+     */
+    private async getRelationType(
+        tableName: string,
+        schemaName?: string
+    ): Promise<'table' | 'view' | undefined> {
+        const dialect = this.getDialect()
+        let query = `SELECT type FROM ${this.getPragmaSchema(schemaName)}sqlite_master WHERE name = ?;`
+        let params: unknown[] = [tableName]
+
+        if (dialect === 'postgresql') {
+            query = `
+                SELECT table_type AS type FROM information_schema.tables
+                WHERE table_name = ? AND table_schema = ?;`
+            params = [tableName, schemaName ?? 'public']
+        } else if (dialect === 'mysql') {
+            query = `
+                SELECT TABLE_TYPE AS type FROM information_schema.tables
+                WHERE table_name = ? AND table_schema = COALESCE(?, DATABASE());`
+            params = [tableName, schemaName ?? null]
+        }
+
+        const rows = (await executeQuery({
+            sql: query,
+            params,
+            isRaw: false,
+            dataSource: this.dataSource,
+            config: this.config,
+        })) as any[] | undefined
+        const row = rows?.[0]
+
+        if (typeof row?.type !== 'string') {
+            return undefined
+        }
+
+        return /view/i.test(row.type) ? 'view' : 'table'
+    }
+
+    private withAllow(response: Response, methods: string): Response {
+        response.headers.set('Allow', methods)
+        return response
+    }
+
+    /**
+     * Lists the tables and views that can be queried, leaving out the tables StarbaseDB
+     * uses internally.
+     * @returns The response with the schema, name and type of every table.
+     */
+    private async handleList(): Promise<Response> {
+        const dialect = this.getDialect()
+        let query = `
+            SELECT 'main' AS "schema", name, type FROM sqlite_master
+            WHERE type IN ('table', 'view') AND name NOT LIKE 'sqlite_%'
+            AND name NOT LIKE 'tmp_%' AND name NOT LIKE '_cf_%'
+            ORDER BY name;`
+
+        if (dialect === 'postgresql') {
+            query = `
+                SELECT table_schema AS "schema", table_name AS name,
+                    CASE WHEN table_type = 'VIEW' THEN 'view' ELSE 'table' END AS type
+                FROM information_schema.tables
+                WHERE table_schema NOT IN ('pg_catalog', 'information_schema')
+                ORDER BY table_schema, table_name;`
+        } else if (dialect === 'mysql') {
+            query = `
+                SELECT TABLE_SCHEMA AS \`schema\`, TABLE_NAME AS name,
+                    CASE WHEN TABLE_TYPE = 'VIEW' THEN 'view' ELSE 'table' END AS type
+                FROM information_schema.tables
+                WHERE TABLE_SCHEMA = DATABASE()
+                ORDER BY TABLE_NAME;`
+        }
+
+        const tables = await executeQuery({
+            sql: query,
+            params: [],
+            isRaw: false,
+            dataSource: this.dataSource,
+            config: this.config,
+        })
+
+        return createResponse(tables, undefined, 200)
+    }
+
+    /**
+     * Calls a function registered in `tmp_rest_functions`, binding the arguments of the
+     * request body to the named placeholders of its statement. Functions registered for
+     * the data source take precedence over functions without a source.
+     * @param name - The name of the function.
+     * @param method - Functions are only called with POST.
+     * @param body - Arguments of the call, by name.
+     * @returns The response with the rows returned by the statement.
+     */
+    private async handleRpc(
+        name: string,
+        method: string,
+        body: any
+    ): Promise<Response> {
+        if (method !== 'POST') {
+            return this.withAllow(
+                createResponse(undefined, 'Method not allowed', 405),
+                'POST'
+            )
+        }
+
+        if (body !== undefined && !this.isDataValid(body)) {
+            throw new FilterError('Expected an object of arguments.')
+        }
+
+        const [row] = (await this.dataSource.rpc.executeQuery({
+            sql: 'SELECT "name", "sql", "arguments" FROM tmp_rest_functions WHERE "name" = ? AND ("source" IS NULL OR "source" = ?) ORDER BY "source" IS NULL LIMIT 1',
+            params: [name, getSourceName(this.dataSource)],
+        })) as any[]
+
+        if (!row) {
+            return createResponse(
+                undefined,
+                `Function '${name}' not found.`,
+                404
+            )
+        }
+
+        const fn = {
+            name,
+            sql: row.sql as string,
+            arguments: parseFunctionArguments(row.arguments),
+        }
+        const result = await executeQuery({
+            sql: fn.sql,
+            params: bindFunctionArguments(fn, body ?? {}),
+            isRaw: false,
+            dataSource: this.dataSource,
+            config: this.config,
+        })
+
+        return createResponse(result, undefined, 200)
+    }
+
     /**
      * Handles the incoming request and determines the appropriate action based on the method and path.
      * @param request - The incoming request.
      * @returns The response to the request.
      */
     async handleRequest(request: Request): Promise<Response> {
-        const { method, tableName, schemaName, id, searchParams, body } =
-            await this.parseRequest(request)
-
         try {
+            const {
+                method,
+                tableName,
+                schemaName,
+                id,
+                searchParams,
+                body,
+                prefer,
+            } = await this.parseRequest(request)
+
+            if (schemaName === 'rpc' && !id) {
+                return await this.handleRpc(tableName, method, body)
+            }
+
+            if (!tableName) {
+                return method === 'GET'
+                    ? await this.handleList()
+                    : createResponse(
+                          undefined,
+                          'Expected a table name in the path',
+                          400
+                      )
+            }
+
+            if (
+                ['POST', 'PUT', 'PATCH', 'DELETE'].includes(method) &&
+                (await this.getRelationType(tableName, schemaName)) === 'view'
+            ) {
+                return this.withAllow(
+                    createResponse(
+                        undefined,
+                        `'${tableName}' is a view and cannot be modified.`,
+                        405
+                    ),
+                    'GET'
+                )
+            }
+
             switch (method) {
                 case 'GET':
                     return await this.handleGet(
                         tableName,
                         schemaName,
                         id,
-                        searchParams
+                        searchParams,
+                        prefer
                     )
                 case 'POST':
-                    return await this.handlePost(tableName, schemaName, body)
+                    return await this.handlePost(
+                        tableName,
+                        schemaName,
+                        body,
+                        searchParams,
+                        prefer
+                    )
                 case 'PATCH':
                     return await this.handlePatch(
                         tableName,
                         schemaName,
                         id,
-                        body
+                        body,
+                        searchParams,
+                        prefer
                     )
                 case 'PUT':
-                    return await this.handlePut(tableName, schemaName, id, body)
+                    return await this.handlePut(
+                        tableName,
+                        schemaName,
+                        id,
+                        body,
+                        prefer
+                    )
                 case 'DELETE':
-                    return await this.handleDelete(tableName, schemaName, id)
+                    return await this.handleDelete(
+                        tableName,
+                        schemaName,
+                        id,
+                        searchParams,
+                        prefer
+                    )
                 default:
                     return createResponse(undefined, 'Method not allowed', 405)
             }
         } catch (error: any) {
+            if (error instanceof FilterError) {
+                return createResponse(undefined, error.message, 400)
+            }
+
+            if (
+                error instanceof RLSViolationError ||
+                error instanceof PermissionDeniedError
+            ) {
+                return createResponse(undefined, error.message, 403)
+            }
+
             console.error('LiteREST Error:', error)
             return createResponse(
                 undefined,
@@ -224,9 +925,9 @@ export class LiteREST {
     }
 
     /**
-     * Parses the incoming request and extracts the method, table name, id, search parameters, and body.
+     * Parses the incoming request and extracts the method, table name, id, search parameters, body and preferences.
      * @param request - The incoming request.
-     * @returns An object containing the method, table name, id, search parameters, and body.
+     * @returns An object containing the method, table name, id, search parameters, body and preferences.
      */
     private async parseRequest(request: Request): Promise<{
         method: string
@@ -235,6 +936,7 @@ export class LiteREST {
         id?: string
         searchParams: URLSearchParams
         body?: any
+        prefer: Record<string, string>
     }> {
         const liteRequest = new Request(
             request.url.replace('/rest', ''),
@@ -243,19 +945,31 @@ export class LiteREST {
         const url = new URL(liteRequest.url)
         const pathParts = url.pathname.split('/').filter(Boolean)
 
-        if (pathParts.length === 0) {
-            throw new Error('Expected a table name in the path')
+        // `/rest/<table>` and `/rest/<schema>.<table>` address a table as well as
+        // `/rest/<schema>/<table>`.
+        if (pathParts.length === 1 && pathParts[0].includes('.')) {
+            pathParts.splice(0, 1, ...pathParts[0].split('.', 2))
         }
 
         const tableName = this.sanitizeIdentifier(
-            pathParts.length === 1 ? pathParts[0] : pathParts[1]
+            (pathParts.length === 1 ? pathParts[0] : pathParts[1]) ?? ''
         )
-        const schemaName = this.sanitizeIdentifier(pathParts[0])
+        const schemaName =
+            pathParts.length > 1
+                ? this.sanitizeIdentifier(pathParts[0])
+                : undefined
         const id = pathParts.length === 3 ? pathParts[2] : undefined
 
-        const body = ['POST', 'PUT', 'PATCH'].includes(liteRequest.method)
-            ? await liteRequest.json()
-            : undefined
+        // Functions may be called without arguments and without a body
+        const text = ['POST', 'PUT', 'PATCH'].includes(liteRequest.method)
+            ? await liteRequest.text()
+            : ''
+        let body: any
+        try {
+            body = text ? JSON.parse(text) : undefined
+        } catch {
+            throw new FilterError('Invalid JSON in the request body.')
+        }
 
         return {
             method: liteRequest.method,
@@ -264,6 +978,7 @@ export class LiteREST {
             id,
             searchParams: url.searchParams,
             body,
+            prefer: parsePreferHeader(liteRequest.headers.get('Prefer')),
         }
     }
 
@@ -272,51 +987,122 @@ export class LiteREST {
         schemaName: string | undefined,
         id: string | undefined,
         searchParams: URLSearchParams
-    ): Promise<{ query: string; params: any[] }> {
-        let query = `SELECT * FROM ${
+    ): Promise<{
+        query: string
+        params: any[]
+        plan: SelectPlan
+        where: { sql: string; params: any[] }
+        order: OrderTerm[]
+        limit?: number
+        offset: number
+    }> {
+        const pkColumns = await this.getPrimaryKeyColumns(tableName, schemaName)
+
+        // Extract special parameters
+        const select = searchParams.get('select')
+        const sortBy = searchParams.get('sort_by')
+        const orderParam = searchParams.get('order')
+        const limitParam = searchParams.get('limit')
+        const offsetParam = searchParams.get('offset')
+        const cursor = searchParams.get('cursor')
+
+        // Remove special parameters from searchParams
+        ;['select', 'sort_by', 'order', 'limit', 'offset', 'cursor'].forEach(
+            (param) => searchParams.delete(param)
+        )
+
+        const limit = limitParam ? parseInt(limitParam, 10) : 0
+        const offset = offsetParam ? parseInt(offsetParam, 10) : 0
+
+        // `sort_by=name&order=desc` sorts by a single column, `order=created_at.desc,id`
+        // by several columns.
+        let order: OrderTerm[] = []
+
+        if (sortBy) {
+            order = [
+                {
+                    column: sortBy,
+                    direction:
+                        orderParam?.toUpperCase() === 'DESC' ? 'DESC' : 'ASC',
+                },
+            ]
+        } else if (orderParam && !/^(asc|desc)$/i.test(orderParam)) {
+            order = parseOrder(orderParam)
+        }
+
+        order = order
+            .map((term) => ({
+                ...term,
+                column: this.sanitizeIdentifier(term.column),
+            }))
+            .filter((term) => term.column)
+
+        // Pages are sorted by the primary key last, so rows with equal sort values keep
+        // their order between requests and a cursor continues after exactly one row.
+        const paginated = limit > 0 || !!cursor
+
+        if (paginated) {
+            for (const column of pkColumns) {
+                if (!order.some((term) => term.column === column)) {
+                    order.push({ column, direction: 'ASC' })
+                }
+            }
+        }
+
+        // Columns to return and tables to embed, e.g. `select=id,author:users(name)`.
+        // The sort columns are needed to create the cursor of the next page.
+        const plan = await this.planSelect(
+            tableName,
+            schemaName,
+            parseSelect(select ?? '*'),
+            paginated ? order.map((term) => term.column) : []
+        )
+
+        let query = `SELECT ${plan.columns} FROM ${
             schemaName ? `${schemaName}.` : ''
         }${tableName}`
         const params: any[] = []
         const conditions: string[] = []
-        const pkColumns = await this.getPrimaryKeyColumns(tableName, schemaName)
+        // Primary key columns in the query string are filtered like any other column.
         const {
             conditions: pkConditions,
             params: pkParams,
             error,
-        } = this.getPrimaryKeyConditions(pkColumns, id, {}, searchParams)
+        } = this.getPrimaryKeyConditions(
+            pkColumns,
+            id,
+            {},
+            new URLSearchParams()
+        )
 
         if (!error) {
             conditions.push(...pkConditions)
             params.push(...pkParams)
         }
 
-        // Extract special parameters
-        const sortBy = searchParams.get('sort_by')
-        const orderParam = searchParams.get('order')
-        const limitParam = searchParams.get('limit')
-        const offsetParam = searchParams.get('offset')
+        // Every other search parameter is a filter
+        const filters = this.buildFilterConditions(searchParams)
+        conditions.push(...filters.conditions)
+        params.push(...filters.params)
 
-        // Remove special parameters from searchParams
-        ;['sort_by', 'order', 'limit', 'offset'].forEach((param) =>
-            searchParams.delete(param)
-        )
+        const where = { sql: conditions.join(' AND '), params: [...params] }
 
-        // Handle other search parameters
-        for (const [key, value] of searchParams.entries()) {
-            if (pkColumns.includes(key)) continue // Skip primary key columns
-            const [column, op] = key.split('.')
-            const sanitizedColumn = this.sanitizeIdentifier(column)
-            const operator = this.sanitizeOperator(op)
+        if (cursor) {
+            if (offset > 0) {
+                throw new FilterError(
+                    'A cursor cannot be combined with an offset.'
+                )
+            }
 
-            if (operator === 'IN') {
-                const values = value.split(',').map((val) => val.trim())
-                const placeholders = values.map(() => '?').join(', ')
-                conditions.push(`${sanitizedColumn} IN (${placeholders})`)
-                params.push(...values)
-            } else {
-                conditions.push(`${sanitizedColumn} ${operator} ?`)
-                params.push(value)
+            if (!order.length) {
+                throw new FilterError(
+                    'Cursor pagination requires an order or a primary key.'
+                )
             }
+
+            const keyset = buildKeysetClause(order, decodeCursor(cursor, order))
+            conditions.push(keyset.sql)
+            params.push(...keyset.params)
         }
 
         // Add WHERE clause if there are conditions
@@ -325,44 +1111,106 @@ export class LiteREST {
         }
 
         // Add ORDER BY clause
-        if (sortBy) {
-            const sanitizedSortBy = this.sanitizeIdentifier(sortBy)
-            const order = orderParam?.toUpperCase() === 'DESC' ? 'DESC' : 'ASC'
-            query += ` ORDER BY ${sanitizedSortBy} ${order}`
+        if (order.length) {
+            query += ` ORDER BY ${order
+                .map((term) => `${term.column} ${term.direction}`)
+                .join(', ')}`
         }
 
         // Add LIMIT and OFFSET clauses
-        if (limitParam) {
-            const limit = parseInt(limitParam, 10)
-            if (limit > 0) {
-                query += ` LIMIT ?`
-                params.push(limit)
-
-                if (offsetParam) {
-                    const offset = parseInt(offsetParam, 10)
-                    if (offset > 0) {
-                        query += ` OFFSET ?`
-                        params.push(offset)
-                    }
-                }
+        if (limit > 0) {
+            query += ` LIMIT ?`
+            params.push(limit)
+        }
+
+        if (offset > 0) {
+            // SQLite and MySQL only accept an offset after a limit.
+            const dialect = this.getDialect()
+
+            if (limit <= 0 && dialect === 'sqlite') {
+                query += ' LIMIT -1'
+            } else if (limit <= 0 && dialect === 'mysql') {
+                query += ' LIMIT 18446744073709551615'
             }
+
+            query += ` OFFSET ?`
+            params.push(offset)
         }
 
-        return { query, params }
+        return {
+            query,
+            params,
+            plan,
+            where,
+            order,
+            limit: limit > 0 ? limit : undefined,
+            offset: offset > 0 ? offset : 0,
+        }
+    }
+
+    /**
+     * Counts the rows matching the conditions of a request. An `estimated` count is read
+     * from the query planner on Postgres and MySQL, which is much faster on large tables.
+     * @param table - The table, qualified with its schema.
+     * @param where - Conditions of the request, without its cursor.
+     * @param method - How to count the rows.
+     * @returns The number of rows.
+     */
+    private async countRows(
+        table: string,
+        where: { sql: string; params: any[] },
+        method: 'exact' | 'estimated'
+    ): Promise<number> {
+        const dialect = this.getDialect()
+        const whereClause = where.sql ? ` WHERE ${where.sql}` : ''
+
+        if (method === 'estimated' && dialect === 'postgresql') {
+            const { result } = await this.executeOperation([
+                {
+                    sql: `EXPLAIN (FORMAT JSON) SELECT 1 FROM ${table}${whereClause}`,
+                    params: where.params,
+                },
+            ])
+            let plan = result?.[0]?.['QUERY PLAN']
+
+            if (typeof plan === 'string') {
+                plan = JSON.parse(plan)
+            }
+
+            return Number(plan?.[0]?.Plan?.['Plan Rows'] ?? 0)
+        }
+
+        if (method === 'estimated' && dialect === 'mysql') {
+            const { result } = await this.executeOperation([
+                {
+                    sql: `EXPLAIN SELECT 1 FROM ${table}${whereClause}`,
+                    params: where.params,
+                },
+            ])
+
+            return Number(result?.[0]?.rows ?? 0)
+        }
+
+        const { result } = await this.executeOperation([
+            {
+                sql: `SELECT COUNT(*) AS count FROM ${table}${whereClause}`,
+                params: where.params,
+            },
+        ])
+
+        return Number(result?.[0]?.count ?? 0)
     }
 
     private async handleGet(
         tableName: string,
         schemaName: string | undefined,
         id: string | undefined,
-        searchParams: URLSearchParams
+        searchParams: URLSearchParams,
+        prefer: Record<string, string>
     ): Promise<Response> {
-        const { query, params } = await this.buildSelectQuery(
-            tableName,
-            schemaName,
-            id,
-            searchParams
-        )
+        const paginatedByCursor = searchParams.has('cursor')
+        const { query, params, plan, where, order, limit, offset } =
+            await this.buildSelectQuery(tableName, schemaName, id, searchParams)
 
         try {
             const response = await this.executeOperation([
@@ -372,9 +1220,50 @@ export class LiteREST {
             if (!Array.isArray(resultData)) {
                 resultData = [resultData]
             }
-            return createResponse(resultData, undefined, 200)
+
+            // A full page may be followed by more rows, the next page continues after
+            // its last row.
+            const lastRow = resultData[resultData.length - 1]
+            const nextCursor =
+                limit && order.length && resultData.length === limit && lastRow
+                    ? encodeCursor(order, lastRow)
+                    : undefined
+            const total =
+                prefer.count === 'exact' || prefer.count === 'estimated'
+                    ? await this.countRows(
+                          `${schemaName ? `${schemaName}.` : ''}${tableName}`,
+                          where,
+                          prefer.count
+                      )
+                    : undefined
+
+            await this.loadEmbeds(resultData, schemaName, plan)
+            const result = createResponse(resultData, undefined, 200)
+
+            if (nextCursor) {
+                result.headers.set('X-Starbase-Next-Cursor', nextCursor)
+            }
+
+            // The position of a page is unknown when it was requested with a cursor.
+            if (total !== undefined) {
+                const range =
+                    resultData.length && lastRow && !paginatedByCursor
+                        ? `${offset}-${offset + resultData.length - 1}`
+                        : '*'
+                result.headers.set('Content-Range', `${range}/${total}`)
+            }
+
+            return result
         } catch (error: any) {
             console.error('GET Operation Error:', error)
+
+            if (
+                error instanceof RLSViolationError ||
+                error instanceof PermissionDeniedError
+            ) {
+                return createResponse(undefined, error.message, 403)
+            }
+
             return createResponse(
                 undefined,
                 error.message || 'Failed to retrieve data',
@@ -386,39 +1275,169 @@ export class LiteREST {
     private async handlePost(
         tableName: string,
         schemaName: string | undefined,
-        data: any
+        data: any,
+        searchParams: URLSearchParams,
+        prefer: Record<string, string>
     ): Promise<Response> {
-        if (!this.isDataValid(data)) {
-            console.error('Invalid data format for POST:', data)
-            return createResponse(undefined, 'Invalid data format', 400)
-        }
+        const rows: any[] = Array.isArray(data) ? data : [data]
 
-        const dataKeys = Object.keys(data)
-        if (dataKeys.length === 0) {
+        if (rows.length === 0) {
             console.error('No data provided for POST')
             return createResponse(undefined, 'No data provided', 400)
         }
 
-        // Sanitize column names
-        const columns = dataKeys.map((col) => this.sanitizeIdentifier(col))
-        const placeholders = columns.map(() => '?').join(', ')
-        const query = `INSERT INTO ${
-            schemaName ? `${schemaName}.` : ''
-        }${tableName} (${columns.join(', ')}) VALUES (${placeholders})`
+        for (const [index, row] of rows.entries()) {
+            if (!this.isDataValid(row)) {
+                console.error('Invalid data format for POST:', row)
+                return createResponse(
+                    undefined,
+                    Array.isArray(data)
+                        ? `Invalid data format for row ${index}`
+                        : 'Invalid data format',
+                    400
+                )
+            }
 
-        // Map parameters using original data keys to get correct values
-        const params = dataKeys.map((key) => data[key])
-        const queries = [{ sql: query, params }]
+            if (Object.keys(row).length === 0) {
+                console.error('No data provided for POST')
+                return createResponse(
+                    undefined,
+                    Array.isArray(data)
+                        ? `No data provided for row ${index}`
+                        : 'No data provided',
+                    400
+                )
+            }
+        }
+
+        const dialect = this.getDialect()
+        const table = `${schemaName ? `${schemaName}.` : ''}${tableName}`
+        const resolution = RESOLUTIONS.find(
+            (resolution) => resolution === prefer.resolution
+        )
+        const representation = prefer.return === 'representation'
+        const onConflict = searchParams.get('on_conflict')
+        const conflictColumns = onConflict
+            ? onConflict.split(',').filter((column) => column.trim())
+            : resolution && dialect !== 'mysql'
+              ? await this.getPrimaryKeyColumns(tableName, schemaName)
+              : []
+        const pkColumns =
+            representation && dialect === 'mysql'
+                ? await this.getPrimaryKeyColumns(tableName, schemaName)
+                : []
+        const representationError = this.getRepresentationError(
+            prefer,
+            pkColumns
+        )
+
+        if (representationError) {
+            return createResponse(undefined, representationError, 400)
+        }
+
+        // Ignored rows are detected from what each INSERT wrote, RETURNING returns
+        // nothing for them. MySQL does not support RETURNING, so the affected row count
+        // and the stored row are read with statements of their own instead.
+        const countWritten = resolution === 'ignore-duplicates'
+        const queries: { sql: string; params: any[] }[] = []
+        let statementsPerRow = 1
+
+        for (const row of rows) {
+            const { sql, params } = buildInsertQuery({
+                table,
+                row,
+                dialect,
+                resolution,
+                conflictColumns,
+                sanitizeIdentifier: (name) => this.sanitizeIdentifier(name),
+            })
+
+            if (dialect !== 'mysql') {
+                queries.push({
+                    sql: representation
+                        ? `${sql} RETURNING *`
+                        : countWritten
+                          ? `${sql} RETURNING 1 AS written`
+                          : sql,
+                    params,
+                })
+                continue
+            }
+
+            const rowQueries = [{ sql, params }]
+
+            if (countWritten) {
+                rowQueries.push({
+                    sql: 'SELECT ROW_COUNT() AS written',
+                    params: [],
+                })
+            }
+
+            if (representation) {
+                const conditions: string[] = []
+                const keyParams: any[] = []
+
+                for (const column of pkColumns) {
+                    // Auto-increment keys that were not provided are read back from
+                    // the id the INSERT generated.
+                    if (row[column] === undefined && pkColumns.length === 1) {
+                        conditions.push(
+                            `${this.sanitizeIdentifier(column)} = LAST_INSERT_ID()`
+                        )
+                    } else if (row[column] === undefined) {
+                        return createResponse(
+                            undefined,
+                            `Missing primary key value for '${column}'`,
+                            400
+                        )
+                    } else {
+                        conditions.push(
+                            `${this.sanitizeIdentifier(column)} = ?`
+                        )
+                        keyParams.push(row[column])
+                    }
+                }
+
+                rowQueries.push({
+                    sql: `SELECT * FROM ${table} WHERE ${conditions.join(' AND ')}`,
+                    params: keyParams,
+                })
+            }
+
+            statementsPerRow = rowQueries.length
+            queries.push(...rowQueries)
+        }
+
+        let results: any[]
 
         try {
-            await this.executeOperation(queries)
-            return createResponse(
-                { message: 'Resource created successfully', data },
-                undefined,
-                201
-            )
+            // Every row is inserted in a single transaction, so one failing row
+            // inserts none of them.
+            results = (await executeTransaction({
+                queries,
+                isRaw: false,
+                dataSource: this.dataSource,
+                config: this.config,
+            })) as any[]
         } catch (error: any) {
             console.error('POST Operation Error:', error)
+
+            if (
+                error instanceof RLSViolationError ||
+                error instanceof PermissionDeniedError
+            ) {
+                return createResponse(undefined, error.message, 403)
+            }
+
+            if (error instanceof TransactionError) {
+                const row = Math.floor(error.statementIndex / statementsPerRow)
+                return createResponse(
+                    undefined,
+                    `Row ${row} failed: ${error.reason}`,
+                    500
+                )
+            }
+
             const errorMessage =
                 error.message ||
                 error.error ||
@@ -426,26 +1445,89 @@ export class LiteREST {
                 'Failed to create resource'
             return createResponse(undefined, errorMessage, 500)
         }
+
+        const stored: any[] = []
+        const statuses = rows.map((_, index) => {
+            const rowResults = (results ?? []).slice(
+                index * statementsPerRow,
+                (index + 1) * statementsPerRow
+            )
+            const returned = rowResults[rowResults.length - 1]
+            let written = true
+
+            if (countWritten) {
+                written =
+                    dialect === 'mysql'
+                        ? Number(rowResults[1]?.[0]?.written) > 0
+                        : Array.isArray(rowResults[0]) &&
+                          rowResults[0].length > 0
+            }
+
+            stored.push(
+                written && Array.isArray(returned)
+                    ? (returned[0] ?? null)
+                    : null
+            )
+
+            return {
+                index,
+                status: !written
+                    ? 'ignored'
+                    : resolution === 'merge-duplicates'
+                      ? 'merged'
+                      : 'created',
+            }
+        })
+
+        if (!Array.isArray(data) && !resolution) {
+            return createResponse(
+                {
+                    message: 'Resource created successfully',
+                    ...this.getRepresentation(prefer, data, stored[0] ?? null),
+                },
+                undefined,
+                201
+            )
+        }
+
+        return createResponse(
+            {
+                message: 'Resources created successfully',
+                ...this.getRepresentation(prefer, rows, stored),
+                results: statuses,
+            },
+            undefined,
+            201
+        )
     }
 
     private async handlePatch(
         tableName: string,
         schemaName: string | undefined,
         id: string | undefined,
-        data: any
+        data: any,
+        searchParams: URLSearchParams,
+        prefer: Record<string, string>
     ): Promise<Response> {
         const pkColumns = await this.getPrimaryKeyColumns(tableName, schemaName)
+        const filters = this.buildFilterConditions(searchParams)
 
+        // Without an id in the path the filters select the rows to update. Requests
+        // without either only update the row identified by the primary key in the body,
+        // so a missing filter never updates the whole table.
+        const bulk = !id && filters.conditions.length > 0
         const {
             conditions: pkConditions,
             params: pkParams,
             error,
-        } = this.getPrimaryKeyConditions(
-            pkColumns,
-            id,
-            data,
-            new URLSearchParams()
-        )
+        } = bulk
+            ? { conditions: [], params: [] }
+            : this.getPrimaryKeyConditions(
+                  pkColumns,
+                  id,
+                  data,
+                  new URLSearchParams()
+              )
 
         if (error) {
             console.error('PATCH Operation Error:', error)
@@ -471,28 +1553,61 @@ export class LiteREST {
             return createResponse(undefined, 'No updatable data provided', 400)
         }
 
+        const representationError = this.getRepresentationError(
+            prefer,
+            pkColumns
+        )
+
+        if (representationError) {
+            return createResponse(undefined, representationError, 400)
+        }
+
         // Sanitize column names
         const columns = updateKeys.map((col) => this.sanitizeIdentifier(col))
         const setClause = columns.map((col) => `${col} = ?`).join(', ')
-        const query = `UPDATE ${
-            schemaName ? `${schemaName}.` : ''
-        }${tableName} SET ${setClause} WHERE ${pkConditions.join(' AND ')}`
+        const table = `${schemaName ? `${schemaName}.` : ''}${tableName}`
+        const where = {
+            sql: [...pkConditions, ...filters.conditions].join(' AND '),
+            params: [...pkParams, ...filters.params],
+        }
+        const query = `UPDATE ${table} SET ${setClause} WHERE ${where.sql}`
 
         // Map parameters using original data keys to get correct values
         const params = updateKeys.map((key) => data[key])
-        params.push(...pkParams)
-
-        const queries = [{ sql: query, params }]
+        params.push(...where.params)
 
         try {
-            await this.executeOperation(queries)
-            return createResponse(
-                { message: 'Resource updated successfully', data },
-                undefined,
-                200
+            const { affected, rows } = await this.executeMutation(
+                { sql: query, params },
+                prefer.return === 'representation'
+                    ? { table, pkColumns, where, changes: data }
+                    : undefined
+            )
+            return this.withAffectedRows(
+                createResponse(
+                    {
+                        message: 'Resource updated successfully',
+                        ...this.getRepresentation(
+                            prefer,
+                            data,
+                            bulk ? rows : (rows?.[0] ?? null)
+                        ),
+                    },
+                    undefined,
+                    200
+                ),
+                affected
             )
         } catch (error: any) {
             console.error('PATCH Operation Error:', error)
+
+            if (
+                error instanceof RLSViolationError ||
+                error instanceof PermissionDeniedError
+            ) {
+                return createResponse(undefined, error.message, 403)
+            }
+
             return createResponse(
                 undefined,
                 error.message || 'Failed to update resource',
@@ -505,7 +1620,8 @@ export class LiteREST {
         tableName: string,
         schemaName: string | undefined,
         id: string | undefined,
-        data: any
+        data: any,
+        prefer: Record<string, string>
     ): Promise<Response> {
         const pkColumns = await this.getPrimaryKeyColumns(tableName, schemaName)
 
@@ -536,28 +1652,58 @@ export class LiteREST {
             return createResponse(undefined, 'No data provided', 400)
         }
 
+        const representationError = this.getRepresentationError(
+            prefer,
+            pkColumns
+        )
+
+        if (representationError) {
+            return createResponse(undefined, representationError, 400)
+        }
+
         // Sanitize column names
         const columns = dataKeys.map((col) => this.sanitizeIdentifier(col))
         const setClause = columns.map((col) => `${col} = ?`).join(', ')
-        const query = `UPDATE ${
-            schemaName ? `${schemaName}.` : ''
-        }${tableName} SET ${setClause} WHERE ${pkConditions.join(' AND ')}`
+        const table = `${schemaName ? `${schemaName}.` : ''}${tableName}`
+        const where = { sql: pkConditions.join(' AND '), params: pkParams }
+        const query = `UPDATE ${table} SET ${setClause} WHERE ${where.sql}`
 
         // Map parameters using original data keys to get correct values
         const params = dataKeys.map((key) => data[key])
         params.push(...pkParams)
 
-        const queries = [{ sql: query, params }]
-
         try {
-            await this.executeOperation(queries)
-            return createResponse(
-                { message: 'Resource replaced successfully', data },
-                undefined,
-                200
+            const { affected, rows } = await this.executeMutation(
+                { sql: query, params },
+                prefer.return === 'representation'
+                    ? { table, pkColumns, where, changes: data }
+                    : undefined
+            )
+            return this.withAffectedRows(
+                createResponse(
+                    {
+                        message: 'Resource replaced successfully',
+                        ...this.getRepresentation(
+                            prefer,
+                            data,
+                            rows?.[0] ?? null
+                        ),
+                    },
+                    undefined,
+                    200
+                ),
+                affected
             )
         } catch (error: any) {
             console.error('PUT Operation Error:', error)
+
+            if (
+                error instanceof RLSViolationError ||
+                error instanceof PermissionDeniedError
+            ) {
+                return createResponse(undefined, error.message, 403)
+            }
+
             return createResponse(
                 undefined,
                 error.message || 'Failed to replace resource',
@@ -569,67 +1715,101 @@ export class LiteREST {
     private async handleDelete(
         tableName: string,
         schemaName: string | undefined,
-        id: string | undefined
+        id: string | undefined,
+        searchParams: URLSearchParams,
+        prefer: Record<string, string>
     ): Promise<Response> {
         const pkColumns = await this.getPrimaryKeyColumns(tableName, schemaName)
+        const filters = this.buildFilterConditions(searchParams)
 
         let data: any = {}
+        let pkConditions: string[] = []
+        let pkParams: any[] = []
+
+        // Without an id in the path the filters select the rows to delete, a request
+        // without either is refused rather than deleting the whole table.
+        if (id || !filters.conditions.length) {
+            if (!id) {
+                console.error('DELETE Error: Missing primary key value for ID')
+                return createResponse(
+                    undefined,
+                    "Missing primary key value for 'id'",
+                    400
+                )
+            }
 
-        if (!id) {
-            console.error('DELETE Error: Missing primary key value for ID')
-            return createResponse(
-                undefined,
-                "Missing primary key value for 'id'",
-                400
-            )
-        }
+            if (!pkColumns.length) {
+                console.error('DELETE Error: No primary key found for table')
+                return createResponse(
+                    undefined,
+                    `No primary key found for table '${tableName}'`,
+                    400
+                )
+            }
 
-        if (!pkColumns.length) {
-            console.error('DELETE Error: No primary key found for table')
-            return createResponse(
-                undefined,
-                `No primary key found for table '${tableName}'`,
-                400
-            )
-        }
+            // Currently the DELETE only works with single primary key tables.
+            if (pkColumns.length) {
+                const firstPK = pkColumns[0]
+                data[firstPK] = id
+            }
 
-        // Currently the DELETE only works with single primary key tables.
-        if (pkColumns.length) {
-            const firstPK = pkColumns[0]
-            data[firstPK] = id
-        }
+            const { conditions, params, error } = this.getPrimaryKeyConditions(
+                pkColumns,
+                id,
+                data,
+                new URLSearchParams()
+            )
 
-        const {
-            conditions: pkConditions,
-            params: pkParams,
-            error,
-        } = this.getPrimaryKeyConditions(
-            pkColumns,
-            id,
-            data,
-            new URLSearchParams()
-        )
+            if (error) {
+                console.error('DELETE Operation Error:', error)
+                return createResponse(undefined, error, 400)
+            }
 
-        if (error) {
-            console.error('DELETE Operation Error:', error)
-            return createResponse(undefined, error, 400)
+            pkConditions = conditions
+            pkParams = params
         }
 
-        const query = `DELETE FROM ${
-            schemaName ? `${schemaName}.` : ''
-        }${tableName} WHERE ${pkConditions.join(' AND ')}`
-
-        const queries = [{ sql: query, params: pkParams }]
+        const table = `${schemaName ? `${schemaName}.` : ''}${tableName}`
+        const where = {
+            sql: [...pkConditions, ...filters.conditions].join(' AND '),
+            params: [...pkParams, ...filters.params],
+        }
 
         try {
-            const result = await this.executeOperation(queries)
-            return createResponse(
-                { message: 'Resource deleted successfully' },
-                undefined,
-                200
+            const { affected, rows } = await this.executeMutation(
+                {
+                    sql: `DELETE FROM ${table} WHERE ${where.sql}`,
+                    params: where.params,
+                },
+                prefer.return === 'representation'
+                    ? { table, pkColumns, where }
+                    : undefined
+            )
+            return this.withAffectedRows(
+                createResponse(
+                    {
+                        message: 'Resource deleted successfully',
+                        ...this.getRepresentation(
+                            prefer,
+                            undefined,
+                            id ? (rows?.[0] ?? null) : rows
+                        ),
+                    },
+                    undefined,
+                    200
+                ),
+                affected
             )
         } catch (error: any) {
             console.error('DELETE Operation Error:', error)
+
+            if (
+                error instanceof RLSViolationError ||
+                error instanceof PermissionDeniedError
+            ) {
+                return createResponse(undefined, error.message, 403)
+            }
+
             return createResponse(
                 undefined,
                 error.message || 'Failed to delete resource',
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest'
+import { buildInsertQuery, Resolution } from './insert'
+import { SqlDialect } from './filter'
+
+function build(
+    dialect: SqlDialect,
+    resolution?: Resolution,
+    conflictColumns: string[] = ['id']
+) {
+    return buildInsertQuery({
+        table: 'users',
+        row: { id: 1, 'name;': 'Alice' },
+        dialect,
+        resolution,
+        conflictColumns,
+        sanitizeIdentifier: (name) => name.replace(/[^a-zA-Z0-9_]/g, ''),
+    })
+}
+
+describe('buildInsertQuery', () => {
+    it('should build a plain INSERT without a resolution', () => {
+        expect(build('sqlite')).toEqual({
+            sql: 'INSERT INTO users (id, name) VALUES (?, ?)',
+            params: [1, 'Alice'],
+        })
+    })
+
+    it('should update the other columns when merging duplicates', () => {
+        expect(build('postgresql', 'merge-duplicates').sql).toBe(
+            'INSERT INTO users (id, name) VALUES (?, ?) ON CONFLICT (id) DO UPDATE SET name = excluded.name'
+        )
+        expect(build('mysql', 'merge-duplicates').sql).toBe(
+            'INSERT INTO users (id, name) VALUES (?, ?) ON DUPLICATE KEY UPDATE name = VALUES(name)'
+        )
+    })
+
+    it('should do nothing when every column is part of the conflict', () => {
+        expect(build('sqlite', 'merge-duplicates', ['id', 'name']).sql).toBe(
+            'INSERT INTO users (id, name) VALUES (?, ?) ON CONFLICT (id, name) DO NOTHING'
+        )
+    })
+
+    it('should ignore duplicates', () => {
+        expect(build('sqlite', 'ignore-duplicates', []).sql).toBe(
+            'INSERT INTO users (id, name) VALUES (?, ?) ON CONFLICT DO NOTHING'
+        )
+        expect(build('mysql', 'ignore-duplicates').sql).toBe(
+            'INSERT IGNORE INTO users (id, name) VALUES (?, ?)'
+        )
+    })
+
+    it('should require conflict columns to merge duplicates', () => {
+        expect(() => build('sqlite', 'merge-duplicates', [])).toThrow(
+            'Merging duplicates requires on_conflict columns or a primary key.'
+        )
+    })
+})
@@ -0,0 +1,88 @@
+import { FilterError, SqlDialect } from './filter'
+
+// How rows that conflict with an existing row are resolved, from `Prefer: resolution=`
+export type Resolution = 'merge-duplicates' | 'ignore-duplicates'
+
+export const RESOLUTIONS: Resolution[] = [
+    'merge-duplicates',
+    'ignore-duplicates',
+]
+
+/**
+ * Builds the INSERT statement for a single row, resolving conflicts with existing rows
+ * with `ON CONFLICT` on SQLite and Postgres and `ON DUPLICATE KEY` / `IGNORE` on MySQL.
+ *
+ * @param opts.table - The table, already sanitized and qualified with its schema.
+ * @param opts.row - Column names and values of the row.
+ * @param opts.resolution - How to resolve a conflict, unresolved conflicts fail.
+ * @param opts.conflictColumns - Unique columns a conflict is detected on.
+ */
+export function buildInsertQuery(opts: {
+    table: string
+    row: Record<string, unknown>
+    dialect: SqlDialect
+    resolution?: Resolution
+    conflictColumns: string[]
+    sanitizeIdentifier: (name: string) => string
+}): { sql: string; params: unknown[] } {
+    const { table, row, dialect, resolution, sanitizeIdentifier } = opts
+    const keys = Object.keys(row)
+    const columns = keys.map((key) => sanitizeIdentifier(key))
+    const conflictColumns = opts.conflictColumns.map((column) =>
+        sanitizeIdentifier(column)
+    )
+    const updateColumns = columns.filter(
+        (column) => !conflictColumns.includes(column)
+    )
+    const params = keys.map((key) => row[key])
+    const values = `(${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`
+
+    if (!resolution) {
+        return { sql: `INSERT INTO ${table} ${values}`, params }
+    }
+
+    if (dialect === 'mysql') {
+        if (resolution === 'ignore-duplicates') {
+            return { sql: `INSERT IGNORE INTO ${table} ${values}`, params }
+        }
+
+        // MySQL detects conflicts on every unique key, an update that changes nothing
+        // is written when every column is part of the conflict.
+        const assignments = (
+            updateColumns.length ? updateColumns : [columns[0]]
+        )
+            .map((column) => `${column} = VALUES(${column})`)
+            .join(', ')
+
+        return {
+            sql: `INSERT INTO ${table} ${values} ON DUPLICATE KEY UPDATE ${assignments}`,
+            params,
+        }
+    }
+
+    const target = conflictColumns.length
+        ? ` (${conflictColumns.join(', ')})`
+        : ''
+
+    if (resolution === 'ignore-duplicates' || !updateColumns.length) {
+        return {
+            sql: `INSERT INTO ${table} ${values} ON CONFLICT${target} DO NOTHING`,
+            params,
+        }
+    }
+
+    if (!target) {
+        throw new FilterError(
+            'Merging duplicates requires on_conflict columns or a primary key.'
+        )
+    }
+
+    const assignments = updateColumns
+        .map((column) => `${column} = excluded.${column}`)
+        .join(', ')
+
+    return {
+        sql: `INSERT INTO ${table} ${values} ON CONFLICT${target} DO UPDATE SET ${assignments}`,
+        params,
+    }
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest'
+import {
+    buildKeysetClause,
+    decodeCursor,
+    encodeCursor,
+    OrderTerm,
+    parseOrder,
+} from './order'
+
+const terms: OrderTerm[] = [
+    { column: 'created_at', direction: 'DESC' },
+    { column: 'id', direction: 'ASC' },
+]
+
+describe('parseOrder', () => {
+    it('should parse columns with optional directions', () => {
+        expect(parseOrder('created_at.desc,id')).toEqual(terms)
+    })
+
+    it('should reject invalid directions', () => {
+        expect(() => parseOrder('name.sideways')).toThrow(
+            "Invalid order 'name.sideways'."
+        )
+    })
+})
+
+describe('cursors', () => {
+    it('should decode the values of the row it was created for', () => {
+        const cursor = encodeCursor(terms, {
+            created_at: '2024-01-01',
+            id: 7,
+            name: 'Zoë',
+        })
+
+        expect(cursor).toMatch(/^[\w-]+$/)
+        expect(decodeCursor(cursor, terms)).toEqual(['2024-01-01', 7])
+    })
+
+    it('should reject cursors for a different order', () => {
+        const cursor = encodeCursor(terms, { created_at: '2024-01-01', id: 7 })
+
+        expect(() => decodeCursor(cursor, terms.slice(1))).toThrow(
+            'The cursor does not match the order.'
+        )
+        expect(() => decodeCursor('not a cursor', terms)).toThrow(
+            'Invalid cursor.'
+        )
+    })
+})
+
+describe('buildKeysetClause', () => {
+    it('should select the rows after the cursor row', () => {
+        expect(buildKeysetClause(terms, ['2024-01-01', 7])).toEqual({
+            sql: '((created_at < ?) OR (created_at = ? AND id > ?))',
+            params: ['2024-01-01', '2024-01-01', 7],
+        })
+    })
+})
@@ -0,0 +1,118 @@
+import { FilterError } from './filter'
+
+export type OrderTerm = {
+    column: string
+    direction: 'ASC' | 'DESC'
+}
+
+/**
+ * Parses the `order` query string parameter, e.g. `created_at.desc,id.asc`. Columns
+ * without a direction are sorted in ascending order.
+ *
+ * @param value - Value of the `order` parameter.
+ * @returns The columns to sort by, in order.
+ */
+export function parseOrder(value: string): OrderTerm[] {
+    return value
+        .split(',')
+        .filter((term) => term.trim())
+        .map((term) => {
+            const [column, direction = 'asc', ...rest] = term.trim().split('.')
+            const normalized = direction.toUpperCase()
+
+            if (
+                rest.length ||
+                (normalized !== 'ASC' && normalized !== 'DESC')
+            ) {
+                throw new FilterError(`Invalid order '${term}'.`)
+            }
+
+            return { column, direction: normalized as OrderTerm['direction'] }
+        })
+}
+
+// The order a cursor was created for, so it cannot be used with a different order
+function describeOrder(terms: OrderTerm[]): string {
+    return terms.map((term) => `${term.column}.${term.direction}`).join(',')
+}
+
+/**
+ * Creates the opaque cursor that continues after a row, from the values of the columns
+ * the rows are sorted by.
+ *
+ * @param terms - The columns the rows are sorted by, ending with the primary key.
+ * @param row - The last row of the page.
+ */
+export function encodeCursor(
+    terms: OrderTerm[],
+    row: Record<string, unknown>
+): string {
+    const json = JSON.stringify([
+        describeOrder(terms),
+        terms.map((term) => row[term.column]),
+    ])
+    const bytes = new TextEncoder().encode(json)
+
+    return btoa(String.fromCharCode(...bytes))
+        .replace(/\+/g, '-')
+        .replace(/\//g, '_')
+        .replace(/=+$/, '')
+}
+
+/**
+ * Reads the values of the row a cursor continues after.
+ *
+ * @param cursor - The cursor from a previous page.
+ * @param terms - The columns the rows are sorted by, which must match the cursor.
+ */
+export function decodeCursor(cursor: string, terms: OrderTerm[]): unknown[] {
+    let order: unknown
+    let values: unknown
+
+    try {
+        const binary = atob(cursor.replace(/-/g, '+').replace(/_/g, '/'))
+        const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0))
+        ;[order, values] = JSON.parse(new TextDecoder().decode(bytes))
+    } catch {
+        throw new FilterError('Invalid cursor.')
+    }
+
+    if (
+        order !== describeOrder(terms) ||
+        !Array.isArray(values) ||
+        values.length !== terms.length
+    ) {
+        throw new FilterError('The cursor does not match the order.')
+    }
+
+    return values
+}
+
+/**
+ * Builds the condition that selects the rows sorted after the row of a cursor, e.g.
+ * `(a > ?) OR (a = ? AND b < ?)` for `a.asc,b.desc`.
+ *
+ * @param terms - The columns the rows are sorted by, already sanitized.
+ * @param values - Values of the row the cursor continues after.
+ */
+export function buildKeysetClause(
+    terms: OrderTerm[],
+    values: unknown[]
+): { sql: string; params: unknown[] } {
+    const groups: string[] = []
+    const params: unknown[] = []
+
+    for (const [index, term] of terms.entries()) {
+        const conditions = terms
+            .slice(0, index)
+            .map((previous) => `${previous.column} = ?`)
+
+        conditions.push(
+            `${term.column} ${term.direction === 'DESC' ? '<' : '>'} ?`
+        )
+        params.push(...values.slice(0, index + 1))
+        groups.push(`(${conditions.join(' AND ')})`)
+    }
+
+    return { sql: `(${groups.join(' OR ')})`, params }
+}
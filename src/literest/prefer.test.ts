@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'vitest'
+import { parsePreferHeader } from './prefer'
+
+describe('parsePreferHeader', () => {
+    it('should parse preferences by name', () => {
+        expect(
+            parsePreferHeader(
+                'return=representation, Resolution="Merge-Duplicates"; tx'
+            )
+        ).toEqual({
+            return: 'representation',
+            resolution: 'merge-duplicates',
+            tx: '',
+        })
+    })
+
+    it('should return no preferences without a header', () => {
+        expect(parsePreferHeader(null)).toEqual({})
+    })
+})
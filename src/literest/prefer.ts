@@ -0,0 +1,27 @@
+/**
+ * Parses the preferences of a `Prefer` header, e.g.
+ * `return=representation, resolution=merge-duplicates`. Preferences without a value
+ * map to an empty string.
+ *
+ * @param header - Value of the `Prefer` header, if any.
+ * @returns The preferences by name, in lower case.
+ */
+export function parsePreferHeader(
+    header: string | null
+): Record<string, string> {
+    const preferences: Record<string, string> = {}
+
+    for (const preference of (header ?? '').split(/[,;]/)) {
+        const [name, ...value] = preference.split('=')
+
+        if (name.trim()) {
+            preferences[name.trim().toLowerCase()] = value
+                .join('=')
+                .trim()
+                .replace(/^"(.*)"$/, '$1')
+                .toLowerCase()
+        }
+    }
+
+    return preferences
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest'
+import { bindFunctionArguments, parseFunctionArguments } from './rpc'
+
+const fn = {
+    name: 'adults',
+    sql: 'SELECT * FROM users WHERE age >= :min_age AND active = :active',
+    arguments: parseFunctionArguments(
+        '[{"name":"min_age","type":"integer"},{"name":"active","type":"boolean","default":true}]'
+    ),
+}
+
+describe('parseFunctionArguments', () => {
+    it('should declare no arguments without a value', () => {
+        expect(parseFunctionArguments(null)).toEqual([])
+    })
+
+    it('should reject unknown types and invalid names', () => {
+        expect(() =>
+            parseFunctionArguments('[{"name":"x","type":"date"}]')
+        ).toThrow('Invalid argument')
+        expect(() =>
+            parseFunctionArguments('[{"name":"x;","type":"string"}]')
+        ).toThrow('Invalid argument')
+        expect(() => parseFunctionArguments('{')).toThrow(
+            'Invalid arguments of the function.'
+        )
+    })
+})
+
+describe('bindFunctionArguments', () => {
+    it('should bind arguments and fill in defaults', () => {
+        expect(bindFunctionArguments(fn, { min_age: 18 })).toEqual({
+            min_age: 18,
+            active: 1,
+        })
+    })
+
+    it('should require arguments without a default', () => {
+        expect(() => bindFunctionArguments(fn, {})).toThrow(
+            "Missing argument 'min_age' for function 'adults'."
+        )
+    })
+
+    it('should validate the types of arguments', () => {
+        expect(() => bindFunctionArguments(fn, { min_age: 18.5 })).toThrow(
+            "Argument 'min_age' must be of type integer."
+        )
+        expect(() => bindFunctionArguments(fn, { min_age: '18' })).toThrow(
+            "Argument 'min_age' must be of type integer."
+        )
+    })
+
+    it('should reject undeclared arguments', () => {
+        expect(() =>
+            bindFunctionArguments(fn, { min_age: 18, role: 'admin' })
+        ).toThrow("Unknown argument 'role' for function 'adults'.")
+    })
+})
@@ -0,0 +1,118 @@
+import { FilterError } from './filter'
+
+const ARGUMENT_TYPES = ['string', 'integer', 'number', 'boolean'] as const
+
+export type ArgumentType = (typeof ARGUMENT_TYPES)[number]
+
+export type FunctionArgument = {
+    name: string
+    type: ArgumentType
+    // Arguments with a default may be omitted, `null` is a valid default
+    default?: unknown
+}
+
+// A named SQL statement callable through `POST /rest/rpc/<name>`, see `tmp_rest_functions`
+export type RestFunction = {
+    name: string
+    sql: string
+    arguments: FunctionArgument[]
+}
+
+/**
+ * Parses the `arguments` column of a registered function, a JSON array such as
+ * `[{ "name": "min_age", "type": "integer", "default": 18 }]`.
+ *
+ * @param value - The stored JSON, an empty value declares no arguments.
+ * @returns The declared arguments.
+ */
+export function parseFunctionArguments(
+    value: string | null | undefined
+): FunctionArgument[] {
+    let parsed: unknown
+
+    try {
+        parsed = JSON.parse(value || '[]')
+    } catch {
+        throw new Error('Invalid arguments of the function.')
+    }
+
+    if (!Array.isArray(parsed)) {
+        throw new Error('Invalid arguments of the function.')
+    }
+
+    return parsed.map((argument) => {
+        if (
+            typeof argument?.name !== 'string' ||
+            !/^[A-Za-z_][A-Za-z0-9_]*$/.test(argument.name) ||
+            !ARGUMENT_TYPES.includes(argument.type)
+        ) {
+            throw new Error(
+                `Invalid argument ${JSON.stringify(argument)} of the function.`
+            )
+        }
+
+        return argument as FunctionArgument
+    })
+}
+
+function matchesType(value: unknown, type: ArgumentType): boolean {
+    switch (type) {
+        case 'integer':
+            return Number.isInteger(value)
+        case 'number':
+            return typeof value === 'number' && Number.isFinite(value)
+        default:
+            return typeof value === type
+    }
+}
+
+/**
+ * Validates the arguments a function is called with against its declared arguments.
+ *
+ * @param fn - The function being called.
+ * @param args - Arguments from the request body, by name.
+ * @returns The parameters to bind to the named placeholders of the statement.
+ */
+export function bindFunctionArguments(
+    fn: RestFunction,
+    args: Record<string, unknown>
+): Record<string, unknown> {
+    const params: Record<string, unknown> = {}
+
+    for (const name of Object.keys(args)) {
+        if (!fn.arguments.some((argument) => argument.name === name)) {
+            throw new FilterError(
+                `Unknown argument '${name}' for function '${fn.name}'.`
+            )
+        }
+    }
+
+    for (const argument of fn.arguments) {
+        const value =
+            args[argument.name] === undefined
+                ? argument.default
+                : args[argument.name]
+
+        if (value === undefined && !('default' in argument)) {
+            throw new FilterError(
+                `Missing argument '${argument.name}' for function '${fn.name}'.`
+            )
+        }
+
+        if (
+            value !== null &&
+            value !== undefined &&
+            !matchesType(value, argument.type)
+        ) {
+            throw new FilterError(
+                `Argument '${argument.name}' must be of type ${argument.type}.`
+            )
+        }
+
+        // Booleans are bound as 1 and 0, which every dialect accepts
+        params[argument.name] =
+            typeof value === 'boolean' ? Number(value) : (value ?? null)
+    }
+
+    return params
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest'
+import { buildColumnList, parseSelect } from './select'
+
+describe('parseSelect', () => {
+    it('should parse columns, aliases and embedded tables', () => {
+        expect(
+            parseSelect('id,title:name,author:users!author_id(name,posts(*))')
+        ).toEqual([
+            { type: 'column', column: 'id', alias: undefined },
+            { type: 'column', column: 'name', alias: 'title' },
+            {
+                type: 'embed',
+                table: 'users',
+                alias: 'author',
+                hint: 'author_id',
+                select: [
+                    { type: 'column', column: 'name', alias: undefined },
+                    {
+                        type: 'embed',
+                        table: 'posts',
+                        alias: 'posts',
+                        hint: undefined,
+                        select: [{ type: 'column', column: '*' }],
+                    },
+                ],
+            },
+        ])
+    })
+
+    it('should reject invalid select items', () => {
+        expect(() => parseSelect('id,name;DROP TABLE users')).toThrow(
+            "Invalid select item 'name;DROP TABLE users'."
+        )
+        expect(() => parseSelect('users(name')).toThrow(
+            'Unbalanced quotes or parentheses'
+        )
+    })
+})
+
+describe('buildColumnList', () => {
+    it('should alias columns and add hidden join columns', () => {
+        expect(
+            buildColumnList(parseSelect('id,title:name'), ['author_id', 'id'])
+        ).toEqual({
+            columns: 'id, name AS title, author_id',
+            hidden: ['author_id'],
+        })
+    })
+
+    it('should not hide columns when every column is selected', () => {
+        expect(buildColumnList(parseSelect('*'), ['author_id'])).toEqual({
+            columns: '*',
+            hidden: [],
+        })
+    })
+})
@@ -0,0 +1,99 @@
+import { FilterError, splitList } from './filter'
+
+export type SelectColumn = {
+    type: 'column'
+    // Column name, or `*` for every column
+    column: string
+    alias?: string
+}
+
+export type SelectEmbed = {
+    type: 'embed'
+    // Related table to embed and the property its rows are returned under
+    table: string
+    alias: string
+    // Foreign key column that picks one of several relationships between the tables
+    hint?: string
+    select: SelectItem[]
+}
+
+export type SelectItem = SelectColumn | SelectEmbed
+
+// `alias:table!hint(columns)`, where the alias and hint are optional
+const EMBED_PATTERN = /^(?:(\w+):)?(\w+)(?:!(\w+))?\(([\s\S]*)\)$/
+// `alias:column`, where the alias is optional
+const COLUMN_PATTERN = /^(?:(\w+):)?(\w+)$/
+
+/**
+ * Parses the `select` query string parameter, e.g. `id,title:name,author:users(name)`.
+ *
+ * @param value - Value of the `select` parameter.
+ * @returns The columns and embedded resources to select, in order.
+ */
+export function parseSelect(value: string): SelectItem[] {
+    if (!value.trim()) {
+        throw new FilterError('Select requires at least one column.')
+    }
+
+    return splitList(value).map((item): SelectItem => {
+        if (item === '*') {
+            return { type: 'column', column: '*' }
+        }
+
+        const embed = item.match(EMBED_PATTERN)
+
+        if (embed) {
+            return {
+                type: 'embed',
+                table: embed[2],
+                alias: embed[1] ?? embed[2],
+                hint: embed[3],
+                select: parseSelect(embed[4]),
+            }
+        }
+
+        const column = item.match(COLUMN_PATTERN)
+
+        if (!column) {
+            throw new FilterError(`Invalid select item '${item}'.`)
+        }
+
+        return { type: 'column', column: column[2], alias: column[1] }
+    })
+}
+
+/**
+ * Builds the column list of a SELECT statement. Columns that are needed to embed
+ * related rows but were not selected are added, and returned as hidden so they can be
+ * removed from the results afterwards.
+ *
+ * @param items - The parsed select items.
+ * @param required - Columns the statement has to return.
+ */
+export function buildColumnList(
+    items: SelectItem[],
+    required: string[]
+): { columns: string; hidden: string[] } {
+    const columns: string[] = []
+    const selected = new Set<string>()
+
+    for (const item of items) {
+        if (item.type !== 'column') continue
+
+        if (item.alias && item.alias !== item.column) {
+            columns.push(`${item.column} AS ${item.alias}`)
+            selected.add(item.alias)
+        } else {
+            columns.push(item.column)
+            selected.add(item.column)
+        }
+    }
+
+    const hidden = selected.has('*')
+        ? []
+        : [...new Set(required)].filter((column) => !selected.has(column))
+
+    columns.push(...hidden)
+
+    return { columns: columns.length ? columns.join(', ') : '*', hidden }
+}
@@ -0,0 +1,197 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import {
+    enforceMaskedColumns,
+    loadMaskingPolicies,
+    maskResult,
+    maskValue,
+} from './index'
+import { PermissionDeniedError } from '../rbac'
+import { StarbaseDBConfiguration } from '../handler'
+
+const mockDataSource = {
+    source: 'internal',
+    rpc: {
+        executeQuery: vi.fn(),
+    },
+} as any
+
+const client: StarbaseDBConfiguration = {
+    role: 'client',
+    databaseRole: 'analyst',
+}
+
+async function check(sql: string) {
+    return enforceMaskedColumns({
+        sql,
+        policies: await loadMaskingPolicies(mockDataSource, client),
+        dataSource: mockDataSource,
+    })
+}
+
+async function mask(sql: string, result: any) {
+    return maskResult({
+        sql,
+        result,
+        policies: await loadMaskingPolicies(mockDataSource, client),
+        dataSource: mockDataSource,
+        secret: 'secret',
+    })
+}
+
+beforeEach(() => {
+    vi.resetAllMocks()
+    mockDataSource.context = {}
+    vi.mocked(mockDataSource.rpc.executeQuery).mockResolvedValue([
+        { table: 'users', column: 'ssn', mask: 'partial' },
+        { table: 'users', column: 'email', mask: 'hash' },
+        {
+            table: 'users',
+            column: 'salary',
+            mask: 'null',
+            exempt_claim: 'hr',
+        },
+    ])
+})
+
+describe('maskValue', () => {
+    it('should keep the last four characters of partial masks', async () => {
+        await expect(maskValue('123-45-1234', 'partial')).resolves.toBe(
+            '***-**-1234'
+        )
+        await expect(maskValue(12345678, 'partial')).resolves.toBe('****5678')
+    })
+
+    it('should hash and null values', async () => {
+        await expect(maskValue('abc', 'hash', 'secret')).resolves.toBe(
+            '9946dad4e00e913fc8be8e5d3f7e110a4a9e832f83fb09c345285d78638d8a0e'
+        )
+        await expect(maskValue(90000, 'null')).resolves.toBeNull()
+        await expect(maskValue(null, 'partial')).resolves.toBeNull()
+    })
+
+    it('should require a secret to hash values', async () => {
+        await expect(maskValue('abc', 'hash')).rejects.toThrow(
+            'Columns masked with hash require the MASKING_SECRET variable.'
+        )
+    })
+})
+
+describe('loadMaskingPolicies', () => {
+    it('should load the policies of the role for the data source', async () => {
+        await expect(
+            loadMaskingPolicies(mockDataSource, client)
+        ).resolves.toHaveLength(3)
+        expect(mockDataSource.rpc.executeQuery).toHaveBeenCalledWith({
+            sql: expect.stringContaining('("role" IS NULL OR "role" = ?)'),
+            params: ['internal', 'analyst'],
+        })
+    })
+
+    it('should not mask columns for the admin role or exempt claims', async () => {
+        await expect(
+            loadMaskingPolicies(mockDataSource, { role: 'admin' })
+        ).resolves.toEqual([])
+        expect(mockDataSource.rpc.executeQuery).not.toHaveBeenCalled()
+
+        mockDataSource.context = { hr: true }
+        const policies = await loadMaskingPolicies(mockDataSource, client)
+        expect(policies.map((policy) => policy.column)).toEqual([
+            'ssn',
+            'email',
+        ])
+    })
+
+    it('should reject unknown masks', async () => {
+        vi.mocked(mockDataSource.rpc.executeQuery).mockResolvedValue([
+            { table: 'users', column: 'ssn', mask: 'redact' },
+        ])
+
+        await expect(
+            loadMaskingPolicies(mockDataSource, client)
+        ).rejects.toThrow('unknown mask redact')
+    })
+})
+
+describe('enforceMaskedColumns', () => {
+    it('should allow selecting masked columns as is', async () => {
+        await expect(
+            check('SELECT id, ssn, u.email FROM users u WHERE id = ?')
+        ).resolves.toBeUndefined()
+        await expect(
+            check('SELECT SUBSTR(ssn, 1, 3) FROM customers')
+        ).resolves.toBeUndefined()
+    })
+
+    it('should deny deriving values of masked columns', async () => {
+        await expect(check('SELECT ssn AS id FROM users')).rejects.toThrow(
+            'Permission denied: column ssn is masked and can only be selected as is.'
+        )
+        await expect(
+            check('SELECT SUBSTR(ssn, 1, 3) FROM users')
+        ).rejects.toThrow(PermissionDeniedError)
+        await expect(
+            check('SELECT id FROM users WHERE salary > 100000')
+        ).rejects.toThrow('column salary is masked')
+    })
+
+    it('should deny statements that cannot be parsed and mention masked columns', async () => {
+        await expect(check('PRAGMA table_info(users)')).resolves.toBeUndefined()
+        await expect(
+            check('SELECT id FROM users WHERE ssn GLOB ?')
+        ).rejects.toThrow(PermissionDeniedError)
+    })
+})
+
+describe('maskResult', () => {
+    it('should mask the columns of rows of masked tables', async () => {
+        const result = await mask('SELECT * FROM users', [
+            { id: 1, ssn: '123-45-1234', salary: 90000 },
+        ])
+
+        expect(result).toEqual([{ id: 1, ssn: '***-**-1234', salary: null }])
+    })
+
+    it('should only mask the columns of masked tables in joins', async () => {
+        const rows = [{ id: 1, ssn: '123-45-1234', email: 'a@example.com' }]
+
+        await expect(
+            mask(
+                'SELECT u.id, u.ssn, c.email FROM users u JOIN customers c ON c.id = u.id',
+                rows
+            )
+        ).resolves.toEqual([
+            { id: 1, ssn: '***-**-1234', email: 'a@example.com' },
+        ])
+        await expect(
+            mask(
+                'SELECT c.* FROM customers c JOIN users u ON c.id = u.id',
+                rows
+            )
+        ).resolves.toEqual(rows)
+        await expect(
+            mask(
+                'SELECT * FROM customers JOIN users ON customers.id = users.id',
+                [{ email: 'abc' }]
+            )
+        ).resolves.toEqual([
+            {
+                email: '9946dad4e00e913fc8be8e5d3f7e110a4a9e832f83fb09c345285d78638d8a0e',
+            },
+        ])
+    })
+
+    it('should mask the columns of compound statements by position', async () => {
+        await expect(
+            mask('SELECT name FROM customers UNION SELECT ssn FROM users', [
+                { name: '123-45-1234' },
+            ])
+        ).resolves.toEqual([{ name: '***-**-1234' }])
+    })
+
+    it('should leave other tables and results untouched', async () => {
+        const rows = [{ id: 1, ssn: '123-45-1234' }]
+
+        await expect(mask('SELECT * FROM customers', rows)).resolves.toBe(rows)
+        await expect(mask('SELECT * FROM users', [])).resolves.toEqual([])
+    })
+})
@@ -0,0 +1,393 @@
+import { StarbaseDBConfiguration } from '../handler'
+import { DataSource, QueryResult } from '../types'
+import { getSourceName } from '../data-source'
+import { parseStatement, PermissionDeniedError } from '../rbac'
+
+const MASKS = ['partial', 'hash', 'null'] as const
+
+export type Mask = (typeof MASKS)[number]
+
+// A column whose values are masked for non-admin requests, see `tmp_masking_policies`
+export type MaskingPolicy = {
+    table: string
+    column: string
+    mask: Mask
+}
+
+function getDialect(dataSource: DataSource): string {
+    return dataSource.source === 'external'
+        ? dataSource.external!.dialect
+        : 'sqlite'
+}
+
+/**
+ * Loads the masking policies applying to a request. Policies with a role only apply to
+ * requests of that role, and a request whose JWT has the `exempt_claim` of a policy set
+ * to `true` sees the values of its column unmasked. Requests authorized with the admin
+ * token see every value.
+ *
+ * @param dataSource - The data source of the request.
+ * @param config - The configuration of the request, with its role.
+ * @returns The policies applying to the request.
+ */
+export async function loadMaskingPolicies(
+    dataSource: DataSource,
+    config: StarbaseDBConfiguration
+): Promise<MaskingPolicy[]> {
+    if (config.role === 'admin') return []
+
+    const role = config.databaseRole
+    const result = (await dataSource.rpc.executeQuery({
+        sql: `SELECT "table", "column", "mask", "exempt_claim" FROM tmp_masking_policies WHERE ("source" IS NULL OR "source" = ?) AND ${role ? '("role" IS NULL OR "role" = ?)' : '"role" IS NULL'}`,
+        params: role
+            ? [getSourceName(dataSource), role]
+            : [getSourceName(dataSource)],
+    })) as QueryResult[]
+    const context: Record<string, unknown> = dataSource.context ?? {}
+
+    return (result ?? [])
+        .filter(
+            (row: any) =>
+                !row.exempt_claim || context[row.exempt_claim] !== true
+        )
+        .map((row: any) => {
+            const mask = String(row.mask).toLowerCase() as Mask
+
+            // An unknown mask would otherwise expose the column
+            if (!MASKS.includes(mask)) {
+                throw new Error(
+                    `Invalid masking policy on column ${row.column} of table ${row.table}: unknown mask ${row.mask}.`
+                )
+            }
+
+            return {
+                table: String(row.table).toLowerCase(),
+                column: String(row.column).toLowerCase(),
+                mask,
+            }
+        })
+}
+
+// Policies on the tables a statement uses, every policy when it cannot be parsed
+function getStatementPolicies(
+    sql: string,
+    dialect: string,
+    policies: MaskingPolicy[]
+): MaskingPolicy[] {
+    let tables: string[]
+
+    try {
+        tables = (parseStatement(sql, dialect).tableList as string[]).map(
+            (entry) => entry.split('::')[2].replace(/^["`]|["`]$/g, '')
+        )
+    } catch {
+        return policies
+    }
+
+    return policies.filter((policy) =>
+        tables.some((table) => table.toLowerCase() === policy.table)
+    )
+}
+
+// Every `column_ref` within an AST
+function findColumnRefs(node: any, refs: any[] = []): any[] {
+    if (Array.isArray(node)) {
+        node.forEach((item) => findColumnRefs(item, refs))
+    } else if (node && typeof node === 'object') {
+        if (node.type === 'column_ref') refs.push(node)
+        Object.values(node).forEach((value) => findColumnRefs(value, refs))
+    }
+
+    return refs
+}
+
+function columnName(ref: any): string {
+    const column = ref.column?.expr?.value ?? ref.column
+    return String(column).toLowerCase()
+}
+
+/**
+ * Rejects statements using a masked column for anything besides selecting it as is,
+ * such as `SELECT ssn AS id`, `SELECT substr(ssn, 1, 3)` or `WHERE ssn LIKE '123%'`,
+ * which would reveal its values despite the mask applied to the results. Writing to a
+ * masked column is allowed. Columns are matched by name on the tables of the statement.
+ *
+ * @param opts.sql - The statement to check.
+ * @param opts.policies - The policies applying to the request, see `loadMaskingPolicies`.
+ * @param opts.dataSource - The data source of the request.
+ */
+export function enforceMaskedColumns(opts: {
+    sql: string
+    policies: MaskingPolicy[]
+    dataSource: DataSource
+}): void {
+    const { sql, dataSource } = opts
+    const dialect = getDialect(dataSource)
+    const policies = getStatementPolicies(sql, dialect, opts.policies)
+
+    if (policies.length === 0) return
+
+    const denied = (column: string) =>
+        new PermissionDeniedError(
+            `Permission denied: column ${column} is masked and can only be selected as is.`
+        )
+
+    let ast: any
+    try {
+        ast = parseStatement(sql, dialect).ast
+    } catch {
+        // Without an AST any mention of a masked column is denied
+        const policy = policies.find((policy) =>
+            new RegExp(`\\b${policy.column}\\b`, 'i').test(sql)
+        )
+        if (policy) throw denied(policy.column)
+        return
+    }
+
+    // Columns selected as is by the outermost statements, the results of which are masked
+    const selected = new Set<any>()
+    for (const statement of Array.isArray(ast) ? ast : [ast]) {
+        for (let select = statement; select; select = select._next) {
+            if (select.type !== 'select' || !Array.isArray(select.columns)) {
+                continue
+            }
+
+            for (const item of select.columns) {
+                if (
+                    item.expr?.type === 'column_ref' &&
+                    (!item.as || item.as === columnName(item.expr))
+                ) {
+                    selected.add(item.expr)
+                }
+            }
+        }
+    }
+
+    for (const ref of findColumnRefs(ast)) {
+        const column = columnName(ref)
+        if (
+            !selected.has(ref) &&
+            policies.some((policy) => policy.column === column)
+        ) {
+            throw denied(column)
+        }
+    }
+}
+
+// The tables a select reads from by the name they are referenced with, `undefined` when it
+// reads from subqueries or common table expressions its columns cannot be traced through
+function getSelectTables(select: any): Map<string, string> | undefined {
+    if (select.with) return undefined
+
+    const tables = new Map<string, string>()
+    for (const entry of select.from ?? []) {
+        if (typeof entry.table !== 'string') return undefined
+        tables.set(
+            String(entry.as ?? entry.table).toLowerCase(),
+            entry.table.toLowerCase()
+        )
+    }
+
+    return tables
+}
+
+// The mask of each column of the results of a statement, by the lowercase name it is
+// returned under. Columns are traced back to their tables through the outermost selects,
+// so that a column of another table sharing the name of a masked column is left as is.
+// Statements that cannot be traced, such as writes returning rows, are matched by name.
+function getResultMasks(
+    sql: string,
+    dialect: string,
+    policies: MaskingPolicy[]
+): (column: string) => Mask | undefined {
+    const byName = (policies: MaskingPolicy[]) => (column: string) =>
+        policies.find((policy) => policy.column === column)?.mask
+
+    let ast: any
+    try {
+        ast = parseStatement(sql, dialect).ast
+    } catch {
+        return byName(policies)
+    }
+
+    const select = Array.isArray(ast) && ast.length === 1 ? ast[0] : ast
+    if (select?.type !== 'select') return byName(policies)
+
+    // The columns of each select of a compound statement, with the policies masking them
+    const branches: {
+        key?: string
+        star: boolean
+        policies: MaskingPolicy[]
+    }[][] = []
+    for (let branch = select; branch; branch = branch._next) {
+        const tables = getSelectTables(branch)
+        if (!tables || !Array.isArray(branch.columns)) {
+            return byName(policies)
+        }
+
+        branches.push(
+            branch.columns.map((item: any) => {
+                if (item.expr?.type !== 'column_ref') {
+                    return {
+                        key: item.as?.toLowerCase(),
+                        star: false,
+                        policies: [],
+                    }
+                }
+
+                const column = columnName(item.expr)
+                const table =
+                    item.expr.table &&
+                    tables.get(String(item.expr.table).toLowerCase())
+                const refTables = table ? [table] : [...tables.values()]
+
+                return {
+                    key: String(item.as ?? column).toLowerCase(),
+                    star: column === '*',
+                    policies: policies.filter(
+                        (policy) =>
+                            refTables.includes(policy.table) &&
+                            (column === '*' || policy.column === column)
+                    ),
+                }
+            })
+        )
+    }
+
+    // Rows of a compound statement are named after its first select, so the columns of
+    // the others are masked by position, or every column when it cannot be told
+    const [first] = branches
+    const masks = new Map<string, Mask>()
+    const starred: MaskingPolicy[] = []
+    let everyColumn: Mask | undefined
+
+    for (const [index, branch] of branches.entries()) {
+        const aligned = ![...first, ...branch].some((column) => column.star)
+
+        for (const [position, column] of branch.entries()) {
+            const policy = column.policies[0]
+            const key = index === 0 ? column.key : first[position]?.key
+
+            if (!policy) continue
+
+            if (index === 0 && column.star) {
+                starred.push(...column.policies)
+            } else if ((index === 0 || aligned) && key) {
+                masks.set(key, policy.mask)
+            } else {
+                everyColumn = policy.mask
+            }
+        }
+    }
+
+    return (column: string) =>
+        masks.get(column) ?? byName(starred)(column) ?? everyColumn
+}
+
+// Keys imported from `MASKING_SECRET`, by secret
+const hashKeys = new Map<string, Promise<CryptoKey>>()
+
+async function hash(value: string, secret: string): Promise<string> {
+    let key = hashKeys.get(secret)
+
+    if (!key) {
+        key = crypto.subtle.importKey(
+            'raw',
+            new TextEncoder().encode(secret),
+            { name: 'HMAC', hash: 'SHA-256' },
+            false,
+            ['sign']
+        )
+        hashKeys.set(secret, key)
+    }
+
+    const digest = await crypto.subtle.sign(
+        'HMAC',
+        await key,
+        new TextEncoder().encode(value)
+    )
+
+    return Array.from(new Uint8Array(digest))
+        .map((byte) => byte.toString(16).padStart(2, '0'))
+        .join('')
+}
+
+/**
+ * Masks a single value. `partial` keeps the last four letters or digits and replaces the
+ * others with `*`, so `123-45-6789` becomes `***-**-6789`. `hash` replaces the value with
+ * its HMAC-SHA-256 keyed with the secret, which still allows grouping and joining on it
+ * while values cannot be guessed by hashing candidates, and `null` removes the value.
+ *
+ * @param value - The value to mask.
+ * @param mask - The mask of the column.
+ * @param secret - Key of the `hash` mask, the `MASKING_SECRET` variable.
+ * @returns The masked value, `null` stays `null`.
+ */
+export async function maskValue(
+    value: unknown,
+    mask: Mask,
+    secret?: string
+): Promise<unknown> {
+    if (value === null || value === undefined || mask === 'null') return null
+
+    const text = typeof value === 'string' ? value : JSON.stringify(value)
+
+    if (mask === 'hash') {
+        if (!secret) {
+            throw new Error(
+                'Columns masked with hash require the MASKING_SECRET variable.'
+            )
+        }
+
+        return await hash(text, secret)
+    }
+
+    return text.replace(/[A-Za-z0-9](?=(?:[^A-Za-z0-9]*[A-Za-z0-9]){4})/g, '*')
+}
+
+/**
+ * Masks the columns of result rows selected from masked columns of the tables of the
+ * statement, see `getResultMasks`. Used on every result handed back to a request,
+ * including cached ones.
+ *
+ * @param opts.sql - The statement the rows were returned by.
+ * @param opts.result - The rows, as objects.
+ * @param opts.policies - The policies applying to the request, see `loadMaskingPolicies`.
+ * @param opts.dataSource - The data source of the request.
+ * @param opts.secret - Key of the `hash` mask, see `maskValue`.
+ * @returns The rows with their masked columns.
+ */
+export async function maskResult(opts: {
+    sql: string
+    result: any
+    policies: MaskingPolicy[]
+    dataSource: DataSource
+    secret?: string
+}): Promise<any> {
+    const { sql, result, dataSource, secret } = opts
+
+    if (!Array.isArray(result) || result.length === 0) return result
+
+    const dialect = getDialect(dataSource)
+    const policies = getStatementPolicies(sql, dialect, opts.policies)
+
+    if (policies.length === 0) return result
+
+    const maskOf = getResultMasks(sql, dialect, policies)
+
+    return await Promise.all(
+        result.map(async (row) => {
+            if (!row || typeof row !== 'object') return row
+
+            const masked = { ...row }
+            for (const key of Object.keys(masked)) {
+                const mask = maskOf(key.toLowerCase())
+                if (mask) {
+                    masked[key] = await maskValue(masked[key], mask, secret)
+                }
+            }
+
+            return masked
+        })
+    )
+}
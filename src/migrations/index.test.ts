@@ -0,0 +1,314 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import {
+    applyMigrations,
+    applyMigrationsRoute,
+    parseMigrations,
+    rollbackMigrations,
+} from './index'
+import { executeExternalQuery } from '../operation'
+import type { DataSource } from '../types'
+import type { StarbaseDBConfiguration } from '../handler'
+
+vi.mock('../operation', () => ({
+    executeExternalQuery: vi.fn(),
+    updateBookmark: vi.fn(),
+}))
+
+const mockRpc = {
+    executeQuery: vi.fn(),
+    executeTransaction: vi.fn(),
+}
+
+const config: StarbaseDBConfiguration = { role: 'admin' }
+
+const internal = { source: 'internal', rpc: mockRpc } as unknown as DataSource
+
+const postgres = {
+    source: 'external',
+    external: { dialect: 'postgresql' },
+    rpc: mockRpc,
+} as unknown as DataSource
+
+const migrations = [
+    {
+        version: '0001_create_users',
+        up: 'CREATE TABLE users (id INTEGER PRIMARY KEY);',
+        down: 'DROP TABLE users;',
+    },
+    {
+        version: '0002_add_email',
+        up: 'ALTER TABLE users ADD COLUMN email TEXT;\nCREATE INDEX users_email ON users (email);',
+    },
+]
+
+// Checksum of a migration that has since been edited
+const STALE_CHECKSUM =
+    'b0d1bda3d70fa0cbd7e1ae4c5a7e6a2deaf3e8b3e2fb0c1c0ec7ab8e7f6c1f09'
+
+async function checksumOf(sql: string) {
+    const digest = await crypto.subtle.digest(
+        'SHA-256',
+        new TextEncoder().encode(sql)
+    )
+    return [...new Uint8Array(digest)]
+        .map((byte) => byte.toString(16).padStart(2, '0'))
+        .join('')
+}
+
+function mockHistory(
+    entries: { version: string; checksum: string; down?: string }[]
+) {
+    mockRpc.executeQuery.mockResolvedValueOnce(
+        entries.map((entry) => ({
+            down: null,
+            applied_at: '2024-01-01 00:00:00',
+            ...entry,
+        }))
+    )
+}
+
+beforeEach(() => {
+    vi.clearAllMocks()
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+})
+
+describe('parseMigrations', () => {
+    it('should require a version and an up migration', () => {
+        expect(() => parseMigrations([{ up: 'SELECT 1' }])).toThrow(
+            'Migration 0 has no version.'
+        )
+        expect(() => parseMigrations([{ version: '0001' }])).toThrow(
+            "Migration '0001' has no up migration."
+        )
+    })
+
+    it('should reject duplicate versions', () => {
+        expect(() =>
+            parseMigrations([migrations[0], { ...migrations[0] }])
+        ).toThrow("Migration '0001_create_users' is listed more than once.")
+    })
+})
+
+describe('applyMigrations', () => {
+    it('should apply every pending migration and its history entry at once', async () => {
+        mockHistory([])
+
+        const applied = await applyMigrations({
+            migrations,
+            dataSource: internal,
+            config,
+        })
+
+        expect(applied).toEqual(['0001_create_users', '0002_add_email'])
+        expect(mockRpc.executeTransaction).toHaveBeenCalledTimes(1)
+        expect(mockRpc.executeTransaction).toHaveBeenCalledWith(
+            [
+                { sql: 'CREATE TABLE users (id INTEGER PRIMARY KEY);' },
+                {
+                    sql: 'INSERT INTO tmp_migrations ("source", "version", "checksum", "down") VALUES (?, ?, ?, ?)',
+                    params: [
+                        'internal',
+                        '0001_create_users',
+                        await checksumOf(migrations[0].up),
+                        'DROP TABLE users;',
+                    ],
+                },
+                { sql: 'ALTER TABLE users ADD COLUMN email TEXT;' },
+                { sql: 'CREATE INDEX users_email ON users (email);' },
+                {
+                    sql: 'INSERT INTO tmp_migrations ("source", "version", "checksum", "down") VALUES (?, ?, ?, ?)',
+                    params: [
+                        'internal',
+                        '0002_add_email',
+                        await checksumOf(migrations[1].up),
+                        null,
+                    ],
+                },
+            ],
+            false
+        )
+    })
+
+    it('should name the migration whose statement failed', async () => {
+        mockHistory([])
+        mockRpc.executeTransaction.mockRejectedValueOnce(
+            new Error(
+                'Transaction failed at statement 3: index users_email already exists'
+            )
+        )
+
+        await expect(
+            applyMigrations({ migrations, dataSource: internal, config })
+        ).rejects.toThrow(
+            "Migration '0002_add_email' failed: index users_email already exists"
+        )
+    })
+
+    it('should only apply migrations missing from the history', async () => {
+        mockHistory([
+            {
+                version: '0001_create_users',
+                checksum: await checksumOf(migrations[0].up),
+            },
+        ])
+
+        const applied = await applyMigrations({
+            migrations,
+            dryRun: true,
+            dataSource: internal,
+            config,
+        })
+
+        expect(applied).toEqual(['0002_add_email'])
+        expect(mockRpc.executeTransaction).not.toHaveBeenCalled()
+    })
+
+    it('should refuse to run when an applied migration has changed', async () => {
+        mockHistory([
+            { version: '0001_create_users', checksum: STALE_CHECKSUM },
+        ])
+
+        const response = await applyMigrationsRoute(
+            new Request('https://db.example.com/admin/migrations', {
+                method: 'POST',
+                body: JSON.stringify({ migrations }),
+            }),
+            internal,
+            config
+        )
+        const body = (await response.json()) as any
+
+        expect(response.status).toBe(409)
+        expect(body.error).toBe(
+            "Migration '0001_create_users' has changed since it was applied."
+        )
+        expect(mockRpc.executeTransaction).not.toHaveBeenCalled()
+    })
+
+    it('should refuse to run when an applied migration is not listed', async () => {
+        mockHistory([{ version: '0000_init', checksum: STALE_CHECKSUM }])
+
+        await expect(
+            applyMigrations({ migrations, dataSource: internal, config })
+        ).rejects.toThrow(
+            "Migration '0000_init' was applied but is not listed at position 0."
+        )
+    })
+
+    it('should run external migrations in one transaction', async () => {
+        mockHistory([])
+        vi.mocked(executeExternalQuery).mockResolvedValue(undefined)
+
+        await applyMigrations({ migrations, dataSource: postgres, config })
+
+        const statements = vi
+            .mocked(executeExternalQuery)
+            .mock.calls.map(([opts]) => opts.sql)
+        expect(statements).toEqual([
+            'BEGIN',
+            'CREATE TABLE users (id INTEGER PRIMARY KEY);',
+            'ALTER TABLE users ADD COLUMN email TEXT;',
+            'CREATE INDEX users_email ON users (email);',
+            'COMMIT',
+        ])
+        // The history is kept in the internal database, recorded once committed.
+        expect(mockRpc.executeTransaction).toHaveBeenCalledWith(
+            [
+                {
+                    sql: 'INSERT INTO tmp_migrations ("source", "version", "checksum", "down") VALUES (?, ?, ?, ?)',
+                    params: [
+                        'external',
+                        '0001_create_users',
+                        await checksumOf(migrations[0].up),
+                        'DROP TABLE users;',
+                    ],
+                },
+                {
+                    sql: 'INSERT INTO tmp_migrations ("source", "version", "checksum", "down") VALUES (?, ?, ?, ?)',
+                    params: [
+                        'external',
+                        '0002_add_email',
+                        await checksumOf(migrations[1].up),
+                        null,
+                    ],
+                },
+            ],
+            false
+        )
+    })
+
+    it('should roll back every external migration when one fails', async () => {
+        mockHistory([])
+        vi.mocked(executeExternalQuery).mockImplementation(async ({ sql }) => {
+            if (sql.startsWith('CREATE INDEX')) {
+                throw new Error('relation "users_email" already exists')
+            }
+        })
+
+        await expect(
+            applyMigrations({ migrations, dataSource: postgres, config })
+        ).rejects.toThrow(
+            `Migration '0002_add_email' failed: relation "users_email" already exists`
+        )
+
+        const statements = vi
+            .mocked(executeExternalQuery)
+            .mock.calls.map(([opts]) => opts.sql)
+        expect(statements).toEqual([
+            'BEGIN',
+            'CREATE TABLE users (id INTEGER PRIMARY KEY);',
+            'ALTER TABLE users ADD COLUMN email TEXT;',
+            'CREATE INDEX users_email ON users (email);',
+            'ROLLBACK',
+        ])
+        // Only the history was read, nothing was recorded.
+        expect(mockRpc.executeQuery).toHaveBeenCalledTimes(1)
+        expect(mockRpc.executeTransaction).not.toHaveBeenCalled()
+    })
+})
+
+describe('rollbackMigrations', () => {
+    it('should revert the latest migration with its down migration', async () => {
+        mockHistory([
+            {
+                version: '0001_create_users',
+                checksum: '0'.repeat(64),
+                down: 'DROP TABLE users;',
+            },
+        ])
+
+        const reverted = await rollbackMigrations({
+            steps: 1,
+            dataSource: internal,
+            config,
+        })
+
+        expect(reverted).toEqual(['0001_create_users'])
+        expect(mockRpc.executeTransaction).toHaveBeenCalledWith(
+            [
+                { sql: 'DROP TABLE users;' },
+                {
+                    sql: 'DELETE FROM tmp_migrations WHERE "source" = ? AND "version" = ?',
+                    params: ['internal', '0001_create_users'],
+                },
+            ],
+            false
+        )
+    })
+
+    it('should refuse to revert a migration without a down migration', async () => {
+        mockHistory([
+            {
+                version: '0001_create_users',
+                checksum: '0'.repeat(64),
+                down: 'DROP TABLE users;',
+            },
+            { version: '0002_add_email', checksum: '0'.repeat(64) },
+        ])
+
+        await expect(
+            rollbackMigrations({ steps: 2, dataSource: internal, config })
+        ).rejects.toThrow("Migration '0002_add_email' has no down migration.")
+        expect(mockRpc.executeTransaction).not.toHaveBeenCalled()
+    })
+})
@@ -0,0 +1,437 @@
+import { DataSource, QueryResult } from '../types'
+import { StarbaseDBConfiguration } from '../handler'
+import { executeExternalQuery, updateBookmark } from '../operation'
+import { getSourceName } from '../data-source'
+import { parseSqlStatements } from '../import/dump'
+import { createResponse, TransactionError } from '../utils'
+
+export type Migration = {
+    // Identifies the migration in the history, e.g. `0001_create_users`
+    version: string
+    up: string
+    down?: string
+}
+
+export type MigrationHistoryEntry = {
+    version: string
+    checksum: string
+    applied_at: string
+}
+
+type AppliedMigration = MigrationHistoryEntry & { down: string | null }
+
+// The request is valid but conflicts with the migrations applied so far.
+class MigrationConflictError extends Error {}
+
+async function getChecksum(sql: string): Promise<string> {
+    const digest = await crypto.subtle.digest(
+        'SHA-256',
+        new TextEncoder().encode(sql)
+    )
+
+    return [...new Uint8Array(digest)]
+        .map((byte) => byte.toString(16).padStart(2, '0'))
+        .join('')
+}
+
+/**
+ * Validates the migrations sent to the migrations route.
+ *
+ * @param value - The `migrations` field of the request body.
+ * @returns The migrations in the order they are applied.
+ */
+export function parseMigrations(value: unknown): Migration[] {
+    if (!Array.isArray(value) || value.length === 0) {
+        throw new Error('A list of migrations is required.')
+    }
+
+    const versions = new Set<string>()
+
+    return value.map((migration: any, index) => {
+        if (
+            typeof migration?.version !== 'string' ||
+            !migration.version.trim()
+        ) {
+            throw new Error(`Migration ${index} has no version.`)
+        }
+
+        const version = migration.version.trim()
+
+        if (typeof migration.up !== 'string' || !migration.up.trim()) {
+            throw new Error(`Migration '${version}' has no up migration.`)
+        }
+
+        if (
+            migration.down !== undefined &&
+            typeof migration.down !== 'string'
+        ) {
+            throw new Error(
+                `Migration '${version}' has an invalid down migration.`
+            )
+        }
+
+        if (versions.has(version)) {
+            throw new Error(`Migration '${version}' is listed more than once.`)
+        }
+
+        versions.add(version)
+
+        return { version, up: migration.up, down: migration.down }
+    })
+}
+
+async function loadHistory(
+    dataSource: DataSource
+): Promise<AppliedMigration[]> {
+    const result = (await dataSource.rpc.executeQuery({
+        sql: 'SELECT "version", "checksum", "down", "applied_at" FROM tmp_migrations WHERE "source" = ? ORDER BY "id"',
+        params: [getSourceName(dataSource)],
+    })) as QueryResult[]
+
+    return result.map((row) => ({
+        version: String(row.version),
+        checksum: String(row.checksum),
+        down: row.down === null ? null : String(row.down),
+        applied_at: String(row.applied_at),
+    }))
+}
+
+/**
+ * Returns the migrations applied to a data source, oldest first. The history of every
+ * data source is kept in the internal database.
+ *
+ * @param dataSource - The data source of the request.
+ */
+export async function getMigrationHistory(
+    dataSource: DataSource
+): Promise<MigrationHistoryEntry[]> {
+    const history = await loadHistory(dataSource)
+    return history.map(({ down, ...entry }) => entry)
+}
+
+// A migration to apply or revert, with the statement that records it in the history
+type MigrationStep = {
+    version: string
+    sql: string
+    history: { sql: string; params: unknown[] }
+}
+
+/**
+ * Executes the statements of several steps, along with the statements that record
+ * them in the migration history. The internal database runs them in a single storage
+ * transaction, and Postgres in a single transaction recorded once it committed, so
+ * either every step is applied or none is. MySQL commits schema changes implicitly
+ * and other dialects are reached over HTTP, so there each step is recorded as soon as
+ * it ran and the steps after a failing one are not run.
+ */
+async function executeMigrations(opts: {
+    steps: MigrationStep[]
+    dataSource: DataSource
+    config: StarbaseDBConfiguration
+}) {
+    const { steps, dataSource, config } = opts
+
+    if (!steps.length) {
+        return
+    }
+
+    const statements = steps.map((step) =>
+        parseSqlStatements(step.sql).map((statement) => ({ sql: statement }))
+    )
+
+    if (dataSource.source === 'internal') {
+        const batch = steps.flatMap((step, index) => [
+            ...statements[index],
+            step.history,
+        ])
+
+        try {
+            await dataSource.rpc.executeTransaction(batch, false)
+        } catch (error) {
+            const reason = TransactionError.from(error)
+
+            if (!(reason instanceof TransactionError)) {
+                throw reason
+            }
+
+            // Find the step the failing statement belongs to.
+            let remaining = reason.statementIndex
+            const index = statements.findIndex((step) => {
+                remaining -= step.length + 1
+                return remaining < 0
+            })
+
+            throw new Error(
+                `Migration '${steps[index]?.version}' failed: ${reason.reason}`
+            )
+        }
+
+        return
+    }
+
+    // Postgres and MySQL run on a single connection per request, other dialects are
+    // reached over HTTP and cannot hold a transaction open between statements.
+    const dialect = dataSource.external?.dialect
+    const transactional = dialect === 'postgresql'
+    const begin = dialect === 'mysql' ? 'START TRANSACTION' : undefined
+    const execute = (statement: string) =>
+        executeExternalQuery({ sql: statement, params: [], dataSource, config })
+
+    if (transactional) await execute('BEGIN')
+
+    for (const [index, step] of steps.entries()) {
+        try {
+            if (begin) await execute(begin)
+
+            for (const statement of statements[index]) {
+                await execute(statement.sql)
+            }
+
+            if (begin) await execute('COMMIT')
+        } catch (error: any) {
+            if (transactional || begin) {
+                await execute('ROLLBACK').catch(() => {})
+            }
+            throw new Error(
+                `Migration '${step.version}' failed: ${error?.message ?? error}`
+            )
+        }
+
+        if (!transactional) {
+            await dataSource.rpc.executeQuery(step.history)
+        }
+    }
+
+    if (transactional) {
+        try {
+            await execute('COMMIT')
+        } catch (error: any) {
+            throw new Error(
+                `Migrations failed to commit: ${error?.message ?? error}`
+            )
+        }
+
+        await dataSource.rpc.executeTransaction(
+            steps.map((step) => step.history),
+            false
+        )
+    }
+}
+
+/**
+ * Applies the migrations that have not been applied to a data source yet, in order.
+ * Migrations applied before must be listed first and unchanged, otherwise nothing is
+ * applied.
+ *
+ * @param opts.migrations - Every migration of the data source, oldest first.
+ * @param opts.dryRun - Only report the migrations that would be applied.
+ * @returns The versions of the migrations that were (or would be) applied.
+ */
+export async function applyMigrations(opts: {
+    migrations: Migration[]
+    dryRun?: boolean
+    dataSource: DataSource
+    config: StarbaseDBConfiguration
+}): Promise<string[]> {
+    const { migrations, dryRun, dataSource, config } = opts
+    const history = await loadHistory(dataSource)
+    const checksums = await Promise.all(
+        migrations.map((migration) => getChecksum(migration.up))
+    )
+
+    for (const [index, applied] of history.entries()) {
+        const migration = migrations[index]
+
+        if (!migration || migration.version !== applied.version) {
+            throw new MigrationConflictError(
+                `Migration '${applied.version}' was applied but is not listed at position ${index}.`
+            )
+        }
+
+        if (checksums[index] !== applied.checksum) {
+            throw new MigrationConflictError(
+                `Migration '${applied.version}' has changed since it was applied.`
+            )
+        }
+    }
+
+    const pending = migrations.slice(history.length)
+
+    if (dryRun) {
+        return pending.map((migration) => migration.version)
+    }
+
+    await executeMigrations({
+        steps: pending.map((migration, offset) => ({
+            version: migration.version,
+            sql: migration.up,
+            history: {
+                sql: 'INSERT INTO tmp_migrations ("source", "version", "checksum", "down") VALUES (?, ?, ?, ?)',
+                params: [
+                    getSourceName(dataSource),
+                    migration.version,
+                    checksums[history.length + offset],
+                    migration.down ?? null,
+                ],
+            },
+        })),
+        dataSource,
+        config,
+    })
+
+    await updateBookmark(dataSource)
+    return pending.map((migration) => migration.version)
+}
+
+/**
+ * Reverts the latest applied migrations with the down migrations recorded when they
+ * were applied, newest first.
+ *
+ * @param opts.steps - Number of migrations to revert.
+ * @param opts.dryRun - Only report the migrations that would be reverted.
+ * @returns The versions of the migrations that were (or would be) reverted.
+ */
+export async function rollbackMigrations(opts: {
+    steps: number
+    dryRun?: boolean
+    dataSource: DataSource
+    config: StarbaseDBConfiguration
+}): Promise<string[]> {
+    const { steps, dryRun, dataSource, config } = opts
+    const history = await loadHistory(dataSource)
+    const reverting = history.slice(-steps).reverse()
+
+    if (reverting.length < steps) {
+        throw new MigrationConflictError(
+            `Only ${history.length} migrations have been applied.`
+        )
+    }
+
+    const missing = reverting.find((migration) => migration.down === null)
+
+    if (missing) {
+        throw new MigrationConflictError(
+            `Migration '${missing.version}' has no down migration.`
+        )
+    }
+
+    if (dryRun) {
+        return reverting.map((migration) => migration.version)
+    }
+
+    await executeMigrations({
+        steps: reverting.map((migration) => ({
+            version: migration.version,
+            sql: migration.down!,
+            history: {
+                sql: 'DELETE FROM tmp_migrations WHERE "source" = ? AND "version" = ?',
+                params: [getSourceName(dataSource), migration.version],
+            },
+        })),
+        dataSource,
+        config,
+    })
+
+    await updateBookmark(dataSource)
+    return reverting.map((migration) => migration.version)
+}
+
+function createErrorResponse(error: any, fallback: string): Response {
+    if (error instanceof MigrationConflictError) {
+        return createResponse(undefined, error.message, 409)
+    }
+
+    console.error('Migration Error:', error)
+    return createResponse(undefined, error?.message ?? fallback, 500)
+}
+
+export async function listMigrationsRoute(
+    dataSource: DataSource
+): Promise<Response> {
+    try {
+        const history = await getMigrationHistory(dataSource)
+        return createResponse(history, undefined, 200)
+    } catch (error: any) {
+        return createErrorResponse(error, 'Failed to list migrations.')
+    }
+}
+
+export async function applyMigrationsRoute(
+    request: Request,
+    dataSource: DataSource,
+    config: StarbaseDBConfiguration
+): Promise<Response> {
+    let migrations: Migration[]
+    let dryRun: boolean
+
+    try {
+        const body = (await request.json()) as {
+            migrations?: unknown
+            dryRun?: unknown
+        }
+
+        migrations = parseMigrations(body?.migrations)
+        dryRun = body?.dryRun === true
+    } catch (error: any) {
+        return createResponse(
+            undefined,
+            error?.message ?? 'Invalid request body.',
+            400
+        )
+    }
+
+    try {
+        const applied = await applyMigrations({
+            migrations,
+            dryRun,
+            dataSource,
+            config,
+        })
+
+        return createResponse({ applied, dryRun }, undefined, 200)
+    } catch (error: any) {
+        return createErrorResponse(error, 'Failed to apply migrations.')
+    }
+}
+
+export async function rollbackMigrationsRoute(
+    request: Request,
+    dataSource: DataSource,
+    config: StarbaseDBConfiguration
+): Promise<Response> {
+    let steps: number
+    let dryRun: boolean
+
+    try {
+        const body = (await request.json()) as {
+            steps?: unknown
+            dryRun?: unknown
+        }
+
+        steps = body?.steps === undefined ? 1 : Number(body.steps)
+        dryRun = body?.dryRun === true
+    } catch (error: any) {
+        return createResponse(undefined, 'Invalid request body.', 400)
+    }
+
+    if (!Number.isInteger(steps) || steps < 1) {
+        return createResponse(
+            undefined,
+            'Steps must be a positive integer.',
+            400
+        )
+    }
+
+    try {
+        const reverted = await rollbackMigrations({
+            steps,
+            dryRun,
+            dataSource,
+            config,
+        })
+
+        return createResponse({ reverted, dryRun }, undefined, 200)
+    } catch (error: any) {
+        return createErrorResponse(error, 'Failed to roll back migrations.')
+    }
+}
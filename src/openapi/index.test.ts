@@ -0,0 +1,225 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import {
+    buildOpenApiDocument,
+    getTableSchemas,
+    openApiRoute,
+    toJsonSchema,
+} from './index'
+import { executeQuery } from '../operation'
+import type { DataSource } from '../types'
+import type { StarbaseDBConfiguration } from '../handler'
+
+vi.mock('../operation', () => ({
+    executeQuery: vi.fn(),
+}))
+
+const config: StarbaseDBConfiguration = { role: 'admin' }
+const internalSource = { source: 'internal' } as DataSource
+
+const users = {
+    schema: 'main',
+    name: 'users',
+    columns: [
+        { name: 'id', type: 'INTEGER', nullable: false, primaryKey: true },
+        { name: 'email', type: 'TEXT', nullable: true, primaryKey: false },
+    ],
+}
+
+beforeEach(() => {
+    vi.clearAllMocks()
+})
+
+describe('toJsonSchema', () => {
+    it('should map column types by their affinity', () => {
+        expect(toJsonSchema('BIGINT')).toEqual({ type: 'integer' })
+        expect(toJsonSchema('double precision')).toEqual({ type: 'number' })
+        expect(toJsonSchema('VARCHAR(255)')).toEqual({ type: 'string' })
+        expect(toJsonSchema('timestamp with time zone')).toEqual({
+            type: 'string',
+            format: 'date-time',
+        })
+    })
+})
+
+describe('getTableSchemas', () => {
+    it('should read SQLite tables without internal tables', async () => {
+        vi.mocked(executeQuery).mockImplementation(async ({ sql }) =>
+            sql.includes('sqlite_master')
+                ? [{ name: 'users' }]
+                : [
+                      { name: 'id', type: 'INTEGER', notnull: 0, pk: 1 },
+                      { name: 'email', type: 'TEXT', notnull: 0, pk: 0 },
+                  ]
+        )
+
+        await expect(getTableSchemas(internalSource, config)).resolves.toEqual([
+            users,
+        ])
+        expect(vi.mocked(executeQuery).mock.calls[0][0].sql).toContain(
+            "name NOT LIKE 'tmp_%'"
+        )
+        expect(vi.mocked(executeQuery).mock.calls[1][0].sql).toBe(
+            'PRAGMA table_info(users);'
+        )
+    })
+
+    it('should leave out tables the role has not been granted', async () => {
+        const dataSource = {
+            source: 'internal',
+            rpc: {
+                executeQuery: vi
+                    .fn()
+                    .mockResolvedValueOnce([{ name: 'analyst' }])
+                    .mockResolvedValueOnce([
+                        { actions: 'SELECT', schema: null, table: 'users' },
+                    ]),
+            },
+        } as unknown as DataSource
+        vi.mocked(executeQuery).mockImplementation(async ({ sql }) =>
+            sql.includes('sqlite_master')
+                ? [{ name: 'salaries' }, { name: 'users' }]
+                : [
+                      { name: 'id', type: 'INTEGER', notnull: 0, pk: 1 },
+                      { name: 'email', type: 'TEXT', notnull: 0, pk: 0 },
+                  ]
+        )
+
+        await expect(
+            getTableSchemas(dataSource, {
+                role: 'client',
+                databaseRole: 'analyst',
+                features: { rbac: true },
+            })
+        ).resolves.toEqual([users])
+        expect(executeQuery).toHaveBeenCalledTimes(2)
+        expect(vi.mocked(executeQuery).mock.calls[1][0].sql).toBe(
+            'PRAGMA table_info(users);'
+        )
+    })
+
+    it('should group the columns of external tables', async () => {
+        vi.mocked(executeQuery).mockResolvedValue([
+            {
+                schema: 'public',
+                table: 'orders',
+                name: 'id',
+                type: 'uuid',
+                nullable: false,
+                pk: true,
+            },
+            {
+                schema: 'public',
+                table: 'orders',
+                name: 'total',
+                type: 'numeric',
+                nullable: true,
+                pk: false,
+            },
+        ])
+
+        const tables = await getTableSchemas(
+            {
+                source: 'external',
+                external: { dialect: 'postgresql' },
+            } as DataSource,
+            config
+        )
+
+        expect(tables).toEqual([
+            {
+                schema: 'public',
+                name: 'orders',
+                columns: [
+                    {
+                        name: 'id',
+                        type: 'uuid',
+                        nullable: false,
+                        primaryKey: true,
+                    },
+                    {
+                        name: 'total',
+                        type: 'numeric',
+                        nullable: true,
+                        primaryKey: false,
+                    },
+                ],
+            },
+        ])
+    })
+})
+
+describe('buildOpenApiDocument', () => {
+    const document = buildOpenApiDocument({
+        tables: [users],
+        routes: [
+            { method: 'ALL', path: '*' },
+            { method: 'POST', path: '/query' },
+            { method: 'ALL', path: '/rest/*' },
+            { method: 'GET', path: '/export/json/:tableName' },
+            { method: 'GET', path: '/export/json/:tableName' },
+            { method: 'POST', path: '/stripe/webhook' },
+        ],
+        serverUrl: 'https://starbasedb.example.com',
+    }) as any
+
+    it('should describe the LiteREST paths of every table', () => {
+        expect(Object.keys(document.paths['/rest/main/users'])).toEqual([
+            'get',
+            'post',
+            'patch',
+            'delete',
+        ])
+        expect(
+            document.paths['/rest/main/users'].patch.requestBody.content[
+                'application/json'
+            ].schema
+        ).toEqual({
+            type: 'object',
+            properties: {
+                id: { type: 'integer' },
+                email: { type: 'string', nullable: true },
+            },
+        })
+        expect(document.paths['/rest/main/users/{id}'].put).toBeDefined()
+    })
+
+    it('should describe core and plugin routes', () => {
+        expect(document.paths['/query'].post.summary).toBe(
+            'Execute a query, or several queries in a transaction'
+        )
+        expect(
+            document.paths['/export/json/{tableName}'].get.parameters
+        ).toEqual([
+            {
+                name: 'tableName',
+                in: 'path',
+                required: true,
+                schema: { type: 'string' },
+            },
+        ])
+        expect(document.paths['/stripe/webhook'].post.summary).toBe(
+            'POST /stripe/webhook'
+        )
+        expect(document.paths['*']).toBeUndefined()
+    })
+})
+
+describe('openApiRoute', () => {
+    it('should return the document as plain JSON', async () => {
+        vi.mocked(executeQuery).mockResolvedValue([])
+
+        const response = await openApiRoute(
+            new Request('https://starbasedb.example.com/openapi.json'),
+            [{ method: 'POST', path: '/query' }],
+            internalSource,
+            config
+        )
+        const document = (await response.json()) as any
+
+        expect(response.status).toBe(200)
+        expect(document.openapi).toBe('3.0.3')
+        expect(document.servers).toEqual([
+            { url: 'https://starbasedb.example.com' },
+        ])
+    })
+})
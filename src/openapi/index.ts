@@ -0,0 +1,541 @@
+import { executeQuery } from '../operation'
+import { StarbaseDBConfiguration } from '../handler'
+import { DataSource } from '../types'
+import { corsHeaders } from '../cors'
+import { createResponse } from '../utils'
+import { filterGrantedTables } from '../rbac'
+
+export type TableColumn = {
+    name: string
+    type: string
+    nullable: boolean
+    primaryKey: boolean
+}
+
+export type TableSchema = {
+    // Schema the table is addressed with in LiteREST paths, `main` for SQLite
+    schema: string
+    name: string
+    columns: TableColumn[]
+}
+
+// A route registered on the app, see `Hono.routes`
+export type RegisteredRoute = { method: string; path: string }
+
+type OpenApiOperation = Record<string, unknown>
+
+const JSON_RESPONSE = {
+    description: 'The result, or the error when the request failed.',
+    content: {
+        'application/json': {
+            schema: {
+                type: 'object',
+                properties: {
+                    result: {},
+                    error: { type: 'string' },
+                },
+            },
+        },
+    },
+}
+
+const QUERY_SCHEMA = {
+    type: 'object',
+    properties: {
+        sql: { type: 'string' },
+        params: {
+            oneOf: [{ type: 'array', items: {} }, { type: 'object' }],
+        },
+        transaction: {
+            type: 'array',
+            items: {
+                type: 'object',
+                required: ['sql'],
+                properties: {
+                    sql: { type: 'string' },
+                    params: {
+                        oneOf: [
+                            { type: 'array', items: {} },
+                            { type: 'object' },
+                        ],
+                    },
+                },
+            },
+        },
+    },
+}
+
+// Routes of StarbaseDB itself, other registered routes are described from their path.
+const CORE_OPERATIONS: Record<string, OpenApiOperation> = {
+    'POST /query': {
+        summary: 'Execute a query, or several queries in a transaction',
+        tags: ['Query'],
+        requestBody: {
+            required: true,
+            content: { 'application/json': { schema: QUERY_SCHEMA } },
+        },
+    },
+    'POST /query/raw': {
+        summary: 'Execute a query and return columns and rows separately',
+        tags: ['Query'],
+        requestBody: {
+            required: true,
+            content: { 'application/json': { schema: QUERY_SCHEMA } },
+        },
+    },
+    'GET /export/dump': {
+        summary: 'Export the database as a SQL dump',
+        tags: ['Export'],
+        responses: {
+            '200': {
+                description: 'The SQL dump.',
+                content: {
+                    'application/x-sqlite3': {
+                        schema: { type: 'string', format: 'binary' },
+                    },
+                },
+            },
+        },
+    },
+    'GET /export/json/{tableName}': {
+        summary: 'Export the rows of a table as JSON',
+        tags: ['Export'],
+    },
+    'GET /export/csv/{tableName}': {
+        summary: 'Export the rows of a table as CSV',
+        tags: ['Export'],
+        responses: {
+            '200': {
+                description: 'The rows as CSV.',
+                content: { 'text/csv': { schema: { type: 'string' } } },
+            },
+        },
+    },
+    'POST /import/dump': {
+        summary: 'Import a SQL dump',
+        tags: ['Import'],
+        requestBody: {
+            required: true,
+            content: {
+                'multipart/form-data': {
+                    schema: {
+                        type: 'object',
+                        properties: {
+                            sqlFile: { type: 'string', format: 'binary' },
+                        },
+                    },
+                },
+            },
+        },
+    },
+    'POST /import/json/{tableName}': {
+        summary: 'Import rows into a table from JSON',
+        tags: ['Import'],
+        requestBody: {
+            required: true,
+            content: {
+                'application/json': {
+                    schema: {
+                        type: 'object',
+                        properties: {
+                            data: { type: 'array', items: { type: 'object' } },
+                            columnMapping: {
+                                type: 'object',
+                                additionalProperties: { type: 'string' },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+    },
+    'POST /import/csv/{tableName}': {
+        summary: 'Import rows into a table from CSV',
+        tags: ['Import'],
+        requestBody: {
+            required: true,
+            content: {
+                'text/csv': { schema: { type: 'string' } },
+                'multipart/form-data': {
+                    schema: {
+                        type: 'object',
+                        properties: {
+                            file: { type: 'string', format: 'binary' },
+                        },
+                    },
+                },
+            },
+        },
+    },
+}
+
+/**
+ * Maps the declared type of a column to a JSON schema. SQLite accepts any type name, so
+ * types are matched by the same substrings SQLite uses for its type affinity.
+ */
+export function toJsonSchema(type: string): Record<string, unknown> {
+    const normalized = type.toLowerCase()
+
+    if (/bool/.test(normalized)) return { type: 'boolean' }
+    if (/int|serial/.test(normalized)) return { type: 'integer' }
+    if (/real|floa|doub|numeric|decimal/.test(normalized)) {
+        return { type: 'number' }
+    }
+    if (/json/.test(normalized)) return {}
+    if (/blob|bytea|binary/.test(normalized)) {
+        return { type: 'string', format: 'byte' }
+    }
+    if (/timestamp|datetime/.test(normalized)) {
+        return { type: 'string', format: 'date-time' }
+    }
+    if (/^date$/.test(normalized)) return { type: 'string', format: 'date' }
+
+    return { type: 'string' }
+}
+
+/**
+ * Reads the tables of the data source with their columns, types and primary keys.
+ * Tables StarbaseDB uses internally are left out, as are those the role of the request
+ * has not been granted with role based access control.
+ */
+export async function getTableSchemas(
+    dataSource: DataSource,
+    config: StarbaseDBConfiguration
+): Promise<TableSchema[]> {
+    const query = (sql: string) =>
+        executeQuery({
+            sql,
+            params: [],
+            isRaw: false,
+            dataSource,
+            config,
+        }) as Promise<any[]>
+    const granted = <T extends { schema?: string; name: string }>(
+        tables: T[]
+    ) =>
+        filterGrantedTables({
+            tables,
+            isEnabled: config?.features?.rbac ?? false,
+            dataSource,
+            config,
+        })
+    const dialect =
+        dataSource.source === 'external'
+            ? dataSource.external?.dialect
+            : 'sqlite'
+
+    if (dialect === 'postgresql' || dialect === 'mysql') {
+        const rows = await query(
+            dialect === 'postgresql'
+                ? `
+                SELECT c.table_schema AS "schema", c.table_name AS "table",
+                    c.column_name AS name, c.data_type AS type,
+                    c.is_nullable = 'YES' AS nullable,
+                    EXISTS (
+                        SELECT 1 FROM information_schema.table_constraints tc
+                        JOIN information_schema.key_column_usage kcu
+                        ON tc.constraint_name = kcu.constraint_name
+                        AND tc.table_schema = kcu.table_schema
+                        AND tc.table_name = kcu.table_name
+                        WHERE tc.constraint_type = 'PRIMARY KEY'
+                        AND kcu.table_schema = c.table_schema
+                        AND kcu.table_name = c.table_name
+                        AND kcu.column_name = c.column_name
+                    ) AS pk
+                FROM information_schema.columns c
+                JOIN information_schema.tables t
+                ON t.table_schema = c.table_schema AND t.table_name = c.table_name
+                WHERE t.table_type = 'BASE TABLE'
+                AND c.table_schema NOT IN ('pg_catalog', 'information_schema')
+                ORDER BY c.table_schema, c.table_name, c.ordinal_position;`
+                : `
+                SELECT TABLE_SCHEMA AS \`schema\`, TABLE_NAME AS \`table\`,
+                    COLUMN_NAME AS name, DATA_TYPE AS type,
+                    IS_NULLABLE = 'YES' AS nullable, COLUMN_KEY = 'PRI' AS pk
+                FROM information_schema.columns
+                WHERE TABLE_SCHEMA = DATABASE()
+                ORDER BY TABLE_NAME, ORDINAL_POSITION;`
+        )
+        const tables = new Map<string, TableSchema>()
+
+        for (const row of rows) {
+            const key = `${row.schema}.${row.table}`
+
+            if (!tables.has(key)) {
+                tables.set(key, {
+                    schema: row.schema,
+                    name: row.table,
+                    columns: [],
+                })
+            }
+
+            tables.get(key)!.columns.push({
+                name: row.name,
+                type: row.type,
+                nullable: Boolean(Number(row.nullable)),
+                primaryKey: Boolean(Number(row.pk)),
+            })
+        }
+
+        return await granted([...tables.values()])
+    }
+
+    const tables = await granted(
+        await query(
+            `SELECT name FROM sqlite_master WHERE type = 'table'
+        AND name NOT LIKE 'sqlite_%' AND name NOT LIKE 'tmp_%'
+        AND name NOT LIKE '_cf_%' ORDER BY name;`
+        )
+    )
+    const schemas: TableSchema[] = []
+
+    for (const { name } of tables) {
+        const columns = await query(
+            `PRAGMA table_info(${name.replace(/[^a-zA-Z0-9_]/g, '')});`
+        )
+
+        schemas.push({
+            schema: 'main',
+            name,
+            columns: columns.map((column) => ({
+                name: column.name,
+                type: column.type ?? '',
+                nullable: !column.notnull && !column.pk,
+                primaryKey: column.pk > 0,
+            })),
+        })
+    }
+
+    return schemas
+}
+
+// Paths and the JSON schema of the rows of a LiteREST table
+function buildTablePaths(table: TableSchema): Record<string, unknown> {
+    const row = {
+        type: 'object',
+        properties: Object.fromEntries(
+            table.columns.map((column) => [
+                column.name,
+                {
+                    ...toJsonSchema(column.type),
+                    ...(column.nullable ? { nullable: true } : {}),
+                },
+            ])
+        ),
+    }
+    const rows = { oneOf: [row, { type: 'array', items: row }] }
+    const prefer = {
+        name: 'Prefer',
+        in: 'header',
+        schema: { type: 'string' },
+        description:
+            'e.g. `return=representation`, `resolution=merge-duplicates` or `count=exact`',
+    }
+    const filters = table.columns.map((column) => ({
+        name: column.name,
+        in: 'query',
+        required: false,
+        schema: { type: 'string' },
+        description: 'Filter, e.g. `eq.1`, `in.(1,2)` or `not.is.null`',
+    }))
+    const pagination = ['select', 'order', 'limit', 'offset', 'cursor'].map(
+        (name) => ({
+            name,
+            in: 'query',
+            required: false,
+            schema: { type: 'string' },
+        })
+    )
+    const tags = [table.name]
+    const base = `/rest/${table.schema}/${table.name}`
+    const paths: Record<string, unknown> = {
+        [base]: {
+            get: {
+                summary: `List rows of ${table.name}`,
+                tags,
+                parameters: [...filters, ...pagination, prefer],
+            },
+            post: {
+                summary: `Insert one or more rows into ${table.name}`,
+                tags,
+                parameters: [
+                    {
+                        name: 'on_conflict',
+                        in: 'query',
+                        required: false,
+                        schema: { type: 'string' },
+                    },
+                    prefer,
+                ],
+                requestBody: {
+                    required: true,
+                    content: { 'application/json': { schema: rows } },
+                },
+            },
+            patch: {
+                summary: `Update the rows of ${table.name} matching the filters`,
+                tags,
+                parameters: [...filters, prefer],
+                requestBody: {
+                    required: true,
+                    content: { 'application/json': { schema: row } },
+                },
+            },
+            delete: {
+                summary: `Delete the rows of ${table.name} matching the filters`,
+                tags,
+                parameters: [...filters, prefer],
+            },
+        },
+    }
+
+    // Rows are addressed by id when the table has a single column primary key.
+    if (table.columns.filter((column) => column.primaryKey).length === 1) {
+        const id = {
+            name: 'id',
+            in: 'path',
+            required: true,
+            schema: { type: 'string' },
+        }
+
+        paths[`${base}/{id}`] = {
+            get: {
+                summary: `Get a row of ${table.name}`,
+                tags,
+                parameters: [id],
+            },
+            put: {
+                summary: `Replace a row of ${table.name}`,
+                tags,
+                parameters: [id, prefer],
+                requestBody: {
+                    required: true,
+                    content: { 'application/json': { schema: row } },
+                },
+            },
+            patch: {
+                summary: `Update a row of ${table.name}`,
+                tags,
+                parameters: [id, prefer],
+                requestBody: {
+                    required: true,
+                    content: { 'application/json': { schema: row } },
+                },
+            },
+            delete: {
+                summary: `Delete a row of ${table.name}`,
+                tags,
+                parameters: [id, prefer],
+            },
+        }
+    }
+
+    return paths
+}
+
+/**
+ * Builds the OpenAPI document of the API, with the LiteREST paths of every table and
+ * the routes registered on the app, including those of plugins.
+ *
+ * @param opts.tables - Tables of the data source, see `getTableSchemas`.
+ * @param opts.routes - Routes registered on the app.
+ * @param opts.serverUrl - URL the API is served from.
+ */
+export function buildOpenApiDocument(opts: {
+    tables: TableSchema[]
+    routes: RegisteredRoute[]
+    serverUrl: string
+}): Record<string, unknown> {
+    const { tables, routes, serverUrl } = opts
+    const paths: Record<string, Record<string, unknown>> = {}
+    const rest = routes.some((route) => route.path === '/rest/*')
+
+    for (const route of routes) {
+        // Middleware and wildcard routes, such as LiteREST, have no single path.
+        if (route.path.includes('*')) continue
+
+        const path = route.path.replace(/:(\w+)/g, '{$1}')
+        const methods =
+            route.method === 'ALL' ? ['GET', 'POST'] : [route.method]
+        const parameters = [...path.matchAll(/\{(\w+)\}/g)].map(([, name]) => ({
+            name,
+            in: 'path',
+            required: true,
+            schema: { type: 'string' },
+        }))
+
+        for (const method of methods) {
+            const core = CORE_OPERATIONS[`${method} ${path}`]
+
+            paths[path] = paths[path] ?? {}
+            paths[path][method.toLowerCase()] = {
+                summary: `${method} ${path}`,
+                ...(parameters.length ? { parameters } : {}),
+                ...core,
+                responses: {
+                    default: JSON_RESPONSE,
+                    ...(core?.responses as object),
+                },
+            }
+        }
+    }
+
+    if (rest) {
+        for (const table of tables) {
+            for (const [path, operations] of Object.entries(
+                buildTablePaths(table)
+            )) {
+                paths[path] = Object.fromEntries(
+                    Object.entries(operations as object).map(
+                        ([method, operation]) => [
+                            method,
+                            {
+                                ...operation,
+                                responses: { default: JSON_RESPONSE },
+                            },
+                        ]
+                    )
+                )
+            }
+        }
+    }
+
+    return {
+        openapi: '3.0.3',
+        info: { title: 'StarbaseDB', version: '1.0.0' },
+        servers: [{ url: serverUrl }],
+        security: [{ bearerAuth: [] }],
+        components: {
+            securitySchemes: {
+                bearerAuth: { type: 'http', scheme: 'bearer' },
+            },
+        },
+        paths,
+    }
+}
+
+export async function openApiRoute(
+    request: Request,
+    routes: RegisteredRoute[],
+    dataSource: DataSource,
+    config: StarbaseDBConfiguration
+): Promise<Response> {
+    try {
+        const document = buildOpenApiDocument({
+            tables: await getTableSchemas(dataSource, config),
+            routes,
+            serverUrl: new URL(request.url).origin,
+        })
+
+        return new Response(JSON.stringify(document), {
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        })
+    } catch (error: any) {
+        console.error('OpenAPI Error:', error)
+        return createResponse(
+            undefined,
+            error?.message || 'Failed to build the OpenAPI document.',
+            500
+        )
+    }
+}
@@ -1,14 +1,23 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import {
+    bindParameters,
     executeQuery,
+    executeQueryStream,
     executeTransaction,
     executeExternalQuery,
     executeSDKQuery,
 } from './operation'
 import { isQueryAllowed } from './allowlist'
 import { applyRLS } from './rls'
+import {
+    enforceMaskedColumns,
+    loadMaskingPolicies,
+    maskResult,
+} from './masking'
 import { beforeQueryCache, afterQueryCache } from './cache'
+import { getConnection } from './connection'
 import type { DataSource } from './types'
+import { TransactionError } from './utils'
 import type { StarbaseDBConfiguration } from './handler'
 import type { SqlConnection } from '@outerbase/sdk/dist/connections/sql-base'
 
@@ -88,11 +97,22 @@ import type { SqlConnection } from '@outerbase/sdk/dist/connections/sql-base'
 // })
 
 vi.mock('./allowlist', () => ({ isQueryAllowed: vi.fn() }))
-vi.mock('./rls', () => ({ applyRLS: vi.fn(async ({ sql }) => sql) }))
+vi.mock('./rls', () => ({
+    applyRLS: vi.fn(async ({ sql, params }) => ({ sql, params })),
+}))
+vi.mock('./masking', () => ({
+    enforceMaskedColumns: vi.fn(),
+    loadMaskingPolicies: vi.fn(async () => []),
+    maskResult: vi.fn(async ({ result }) => result),
+}))
 vi.mock('./cache', () => ({
     beforeQueryCache: vi.fn(async () => null),
     afterQueryCache: vi.fn(),
 }))
+vi.mock('./connection', () => ({
+    getConnection: vi.fn(),
+    closeConnection: vi.fn(),
+}))
 
 let mockSqlConnection: SqlConnection
 let mockDataSource: DataSource
@@ -128,6 +148,7 @@ beforeEach(() => {
                 { id: 1, name: 'Alice' },
                 { id: 2, name: 'Bob' },
             ]),
+            executeTransaction: vi.fn().mockResolvedValue([[], []]),
         },
     } as any
 
@@ -260,6 +281,71 @@ describe('executeQuery', () => {
         )
     })
 
+    it('should load the masking policies once per query when enabled', async () => {
+        const policies = [
+            { table: 'users', column: 'name', mask: 'partial' as const },
+        ]
+        vi.mocked(loadMaskingPolicies).mockResolvedValueOnce(policies)
+
+        await executeQuery({
+            sql: 'SELECT * FROM users',
+            params: undefined,
+            isRaw: false,
+            dataSource: mockDataSource,
+            config: {
+                ...mockConfig,
+                features: { ...mockConfig.features, masking: true },
+            },
+        })
+
+        expect(loadMaskingPolicies).toHaveBeenCalledTimes(1)
+        expect(enforceMaskedColumns).toHaveBeenCalledWith(
+            expect.objectContaining({ policies })
+        )
+        expect(maskResult).toHaveBeenCalledWith(
+            expect.objectContaining({ policies })
+        )
+    })
+
+    it('should not mask columns when masking is disabled', async () => {
+        await executeQuery({
+            sql: 'SELECT * FROM users',
+            params: undefined,
+            isRaw: false,
+            dataSource: mockDataSource,
+            config: mockConfig,
+        })
+
+        expect(loadMaskingPolicies).not.toHaveBeenCalled()
+        expect(maskResult).not.toHaveBeenCalled()
+    })
+
+    it('should execute the checks of row-level security on the data source', async () => {
+        vi.mocked(applyRLS).mockImplementationOnce(
+            async ({ sql, params, executeCheck }) => {
+                await executeCheck!({
+                    sql: 'SELECT 1 AS violation WHERE :id = 1',
+                    params: { id: 1 },
+                })
+                return { sql, params }
+            }
+        )
+
+        await executeQuery({
+            sql: 'UPDATE users SET name = ?',
+            params: ['Alice'],
+            isRaw: false,
+            dataSource: mockDataSource,
+            config: mockConfig,
+        })
+
+        expect(mockDataSource.rpc.executeQuery).toHaveBeenNthCalledWith(1, {
+            sql: 'SELECT 1 AS violation WHERE ? = 1',
+            params: [1],
+            isRaw: false,
+        })
+    })
+
     it('should return cached results if available', async () => {
         ;(beforeQueryCache as any).mockResolvedValue([
             { id: 99, name: 'Cached' },
@@ -277,6 +363,132 @@ describe('executeQuery', () => {
         expect(mockDataSource.rpc.executeQuery).not.toHaveBeenCalled()
     })
 
+    it('should cache results under the rewritten statement', async () => {
+        vi.mocked(applyRLS).mockResolvedValueOnce({
+            sql: 'SELECT * FROM users WHERE (user_id = ?)',
+            params: ['u1'],
+        })
+
+        await executeQuery({
+            sql: 'SELECT * FROM users',
+            params: undefined,
+            isRaw: false,
+            dataSource: mockDataSource,
+            config: mockConfig,
+        })
+
+        expect(beforeQueryCache).toHaveBeenCalledWith(
+            expect.objectContaining({
+                sql: 'SELECT * FROM users WHERE (user_id = ?)',
+            })
+        )
+        expect(afterQueryCache).toHaveBeenCalledWith(
+            expect.objectContaining({
+                sql: 'SELECT * FROM users WHERE (user_id = ?)',
+            })
+        )
+    })
+
+    it('should run queries inside of an open interactive transaction', async () => {
+        mockDataSource.transactionId = 'tx-1'
+        mockDataSource.rpc.executeTransactionQuery = vi
+            .fn()
+            .mockResolvedValue([{ balance: 90 }]) as any
+
+        const result = await executeQuery({
+            sql: 'SELECT balance FROM accounts',
+            params: undefined,
+            isRaw: false,
+            dataSource: mockDataSource,
+            config: mockConfig,
+        })
+
+        expect(mockDataSource.rpc.executeTransactionQuery).toHaveBeenCalledWith(
+            {
+                transactionId: 'tx-1',
+                sql: 'SELECT balance FROM accounts',
+                params: undefined,
+                isRaw: false,
+            }
+        )
+        expect(mockDataSource.rpc.executeQuery).not.toHaveBeenCalled()
+        expect(result).toEqual([{ balance: 90 }])
+    })
+
+    it('should read from the nearest replica at the current bookmark', async () => {
+        const replica = {
+            executeReplicaQuery: vi.fn().mockResolvedValue([{ id: 1 }]),
+        }
+        mockDataSource.bookmark = 7
+        mockDataSource.replica = {
+            stub: replica as any,
+            region: 'weur',
+            database: 'acme',
+        }
+
+        const result = await executeQuery({
+            sql: 'SELECT id FROM users',
+            params: undefined,
+            isRaw: false,
+            dataSource: mockDataSource,
+            config: mockConfig,
+        })
+
+        expect(replica.executeReplicaQuery).toHaveBeenCalledWith({
+            sql: 'SELECT id FROM users',
+            params: undefined,
+            isRaw: false,
+            database: 'acme',
+            region: 'weur',
+            bookmark: 7,
+        })
+        expect(mockDataSource.rpc.executeQuery).not.toHaveBeenCalled()
+        expect(result).toEqual([{ id: 1 }])
+    })
+
+    it('should send writes to the primary and advance the bookmark', async () => {
+        const replica = { executeReplicaQuery: vi.fn() }
+        mockDataSource.bookmark = 7
+        mockDataSource.replica = { stub: replica as any, region: 'weur' }
+        mockDataSource.rpc.getBookmark = vi.fn().mockResolvedValue(8) as any
+
+        await executeQuery({
+            sql: 'DELETE FROM users WHERE id = 1',
+            params: undefined,
+            isRaw: false,
+            dataSource: mockDataSource,
+            config: mockConfig,
+        })
+
+        expect(replica.executeReplicaQuery).not.toHaveBeenCalled()
+        expect(mockDataSource.rpc.executeQuery).toHaveBeenCalled()
+        expect(mockDataSource.bookmark).toBe(8)
+    })
+
+    it('should fall back to the primary when the replica fails', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {})
+        const replica = {
+            executeReplicaQuery: vi
+                .fn()
+                .mockRejectedValue(new Error('Replica unavailable')),
+        }
+        mockDataSource.replica = { stub: replica as any, region: 'weur' }
+
+        const result = await executeQuery({
+            sql: 'SELECT * FROM users',
+            params: undefined,
+            isRaw: false,
+            dataSource: mockDataSource,
+            config: mockConfig,
+        })
+
+        expect(mockDataSource.rpc.executeQuery).toHaveBeenCalled()
+        expect(result).toEqual([
+            { id: 1, name: 'Alice' },
+            { id: 2, name: 'Bob' },
+        ])
+    })
+
     it('should return an empty array if the data source is missing', async () => {
         const result = await executeQuery({
             sql: 'SELECT * FROM users',
@@ -289,6 +501,66 @@ describe('executeQuery', () => {
     })
 })
 
+describe('executeQueryStream', () => {
+    it('should stream from the Durable Object for the internal source', async () => {
+        const stream = new Blob(['{"id":1}\n']).stream()
+        mockDataSource.rpc.executeQueryStream = vi
+            .fn()
+            .mockResolvedValue(stream) as any
+
+        const result = await executeQueryStream({
+            sql: 'SELECT * FROM users WHERE id = :id',
+            params: { id: 1 },
+            isRaw: false,
+            dataSource: mockDataSource,
+            config: mockConfig,
+        })
+
+        expect(mockDataSource.rpc.executeQueryStream).toHaveBeenCalledWith({
+            sql: 'SELECT * FROM users WHERE id = ?',
+            params: [1],
+            isRaw: false,
+        })
+        expect(result).toBe(stream)
+    })
+
+    it('should advance the bookmark after streamed writes', async () => {
+        mockDataSource.bookmark = 7
+        mockDataSource.rpc.getBookmark = vi.fn().mockResolvedValue(8) as any
+        mockDataSource.rpc.executeQueryStream = vi
+            .fn()
+            .mockResolvedValue(new Blob([]).stream()) as any
+
+        await executeQueryStream({
+            sql: 'DELETE FROM users WHERE id = 1',
+            params: undefined,
+            isRaw: false,
+            dataSource: mockDataSource,
+            config: mockConfig,
+        })
+
+        expect(mockDataSource.bookmark).toBe(8)
+    })
+
+    it('should serialize buffered results for other sources', async () => {
+        vi.spyOn(global, 'fetch').mockResolvedValueOnce({
+            json: async () => ({
+                response: { results: { items: [{ id: 1 }, { id: 2 }] } },
+            }),
+        } as Response)
+
+        const stream = await executeQueryStream({
+            sql: 'SELECT * FROM users',
+            params: undefined,
+            isRaw: false,
+            dataSource: { ...mockDataSource, source: 'external' },
+            config: mockConfig,
+        })
+
+        expect(await new Response(stream).text()).toBe('{"id":1}\n{"id":2}\n')
+    })
+})
+
 describe('executeTransaction', () => {
     it('should execute multiple queries in a transaction', async () => {
         const queries = [
@@ -303,8 +575,136 @@ describe('executeTransaction', () => {
             config: mockConfig,
         })
 
-        expect(mockDataSource.rpc.executeQuery).toHaveBeenCalledTimes(2)
-        expect(queries.length).toBe(2)
+        expect(mockDataSource.rpc.executeTransaction).toHaveBeenCalledTimes(1)
+        expect(mockDataSource.rpc.executeTransaction).toHaveBeenCalledWith(
+            [
+                { sql: queries[0].sql, params: undefined },
+                { sql: queries[1].sql, params: undefined },
+            ],
+            false
+        )
+        expect(mockDataSource.rpc.executeQuery).not.toHaveBeenCalled()
+        expect(result).toEqual([[], []])
+    })
+
+    it('should surface the failing statement index from the internal source', async () => {
+        vi.mocked(mockDataSource.rpc.executeTransaction).mockRejectedValueOnce(
+            new Error('Transaction failed at statement 1: UNIQUE constraint')
+        )
+
+        const error = await executeTransaction({
+            queries: [
+                { sql: 'INSERT INTO users VALUES (1, "Alice")' },
+                { sql: 'INSERT INTO users VALUES (1, "Alice")' },
+            ],
+            isRaw: false,
+            dataSource: mockDataSource,
+            config: mockConfig,
+        }).catch((error) => error)
+
+        expect(error).toBeInstanceOf(TransactionError)
+        expect(error.statementIndex).toBe(1)
+        expect(error.reason).toBe('UNIQUE constraint')
+    })
+
+    it('should surface the index of a statement that fails to be prepared', async () => {
+        vi.mocked(applyRLS)
+            .mockResolvedValueOnce({ sql: 'SELECT * FROM users' })
+            .mockRejectedValueOnce(new Error('Unauthorized access'))
+
+        const error = await executeTransaction({
+            queries: [
+                { sql: 'SELECT * FROM users' },
+                { sql: 'DELETE FROM users' },
+            ],
+            isRaw: false,
+            dataSource: mockDataSource,
+            config: mockConfig,
+        }).catch((error) => error)
+
+        expect(error).toBeInstanceOf(TransactionError)
+        expect(error.statementIndex).toBe(1)
+        expect(error.reason).toBe('Unauthorized access')
+        expect(mockDataSource.rpc.executeTransaction).not.toHaveBeenCalled()
+    })
+
+    it('should run Postgres statements inside of one transaction', async () => {
+        const connection = {
+            raw: vi.fn().mockResolvedValue({ data: [] }),
+        } as unknown as SqlConnection
+        vi.mocked(getConnection).mockResolvedValue(connection)
+
+        await executeTransaction({
+            queries: [
+                { sql: 'INSERT INTO users VALUES (1)' },
+                { sql: 'INSERT INTO users VALUES (2)' },
+            ],
+            isRaw: false,
+            dataSource: { ...mockDataSource, source: 'external' },
+            config: { ...mockConfig, outerbaseApiKey: undefined },
+        })
+
+        expect(connection.raw).toHaveBeenCalledTimes(4)
+        expect(connection.raw).toHaveBeenNthCalledWith(1, 'BEGIN')
+        expect(connection.raw).toHaveBeenNthCalledWith(
+            3,
+            'INSERT INTO users VALUES (2)',
+            undefined
+        )
+        expect(connection.raw).toHaveBeenLastCalledWith('COMMIT')
+    })
+
+    it('should roll back Postgres statements when one fails', async () => {
+        const connection = {
+            raw: vi
+                .fn()
+                .mockResolvedValueOnce({ data: [] })
+                .mockResolvedValueOnce({ data: [] })
+                .mockRejectedValueOnce(new Error('duplicate key'))
+                .mockResolvedValue({ data: [] }),
+        } as unknown as SqlConnection
+        vi.mocked(getConnection).mockResolvedValue(connection)
+
+        const error = await executeTransaction({
+            queries: [
+                { sql: 'INSERT INTO users VALUES (1)' },
+                { sql: 'INSERT INTO users VALUES (1)' },
+            ],
+            isRaw: false,
+            dataSource: { ...mockDataSource, source: 'external' },
+            config: { ...mockConfig, outerbaseApiKey: undefined },
+        }).catch((error) => error)
+
+        expect(error).toBeInstanceOf(TransactionError)
+        expect(error.statementIndex).toBe(1)
+        expect(error.reason).toBe('duplicate key')
+        expect(connection.raw).toHaveBeenLastCalledWith('ROLLBACK')
+    })
+
+    it('should reject several writes on sources that cannot roll them back', async () => {
+        await expect(
+            executeTransaction({
+                queries: [
+                    { sql: 'INSERT INTO users VALUES (1)' },
+                    { sql: 'INSERT INTO users VALUES (2)' },
+                ],
+                isRaw: false,
+                dataSource: {
+                    ...mockDataSource,
+                    source: 'external',
+                    external: {
+                        dialect: 'sqlite',
+                        provider: 'turso',
+                        uri: 'libsql://app.turso.io',
+                        token: 'token',
+                    },
+                },
+                config: { ...mockConfig, outerbaseApiKey: undefined },
+            })
+        ).rejects.toThrow(
+            'Transactions of several statements that write are only supported on Postgres and MySQL external databases.'
+        )
+        expect(getConnection).not.toHaveBeenCalled()
     })
 
     it('should return an empty array if the data source is missing', async () => {
@@ -322,6 +722,86 @@ describe('executeTransaction', () => {
     })
 })
 
+describe('bindParameters', () => {
+    it('should leave positional parameters untouched', () => {
+        expect(
+            bindParameters({
+                sql: 'SELECT * FROM users WHERE id = ?',
+                params: [1],
+                style: 'positional',
+            })
+        ).toEqual({ sql: 'SELECT * FROM users WHERE id = ?', params: [1] })
+    })
+
+    it('should bind :name, @name and $name placeholders by position', () => {
+        expect(
+            bindParameters({
+                sql: 'SELECT * FROM users WHERE id = :id AND name = @name OR owner = $id',
+                params: { id: 1, name: 'Alice' },
+                style: 'positional',
+            })
+        ).toEqual({
+            sql: 'SELECT * FROM users WHERE id = ? AND name = ? OR owner = ?',
+            params: [1, 'Alice', 1],
+        })
+    })
+
+    it('should bind numbered placeholders for Postgres and keep casts', () => {
+        expect(
+            bindParameters({
+                sql: 'SELECT :id::int AS id, :name AS name',
+                params: { id: '1', name: 'Alice' },
+                style: 'numbered',
+            })
+        ).toEqual({
+            sql: 'SELECT $1::int AS id, $2 AS name',
+            params: ['1', 'Alice'],
+        })
+    })
+
+    it('should ignore placeholders in literals, comments and unknown names', () => {
+        expect(
+            bindParameters({
+                sql: "SELECT ':id', @counter -- :id\nFROM t WHERE id = :id",
+                params: { id: 7 },
+                style: 'positional',
+            })
+        ).toEqual({
+            sql: "SELECT ':id', @counter -- :id\nFROM t WHERE id = ?",
+            params: [7],
+        })
+    })
+
+    it('should normalize placeholders to :name for the Outerbase API', () => {
+        expect(
+            bindParameters({
+                sql: 'SELECT * FROM users WHERE id = $id',
+                params: { id: 1, unused: 2 },
+                style: 'named',
+            })
+        ).toEqual({
+            sql: 'SELECT * FROM users WHERE id = :id',
+            params: { id: 1 },
+        })
+    })
+
+    it('should bind object parameters before running on the internal source', async () => {
+        await executeQuery({
+            sql: 'SELECT * FROM users WHERE id = :id',
+            params: { id: 1 },
+            isRaw: false,
+            dataSource: mockDataSource,
+            config: mockConfig,
+        })
+
+        expect(mockDataSource.rpc.executeQuery).toHaveBeenCalledWith({
+            sql: 'SELECT * FROM users WHERE id = ?',
+            params: [1],
+            isRaw: false,
+        })
+    })
+})
+
 describe('executeExternalQuery', () => {
     it('should throw an error if dataSource.external is missing', async () => {
         await expect(
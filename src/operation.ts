@@ -1,29 +1,19 @@
-// Import the native Node libraries for connecting to various databases
-import { Client as PgClient } from 'pg'
-import { createConnection as createMySqlConnection } from 'mysql2'
-import { createClient as createTursoConnection } from '@libsql/client/web'
-
-// Import how we interact with the databases through the Outerbase SDK
-import {
-    CloudflareD1Connection,
-    MySQLConnection,
-    PostgreSQLConnection,
-    StarbaseConnection,
-    TursoConnection,
-} from '@outerbase/sdk'
-import {
-    CloudflareD1Source,
-    DataSource,
-    RemoteSource,
-    StarbaseDBSource,
-    TursoDBSource,
-} from './types'
+import { DataSource } from './types'
 import { StarbaseDBConfiguration } from './handler'
 import { afterQueryCache, beforeQueryCache } from './cache'
 import { isQueryAllowed } from './allowlist'
 import { applyRLS } from './rls'
-import type { SqlConnection } from '@outerbase/sdk/dist/connections/sql-base'
+import { enforceGrants } from './rbac'
+import {
+    enforceMaskedColumns,
+    loadMaskingPolicies,
+    maskResult,
+    MaskingPolicy,
+} from './masking'
 import { StarbasePlugin } from './plugin'
+import { TransactionError } from './utils'
+import { closeConnection, getConnection } from './connection'
+import { isReadOnlyQuery } from './replication'
 
 export type OperationQueueItem = {
     queries: { sql: string; params?: any[] }[]
@@ -44,10 +34,11 @@ export type RawQueryResponse = {
 
 export type QueryResponse = unknown[] | RawQueryResponse
 
-export type ConnectionDetails = {
-    database: SqlConnection
-    defaultSchema: string
-}
+export type QueryParams = unknown[] | Record<string, unknown>
+
+// How a data source expects its parameters: `?` placeholders bound by position, `$1`
+// placeholders bound by number, or `:name` placeholders bound from an object.
+export type ParameterStyle = 'positional' | 'numbered' | 'named'
 
 async function beforeQuery(opts: {
     sql: string
@@ -71,12 +62,24 @@ async function afterQuery(opts: {
     sql: string
     result: any
     isRaw: boolean
+    maskingPolicies?: MaskingPolicy[]
     dataSource?: DataSource
     config?: StarbaseDBConfiguration
 }): Promise<any> {
-    let { result, isRaw, dataSource } = opts
+    let { sql, result, isRaw, maskingPolicies, dataSource, config } = opts
     result = isRaw ? transformRawResults(result, 'from') : result
 
+    // Masked columns are masked before any hook sees the results
+    if (dataSource && maskingPolicies?.length) {
+        result = await maskResult({
+            sql,
+            result,
+            policies: maskingPolicies,
+            dataSource,
+            secret: config?.maskingSecret,
+        })
+    }
+
     if (dataSource?.registry?.afterQuery) {
         try {
             result = await dataSource.registry.afterQuery({ ...opts, result })
@@ -190,20 +193,161 @@ export async function executeExternalQuery(opts: {
     return results.response.results?.items
 }
 
-export async function executeQuery(opts: {
+function getParameterStyle(
+    dataSource: DataSource,
+    config: StarbaseDBConfiguration
+): ParameterStyle {
+    if (dataSource.source === 'internal') {
+        return 'positional'
+    }
+
+    // The Outerbase API binds `:name` placeholders from an object natively.
+    if (config?.outerbaseApiKey) {
+        return 'named'
+    }
+
+    return dataSource.external?.dialect === 'postgresql'
+        ? 'numbered'
+        : 'positional'
+}
+
+/**
+ * Binds an object of parameters to the `:name`, `@name` and `$name` placeholders in a
+ * SQL statement, rewriting them into the style the data source supports. Placeholders
+ * inside of string literals, quoted identifiers and comments are left untouched, as are
+ * names without a matching key so that e.g. MySQL `@variables` keep working.
+ *
+ * @param opts.sql - The SQL statement containing named placeholders.
+ * @param opts.params - Positional parameters are returned untouched.
+ * @param opts.style - The placeholder style to rewrite into.
+ * @returns The rewritten SQL statement and its parameters.
+ */
+export function bindParameters(opts: {
     sql: string
-    params: unknown[] | undefined
-    isRaw: boolean
+    params?: QueryParams
+    style: ParameterStyle
+}): { sql: string; params?: QueryParams } {
+    const { sql, params, style } = opts
+
+    if (!params || Array.isArray(params) || typeof params !== 'object') {
+        return { sql, params }
+    }
+
+    const positional: unknown[] = []
+    const named: Record<string, unknown> = {}
+    let result = ''
+    let index = 0
+
+    // Position right after the next `token`, or the end of the statement if unterminated.
+    const endOf = (token: string, from: number) => {
+        const found = sql.indexOf(token, from)
+        return found === -1 ? sql.length : found + token.length
+    }
+
+    while (index < sql.length) {
+        const char = sql[index]
+        const next = sql[index + 1]
+
+        // Copy string literals, quoted identifiers, comments and Postgres `::type`
+        // casts as they are.
+        let skipTo: number | undefined
+        if (char === "'" || char === '"' || char === '`') {
+            skipTo = endOf(char, index + 1)
+        } else if (char === '-' && next === '-') {
+            skipTo = endOf('\n', index)
+        } else if (char === '/' && next === '*') {
+            skipTo = endOf('*/', index + 2)
+        } else if (char === ':' && next === ':') {
+            skipTo = index + 2
+        }
+
+        if (skipTo !== undefined) {
+            result += sql.slice(index, skipTo)
+            index = skipTo
+            continue
+        }
+
+        // A placeholder prefix cannot be part of a longer identifier such as `price$usd`.
+        const isPrefix =
+            (char === ':' || char === '@' || char === '$') &&
+            !/[A-Za-z0-9_]/.test(sql[index - 1] ?? '')
+        const match = isPrefix
+            ? /^[A-Za-z_][A-Za-z0-9_]*/.exec(sql.slice(index + 1))
+            : null
+
+        if (match && Object.prototype.hasOwnProperty.call(params, match[0])) {
+            const name = match[0]
+
+            if (style === 'named') {
+                named[name] = params[name]
+                result += `:${name}`
+            } else {
+                positional.push(params[name])
+                result += style === 'numbered' ? `$${positional.length}` : '?'
+            }
+
+            index += name.length + 1
+            continue
+        }
+
+        result += char
+        index++
+    }
+
+    return { sql: result, params: style === 'named' ? named : positional }
+}
+
+/**
+ * Executes a statement checking the rows a write produces against row level security
+ * policies, before the write itself is executed. Within a transaction of several
+ * statements the rows are checked against the database as it was before it began.
+ */
+async function executeCheckQuery(opts: {
+    sql: string
+    params?: QueryParams
     dataSource: DataSource
     config: StarbaseDBConfiguration
-}): Promise<QueryResponse> {
-    let { sql, params, isRaw, dataSource, config } = opts
+}): Promise<unknown[]> {
+    const { dataSource, config } = opts
+    const { sql, params } = bindParameters({
+        sql: opts.sql,
+        params: opts.params,
+        style: getParameterStyle(dataSource, config),
+    })
 
-    if (!dataSource) {
-        console.error('Data source not found.')
-        return []
+    let result
+    if (dataSource.source === 'internal' && dataSource.transactionId) {
+        result = await dataSource.rpc.executeTransactionQuery({
+            transactionId: dataSource.transactionId,
+            sql,
+            params: params as unknown[] | undefined,
+            isRaw: false,
+        })
+    } else if (dataSource.source === 'internal') {
+        result = await dataSource.rpc.executeQuery({
+            sql,
+            params: params as unknown[] | undefined,
+            isRaw: false,
+        })
+    } else {
+        result = await executeExternalQuery({ sql, params, dataSource, config })
     }
 
+    return Array.isArray(result) ? result : []
+}
+
+async function prepareQuery(opts: {
+    sql: string
+    params: QueryParams | undefined
+    dataSource: DataSource
+    config: StarbaseDBConfiguration
+}): Promise<{
+    sql: string
+    params?: unknown[]
+    maskingPolicies: MaskingPolicy[]
+}> {
+    let { sql, params, dataSource, config } = opts
+
     // If the allowlist feature is enabled, we should verify the query is allowed before proceeding.
     await isQueryAllowed({
         sql: sql,
@@ -212,21 +356,93 @@ export async function executeQuery(opts: {
         config,
     })
 
+    // With role based access control, the role of the request must be granted every table and
+    // column the statement uses before row level security narrows down its rows.
+    await enforceGrants({
+        sql,
+        isEnabled: config?.features?.rbac ?? false,
+        dataSource,
+        config,
+    })
+
+    // If the masking feature is enabled, masked columns may only be selected as is, so that
+    // their values cannot be derived through expressions or conditions the masks are not
+    // applied to. The policies are loaded once and also mask the results of the query.
+    const maskingPolicies = config?.features?.masking
+        ? await loadMaskingPolicies(dataSource, config)
+        : []
+    enforceMaskedColumns({ sql, policies: maskingPolicies, dataSource })
+
     // If the row level security feature is enabled, we should apply our policies to this SQL statement.
-    sql = await applyRLS({
+    // Claims of the user used by the policies are bound as additional parameters.
+    ;({ sql, params } = await applyRLS({
         sql,
         isEnabled: config?.features?.rls ?? true,
         dataSource,
         config,
-    })
+        params,
+        executeCheck: (query) =>
+            executeCheckQuery({ ...query, dataSource, config }),
+    }))
 
-    // Run the beforeQuery hook for any third party logic to be applied before execution.
-    const { sql: updatedSQL, params: updatedParams } = await beforeQuery({
+    // Named parameters are bound into the placeholder style of the data source, from
+    // here on the statement is only handled with the parameters it will execute with.
+    const bound = bindParameters({
         sql,
         params,
+        style: getParameterStyle(dataSource, config),
+    })
+
+    // Run the beforeQuery hook for any third party logic to be applied before execution.
+    const prepared = await beforeQuery({
+        sql: bound.sql,
+        params: bound.params as unknown[] | undefined,
+        dataSource,
+        config,
+    })
+
+    return { ...prepared, maskingPolicies }
+}
+
+export async function executeQuery(opts: {
+    sql: string
+    params: QueryParams | undefined
+    isRaw: boolean
+    dataSource: DataSource
+    config: StarbaseDBConfiguration
+}): Promise<QueryResponse> {
+    let { sql, params, isRaw, dataSource, config } = opts
+
+    if (!dataSource) {
+        console.error('Data source not found.')
+        return []
+    }
+
+    return await executePreparedQuery({
+        ...(await prepareQuery({ sql, params, dataSource, config })),
+        isRaw,
         dataSource,
         config,
     })
+}
+
+// Executes a query returned by `prepareQuery`, with caching and `afterQuery` hooks
+async function executePreparedQuery(opts: {
+    sql: string
+    params?: unknown[]
+    maskingPolicies: MaskingPolicy[]
+    isRaw: boolean
+    dataSource: DataSource
+    config: StarbaseDBConfiguration
+}): Promise<QueryResponse> {
+    const {
+        sql: updatedSQL,
+        params: updatedParams,
+        maskingPolicies,
+        isRaw,
+        dataSource,
+        config,
+    } = opts
 
     // If the query was modified by RLS then we determine it isn't currently a valid candidate
     // for caching. In the future we will support queries impacted by RLS and caching their
@@ -240,18 +456,32 @@ export async function executeQuery(opts: {
         })
 
         if (cache) {
-            return cache as QueryResponse
+            return (await maskResult({
+                sql: updatedSQL,
+                result: cache,
+                policies: maskingPolicies,
+                dataSource,
+                secret: config.maskingSecret,
+            })) as QueryResponse
         }
     }
 
     let result
 
-    if (dataSource.source === 'internal') {
-        result = await dataSource.rpc.executeQuery({
+    if (dataSource.source === 'internal' && dataSource.transactionId) {
+        result = await dataSource.rpc.executeTransactionQuery({
+            transactionId: dataSource.transactionId,
             sql: updatedSQL,
             params: updatedParams,
             isRaw,
         })
+    } else if (dataSource.source === 'internal') {
+        result = await executeInternalQuery({
+            sql: updatedSQL,
+            params: updatedParams,
+            isRaw,
+            dataSource,
+        })
 
         if (!result) {
             console.error('Returning empty array.')
@@ -269,7 +499,7 @@ export async function executeQuery(opts: {
     // If this is a cacheable query, this function will handle that logic.
     if (!isRaw) {
         await afterQueryCache({
-            sql,
+            sql: updatedSQL,
             params: updatedParams,
             result,
             dataSource,
@@ -280,14 +510,115 @@ export async function executeQuery(opts: {
         sql: updatedSQL,
         result,
         isRaw,
+        maskingPolicies,
         dataSource,
         config,
     })
     return finalResult
 }
 
+/**
+ * Executes a query on the internal database, on the replica nearest to the client when
+ * it only reads, and advances the bookmark of the request after writes.
+ */
+async function executeInternalQuery(opts: {
+    sql: string
+    params?: unknown[]
+    isRaw: boolean
+    dataSource: DataSource
+}) {
+    const { sql, params, isRaw, dataSource } = opts
+    const { replica } = dataSource
+
+    if (replica && isReadOnlyQuery(sql)) {
+        try {
+            return await replica.stub.executeReplicaQuery({
+                sql,
+                params,
+                isRaw,
+                database: replica.database,
+                region: replica.region,
+                bookmark: dataSource.bookmark,
+            })
+        } catch (error) {
+            // The primary can always answer, so a failing replica only costs latency.
+            console.error('Replica Query Error:', error)
+        }
+    }
+
+    const result = await dataSource.rpc.executeQuery({ sql, params, isRaw })
+
+    if (!isReadOnlyQuery(sql)) {
+        await updateBookmark(dataSource)
+    }
+
+    return result
+}
+
+/**
+ * Advances the bookmark of the request to the latest change made to the internal
+ * database, so that later reads on a replica observe the writes made so far.
+ *
+ * @param dataSource - The data source of the request.
+ */
+export async function updateBookmark(dataSource: DataSource) {
+    if (dataSource.bookmark !== undefined) {
+        dataSource.bookmark = await dataSource.rpc.getBookmark()
+    }
+}
+
+/**
+ * Executes a query and returns its results as a stream of newline delimited JSON. The
+ * internal source streams rows straight from the Durable Object cursor, so caching and
+ * `afterQuery` hooks are not applied to them. Other sources, and requests with masked
+ * columns, execute the query as usual and serialize the buffered results in the same
+ * format.
+ */
+export async function executeQueryStream(opts: {
+    sql: string
+    params: QueryParams | undefined
+    isRaw: boolean
+    dataSource: DataSource
+    config: StarbaseDBConfiguration
+}): Promise<ReadableStream<Uint8Array>> {
+    const { sql, params, isRaw, dataSource, config } = opts
+    const prepared = await prepareQuery({ sql, params, dataSource, config })
+
+    if (
+        dataSource.source === 'internal' &&
+        !dataSource.transactionId &&
+        prepared.maskingPolicies.length === 0
+    ) {
+        const { sql: updatedSQL, params: updatedParams } = prepared
+
+        const stream = await dataSource.rpc.executeQueryStream({
+            sql: updatedSQL,
+            params: updatedParams,
+            isRaw,
+        })
+
+        if (!isReadOnlyQuery(updatedSQL)) {
+            await updateBookmark(dataSource)
+        }
+
+        return stream
+    }
+
+    const result = await executePreparedQuery({
+        ...prepared,
+        isRaw,
+        dataSource,
+        config,
+    })
+    const lines = Array.isArray(result)
+        ? result
+        : [{ columns: result.columns }, ...result.rows, { meta: result.meta }]
+
+    return new Blob(lines.map((line) => JSON.stringify(line) + '\n')).stream()
+}
+
 export async function executeTransaction(opts: {
-    queries: { sql: string; params?: any[] }[]
+    queries: { sql: string; params?: QueryParams }[]
     isRaw: boolean
     dataSource: DataSource
     config: StarbaseDBConfiguration
@@ -301,102 +632,140 @@ export async function executeTransaction(opts: {
 
     const results = []
 
-    for (const query of queries) {
-        const result = await executeQuery({
-            sql: query.sql,
-            params: query.params,
-            isRaw,
-            dataSource,
-            config,
-        })
+    // The internal Durable Object can execute every statement inside of a single
+    // storage transaction, so we prepare them all up front and send them together.
+    if (dataSource.source === 'internal' && !dataSource.transactionId) {
+        const preparedQueries = []
+
+        for (const [index, query] of queries.entries()) {
+            try {
+                preparedQueries.push(
+                    await prepareQuery({
+                        sql: query.sql,
+                        params: query.params,
+                        dataSource,
+                        config,
+                    })
+                )
+            } catch (error: any) {
+                throw new TransactionError(
+                    index,
+                    error?.message ?? String(error)
+                )
+            }
+        }
 
-        results.push(result)
-    }
+        let transactionResults: any[]
 
-    return results
-}
+        try {
+            transactionResults = await dataSource.rpc.executeTransaction(
+                preparedQueries.map(({ sql, params }) => ({ sql, params })),
+                isRaw
+            )
+        } catch (error) {
+            throw TransactionError.from(error)
+        }
 
-async function createSDKPostgresConnection(
-    source: RemoteSource
-): Promise<ConnectionDetails> {
-    const client = new PostgreSQLConnection(
-        new PgClient({
-            host: source.host,
-            port: source.port,
-            user: source.user,
-            password: source.password,
-            database: source.database,
-        })
-    )
+        if (preparedQueries.some((query) => !isReadOnlyQuery(query.sql))) {
+            await updateBookmark(dataSource)
+        }
+
+        for (const [index, result] of transactionResults.entries()) {
+            results.push(
+                await afterQuery({
+                    sql: preparedQueries[index].sql,
+                    result,
+                    isRaw,
+                    maskingPolicies: preparedQueries[index].maskingPolicies,
+                    dataSource,
+                    config,
+                })
+            )
+        }
 
-    return {
-        database: client,
-        defaultSchema: source.defaultSchema || 'public',
+        return results
     }
-}
 
-async function createSDKMySQLConnection(
-    source: RemoteSource
-): Promise<ConnectionDetails> {
-    const client = new MySQLConnection(
-        createMySqlConnection({
-            host: source.host,
-            port: source.port,
-            user: source.user,
-            password: source.password,
-            database: source.database,
-        })
-    )
+    // External sources execute the statements one at a time. Postgres and MySQL do so
+    // inside of a transaction on the connection of the request, and within an
+    // interactive transaction each statement joins the open transaction instead.
+    const connection = await beginExternalTransaction({
+        queries,
+        dataSource,
+        config,
+    })
 
-    return {
-        database: client,
-        defaultSchema: source.defaultSchema || 'public',
+    for (const [index, query] of queries.entries()) {
+        try {
+            const result = await executeQuery({
+                sql: query.sql,
+                params: query.params,
+                isRaw,
+                dataSource,
+                config,
+            })
+
+            results.push(result)
+        } catch (error: any) {
+            // A failing statement may have closed the connection, which rolls back too.
+            await connection?.raw('ROLLBACK').catch(() => {})
+            throw new TransactionError(index, error?.message ?? String(error))
+        }
     }
-}
-
-async function createSDKTursoConnection(
-    source: TursoDBSource
-): Promise<ConnectionDetails> {
-    const client = new TursoConnection(
-        createTursoConnection({
-            url: source.uri,
-            authToken: source.token,
-        })
-    )
 
-    return {
-        database: client,
-        defaultSchema: source.defaultSchema || 'main',
+    if (connection) {
+        try {
+            await connection.raw('COMMIT')
+        } catch (error: any) {
+            await closeConnection(dataSource)
+            throw new TransactionError(
+                queries.length - 1,
+                error?.message ?? String(error)
+            )
+        }
     }
+
+    return results
 }
 
-async function createSDKCloudflareConnection(
-    source: CloudflareD1Source
-): Promise<ConnectionDetails> {
-    const client = new CloudflareD1Connection({
-        apiKey: source.apiKey,
-        accountId: source.accountId,
-        databaseId: source.databaseId,
-    })
+/**
+ * Opens a transaction on the Postgres or MySQL connection of the request for the
+ * statements of an external transaction. Other external sources cannot roll back
+ * statements that already succeeded, so they only execute several statements that
+ * all read.
+ *
+ * @returns The connection holding the transaction open, if one was begun.
+ */
+async function beginExternalTransaction(opts: {
+    queries: { sql: string }[]
+    dataSource: DataSource
+    config: StarbaseDBConfiguration
+}): Promise<Awaited<ReturnType<typeof getConnection>> | undefined> {
+    const { queries, dataSource, config } = opts
+    const external = dataSource.external
 
-    return {
-        database: client,
-        defaultSchema: source.defaultSchema || 'main',
+    if (!external || queries.length < 2) {
+        return undefined
     }
-}
 
-async function createSDKStarbaseConnection(
-    source: StarbaseDBSource
-): Promise<ConnectionDetails> {
-    const client = new StarbaseConnection({
-        apiKey: source.apiKey,
-        url: source.token,
-    })
+    if (
+        !config?.outerbaseApiKey &&
+        (external.dialect === 'postgresql' || external.dialect === 'mysql')
+    ) {
+        const connection = await getConnection(dataSource)
+        await connection.raw(
+            external.dialect === 'mysql' ? 'START TRANSACTION' : 'BEGIN'
+        )
+        return connection
+    }
 
-    return {
-        database: client,
-        defaultSchema: source.defaultSchema || 'main',
+    if (queries.some((query) => !isReadOnlyQuery(query.sql))) {
+        throw new Error(
+            'Transactions of several statements that write are only supported on Postgres and MySQL external databases.'
+        )
     }
+
+    return undefined
 }
 
 export async function executeSDKQuery(opts: {
@@ -405,36 +774,19 @@ export async function executeSDKQuery(opts: {
     dataSource: DataSource
     config: StarbaseDBConfiguration
 }) {
-    const external = opts.dataSource.external
-
-    if (!external) {
+    if (!opts.dataSource.external) {
         console.warn('No external connection found')
         return []
     }
 
-    let connection: SqlConnection
-
-    if (external.dialect === 'postgresql') {
-        const { database } = await createSDKPostgresConnection(external)
-        connection = database
-    } else if (external.dialect === 'mysql') {
-        const { database } = await createSDKMySQLConnection(external)
-        connection = database
-    } else if (external.provider === 'cloudflare-d1') {
-        const { database } = await createSDKCloudflareConnection(external)
-        connection = database
-    } else if (external.provider === 'starbase') {
-        const { database } = await createSDKStarbaseConnection(external)
-        connection = database
-    } else if (external.provider === 'turso') {
-        const { database } = await createSDKTursoConnection(external)
-        connection = database
-    } else {
-        throw new Error('Unsupported external database type')
-    }
-
-    await connection.connect()
+    const connection = await getConnection(opts.dataSource)
 
-    const { data } = await connection.raw(opts.sql, opts.params)
-    return data
+    try {
+        const { data } = await connection.raw(opts.sql, opts.params)
+        return data
+    } catch (error) {
+        // The connection may be left in a broken state, so the next query reconnects.
+        await closeConnection(opts.dataSource)
+        throw error
+    }
 }
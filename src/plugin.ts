@@ -41,6 +41,36 @@ export abstract class StarbasePlugin {
     }
 }
 
+/**
+ * Finds the plugin serving a request without authentication, such as the webhooks
+ * sent by third party services.
+ *
+ * @param plugins - The plugins of the instance.
+ * @param request - The incoming request.
+ * @returns The plugin, if the request is for one of its routes.
+ */
+export function findAuthlessPlugin(
+    plugins: StarbasePlugin[],
+    request: Request
+): StarbasePlugin | undefined {
+    return plugins.find((plugin: StarbasePlugin) => {
+        if (!plugin.opts.requiresAuth && request.url && plugin.pathPrefix) {
+            // Extract the path from the full URL
+            const urlPath = new URL(request.url).pathname
+
+            // Convert plugin path pattern to regex
+            const pathPattern = plugin.pathPrefix
+                .replace(/:[^/]+/g, '[^/]+') // Replace :param with regex pattern
+                .replace(/\*/g, '.*') // Replace * with wildcard pattern
+
+            const regex = new RegExp(`^${pathPattern}`)
+            return regex.test(urlPath)
+        }
+
+        return false
+    })
+}
+
 export class StarbasePluginRegistry {
     private app: StarbaseApp
     private plugins: StarbasePlugin[] = []
@@ -0,0 +1,225 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { enforceGrants, loadGrants, PermissionDeniedError } from './index'
+import { StarbaseDBConfiguration } from '../handler'
+
+const mockDataSource = {
+    source: 'internal',
+    rpc: {
+        executeQuery: vi.fn(),
+    },
+} as any
+
+const analyst: StarbaseDBConfiguration = {
+    role: 'client',
+    databaseRole: 'analyst',
+    features: { rbac: true },
+}
+
+// Rows of `tmp_roles` and `tmp_grants`
+function mockGrants(grants: any[], roles = ['analyst']) {
+    vi.mocked(mockDataSource.rpc.executeQuery).mockImplementation(
+        async ({ sql, params }: { sql: string; params: unknown[] }) =>
+            sql.includes('tmp_roles')
+                ? roles
+                      .filter((name) => name === params[0])
+                      .map((name) => ({ name }))
+                : grants
+    )
+}
+
+function check(sql: string, config = analyst) {
+    return enforceGrants({
+        sql,
+        isEnabled: true,
+        dataSource: mockDataSource,
+        config,
+    })
+}
+
+beforeEach(() => {
+    vi.resetAllMocks()
+    mockGrants([
+        { actions: 'SELECT', table: 'orders' },
+        { actions: 'SELECT', table: 'users', column: 'id' },
+        { actions: 'SELECT', table: 'users', column: 'name' },
+        { actions: 'INSERT', table: 'users', column: 'name' },
+        { actions: 'UPDATE', table: 'users', column: 'name' },
+        { actions: 'DELETE', table: 'orders' },
+    ])
+})
+
+describe('loadGrants', () => {
+    it('should load the grants of the role for the data source', async () => {
+        await expect(
+            loadGrants(mockDataSource, 'analyst')
+        ).resolves.toContainEqual({
+            action: 'SELECT',
+            schema: undefined,
+            table: 'users',
+            column: 'id',
+        })
+        expect(mockDataSource.rpc.executeQuery).toHaveBeenLastCalledWith({
+            sql: expect.stringContaining('"source" IS NULL OR "source" = ?'),
+            params: ['analyst', 'internal'],
+        })
+    })
+
+    it('should deny roles that do not exist', async () => {
+        await expect(loadGrants(mockDataSource, 'support')).rejects.toThrow(
+            new PermissionDeniedError(
+                'Permission denied: role support does not exist.'
+            )
+        )
+    })
+})
+
+describe('enforceGrants - Reads', () => {
+    it('should allow granted tables and columns', async () => {
+        await expect(
+            check(
+                'SELECT u.name, o.* FROM users u JOIN orders o ON u.id = o.user_id'
+            )
+        ).resolves.toBeUndefined()
+        await expect(
+            check('SELECT COUNT(*) FROM users')
+        ).resolves.toBeUndefined()
+    })
+
+    it('should deny columns and tables that are not granted', async () => {
+        await expect(check('SELECT * FROM users')).rejects.toThrow(
+            'Permission denied: role analyst cannot SELECT table users.'
+        )
+        await expect(
+            check('SELECT name FROM users WHERE salary > 100000')
+        ).rejects.toThrow(
+            'Permission denied: role analyst cannot SELECT column salary of table users.'
+        )
+        await expect(check('SELECT * FROM payments')).rejects.toThrow(
+            PermissionDeniedError
+        )
+    })
+
+    it('should check unqualified columns against every table of the statement', async () => {
+        await expect(
+            check('SELECT total, salary FROM orders JOIN users ON 1 = 1')
+        ).rejects.toThrow('cannot SELECT column total of table users')
+    })
+
+    it('should check common table expressions through their definition', async () => {
+        await expect(
+            check(
+                'WITH named AS (SELECT id, name FROM users) SELECT named.* FROM named'
+            )
+        ).resolves.toBeUndefined()
+        await expect(
+            check('WITH named AS (SELECT * FROM users) SELECT * FROM named')
+        ).rejects.toThrow(PermissionDeniedError)
+    })
+
+    it('should allow reading the schema of granted tables', async () => {
+        await expect(
+            check('PRAGMA table_info(users);')
+        ).resolves.toBeUndefined()
+        await expect(
+            check("SELECT name, type FROM sqlite_master WHERE type = 'table'")
+        ).resolves.toBeUndefined()
+        await expect(check('PRAGMA table_info(payments)')).rejects.toThrow(
+            'Permission denied: role analyst has no grants on table payments.'
+        )
+    })
+})
+
+describe('enforceGrants - Writes', () => {
+    it('should check the columns written and read by a statement', async () => {
+        await expect(
+            check('INSERT INTO users (name) VALUES (?)')
+        ).resolves.toBeUndefined()
+        await expect(
+            check('UPDATE users SET name = ? WHERE id = ?')
+        ).resolves.toBeUndefined()
+        await expect(
+            check('INSERT INTO users (name, role) VALUES (?, ?)')
+        ).rejects.toThrow(
+            'Permission denied: role analyst cannot INSERT column role of table users.'
+        )
+        await expect(check('INSERT INTO users VALUES (?, ?)')).rejects.toThrow(
+            'Permission denied: role analyst cannot INSERT table users.'
+        )
+        await expect(
+            check('UPDATE users SET name = ? WHERE salary > 1')
+        ).rejects.toThrow('cannot SELECT column salary of table users')
+    })
+
+    it('should require DELETE on the whole table', async () => {
+        await expect(
+            check('DELETE FROM orders WHERE id = 1')
+        ).resolves.toBeUndefined()
+        await expect(check('DELETE FROM users WHERE id = 1')).rejects.toThrow(
+            'Permission denied: role analyst cannot DELETE table users.'
+        )
+    })
+
+    it('should check the columns a write returns', async () => {
+        await expect(
+            check('INSERT INTO users (name) VALUES (?) RETURNING 1 AS affected')
+        ).resolves.toBeUndefined()
+        await expect(
+            check('UPDATE users SET name = ? WHERE id = ? RETURNING id, name')
+        ).resolves.toBeUndefined()
+        await expect(
+            check('INSERT INTO users (name) VALUES (?) RETURNING *')
+        ).rejects.toThrow('cannot SELECT table users')
+    })
+
+    it('should require UPDATE on the columns an upsert updates', async () => {
+        await expect(
+            check(
+                'INSERT INTO users (name) VALUES (?) ON CONFLICT (name) DO UPDATE SET name = excluded.name'
+            )
+        ).resolves.toBeUndefined()
+
+        mockGrants([
+            { actions: 'SELECT', table: 'users' },
+            { actions: 'INSERT', table: 'users' },
+        ])
+        await expect(
+            check(
+                'INSERT INTO users (name) VALUES (?) ON CONFLICT (name) DO UPDATE SET name = excluded.name'
+            )
+        ).rejects.toThrow('cannot UPDATE column name of table users')
+    })
+})
+
+describe('enforceGrants - Roles', () => {
+    it('should not check the admin role or when disabled', async () => {
+        await expect(
+            check('DROP TABLE users', { role: 'admin' })
+        ).resolves.toBeUndefined()
+        await expect(
+            enforceGrants({
+                sql: 'DROP TABLE users',
+                isEnabled: false,
+                dataSource: mockDataSource,
+                config: analyst,
+            })
+        ).resolves.toBeUndefined()
+        expect(mockDataSource.rpc.executeQuery).not.toHaveBeenCalled()
+    })
+
+    it('should deny requests without a role', async () => {
+        await expect(
+            check('SELECT id FROM users', { role: 'client' })
+        ).rejects.toThrow(
+            'Permission denied: the request has no database role.'
+        )
+    })
+
+    it('should deny statements that cannot be checked', async () => {
+        await expect(check('VACUUM')).rejects.toThrow(
+            'Permission denied: the statement could not be checked against the grants of role analyst.'
+        )
+        await expect(check('DROP TABLE users')).rejects.toThrow(
+            PermissionDeniedError
+        )
+    })
+})
@@ -0,0 +1,419 @@
+import { StarbaseDBConfiguration } from '../handler'
+import { DataSource, QueryResult } from '../types'
+import { getSourceName } from '../data-source'
+
+const parser = new (require('node-sql-parser').Parser)()
+
+// A privilege of a role to run an action on a table, or only on a single column of it
+// when `column` is set. Grants without a schema apply to tables of every schema.
+type Grant = {
+    action: string
+    schema?: string
+    table: string
+    column?: string
+}
+
+// What a statement does with a table, `column` is `*` for every column of the table and
+// left out when using the table at all is enough, such as `SELECT COUNT(*)`.
+type Access = {
+    action: string
+    schema?: string
+    table: string
+    column?: string
+}
+
+/**
+ * Thrown when the role of a request has not been granted a table or a column used by
+ * a statement.
+ */
+export class PermissionDeniedError extends Error {
+    constructor(message: string) {
+        super(message)
+        this.name = 'PermissionDeniedError'
+    }
+}
+
+// Tables describing the schema of the database, readable by every role. They expose the
+// names of tables and columns, but none of their rows.
+const CATALOG_TABLES = ['sqlite_master', 'sqlite_schema', 'sqlite_temp_master']
+const CATALOG_SCHEMAS = ['information_schema', 'pg_catalog']
+
+// PRAGMAs describing a single table, allowed for roles with any grant on that table
+const SCHEMA_PRAGMA =
+    /^\s*PRAGMA\s+(?:\w+\.)?(?:table_info|table_xinfo|foreign_key_list|index_list)\s*\(\s*['"`]?(\w+)['"`]?\s*\)\s*;?\s*$/i
+
+function normalizeIdentifier(name: string): string {
+    return name.replace(/^["`]|["`]$/g, '').toLowerCase()
+}
+
+function getDialect(dataSource: DataSource): string {
+    return dataSource.source === 'external'
+        ? dataSource.external!.dialect
+        : 'sqlite'
+}
+
+// Schema unqualified tables belong to, MySQL resolves them to the database of the connection
+function getDefaultSchema(dialect: string): string | undefined {
+    const schemas: Record<string, string> = {
+        sqlite: 'main',
+        postgresql: 'public',
+    }
+    return schemas[dialect]
+}
+
+function isCatalog(access: Access): boolean {
+    return (
+        CATALOG_TABLES.includes(access.table) ||
+        CATALOG_SCHEMAS.includes(access.schema ?? '')
+    )
+}
+
+/**
+ * Loads the grants of a role for the data source of the request. Grants without a
+ * source apply to every data source.
+ *
+ * @param dataSource - The data source of the request.
+ * @param role - The name of the role.
+ * @returns The grants of the role.
+ */
+export async function loadGrants(
+    dataSource: DataSource,
+    role: string
+): Promise<Grant[]> {
+    const roles = (await dataSource.rpc.executeQuery({
+        sql: 'SELECT "name" FROM tmp_roles WHERE "name" = ?',
+        params: [role],
+    })) as QueryResult[]
+
+    if (!roles?.length) {
+        throw new PermissionDeniedError(
+            `Permission denied: role ${role} does not exist.`
+        )
+    }
+
+    const result = (await dataSource.rpc.executeQuery({
+        sql: 'SELECT "actions", "schema", "table", "column" FROM tmp_grants WHERE "role" = ? AND ("source" IS NULL OR "source" = ?)',
+        params: [role, getSourceName(dataSource)],
+    })) as QueryResult[]
+
+    return (result ?? []).map((row: any) => ({
+        action: String(row.actions).toUpperCase(),
+        schema: row.schema ? normalizeIdentifier(row.schema) : undefined,
+        table: normalizeIdentifier(row.table),
+        column: row.column ? normalizeIdentifier(row.column) : undefined,
+    }))
+}
+
+/**
+ * Keeps the tables the role of the request has any grant on, such as when describing
+ * the schema of the database to it. Requests without a known role are granted none.
+ *
+ * @param opts.tables - The tables, with the schema they belong to.
+ * @param opts.isEnabled - Whether role based access control is enabled.
+ * @param opts.dataSource - The data source of the request.
+ * @param opts.config - The configuration of the request, with its role.
+ * @returns The tables the role can use.
+ */
+export async function filterGrantedTables<
+    T extends { schema?: string; name: string },
+>(opts: {
+    tables: T[]
+    isEnabled: boolean
+    dataSource: DataSource
+    config: StarbaseDBConfiguration
+}): Promise<T[]> {
+    const { tables, isEnabled, dataSource, config } = opts
+
+    if (!isEnabled || config.role === 'admin') return tables
+    if (!config.databaseRole) return []
+
+    let grants: Grant[]
+    try {
+        grants = await loadGrants(dataSource, config.databaseRole)
+    } catch (error) {
+        if (error instanceof PermissionDeniedError) return []
+        throw error
+    }
+
+    const defaultSchema = getDefaultSchema(getDialect(dataSource))
+    return tables.filter((table) => {
+        const schema = table.schema
+            ? normalizeIdentifier(table.schema)
+            : defaultSchema
+        return grants.some(
+            (grant) =>
+                grant.table === normalizeIdentifier(table.name) &&
+                (!grant.schema || grant.schema === schema)
+        )
+    })
+}
+
+// Replaces the contents of quoted strings and identifiers with spaces, so that keywords
+// and placeholders can be searched for at the same positions of the statement.
+export function maskQuoted(sql: string): string {
+    let result = ''
+    let quote: string | undefined
+
+    for (let index = 0; index < sql.length; index++) {
+        const char = sql[index]
+
+        if (quote) {
+            result += char === quote ? char : ' '
+            if (char === quote) quote = undefined
+        } else {
+            if (char === "'" || char === '"' || char === '`') quote = char
+            result += char
+        }
+    }
+
+    return result
+}
+
+// Numbers `?` placeholders as `$1`, `$2`, ... which the PostgreSQL grammar expects
+export function toNumberedPlaceholders(sql: string): string {
+    const masked = maskQuoted(sql)
+    let position = 0
+    let result = ''
+
+    for (let index = 0; index < sql.length; index++) {
+        result += masked[index] === '?' ? `$${++position}` : sql[index]
+    }
+
+    return result
+}
+
+/**
+ * Parses a statement into its AST along with the tables and columns it uses, falling
+ * back to the PostgreSQL grammar for statements the grammar of the dialect rejects.
+ *
+ * @param sql - The statement.
+ * @param dialect - Dialect of the data source.
+ * @returns The result of the parser, with `ast`, `tableList` and `columnList`.
+ */
+export function parseStatement(sql: string, dialect: string): any {
+    try {
+        return parser.parse(sql, { database: dialect })
+    } catch (error) {
+        // The PostgreSQL grammar supports what the others are missing, such as subqueries
+        // within conditions or `ON CONFLICT`.
+        if (dialect === 'postgresql') throw error
+        return parser.parse(toNumberedPlaceholders(sql), {
+            database: 'postgresql',
+        })
+    }
+}
+
+// Tables and columns used by a single parsed statement
+function getStatementAccesses(parsed: any): Access[] {
+    const { ast } = parsed
+    const accesses: Access[] = []
+
+    // Common table expressions are checked through the statements defining them
+    const ctes = new Set<string>(
+        (ast.with ?? []).map((cte: any) => normalizeIdentifier(cte.name.value))
+    )
+
+    const tables: Access[] = (parsed.tableList as string[])
+        .map((entry) => {
+            const [action, schema, table] = entry.split('::')
+            return {
+                action: action.toUpperCase(),
+                schema:
+                    schema === 'null' ? undefined : normalizeIdentifier(schema),
+                table: normalizeIdentifier(table),
+            }
+        })
+        .filter((access) => !ctes.has(access.table))
+    accesses.push(...tables)
+
+    for (const entry of parsed.columnList as string[]) {
+        const [action, table, column] = entry.split('::')
+        const name = table === 'null' ? undefined : normalizeIdentifier(table)
+
+        // `excluded` is the row an upsert failed to insert
+        if (name === 'excluded' || (name && ctes.has(name))) continue
+
+        // An unqualified column may belong to any table of the statement, so it must be
+        // granted on each of them.
+        const targets: Omit<Access, 'action'>[] = name
+            ? [
+                  tables.find((access) => access.table === name) ?? {
+                      table: name,
+                  },
+              ]
+            : tables
+
+        for (const target of targets) {
+            accesses.push({
+                action: action.toUpperCase(),
+                schema: target.schema,
+                table: target.table,
+                column: column === '(.*)' ? '*' : normalizeIdentifier(column),
+            })
+        }
+    }
+
+    // The columns an upsert updates need to be granted for updates as well
+    const insert = tables.find((access) => access.action === 'INSERT')
+    if (
+        ast.type === 'insert' &&
+        ast.conflict?.action?.expr?.type === 'update'
+    ) {
+        for (const item of ast.conflict.action.expr.set) {
+            accesses.push({
+                ...insert!,
+                action: 'UPDATE',
+                column: normalizeIdentifier(item.column),
+            })
+        }
+    }
+
+    return accesses
+}
+
+/**
+ * Lists the tables and columns a statement uses and what for. Statements of the form
+ * `EXPLAIN <statement>` use what the explained statement uses, and the columns returned
+ * by a `RETURNING` clause are read from the table being written.
+ *
+ * @param sql - The statement, or several separated by semicolons.
+ * @param dialect - Dialect of the data source.
+ * @returns The accesses of the statement.
+ */
+function getAccesses(sql: string, dialect: string): Access[] {
+    let statement = sql
+    let returning: string | undefined
+
+    const explain = /^\s*EXPLAIN(?:\s+QUERY\s+PLAN|\s*\([^)]*\))?\s+/i.exec(
+        maskQuoted(statement)
+    )
+    if (explain) {
+        statement = statement.slice(explain[0].length)
+    }
+
+    const masked = maskQuoted(statement)
+    const keyword = Array.from(masked.matchAll(/\bRETURNING\b/gi)).pop()
+    if (keyword) {
+        returning = statement
+            .slice(keyword.index! + keyword[0].length)
+            .replace(/;\s*$/, '')
+        statement = statement.slice(0, keyword.index)
+    }
+
+    const parsed = parseStatement(statement, dialect)
+
+    // Statements are checked one at a time, as common table expressions are only
+    // visible within the statement defining them.
+    const accesses = Array.isArray(parsed.ast)
+        ? parsed.ast.flatMap((ast: any) =>
+              getStatementAccesses(
+                  parseStatement(
+                      parser.sqlify(ast, { database: dialect }),
+                      dialect
+                  )
+              )
+          )
+        : getStatementAccesses(parsed)
+
+    if (returning !== undefined) {
+        const written = accesses.find(
+            (access: Access) =>
+                access.action !== 'SELECT' && access.column === undefined
+        )
+        if (!written) {
+            throw new Error('RETURNING is only supported on writes.')
+        }
+
+        const table = written.schema
+            ? `${written.schema}.${written.table}`
+            : written.table
+        accesses.push(
+            ...getStatementAccesses(
+                parseStatement(`SELECT ${returning} FROM ${table}`, dialect)
+            )
+        )
+    }
+
+    return accesses
+}
+
+function isGranted(grants: Grant[], access: Access, dialect: string): boolean {
+    const schema = access.schema ?? getDefaultSchema(dialect)
+
+    return grants.some(
+        (grant) =>
+            grant.action === access.action &&
+            grant.table === access.table &&
+            (!grant.schema || grant.schema === schema) &&
+            // Using the table at all only needs a grant on one of its columns
+            (access.column === undefined ||
+                !grant.column ||
+                grant.column === access.column)
+    )
+}
+
+/**
+ * Checks that the role of the request has been granted every table and column a
+ * statement uses, with the action it uses them for. Reading a table needs `SELECT`,
+ * including the columns a write filters on or returns, and deleting rows needs `DELETE`
+ * on the whole table. Statements that cannot be checked are denied.
+ *
+ * @param opts.sql - The statement to check.
+ * @param opts.isEnabled - Whether role based access control is enabled.
+ * @param opts.dataSource - The data source of the request.
+ * @param opts.config - The configuration of the request, with its role.
+ */
+export async function enforceGrants(opts: {
+    sql: string
+    isEnabled: boolean
+    dataSource: DataSource
+    config: StarbaseDBConfiguration
+}): Promise<void> {
+    const { sql, isEnabled, dataSource, config } = opts
+
+    // The admin authorization token is granted everything
+    if (!isEnabled || config.role === 'admin') return
+
+    const role = config.databaseRole
+    if (!role) {
+        throw new PermissionDeniedError(
+            'Permission denied: the request has no database role.'
+        )
+    }
+
+    const grants = await loadGrants(dataSource, role)
+    const dialect = getDialect(dataSource)
+
+    const pragma = SCHEMA_PRAGMA.exec(sql)
+    if (pragma) {
+        const table = normalizeIdentifier(pragma[1])
+        if (!grants.some((grant) => grant.table === table)) {
+            throw new PermissionDeniedError(
+                `Permission denied: role ${role} has no grants on table ${table}.`
+            )
+        }
+        return
+    }
+
+    let accesses: Access[]
+    try {
+        accesses = getAccesses(sql, dialect)
+    } catch (error) {
+        throw new PermissionDeniedError(
+            `Permission denied: the statement could not be checked against the grants of role ${role}.`
+        )
+    }
+
+    for (const access of accesses) {
+        if (isCatalog(access) && access.action === 'SELECT') continue
+        if (isGranted(grants, access, dialect)) continue
+
+        const column =
+            access.column && access.column !== '*'
+                ? `column ${access.column} of `
+                : ''
+        throw new PermissionDeniedError(
+            `Permission denied: role ${role} cannot ${access.action} ${column}table ${access.table}.`
+        )
+    }
+}
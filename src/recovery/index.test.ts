@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { getRecoveryBookmarkRoute, restoreRecoveryBookmarkRoute } from './index'
+import type { DataSource } from '../types'
+
+const mockRpc = {
+    getRecoveryBookmark: vi.fn(),
+    restoreRecoveryBookmark: vi.fn(),
+    restart: vi.fn(),
+}
+
+const dataSource = {
+    source: 'internal',
+    rpc: mockRpc,
+} as unknown as DataSource
+
+beforeEach(() => {
+    vi.clearAllMocks()
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+})
+
+describe('getRecoveryBookmarkRoute', () => {
+    it('should return the bookmark of the current state', async () => {
+        mockRpc.getRecoveryBookmark.mockResolvedValue('0000-current')
+
+        const response = await getRecoveryBookmarkRoute(
+            new Request('https://db.example.com/admin/pitr/bookmark'),
+            dataSource
+        )
+        const body = (await response.json()) as any
+
+        expect(response.status).toBe(200)
+        expect(mockRpc.getRecoveryBookmark).toHaveBeenCalledWith(undefined)
+        expect(body.result.bookmark).toBe('0000-current')
+    })
+
+    it('should accept an ISO 8601 date or milliseconds since the epoch', async () => {
+        mockRpc.getRecoveryBookmark.mockResolvedValue('0000-past')
+
+        await getRecoveryBookmarkRoute(
+            new Request(
+                'https://db.example.com/admin/pitr/bookmark?at=2024-01-01T00:00:00Z'
+            ),
+            dataSource
+        )
+        await getRecoveryBookmarkRoute(
+            new Request(
+                'https://db.example.com/admin/pitr/bookmark?at=1704067200000'
+            ),
+            dataSource
+        )
+
+        expect(mockRpc.getRecoveryBookmark).toHaveBeenNthCalledWith(
+            1,
+            1704067200000
+        )
+        expect(mockRpc.getRecoveryBookmark).toHaveBeenNthCalledWith(
+            2,
+            1704067200000
+        )
+    })
+
+    it('should reject invalid and future timestamps', async () => {
+        const invalid = await getRecoveryBookmarkRoute(
+            new Request(
+                'https://db.example.com/admin/pitr/bookmark?at=yesterday'
+            ),
+            dataSource
+        )
+        const future = await getRecoveryBookmarkRoute(
+            new Request(
+                `https://db.example.com/admin/pitr/bookmark?at=${Date.now() + 60_000}`
+            ),
+            dataSource
+        )
+
+        expect(invalid.status).toBe(400)
+        expect(future.status).toBe(400)
+        expect(mockRpc.getRecoveryBookmark).not.toHaveBeenCalled()
+    })
+})
+
+describe('restoreRecoveryBookmarkRoute', () => {
+    function createRequest(body: unknown) {
+        return new Request('https://db.example.com/admin/pitr/restore', {
+            method: 'POST',
+            body: JSON.stringify(body),
+        })
+    }
+
+    it('should restore the bookmark and restart the database', async () => {
+        mockRpc.restoreRecoveryBookmark.mockResolvedValue('0000-undo')
+        mockRpc.restart.mockRejectedValue(new Error('Durable Object reset'))
+
+        const response = await restoreRecoveryBookmarkRoute(
+            createRequest({ bookmark: '0000-past' }),
+            dataSource
+        )
+        const body = (await response.json()) as any
+
+        expect(response.status).toBe(200)
+        expect(mockRpc.restoreRecoveryBookmark).toHaveBeenCalledWith(
+            '0000-past'
+        )
+        expect(mockRpc.restart).toHaveBeenCalled()
+        expect(body.result).toEqual({
+            bookmark: '0000-past',
+            undoBookmark: '0000-undo',
+        })
+    })
+
+    it('should require a bookmark', async () => {
+        const response = await restoreRecoveryBookmarkRoute(
+            createRequest({}),
+            dataSource
+        )
+
+        expect(response.status).toBe(400)
+        expect(mockRpc.restoreRecoveryBookmark).not.toHaveBeenCalled()
+        expect(mockRpc.restart).not.toHaveBeenCalled()
+    })
+
+    it('should not restart when the bookmark cannot be restored', async () => {
+        mockRpc.restoreRecoveryBookmark.mockRejectedValue(
+            new Error('Invalid bookmark')
+        )
+
+        const response = await restoreRecoveryBookmarkRoute(
+            createRequest({ bookmark: 'invalid' }),
+            dataSource
+        )
+
+        expect(response.status).toBe(500)
+        expect(mockRpc.restart).not.toHaveBeenCalled()
+    })
+})
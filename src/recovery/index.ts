@@ -0,0 +1,91 @@
+import { DataSource } from '../types'
+import { createResponse } from '../utils'
+
+/**
+ * Reads the `at` query parameter, either a Unix timestamp in milliseconds or an ISO
+ * 8601 date. Returns `undefined` when it is omitted and `null` when it is invalid.
+ */
+function parseTimestamp(value: string | null): number | null | undefined {
+    if (value === null || value.trim() === '') {
+        return undefined
+    }
+
+    const timestamp = /^\d+$/.test(value.trim())
+        ? Number(value)
+        : Date.parse(value)
+
+    return Number.isFinite(timestamp) ? timestamp : null
+}
+
+export async function getRecoveryBookmarkRoute(
+    request: Request,
+    dataSource: DataSource
+): Promise<Response> {
+    const at = parseTimestamp(new URL(request.url).searchParams.get('at'))
+
+    if (at === null) {
+        return createResponse(
+            undefined,
+            'Invalid timestamp, use milliseconds since the epoch or an ISO 8601 date.',
+            400
+        )
+    }
+
+    if (at !== undefined && at > Date.now()) {
+        return createResponse(undefined, 'Timestamp is in the future.', 400)
+    }
+
+    try {
+        const bookmark = await dataSource.rpc.getRecoveryBookmark(at)
+
+        return createResponse(
+            { bookmark, at: new Date(at ?? Date.now()).toISOString() },
+            undefined,
+            200
+        )
+    } catch (error: any) {
+        console.error('Recovery Bookmark Error:', error)
+        return createResponse(
+            undefined,
+            error?.message ?? 'Failed to get a recovery bookmark.',
+            500
+        )
+    }
+}
+
+export async function restoreRecoveryBookmarkRoute(
+    request: Request,
+    dataSource: DataSource
+): Promise<Response> {
+    let bookmark: string
+
+    try {
+        const body = (await request.json()) as { bookmark?: unknown }
+
+        if (typeof body?.bookmark !== 'string' || !body.bookmark.trim()) {
+            return createResponse(undefined, 'Bookmark is required.', 400)
+        }
+
+        bookmark = body.bookmark.trim()
+    } catch (error: any) {
+        return createResponse(undefined, 'Invalid request body.', 400)
+    }
+
+    try {
+        const undoBookmark =
+            await dataSource.rpc.restoreRecoveryBookmark(bookmark)
+
+        // The restore is applied when the Durable Object starts again. Restarting it
+        // fails this call by design.
+        await dataSource.rpc.restart().catch(() => {})
+
+        return createResponse({ bookmark, undoBookmark }, undefined, 200)
+    } catch (error: any) {
+        console.error('Restore Bookmark Error:', error)
+        return createResponse(
+            undefined,
+            error?.message ?? 'Failed to restore the bookmark.',
+            500
+        )
+    }
+}
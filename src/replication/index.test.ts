@@ -0,0 +1,141 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+    getCaptureTriggers,
+    getNearestRegion,
+    getUndoTriggers,
+    isReadOnlyQuery,
+    isRowChange,
+    parseReplicaRegions,
+} from './index'
+import { RegionLocationHint } from '../types'
+
+describe('isReadOnlyQuery', () => {
+    it('should accept statements that only read', () => {
+        expect(isReadOnlyQuery('SELECT * FROM users;')).toBe(true)
+        expect(isReadOnlyQuery('  explain query plan select 1')).toBe(true)
+        expect(isReadOnlyQuery('PRAGMA table_info(users)')).toBe(true)
+        expect(
+            isReadOnlyQuery(
+                'WITH recent AS (SELECT * FROM orders) SELECT * FROM recent'
+            )
+        ).toBe(true)
+    })
+
+    it('should reject statements that may write', () => {
+        expect(isReadOnlyQuery('INSERT INTO users (name) VALUES (1)')).toBe(
+            false
+        )
+        expect(isReadOnlyQuery('PRAGMA user_version = 2')).toBe(false)
+        expect(
+            isReadOnlyQuery(
+                'WITH old AS (SELECT id FROM users) DELETE FROM users WHERE id IN old'
+            )
+        ).toBe(false)
+        expect(isReadOnlyQuery('SELECT 1; DROP TABLE users')).toBe(false)
+    })
+})
+
+describe('isRowChange', () => {
+    it('should accept single statements that write rows', () => {
+        expect(isRowChange('INSERT INTO users (name) VALUES (1);')).toBe(true)
+        expect(isRowChange('  replace into users (id) values (1)')).toBe(true)
+        expect(
+            isRowChange(
+                'WITH old AS (SELECT id FROM users) DELETE FROM users WHERE id IN old'
+            )
+        ).toBe(true)
+    })
+
+    it('should reject schema changes and several statements', () => {
+        expect(isRowChange('ALTER TABLE users ADD COLUMN age INTEGER')).toBe(
+            false
+        )
+        expect(isRowChange('PRAGMA user_version = 2')).toBe(false)
+        expect(isRowChange('DELETE FROM users; DROP TABLE users')).toBe(false)
+    })
+})
+
+describe('getCaptureTriggers', () => {
+    it('should capture the values and rowid of written rows', () => {
+        const [insert, update, remove] = getCaptureTriggers({
+            name: 'users',
+            columns: ['id', 'name'],
+        })
+
+        expect(insert).toBe(
+            `CREATE TRIGGER "tmp_replication_users_insert" AFTER INSERT ON "users" BEGIN INSERT INTO tmp_replication_rows ("statement") VALUES ('INSERT OR REPLACE INTO "users" (rowid, "id", "name") VALUES (' || quote(NEW.rowid) || ', ' || quote(NEW."id") || ', ' || quote(NEW."name") || ')'); END`
+        )
+        expect(update).toBe(
+            `CREATE TRIGGER "tmp_replication_users_update" AFTER UPDATE ON "users" BEGIN INSERT INTO tmp_replication_rows ("statement") VALUES ('UPDATE OR REPLACE "users" SET ' || 'rowid = ' || quote(NEW.rowid) || ', "id" = ' || quote(NEW."id") || ', "name" = ' || quote(NEW."name") || ' WHERE rowid = ' || quote(OLD.rowid)); END`
+        )
+        expect(remove).toBe(
+            `CREATE TRIGGER "tmp_replication_users_delete" AFTER DELETE ON "users" BEGIN INSERT INTO tmp_replication_rows ("statement") VALUES ('DELETE FROM "users"' || ' WHERE rowid = ' || quote(OLD.rowid)); END`
+        )
+    })
+
+    it('should find rows of tables without rowid by their primary key', () => {
+        const [, update] = getCaptureTriggers({
+            name: "user's tags",
+            columns: ['user', 'tag', 'color'],
+            primaryKey: ['user', 'tag'],
+        })
+
+        expect(update).toContain(
+            `' WHERE "user" = ' || quote(OLD."user") || ' AND "tag" = ' || quote(OLD."tag")`
+        )
+        expect(update).toContain(`'UPDATE OR REPLACE "user''s tags" SET '`)
+        expect(update).not.toContain('rowid')
+    })
+})
+
+describe('getUndoTriggers', () => {
+    it('should record how to restore the rows written', () => {
+        const [insert, update, remove] = getUndoTriggers({
+            name: 'users',
+            columns: ['id'],
+        })
+
+        expect(insert).toBe(
+            `CREATE TRIGGER "tmp_transaction_users_insert" AFTER INSERT ON "users" BEGIN INSERT INTO tmp_transaction_undo ("statement") VALUES ('DELETE FROM "users"' || ' WHERE rowid = ' || quote(NEW.rowid)); END`
+        )
+        expect(update).toBe(
+            `CREATE TRIGGER "tmp_transaction_users_update" AFTER UPDATE ON "users" BEGIN INSERT INTO tmp_transaction_undo ("statement") VALUES ('UPDATE OR REPLACE "users" SET ' || 'rowid = ' || quote(OLD.rowid) || ', "id" = ' || quote(OLD."id") || ' WHERE rowid = ' || quote(NEW.rowid)); END`
+        )
+        expect(remove).toBe(
+            `CREATE TRIGGER "tmp_transaction_users_delete" AFTER DELETE ON "users" BEGIN INSERT INTO tmp_transaction_undo ("statement") VALUES ('INSERT OR REPLACE INTO "users" (rowid, "id") VALUES (' || quote(OLD.rowid) || ', ' || quote(OLD."id") || ')'); END`
+        )
+    })
+})
+
+describe('parseReplicaRegions', () => {
+    it('should return no regions when the variable is not set', () => {
+        expect(parseReplicaRegions(undefined)).toEqual([])
+    })
+
+    it('should parse known regions and skip unknown ones', () => {
+        const consoleWarnSpy = vi
+            .spyOn(console, 'warn')
+            .mockImplementation(() => {})
+
+        expect(parseReplicaRegions('WEUR, apac, mars, auto')).toEqual([
+            RegionLocationHint.WEUR,
+            RegionLocationHint.APAC,
+        ])
+        expect(consoleWarnSpy).toHaveBeenCalledTimes(2)
+    })
+})
+
+describe('getNearestRegion', () => {
+    it('should map the location of a request onto a region', () => {
+        expect(getNearestRegion({ continent: 'EU', longitude: '4.89' })).toBe(
+            RegionLocationHint.WEUR
+        )
+        expect(
+            getNearestRegion({ continent: 'NA', longitude: '-122.41' })
+        ).toBe(RegionLocationHint.WNAM)
+        expect(getNearestRegion({ continent: 'AS', longitude: '139.69' })).toBe(
+            RegionLocationHint.APAC
+        )
+        expect(getNearestRegion(undefined)).toBeUndefined()
+    })
+})
@@ -0,0 +1,266 @@
+import type { StarbaseDBDurableObject } from '../do'
+import { DEFAULT_DATABASE } from '../tenant'
+import { RegionLocationHint } from '../types'
+
+// Statements that never modify the database and may be served by a read replica
+const READ_ONLY_STATEMENT = /^\s*(select|explain|values)\b/i
+// Pragmas that only read a value, e.g. `PRAGMA table_info(users)`
+const READ_ONLY_PRAGMA = /^\s*pragma\s+[\w.]+\s*(\([^)]*\))?$/i
+const MODIFYING_KEYWORD =
+    /\b(insert|update|delete|replace|create|drop|alter)\b/i
+// Statements that write rows, rather than changing the schema
+const ROW_CHANGE_STATEMENT = /^\s*(with|insert|replace|update|delete)\b/i
+
+// Prefix of the triggers capturing the rows written to a table for read replicas
+export const CAPTURE_TRIGGER_PREFIX = 'tmp_replication_'
+
+// Prefix of the triggers recording the rows an interactive transaction overwrote
+export const UNDO_TRIGGER_PREFIX = 'tmp_transaction_'
+
+// A table whose written rows are recorded by triggers, see `getCaptureTriggers`
+export type CapturedTable = {
+    name: string
+    columns: string[]
+    // Primary key of a `WITHOUT ROWID` table, rows of other tables are found by rowid
+    primaryKey?: string[]
+}
+
+export function quoteIdentifier(name: string): string {
+    return `"${name.replace(/"/g, '""')}"`
+}
+
+function quoteLiteral(text: string): string {
+    return `'${text.replace(/'/g, "''")}'`
+}
+
+/**
+ * Whether a statement can be executed on a read replica. This errs on the side of
+ * caution: multiple statements, or a `WITH` clause containing any modifying keyword,
+ * are treated as writes and sent to the primary.
+ *
+ * @param sql - The SQL statement to inspect.
+ */
+export function isReadOnlyQuery(sql: string): boolean {
+    const statement = sql.trim().replace(/;\s*$/, '')
+
+    if (statement.includes(';')) {
+        return false
+    }
+
+    if (/^with\b/i.test(statement)) {
+        return !MODIFYING_KEYWORD.test(statement)
+    }
+
+    return (
+        READ_ONLY_STATEMENT.test(statement) || READ_ONLY_PRAGMA.test(statement)
+    )
+}
+
+/**
+ * Whether a single statement only writes rows. Read replicas receive the rows such a
+ * statement wrote instead of the statement itself.
+ *
+ * @param sql - The SQL statement to inspect.
+ */
+export function isRowChange(sql: string): boolean {
+    const statement = sql.trim().replace(/;\s*$/, '')
+
+    return !statement.includes(';') && ROW_CHANGE_STATEMENT.test(statement)
+}
+
+// SQL expressions that build a statement writing a row image of a table, from the
+// `NEW` or `OLD` row of a trigger. Values are inlined with `quote()`, which keeps
+// their type and precision.
+function getRowImages(table: CapturedTable) {
+    const name = quoteIdentifier(table.name)
+    const columns = table.columns.map(quoteIdentifier)
+    const keys = table.primaryKey?.map(quoteIdentifier) ?? ['rowid']
+    // Rows are written with their rowid, so that they keep the same ones.
+    const written = table.primaryKey ? columns : ['rowid', ...columns]
+
+    type Row = 'NEW' | 'OLD'
+    const concat = (parts: string[]) => parts.join(' || ')
+    const value = (row: Row, column: string) => `quote(${row}.${column})`
+    const where = (row: Row) =>
+        concat(
+            keys.flatMap((key, index) => [
+                quoteLiteral(`${index ? ' AND ' : ' WHERE '}${key} = `),
+                value(row, key),
+            ])
+        )
+
+    return {
+        insert: (row: Row) =>
+            concat([
+                quoteLiteral(
+                    `INSERT OR REPLACE INTO ${name} (${written.join(', ')}) VALUES (`
+                ),
+                ...written.flatMap((column, index) => [
+                    ...(index ? [quoteLiteral(', ')] : []),
+                    value(row, column),
+                ]),
+                quoteLiteral(')'),
+            ]),
+        // Updates are not written as replacements, which would delete the row first
+        // and with it any rows referencing it through `ON DELETE CASCADE`.
+        update: (row: Row, from: Row) =>
+            concat([
+                quoteLiteral(`UPDATE OR REPLACE ${name} SET `),
+                ...written.flatMap((column, index) => [
+                    quoteLiteral(`${index ? ', ' : ''}${column} = `),
+                    value(row, column),
+                ]),
+                where(from),
+            ]),
+        remove: (row: Row) =>
+            concat([quoteLiteral(`DELETE FROM ${name}`), where(row)]),
+    }
+}
+
+function getRowTriggers(
+    table: CapturedTable,
+    opts: {
+        prefix: string
+        log: string
+        insert: string
+        update: string
+        delete: string
+    }
+): string[] {
+    const name = quoteIdentifier(table.name)
+    const trigger = (action: string) =>
+        quoteIdentifier(`${opts.prefix}${table.name}_${action}`)
+    const record = (statement: string) =>
+        `INSERT INTO ${opts.log} ("statement") VALUES (${statement});`
+
+    return [
+        `CREATE TRIGGER ${trigger('insert')} AFTER INSERT ON ${name} BEGIN ${record(opts.insert)} END`,
+        `CREATE TRIGGER ${trigger('update')} AFTER UPDATE ON ${name} BEGIN ${record(opts.update)} END`,
+        `CREATE TRIGGER ${trigger('delete')} AFTER DELETE ON ${name} BEGIN ${record(opts.delete)} END`,
+    ]
+}
+
+/**
+ * Builds the triggers recording every row written to a table into `tmp_replication_rows`,
+ * as a statement writing the same values on a read replica. Replicas apply those rather
+ * than the statements that wrote the rows, which would evaluate defaults such as
+ * `datetime('now')` and functions such as `random()` once more.
+ *
+ * @param table - The table to capture the rows of.
+ * @returns The `CREATE TRIGGER` statements for inserts, updates and deletes.
+ */
+export function getCaptureTriggers(table: CapturedTable): string[] {
+    const images = getRowImages(table)
+
+    return getRowTriggers(table, {
+        prefix: CAPTURE_TRIGGER_PREFIX,
+        log: 'tmp_replication_rows',
+        insert: images.insert('NEW'),
+        update: images.update('NEW', 'OLD'),
+        delete: images.remove('OLD'),
+    })
+}
+
+/**
+ * Builds the triggers recording into `tmp_transaction_undo` how to restore every row
+ * written to a table, which rolls back an interactive transaction when the statements
+ * are executed newest first.
+ *
+ * @param table - The table to record the previous rows of.
+ * @returns The `CREATE TRIGGER` statements for inserts, updates and deletes.
+ */
+export function getUndoTriggers(table: CapturedTable): string[] {
+    const images = getRowImages(table)
+
+    return getRowTriggers(table, {
+        prefix: UNDO_TRIGGER_PREFIX,
+        log: 'tmp_transaction_undo',
+        insert: images.remove('NEW'),
+        update: images.update('OLD', 'NEW'),
+        delete: images.insert('OLD'),
+    })
+}
+
+/**
+ * Reads the regions that hold a read replica from the `READ_REPLICA_REGIONS` environment
+ * variable, a comma separated list of location hints such as `weur,apac`.
+ *
+ * @param value - The raw value of the environment variable.
+ * @returns The replica regions, empty when replication is disabled.
+ */
+export function parseReplicaRegions(value?: string): RegionLocationHint[] {
+    const regions: string[] = Object.values(RegionLocationHint).filter(
+        (region) => region !== RegionLocationHint.AUTO
+    )
+
+    return (value ?? '')
+        .split(',')
+        .map((region) => region.trim().toLowerCase())
+        .filter((region): region is RegionLocationHint => {
+            if (!region) return false
+
+            if (!regions.includes(region)) {
+                console.warn(
+                    `Ignoring unknown read replica region '${region}'.`
+                )
+                return false
+            }
+
+            return true
+        })
+}
+
+/**
+ * Maps the location Cloudflare reports for a request onto the nearest region.
+ *
+ * @param cf - The `request.cf` properties of the incoming request.
+ */
+export function getNearestRegion(cf?: {
+    continent?: string
+    longitude?: string
+}): RegionLocationHint | undefined {
+    const longitude = Number(cf?.longitude ?? NaN)
+
+    switch (cf?.continent) {
+        case 'NA':
+            return longitude < -100
+                ? RegionLocationHint.WNAM
+                : RegionLocationHint.ENAM
+        case 'SA':
+            return RegionLocationHint.SAM
+        case 'EU':
+            return longitude > 20
+                ? RegionLocationHint.EEUR
+                : RegionLocationHint.WEUR
+        case 'AS':
+            return longitude < 60
+                ? RegionLocationHint.ME
+                : RegionLocationHint.APAC
+        case 'OC':
+            return RegionLocationHint.OC
+        case 'AF':
+            return RegionLocationHint.AFR
+        default:
+            return undefined
+    }
+}
+
+/**
+ * Returns the Durable Object stub of the read replica of a database in a region.
+ *
+ * @param namespace - The Durable Object namespace holding all databases.
+ * @param opts.name - Name of the tenant database, the default database if omitted.
+ * @param opts.region - Region the replica is located in.
+ */
+export function getReplicaStub(
+    namespace: DurableObjectNamespace<StarbaseDBDurableObject>,
+    opts: { name?: string; region: string }
+) {
+    const id = namespace.idFromName(
+        `replica:${opts.region}:${opts.name ?? DEFAULT_DATABASE}`
+    )
+
+    return namespace.get(id, {
+        locationHint: opts.region as DurableObjectLocationHint,
+    })
+}
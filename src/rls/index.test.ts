@@ -1,5 +1,10 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
-import { applyRLS, loadPolicies } from './index'
+import {
+    applyRLS,
+    loadExpressionPolicies,
+    loadPolicies,
+    RLSViolationError,
+} from './index'
 import { DataSource, QueryResult } from '../types'
 import { StarbaseDBConfiguration } from '../handler'
 
@@ -17,6 +22,17 @@ const mockConfig: StarbaseDBConfiguration = {
     features: { allowlist: true, rls: true, rest: true },
 }
 
+// Executes the statements checking written rows, returning a row for each violation
+const executeCheck = vi.fn()
+
+// Rows of `tmp_rls_policies` and `tmp_rls_expression_policies`
+function mockPolicies(rows: any[], expressionRows: any[] = []) {
+    vi.mocked(mockDataSource.rpc.executeQuery).mockImplementation(
+        async ({ sql }: { sql: string }) =>
+            sql.includes('tmp_rls_expression_policies') ? expressionRows : rows
+    )
+}
+
 describe('loadPolicies - Policy Fetching and Parsing', () => {
     it('should load and parse policies correctly', async () => {
         vi.mocked(mockDataSource.rpc.executeQuery).mockResolvedValue([
@@ -34,6 +50,10 @@ describe('loadPolicies - Policy Fetching and Parsing', () => {
         const policies = await loadPolicies(mockDataSource)
 
         expect(mockDataSource.rpc.executeQuery).toHaveBeenCalledTimes(1)
+        expect(mockDataSource.rpc.executeQuery).toHaveBeenCalledWith({
+            sql: expect.stringContaining('"source" IS NULL OR "source" = ?'),
+            params: ['internal'],
+        })
         expect(policies).toEqual([
             {
                 action: 'SELECT',
@@ -72,7 +92,7 @@ describe('applyRLS - Query Modification', () => {
     beforeEach(() => {
         vi.resetAllMocks()
         mockDataSource.context.sub = 'user123'
-        vi.mocked(mockDataSource.rpc.executeQuery).mockResolvedValue([
+        mockPolicies([
             {
                 actions: 'SELECT',
                 schema: 'public',
@@ -87,7 +107,7 @@ describe('applyRLS - Query Modification', () => {
 
     it('should modify SELECT queries with WHERE conditions', async () => {
         const sql = 'SELECT * FROM users'
-        const modifiedSql = await applyRLS({
+        const { sql: modifiedSql, params } = await applyRLS({
             sql,
             isEnabled: true,
             dataSource: mockDataSource,
@@ -95,11 +115,12 @@ describe('applyRLS - Query Modification', () => {
         })
 
         console.log('Final SQL:', modifiedSql)
-        expect(modifiedSql).toContain("WHERE `user_id` = 'user123'")
+        expect(modifiedSql).toContain('WHERE `user_id` = ?')
+        expect(params).toEqual(['user123'])
     })
     it('should modify DELETE queries by adding policy-based WHERE clause', async () => {
         const sql = "DELETE FROM users WHERE name = 'Alice'"
-        const modifiedSql = await applyRLS({
+        const { sql: modifiedSql } = await applyRLS({
             sql,
             isEnabled: true,
             dataSource: mockDataSource,
@@ -111,7 +132,7 @@ describe('applyRLS - Query Modification', () => {
 
     it('should modify UPDATE queries with additional WHERE clause', async () => {
         const sql = "UPDATE users SET name = 'Bob' WHERE age = 25"
-        const modifiedSql = await applyRLS({
+        const { sql: modifiedSql } = await applyRLS({
             sql,
             isEnabled: true,
             dataSource: mockDataSource,
@@ -123,7 +144,7 @@ describe('applyRLS - Query Modification', () => {
 
     it('should modify INSERT queries to enforce column values', async () => {
         const sql = "INSERT INTO users (user_id, name) VALUES (1, 'Alice')"
-        const modifiedSql = await applyRLS({
+        const { sql: modifiedSql } = await applyRLS({
             sql,
             isEnabled: true,
             dataSource: mockDataSource,
@@ -137,7 +158,7 @@ describe('applyRLS - Query Modification', () => {
 describe('applyRLS - Edge Cases', () => {
     it('should not modify SQL if RLS is disabled', async () => {
         const sql = 'SELECT * FROM users'
-        const modifiedSql = await applyRLS({
+        const { sql: modifiedSql } = await applyRLS({
             sql,
             isEnabled: false,
             dataSource: mockDataSource,
@@ -151,7 +172,7 @@ describe('applyRLS - Edge Cases', () => {
         mockConfig.role = 'admin'
 
         const sql = 'SELECT * FROM users'
-        const modifiedSql = await applyRLS({
+        const { sql: modifiedSql } = await applyRLS({
             sql,
             isEnabled: true,
             dataSource: mockDataSource,
@@ -164,7 +185,7 @@ describe('applyRLS - Edge Cases', () => {
 
 describe('applyRLS - Multi-Table Queries', () => {
     beforeEach(() => {
-        vi.mocked(mockDataSource.rpc.executeQuery).mockResolvedValue([
+        mockPolicies([
             {
                 actions: 'SELECT',
                 schema: 'public',
@@ -183,7 +204,7 @@ describe('applyRLS - Multi-Table Queries', () => {
                 value_type: 'string',
                 operator: '=',
             },
-        ] as any)
+        ])
     })
 
     it('should apply RLS policies to tables in JOIN conditions', async () => {
@@ -193,15 +214,16 @@ describe('applyRLS - Multi-Table Queries', () => {
             JOIN orders ON users.id = orders.user_id
         `
 
-        const modifiedSql = await applyRLS({
+        const { sql: modifiedSql, params } = await applyRLS({
             sql,
             isEnabled: true,
             dataSource: mockDataSource,
             config: mockConfig,
         })
 
-        expect(modifiedSql).toContain("WHERE `users.user_id` = 'user123'")
-        expect(modifiedSql).toContain("AND `orders.user_id` = 'user123'")
+        expect(modifiedSql).toContain('WHERE `users.user_id` = ?')
+        expect(modifiedSql).toContain('AND `orders.user_id` = ?')
+        expect(params).toEqual(['user123', 'user123'])
     })
 
     it('should apply RLS policies to multiple tables in a JOIN', async () => {
@@ -211,15 +233,16 @@ describe('applyRLS - Multi-Table Queries', () => {
             JOIN orders ON users.id = orders.user_id
         `
 
-        const modifiedSql = await applyRLS({
+        const { sql: modifiedSql, params } = await applyRLS({
             sql,
             isEnabled: true,
             dataSource: mockDataSource,
             config: mockConfig,
         })
 
-        expect(modifiedSql).toContain("WHERE (users.user_id = 'user123')")
-        expect(modifiedSql).toContain("AND (orders.user_id = 'user123')")
+        expect(modifiedSql).toContain('WHERE (users.user_id = ?)')
+        expect(modifiedSql).toContain('AND (orders.user_id = ?)')
+        expect(params).toEqual(['user123', 'user123'])
     })
 
     it('should apply RLS policies to subqueries inside FROM clause', async () => {
@@ -229,13 +252,717 @@ describe('applyRLS - Multi-Table Queries', () => {
             ) AS adults
         `
 
-        const modifiedSql = await applyRLS({
+        const { sql: modifiedSql, params } = await applyRLS({
             sql,
             isEnabled: true,
             dataSource: mockDataSource,
             config: mockConfig,
         })
 
-        expect(modifiedSql).toContain("WHERE `users.user_id` = 'user123'")
+        expect(modifiedSql).toContain('WHERE `users.user_id` = ?')
+        expect(params).toEqual(['user123'])
+    })
+})
+
+describe('applyRLS - Expression Policies', () => {
+    const clientConfig: StarbaseDBConfiguration = {
+        role: 'client',
+        features: { rls: true },
+    }
+
+    const memberOf =
+        'org_id IN (SELECT org_id FROM memberships WHERE user_id = auth.sub())'
+
+    function rls(sql: string) {
+        return applyRLS({
+            sql,
+            isEnabled: true,
+            dataSource: mockDataSource,
+            config: clientConfig,
+            executeCheck,
+        })
+    }
+
+    beforeEach(() => {
+        vi.resetAllMocks()
+        mockDataSource.context.sub = 'user123'
+        executeCheck.mockResolvedValue([])
+    })
+
+    it('should filter rows with the using expression of the table alias', async () => {
+        mockPolicies(
+            [],
+            [{ actions: 'SELECT', table: 'posts', using_expression: memberOf }]
+        )
+
+        const { sql, params } = await rls(
+            'SELECT p.title FROM posts AS p WHERE p.draft = 0'
+        )
+
+        expect(sql).toBe(
+            'SELECT `p`.`title` FROM `posts` AS `p` WHERE ((`p`.`draft` = 0) AND (`p`.`org_id` IN (SELECT `org_id` FROM `memberships` WHERE `user_id` = ?)))'
+        )
+        expect(params).toEqual(['user123'])
+    })
+
+    it('should allow rows passing any of the policies of a table', async () => {
+        mockPolicies(
+            [],
+            [
+                {
+                    actions: 'SELECT',
+                    table: 'posts',
+                    using_expression: memberOf,
+                },
+                {
+                    actions: 'SELECT',
+                    table: 'posts',
+                    using_expression: 'published = 1',
+                },
+            ]
+        )
+
+        const { sql } = await rls('SELECT * FROM posts')
+
+        expect(sql).toContain(
+            'WHERE ((`posts`.`org_id` IN (SELECT `org_id` FROM `memberships` WHERE `user_id` = ?)) OR (`posts`.`published` = 1))'
+        )
+    })
+
+    it('should check updated rows with the values they are set to', async () => {
+        mockPolicies(
+            [],
+            [
+                {
+                    actions: 'UPDATE',
+                    table: 'posts',
+                    using_expression: 'author_id = auth.sub()',
+                    check_expression: memberOf,
+                },
+            ]
+        )
+
+        const { sql, params } = await rls(
+            'UPDATE posts SET org_id = 7 WHERE id = 1'
+        )
+
+        expect(sql).toBe(
+            'UPDATE `posts` SET `org_id` = 7 WHERE ((`id` = 1) AND (`posts`.`author_id` = ?))'
+        )
+        expect(params).toEqual(['user123'])
+        expect(executeCheck).toHaveBeenCalledWith({
+            sql: 'SELECT 1 AS `violation` FROM `posts` WHERE (((`id` = 1) AND (`posts`.`author_id` = ?)) AND (CASE WHEN (7 IN (SELECT `org_id` FROM `memberships` WHERE `user_id` = ?)) THEN 0 ELSE 1 END = 1)) LIMIT 1',
+            params: ['user123', 'user123'],
+        })
+    })
+
+    it('should reject writes failing the check expression', async () => {
+        mockPolicies(
+            [],
+            [
+                {
+                    actions: 'UPDATE',
+                    table: 'posts',
+                    using_expression: 'author_id = auth.sub()',
+                    check_expression: memberOf,
+                },
+            ]
+        )
+        executeCheck.mockResolvedValue([{ violation: 1 }])
+
+        await expect(
+            rls('UPDATE posts SET org_id = 7 WHERE id = 1')
+        ).rejects.toThrow(
+            new RLSViolationError(
+                'Unauthorized access: New rows of table posts violate its UPDATE policies'
+            )
+        )
+    })
+
+    it('should check inserted rows before they are inserted', async () => {
+        mockPolicies(
+            [],
+            [{ actions: 'INSERT', table: 'posts', check_expression: memberOf }]
+        )
+
+        const { sql } = await rls(
+            "INSERT INTO posts (title, org_id) VALUES ('a', 1), ('b', 2)"
+        )
+
+        expect(sql).toBe(
+            "INSERT INTO `posts` (`title`, `org_id`) VALUES ('a',1), ('b',2)"
+        )
+        expect(executeCheck.mock.calls[0][0].sql).toBe(
+            'SELECT 1 AS `violation` WHERE ((CASE WHEN (1 IN (SELECT `org_id` FROM `memberships` WHERE `user_id` = ?)) THEN 0 ELSE 1 END = 1) OR (CASE WHEN (2 IN (SELECT `org_id` FROM `memberships` WHERE `user_id` = ?)) THEN 0 ELSE 1 END = 1)) LIMIT 1'
+        )
+
+        executeCheck.mockResolvedValue([{ violation: 1 }])
+        await expect(
+            rls("INSERT INTO posts (title, org_id) VALUES ('a', 1)")
+        ).rejects.toThrow(RLSViolationError)
+        await expect(
+            applyRLS({
+                sql: "INSERT INTO posts (title, org_id) VALUES ('a', 1)",
+                isEnabled: true,
+                dataSource: mockDataSource,
+                config: clientConfig,
+            })
+        ).rejects.toThrow('cannot be checked')
+    })
+
+    it('should deny actions without a policy on a table with policies', async () => {
+        mockPolicies(
+            [],
+            [{ actions: 'SELECT', table: 'posts', using_expression: memberOf }]
+        )
+
+        await expect(rls('DELETE FROM posts')).rejects.toThrow(
+            'Unauthorized access: No matching rules for DELETE on restricted table posts'
+        )
+    })
+})
+
+describe('loadPolicies - Roles', () => {
+    it('should load the policies of the role along with those of every role', async () => {
+        mockPolicies([])
+
+        await loadPolicies(mockDataSource, 'support')
+        await loadExpressionPolicies(mockDataSource, 'sqlite', 'support')
+
+        expect(mockDataSource.rpc.executeQuery).toHaveBeenCalledWith({
+            sql: expect.stringContaining('("role" IS NULL OR "role" = ?)'),
+            params: ['internal', 'support'],
+        })
+        expect(mockDataSource.rpc.executeQuery).toHaveBeenLastCalledWith({
+            sql: expect.stringContaining('("role" IS NULL OR "role" = ?)'),
+            params: ['internal', 'support'],
+        })
+    })
+
+    it('should only load policies of every role without a role', async () => {
+        mockPolicies([])
+
+        await loadExpressionPolicies(mockDataSource, 'sqlite')
+
+        expect(mockDataSource.rpc.executeQuery).toHaveBeenCalledWith({
+            sql: expect.stringContaining('AND "role" IS NULL'),
+            params: ['internal'],
+        })
+    })
+})
+
+describe('applyRLS - Concurrent Requests', () => {
+    it('should apply the policies and claims of each request', async () => {
+        let release: () => void = () => {}
+        const loading = new Promise<void>((resolve) => (release = resolve))
+
+        // Policies of the `member` role only, which finishes loading last
+        vi.mocked(mockDataSource.rpc.executeQuery).mockImplementation(
+            async ({ sql, params }: { sql: string; params: unknown[] }) => {
+                const isMember = params.includes('member')
+                if (sql.includes('tmp_rls_expression_policies')) {
+                    if (isMember) await loading
+                    return []
+                }
+                return isMember
+                    ? ['SELECT'].map((actions) => ({
+                          actions,
+                          table: 'todos',
+                          column: 'user_id',
+                          value: 'context.id()',
+                          value_type: 'string',
+                          operator: '=',
+                      }))
+                    : []
+            }
+        )
+
+        const request = (role: string, sub: string) =>
+            applyRLS({
+                sql: 'SELECT * FROM todos',
+                isEnabled: true,
+                dataSource: { ...mockDataSource, context: { sub } },
+                config: { role: 'client', databaseRole: role },
+            })
+
+        const member = request('member', 'user123')
+        const guest = await request('guest', 'user456')
+        release()
+
+        expect(guest).toEqual({
+            sql: 'SELECT * FROM `todos`',
+            params: undefined,
+        })
+        await expect(member).resolves.toEqual({
+            sql: 'SELECT * FROM `todos` WHERE (`todos`.`user_id` = ?)',
+            params: ['user123'],
+        })
+    })
+})
+
+describe('loadExpressionPolicies', () => {
+    it('should reject expressions that do not match the action', async () => {
+        mockPolicies(
+            [],
+            [{ actions: 'INSERT', table: 'posts', using_expression: 'id = 1' }]
+        )
+
+        await expect(
+            loadExpressionPolicies(mockDataSource, 'sqlite')
+        ).rejects.toThrow(
+            'Invalid RLS policy on table posts: INSERT policies require only a check expression.'
+        )
+    })
+
+    it('should reject anything besides a condition', async () => {
+        mockPolicies(
+            [],
+            [
+                {
+                    actions: 'SELECT',
+                    table: 'posts',
+                    using_expression: '1 = 1 UNION SELECT * FROM secrets',
+                },
+            ]
+        )
+
+        await expect(
+            loadExpressionPolicies(mockDataSource, 'sqlite')
+        ).rejects.toThrow('Invalid RLS policy expression')
+    })
+})
+
+describe('applyRLS - Write Policies', () => {
+    const clientConfig: StarbaseDBConfiguration = {
+        role: 'client',
+        features: { rls: true },
+    }
+
+    function rls(sql: string, params?: unknown[] | Record<string, unknown>) {
+        return applyRLS({
+            sql,
+            isEnabled: true,
+            dataSource: mockDataSource,
+            config: clientConfig,
+            params,
+            executeCheck,
+        })
+    }
+
+    beforeEach(() => {
+        vi.resetAllMocks()
+        mockDataSource.context.sub = 'user123'
+        executeCheck.mockResolvedValue([])
+        mockPolicies(
+            ['SELECT', 'INSERT', 'UPDATE'].map((actions) => ({
+                actions,
+                table: 'todos',
+                column: 'user_id',
+                value: 'context.id()',
+                value_type: 'string',
+                operator: '=',
+            }))
+        )
+    })
+
+    it('should reject inserted rows violating the policy', async () => {
+        await expect(
+            rls(
+                "INSERT INTO todos (title, user_id) VALUES ('a', 'user123'), ('b', 'user456')"
+            )
+        ).rejects.toThrow(
+            new RLSViolationError(
+                'Unauthorized access: New rows of table todos violate its INSERT policy on column user_id'
+            )
+        )
+    })
+
+    it('should check the parameters a row is inserted with', async () => {
+        const sql = 'INSERT INTO todos (title, user_id) VALUES (?, ?)'
+
+        await expect(rls(sql, ['a', 'user123'])).resolves.toEqual({
+            sql: 'INSERT INTO `todos` (`title`, `user_id`) VALUES (?,?)',
+            params: ['a', 'user123'],
+        })
+        await expect(rls(sql, ['user123', 'user456'])).rejects.toThrow(
+            RLSViolationError
+        )
+    })
+
+    it('should fill in the column of the policy when it is left out', async () => {
+        await expect(
+            rls("INSERT INTO todos (title) VALUES ('a')")
+        ).resolves.toEqual({
+            sql: "INSERT INTO `todos` (`title`, `user_id`) VALUES ('a',?)",
+            params: ['user123'],
+        })
+    })
+
+    it('should reject updates handing rows to another user', async () => {
+        await expect(
+            rls('UPDATE todos SET title = ?, user_id = :owner WHERE id = 1', {
+                owner: 'user456',
+            })
+        ).rejects.toThrow(RLSViolationError)
+        await expect(
+            rls('UPDATE todos SET done = ?, user_id = ? WHERE id = ?', [
+                1,
+                'user456',
+                1,
+            ])
+        ).rejects.toThrow(RLSViolationError)
+
+        const { sql, params } = await rls(
+            'UPDATE todos SET done = ?, user_id = ? WHERE id = ?',
+            [1, 'user123', 1]
+        )
+        expect(sql).toContain('WHERE ((`id` = ?) AND (`todos`.`user_id` = ?))')
+        expect(params).toEqual([1, 'user123', 1, 'user123'])
+    })
+
+    it('should inline positional parameters into check expressions', async () => {
+        mockPolicies(
+            [],
+            [
+                {
+                    actions: 'INSERT',
+                    table: 'posts',
+                    check_expression: "author = auth.sub() AND title <> ''",
+                },
+            ]
+        )
+
+        const { sql, params } = await rls(
+            'INSERT INTO posts (title, author) VALUES (?, ?)',
+            ["It's", 'user123']
+        )
+
+        expect(sql).toBe('INSERT INTO `posts` (`title`, `author`) VALUES (?,?)')
+        expect(params).toEqual(["It's", 'user123'])
+        expect(executeCheck).toHaveBeenCalledWith({
+            sql: "SELECT 1 AS `violation` WHERE (CASE WHEN ('user123' = ? AND 'It''s' <> '') THEN 0 ELSE 1 END = 1) LIMIT 1",
+            params: ['user123'],
+        })
+    })
+
+    it('should reject values that are only known once executed', async () => {
+        await expect(
+            rls("UPDATE todos SET user_id = lower('USER123')")
+        ).rejects.toThrow(
+            'The value of column user_id in table todos must be a literal or a parameter'
+        )
+    })
+})
+
+describe('applyRLS - Returning', () => {
+    function rls(sql: string, params?: unknown[]) {
+        return applyRLS({
+            sql,
+            isEnabled: true,
+            dataSource: mockDataSource,
+            config: { role: 'client', features: { rls: true } },
+            params,
+            executeCheck,
+        })
+    }
+
+    beforeEach(() => {
+        vi.resetAllMocks()
+        mockDataSource.context.sub = 'user123'
+        executeCheck.mockResolvedValue([])
+        mockPolicies(
+            ['SELECT', 'INSERT', 'UPDATE', 'DELETE'].map((actions) => ({
+                actions,
+                table: 'todos',
+                column: 'user_id',
+                value: 'context.id()',
+                value_type: 'string',
+                operator: '=',
+            }))
+        )
+    })
+
+    it('should apply policies to LiteREST updates and deletes counting their rows', async () => {
+        await expect(
+            rls(
+                'UPDATE main.todos SET title = ? WHERE id = ? RETURNING 1 AS affected',
+                ['a', 1]
+            )
+        ).resolves.toEqual({
+            sql: 'UPDATE `main`.`todos` SET `title` = ? WHERE ((`id` = ?) AND (`todos`.`user_id` = ?)) RETURNING 1 AS affected',
+            params: ['a', 1, 'user123'],
+        })
+        await expect(
+            rls('DELETE FROM main.todos WHERE id = ? RETURNING 1 AS affected', [
+                1,
+            ])
+        ).resolves.toEqual({
+            sql: 'DELETE FROM `main`.`todos` WHERE ((`id` = ?) AND (`todos`.`user_id` = ?)) RETURNING 1 AS affected',
+            params: [1, 'user123'],
+        })
+    })
+
+    it('should return the rows written with return=representation', async () => {
+        await expect(
+            rls(
+                'INSERT INTO main.todos (title, user_id) VALUES (?, ?) RETURNING *',
+                ['a', 'user123']
+            )
+        ).resolves.toEqual({
+            sql: 'INSERT INTO `main`.`todos` (`title`, `user_id`) VALUES (?,?) RETURNING *',
+            params: ['a', 'user123'],
+        })
+        await expect(
+            rls(
+                'INSERT INTO todos (title, user_id) VALUES (?, ?) RETURNING *',
+                ['a', 'user456']
+            )
+        ).rejects.toThrow(RLSViolationError)
+        await expect(
+            rls('UPDATE main.todos SET title = ? WHERE id = ? RETURNING *', [
+                'a',
+                1,
+            ])
+        ).resolves.toEqual({
+            sql: 'UPDATE `main`.`todos` SET `title` = ? WHERE ((`id` = ?) AND (`todos`.`user_id` = ?)) RETURNING *',
+            params: ['a', 1, 'user123'],
+        })
+    })
+
+    it('should reject RETURNING clauses reading other tables', async () => {
+        await expect(
+            rls(
+                'DELETE FROM todos WHERE id = ? RETURNING (SELECT secret FROM keys)',
+                [1]
+            )
+        ).rejects.toThrow(RLSViolationError)
+    })
+})
+
+describe('applyRLS - Upserts', () => {
+    function rls(sql: string, params?: unknown[]) {
+        return applyRLS({
+            sql,
+            isEnabled: true,
+            dataSource: mockDataSource,
+            config: { role: 'client', features: { rls: true } },
+            params,
+            executeCheck,
+        })
+    }
+
+    beforeEach(() => {
+        vi.resetAllMocks()
+        mockDataSource.context.sub = 'user123'
+        executeCheck.mockResolvedValue([])
+        mockPolicies(
+            ['SELECT', 'INSERT', 'UPDATE'].map((actions) => ({
+                actions,
+                table: 'todos',
+                column: 'user_id',
+                value: 'context.id()',
+                value_type: 'string',
+                operator: '=',
+            }))
+        )
+    })
+
+    it('should only update conflicting rows the policies allow', async () => {
+        await expect(
+            rls(
+                'INSERT INTO main.todos (id, title, user_id) VALUES (?, ?, ?) ON CONFLICT (id) DO UPDATE SET title = excluded.title, user_id = excluded.user_id RETURNING 1 AS written',
+                [1, 'a', 'user123']
+            )
+        ).resolves.toEqual({
+            sql: 'INSERT INTO `main`.`todos` (`id`, `title`, `user_id`) VALUES (?,?,?) ON CONFLICT (`id`) DO UPDATE SET `title` = `excluded`.`title`, `user_id` = `excluded`.`user_id` WHERE (`todos`.`user_id` = ?) RETURNING 1 AS written',
+            params: [1, 'a', 'user123', 'user123'],
+        })
+        await expect(
+            rls(
+                'INSERT INTO todos (id, title, user_id) VALUES (?, ?, ?) ON CONFLICT (id) DO NOTHING RETURNING 1 AS written',
+                [1, 'a', 'user123']
+            )
+        ).resolves.toEqual({
+            sql: 'INSERT INTO `todos` (`id`, `title`, `user_id`) VALUES (?,?,?) ON CONFLICT (`id`) DO NOTHING RETURNING 1 AS written',
+            params: [1, 'a', 'user123'],
+        })
+    })
+
+    it('should check the values conflicting rows are updated to', async () => {
+        await expect(
+            rls(
+                "INSERT INTO todos (id, title, user_id) VALUES (?, ?, ?) ON CONFLICT (id) DO UPDATE SET user_id = 'user456'",
+                [1, 'a', 'user123']
+            )
+        ).rejects.toThrow(
+            'New rows of table todos violate its UPDATE policy on column user_id'
+        )
+    })
+
+    it('should reject upserts of tables without UPDATE policies', async () => {
+        mockPolicies(
+            ['SELECT', 'INSERT'].map((actions) => ({
+                actions,
+                table: 'todos',
+                column: 'user_id',
+                value: 'context.id()',
+                value_type: 'string',
+                operator: '=',
+            }))
+        )
+
+        await expect(
+            rls(
+                'INSERT INTO todos (id, user_id) VALUES (?, ?) ON CONFLICT (id) DO UPDATE SET user_id = excluded.user_id',
+                [1, 'user123']
+            )
+        ).rejects.toThrow(
+            'No matching rules for UPDATE on restricted table todos'
+        )
+    })
+
+    it('should check upserts against expression policies', async () => {
+        mockPolicies(
+            [],
+            [
+                {
+                    actions: 'INSERT',
+                    table: 'posts',
+                    check_expression: 'author = auth.sub()',
+                },
+                {
+                    actions: 'UPDATE',
+                    table: 'posts',
+                    using_expression: 'author = auth.sub()',
+                    check_expression: "title <> ''",
+                },
+            ]
+        )
+
+        const { sql } = await rls(
+            'INSERT INTO posts (id, title, author) VALUES (?, ?, ?) ON CONFLICT (id) DO UPDATE SET title = excluded.title',
+            [1, '', 'user123']
+        )
+
+        expect(sql).toBe(
+            'INSERT INTO `posts` (`id`, `title`, `author`) VALUES (?,?,?) ON CONFLICT (`id`) DO UPDATE SET `title` = `excluded`.`title` WHERE (`posts`.`author` = ?)'
+        )
+        expect(executeCheck).toHaveBeenLastCalledWith({
+            sql: "SELECT 1 AS `violation` FROM `posts` WHERE ((`posts`.`id` = 1) AND (`posts`.`author` = ?) AND (CASE WHEN ('' <> '') THEN 0 ELSE 1 END = 1)) LIMIT 1",
+            params: ['user123'],
+        })
+    })
+})
+
+describe('applyRLS - Claims', () => {
+    const clientConfig: StarbaseDBConfiguration = {
+        role: 'client',
+        features: { rls: true },
+    }
+
+    function rls(
+        sql: string,
+        params?: unknown[] | Record<string, unknown>,
+        dataSource = mockDataSource
+    ) {
+        return applyRLS({
+            sql,
+            isEnabled: true,
+            dataSource,
+            config: clientConfig,
+            params,
+        })
+    }
+
+    beforeEach(() => {
+        vi.resetAllMocks()
+        mockDataSource.context = {
+            sub: 'user123',
+            org: { id: 'org1' },
+            teams: ['red', 'blue'],
+        }
+        mockPolicies(
+            ['SELECT', 'INSERT'].map((actions) => ({
+                actions,
+                table: 'projects',
+                column: 'org_id',
+                value: "context.claim('org.id')",
+                value_type: 'string',
+                operator: '=',
+            })),
+            [
+                {
+                    actions: 'SELECT',
+                    table: 'tasks',
+                    using_expression: "team IN (context.claim('teams'))",
+                },
+            ]
+        )
+    })
+
+    it('should bind claims as parameters after those of the query', async () => {
+        await expect(
+            rls('SELECT * FROM projects WHERE id = ?', [7])
+        ).resolves.toEqual({
+            sql: 'SELECT * FROM `projects` WHERE ((`id` = ?) AND (`projects`.`org_id` = ?))',
+            params: [7, 'org1'],
+        })
+    })
+
+    it('should expand array claims within lists', async () => {
+        await expect(rls('SELECT * FROM tasks')).resolves.toEqual({
+            sql: 'SELECT * FROM `tasks` WHERE (`tasks`.`team` IN (?, ?))',
+            params: ['red', 'blue'],
+        })
+    })
+
+    it('should deny rows when a claim is missing', async () => {
+        mockDataSource.context = { sub: 'user123' }
+
+        const { sql, params } = await rls('SELECT * FROM tasks')
+
+        expect(sql).toBe('SELECT * FROM `tasks` WHERE (1 = 0)')
+        expect(params).toBeUndefined()
+        await expect(
+            rls("INSERT INTO projects (name) VALUES ('a')")
+        ).rejects.toThrow(RLSViolationError)
+    })
+
+    it('should fill in and check written columns with claims', async () => {
+        await expect(
+            rls('INSERT INTO projects (name) VALUES (?)', ['a'])
+        ).resolves.toEqual({
+            sql: 'INSERT INTO `projects` (`name`, `org_id`) VALUES (?,?)',
+            params: ['a', 'org1'],
+        })
+        await expect(
+            rls("INSERT INTO projects (name, org_id) VALUES ('a', 'org2')")
+        ).rejects.toThrow(RLSViolationError)
+    })
+
+    it('should add claims to named parameters', async () => {
+        await expect(
+            rls('SELECT * FROM projects WHERE id = :id', { id: 7 })
+        ).resolves.toEqual({
+            sql: 'SELECT * FROM `projects` WHERE ((`id` = :id) AND (`projects`.`org_id` = :__rls_claim_0))',
+            params: { id: 7, __rls_claim_0: 'org1' },
+        })
+    })
+
+    it('should number claims after the parameters of the query on Postgres', async () => {
+        const postgres = {
+            ...mockDataSource,
+            source: 'external',
+            external: { dialect: 'postgresql' },
+        }
+
+        const { sql, params } = await rls(
+            'SELECT * FROM projects WHERE id = $1',
+            [7],
+            postgres
+        )
+
+        expect(sql).toContain('"projects"."org_id" = $2')
+        expect(params).toEqual([7, 'org1'])
     })
 })
@@ -1,5 +1,8 @@
 import { StarbaseDBConfiguration } from '../handler'
 import { DataSource, QueryResult } from '../types'
+import { getSourceName } from '../data-source'
+import type { QueryParams } from '../operation'
+import { maskQuoted, toNumberedPlaceholders } from '../rbac'
 
 const parser = new (require('node-sql-parser').Parser)()
 
@@ -20,7 +23,65 @@ type Policy = {
     }
 }
 
-let policies: Policy[] = []
+// A policy whose condition is a SQL boolean expression, `using` decides which existing
+// rows a statement can read, update or delete and `check` which rows it can write.
+type ExpressionPolicy = {
+    action: string
+    table: string
+    using?: any
+    check?: any
+}
+
+/**
+ * Thrown when a statement is denied by the row level security policies, such as a
+ * write of rows the caller would not be allowed to read back.
+ */
+export class RLSViolationError extends Error {
+    constructor(message: string) {
+        super(message)
+        this.name = 'RLSViolationError'
+    }
+}
+
+// Value of a positional parameter attached to its `?` placeholder, with the literal
+// it is written as wherever the value is needed a second time
+type BoundParameter = {
+    value: unknown
+    literal?: any
+}
+
+// Claims of the request and the values of those used by policies, which are bound
+// to `:__rls_claim_<index>` placeholders
+type ClaimBinding = {
+    claims: Record<string, unknown>
+    values: unknown[]
+}
+
+// A statement returning a row when rows written to a table fail its check expressions
+type WriteCheck = {
+    action: string
+    table: string
+    ast: any
+}
+
+// Policies applying to a request and the claims they use, passed along while its
+// statement is rewritten as requests can be handled concurrently
+type RLSState = {
+    policies: Policy[]
+    expressionPolicies: ExpressionPolicy[]
+    claims: ClaimBinding
+    checks: WriteCheck[]
+}
+
+// Policy values referring to claims of the user's JWT, `context.id()` is the `sub` claim
+const CONTEXT_ID = '__CONTEXT_ID__'
+const CLAIM_PREFIX = '__CONTEXT_CLAIM__:'
+const CLAIM_FUNCTION = /\bcontext\.claim\(\s*'([A-Za-z0-9_.-]+)'\s*\)/g
+
+// The SQLite grammar of the parser does not support subqueries inside of expressions,
+// policy expressions are parsed with the PostgreSQL grammar instead which produces
+// nodes the SQLite statement can still be generated from.
+const EXPRESSION_DIALECTS: Record<string, string> = { sqlite: 'postgresql' }
 
 // Rules on how RLS policies should work
 // 1. If a table has _any_ rules applied to it, then each action needs to be explicitly defined or it should be automatically denied.
@@ -47,12 +108,110 @@ function normalizeIdentifier(name: string): string {
     return name
 }
 
-export async function loadPolicies(dataSource: DataSource): Promise<Policy[]> {
+// Name of a table without its schema, as tables are matched against policies
+function tableName(name: string): string {
+    const normalized = normalizeIdentifier(name)
+    return normalized?.includes('.') ? normalized.split('.')[1] : normalized
+}
+
+// Selects the policies of a role along with those applying to every role
+function roleCondition(role?: string): { condition: string; params: string[] } {
+    return role
+        ? { condition: '("role" IS NULL OR "role" = ?)', params: [role] }
+        : { condition: '"role" IS NULL', params: [] }
+}
+
+function getDialect(dataSource: DataSource): string {
+    return dataSource.source === 'external'
+        ? dataSource.external!.dialect
+        : 'sqlite'
+}
+
+function parseExpression(expression: string, dialect: string): any {
+    // Claims are bound as parameters once the policy is applied, see `bindClaims`
+    const condition = expression
+        .replace(/\b(?:auth\.sub|context\.id)\(\)/g, `'${CONTEXT_ID}'`)
+        .replace(CLAIM_FUNCTION, `'${CLAIM_PREFIX}$1'`)
+    const ast = parser.astify(`SELECT * FROM policy WHERE ${condition}`, {
+        database: EXPRESSION_DIALECTS[dialect] ?? dialect,
+    })
+
+    // Anything besides the condition would be dropped without notice, such as a
+    // trailing `UNION` or `ORDER BY`, so those expressions are rejected.
+    if (
+        Array.isArray(ast) ||
+        !ast.where ||
+        ast._next ||
+        ast.groupby ||
+        ast.having ||
+        ast.orderby ||
+        ast.limit?.value?.length
+    ) {
+        throw new Error(`Invalid RLS policy expression: ${expression}`)
+    }
+
+    return ast.where
+}
+
+/**
+ * Loads the policies of `tmp_rls_expression_policies`, whose conditions are SQL boolean
+ * expressions such as `org_id IN (SELECT org_id FROM memberships WHERE user_id = auth.sub())`.
+ * Unlike `loadPolicies` errors are not swallowed, a policy that cannot be loaded denies
+ * the query instead of leaving its table unprotected.
+ *
+ * @param dataSource - Data source the policies apply to.
+ * @param dialect - Dialect the expressions are parsed with.
+ * @param role - Role of the request, policies without a role apply to every role.
+ * @returns The policies with their parsed expressions.
+ */
+export async function loadExpressionPolicies(
+    dataSource: DataSource,
+    dialect: string,
+    role?: string
+): Promise<ExpressionPolicy[]> {
+    const { condition, params } = roleCondition(role)
+    const result = (await dataSource.rpc.executeQuery({
+        sql: `SELECT "actions", "table", "using_expression", "check_expression" FROM tmp_rls_expression_policies WHERE ("source" IS NULL OR "source" = ?) AND ${condition}`,
+        params: [getSourceName(dataSource), ...params],
+    })) as QueryResult[]
+
+    return (result ?? []).map((row: any) => {
+        const action = String(row.actions).toUpperCase()
+        const table = tableName(row.table)
+        const using = row.using_expression
+            ? parseExpression(row.using_expression, dialect)
+            : undefined
+        const check = row.check_expression
+            ? parseExpression(row.check_expression, dialect)
+            : undefined
+
+        // Following PostgreSQL, reads and deletes only see existing rows, inserts only
+        // write new rows and updates may use both.
+        if (
+            (action === 'INSERT' && (using || !check)) ||
+            (['SELECT', 'DELETE'].includes(action) && (check || !using))
+        ) {
+            throw new Error(
+                `Invalid RLS policy on table ${table}: ${action} policies require ${action === 'INSERT' ? 'only a check' : 'only a using'} expression.`
+            )
+        }
+
+        return { action, table, using, check }
+    })
+}
+
+export async function loadPolicies(
+    dataSource: DataSource,
+    role?: string
+): Promise<Policy[]> {
     try {
-        const statement =
-            'SELECT "actions", "schema", "table", "column", "value", "value_type", "operator" FROM tmp_rls_policies'
+        // Policies without a source apply to every data source, and those without a
+        // role to every role.
+        const { condition, params } = roleCondition(role)
+        const statement = `SELECT "actions", "schema", "table", "column", "value", "value_type", "operator" FROM tmp_rls_policies WHERE ("source" IS NULL OR "source" = ?) AND ${condition}`
         const result = (await dataSource.rpc.executeQuery({
             sql: statement,
+            params: [getSourceName(dataSource), ...params],
         })) as QueryResult[]
 
         if (!result || result.length === 0) {
@@ -90,10 +249,16 @@ export async function loadPolicies(dataSource: DataSource): Promise<Policy[]> {
             tableName = normalizeIdentifier(tableName)
             const columnName = normalizeIdentifier(row.column)
 
-            // If the policy value is context.id(), use a placeholder
+            // If the policy value is context.id() or context.claim('path'), use a placeholder
+            const claim = new RegExp(`^${CLAIM_FUNCTION.source}$`).exec(value)
             let rightNode
             if (value === 'context.id()') {
-                rightNode = { type: 'string', value: '__CONTEXT_ID__' }
+                rightNode = { type: 'string', value: CONTEXT_ID }
+            } else if (claim) {
+                rightNode = {
+                    type: 'string',
+                    value: `${CLAIM_PREFIX}${claim[1]}`,
+                }
             } else {
                 rightNode = { type: 'string', value: value }
             }
@@ -124,33 +289,122 @@ export async function loadPolicies(dataSource: DataSource): Promise<Policy[]> {
     }
 }
 
+// Parses a statement with the grammar of its dialect. Statements the SQLite grammar
+// rejects, such as upserts or subqueries over `json_each`, are parsed with the grammar
+// of policy expressions, its numbered placeholders turned back into `?` placeholders.
+function astify(sql: string, dialect: string): any {
+    try {
+        return parser.astify(sql, { database: dialect })
+    } catch (error) {
+        const fallback = EXPRESSION_DIALECTS[dialect]
+        if (!fallback) throw error
+
+        const toPositional = (node: any): any => {
+            if (Array.isArray(node)) return node.map(toPositional)
+            if (!node || typeof node !== 'object') return node
+            if (node.type === 'var' && node.prefix === '$') {
+                return { type: 'origin', value: '?' }
+            }
+
+            return Object.fromEntries(
+                Object.entries(node).map(([key, value]) => [
+                    key,
+                    toPositional(value),
+                ])
+            )
+        }
+
+        return toPositional(
+            parser.astify(toNumberedPlaceholders(sql), { database: fallback })
+        )
+    }
+}
+
+/**
+ * Parses a query for policies to be applied to. The `RETURNING` clause of a single
+ * statement, which the SQLite grammar rejects, is set aside to be appended to the
+ * rewritten statement, as it only picks what is returned of the rows it writes.
+ *
+ * @param sql - The query.
+ * @param dialect - Dialect of the data source.
+ * @returns The AST of the query and its `RETURNING` clause, if any.
+ */
+function parseQuery(
+    sql: string,
+    dialect: string
+): { ast: any; returning?: string } {
+    const masked = maskQuoted(sql).replace(/;\s*$/, '')
+    let returning: number | undefined
+
+    if (!masked.includes(';')) {
+        let depth = 0
+        for (let index = 0; index < masked.length; index++) {
+            if (masked[index] === '(') depth++
+            if (masked[index] === ')') depth--
+            if (
+                depth === 0 &&
+                /^RETURNING\b/i.test(masked.slice(index)) &&
+                !/\w/.test(masked[index - 1] ?? '')
+            ) {
+                returning = index
+            }
+        }
+    }
+
+    if (returning === undefined) {
+        return { ast: astify(sql, dialect) }
+    }
+
+    // Subqueries would read other tables without their policies applied
+    if (/\bSELECT\b/i.test(masked.slice(returning))) {
+        throw new RLSViolationError(
+            'Unauthorized access: RETURNING clauses with subqueries cannot be checked against the policies'
+        )
+    }
+
+    return {
+        ast: astify(sql.slice(0, returning), dialect),
+        returning: sql.slice(returning, masked.length).trim(),
+    }
+}
+
 export async function applyRLS(opts: {
     sql: string
     isEnabled: boolean
     dataSource: DataSource
     config: StarbaseDBConfiguration
-}): Promise<string> {
-    const { sql, isEnabled, dataSource, config } = opts
+    params?: QueryParams
+    executeCheck?: (query: {
+        sql: string
+        params?: QueryParams
+    }) => Promise<unknown[]>
+}): Promise<{ sql: string; params?: QueryParams }> {
+    const { sql, isEnabled, dataSource, config, params, executeCheck } = opts
 
-    if (!isEnabled) return sql
+    if (!isEnabled) return { sql, params }
     if (!sql) {
         throw Error('No SQL query found in RLS plugin.')
     }
 
     // Do not apply RLS rules to the admin user
     if (config.role === 'admin') {
-        return sql
+        return { sql, params }
     }
 
-    policies = await loadPolicies(dataSource)
+    const dialect = getDialect(dataSource)
 
-    const dialect =
-        dataSource.source === 'external'
-            ? dataSource.external!.dialect
-            : 'sqlite'
-
-    let context: Record<string, any> = dataSource?.context ?? {}
+    const state: RLSState = {
+        policies: await loadPolicies(dataSource, config.databaseRole),
+        expressionPolicies: await loadExpressionPolicies(
+            dataSource,
+            dialect,
+            config.databaseRole
+        ),
+        claims: { claims: dataSource?.context ?? {}, values: [] },
+        checks: [],
+    }
     let ast
+    let returning: string | undefined
     let modifiedSql
     const sqlifyOptions = {
         database: dialect,
@@ -163,14 +417,29 @@ export async function applyRLS(opts: {
     // begin applying our RLS policies by injecting items into the abstract syntax
     // tree which will later be converted back to an executable SQL statement.
     try {
-        ast = parser.astify(sql, { database: dialect })
+        ;({ ast, returning } = parseQuery(sql, dialect))
+
+        // Written values are checked before policies rewrite the statement, positional
+        // parameters are counted across every statement.
+        let position = 0
+        for (const singleAst of Array.isArray(ast) ? ast : [ast]) {
+            if (Array.isArray(params)) {
+                bindWrittenValues(singleAst, params, position, dialect)
+            }
+            enforceWritePolicies(singleAst, state, params)
+            enforceUpsertPolicies(singleAst, state, params)
+            position += countPlaceholders(singleAst)
+        }
+
         if (Array.isArray(ast)) {
-            ast.forEach((singleAst) => applyRLSToAst(singleAst))
+            ast.forEach((singleAst) => applyRLSToAst(singleAst, state))
         } else {
-            applyRLSToAst(ast)
+            applyRLSToAst(ast, state)
         }
     } catch (error) {
-        console.error('Error parsing SQL:', error)
+        if (!(error instanceof RLSViolationError)) {
+            console.error('Error parsing SQL:', error)
+        }
         throw error as Error
     }
 
@@ -186,171 +455,159 @@ export async function applyRLS(opts: {
         } else {
             modifiedSql = parser.sqlify(ast, sqlifyOptions)
         }
+
+        if (returning) modifiedSql += ` ${returning}`
     } catch (error) {
         console.error('Error generating SQL from AST:', error)
         throw error as Error
     }
 
-    // Replace placeholder with the user's ID properly quoted
-    if (context?.sub) {
-        modifiedSql = modifiedSql.replace(
-            /'__CONTEXT_ID__'/g,
-            `'${context.sub}'`
+    // Rows written by the statement are checked before it is executed, positional
+    // parameters are inlined into the checks so only named ones and claims are bound.
+    for (const check of state.checks) {
+        if (!executeCheck) {
+            throw new RLSViolationError(
+                `Unauthorized access: The ${check.action} policies of table ${check.table} cannot be checked`
+            )
+        }
+
+        const violations = await executeCheck(
+            bindClaimParameters(
+                parser.sqlify(check.ast, sqlifyOptions),
+                Array.isArray(params) ? undefined : params,
+                state.claims.values,
+                dialect
+            )
         )
+        if (violations.length > 0) {
+            throw new RLSViolationError(
+                `Unauthorized access: New rows of table ${check.table} violate its ${check.action} policies`
+            )
+        }
     }
 
-    return modifiedSql
+    // Claims used by the policies are bound as parameters of the statement
+    return bindClaimParameters(
+        modifiedSql,
+        params,
+        state.claims.values,
+        dialect
+    )
 }
 
-function applyRLSToAst(ast: any): void {
+function applyRLSToAst(ast: any, state: RLSState): void {
     if (!ast) return
 
     // Handle WITH (CTE) queries as arrays
     if (ast.with && Array.isArray(ast.with)) {
         for (const cte of ast.with) {
             if (cte.stmt) {
-                applyRLSToAst(cte.stmt)
+                applyRLSToAst(cte.stmt, state)
             }
         }
     }
 
     // Set operations
     if (['union', 'intersect', 'except'].includes(ast.type)) {
-        applyRLSToAst(ast.left)
-        applyRLSToAst(ast.right)
+        applyRLSToAst(ast.left, state)
+        applyRLSToAst(ast.right, state)
         return
     }
 
     // Subqueries in INSERT/UPDATE/DELETE
     if (ast.type === 'insert' && ast.from) {
-        applyRLSToAst(ast.from)
+        applyRLSToAst(ast.from, state)
     }
     if (ast.type === 'update' && ast.where) {
-        traverseWhere(ast.where)
+        traverseWhere(ast.where, state)
     }
     if (ast.type === 'delete' && ast.where) {
-        traverseWhere(ast.where)
+        traverseWhere(ast.where, state)
     }
 
     const tablesWithRules: Record<string, string[]> = {}
-    policies.forEach((policy) => {
+    state.policies.forEach((policy) => {
         const tbl = normalizeIdentifier(policy.condition.left.table)
         if (!tablesWithRules[tbl]) {
             tablesWithRules[tbl] = []
         }
         tablesWithRules[tbl].push(policy.action)
     })
+    state.expressionPolicies.forEach((policy) => {
+        if (!tablesWithRules[policy.table]) {
+            tablesWithRules[policy.table] = []
+        }
+        tablesWithRules[policy.table].push(policy.action)
+    })
 
     const statementType = ast.type?.toUpperCase()
     if (!['SELECT', 'UPDATE', 'DELETE', 'INSERT'].includes(statementType)) {
         return
     }
 
-    let tables: string[] = []
-    if (statementType === 'INSERT') {
-        let tableName = normalizeIdentifier(ast.table[0].table)
-        if (tableName.includes('.')) {
-            tableName = tableName.split('.')[1]
-        }
-        tables = [tableName]
-    } else if (statementType === 'UPDATE') {
-        tables = ast.table.map((tableRef: any) => {
-            let tableName = normalizeIdentifier(tableRef.table)
-            if (tableName.includes('.')) {
-                tableName = tableName.split('.')[1]
-            }
-            return tableName
-        })
-    } else {
-        // SELECT or DELETE
-        tables =
-            ast.from?.map((fromTable: any) => {
-                let tableName = normalizeIdentifier(fromTable.table)
-                if (tableName.includes('.')) {
-                    tableName = tableName.split('.')[1]
-                }
-                return tableName
-            }) || []
-    }
+    const tableRefs = getTableRefs(ast, statementType)
+    const tables = tableRefs.map((tableRef) => tableName(tableRef.table))
 
     const restrictedTables = Object.keys(tablesWithRules)
 
+    // An upsert also updates the rows it conflicts with, which MySQL's `ON DUPLICATE
+    // KEY UPDATE` offers no condition to restrict to the rows the policies allow.
+    const upsert = getUpsert(ast)
     for (const table of tables) {
         if (restrictedTables.includes(table)) {
             const allowedActions = tablesWithRules[table]
             if (!allowedActions.includes(statementType)) {
-                throw new Error(
+                throw new RLSViolationError(
                     `Unauthorized access: No matching rules for ${statementType} on restricted table ${table}`
                 )
             }
+            if (upsert && !allowedActions.includes('UPDATE')) {
+                throw new RLSViolationError(
+                    `Unauthorized access: No matching rules for UPDATE on restricted table ${table}`
+                )
+            }
+            if (statementType === 'INSERT' && ast.on_duplicate_update) {
+                throw new RLSViolationError(
+                    `Unauthorized access: ON DUPLICATE KEY UPDATE cannot be restricted by the policies of table ${table}`
+                )
+            }
         }
     }
 
-    policies
+    state.policies
         .filter(
             (policy) => policy.action === statementType || policy.action === '*'
         )
-        .forEach(({ action, condition }) => {
+        .forEach(({ condition }) => {
             const targetTable = normalizeIdentifier(condition.left.table)
             const isTargetTable = tables.includes(targetTable)
 
             if (!isTargetTable) return
 
-            if (action !== 'INSERT') {
-                // Add condition to WHERE with parentheses
-                if (ast.where) {
-                    ast.where = {
-                        type: 'binary_expr',
-                        operator: 'AND',
-                        parentheses: true,
-                        left: {
-                            ...ast.where,
-                            parentheses: true,
-                        },
-                        right: {
-                            ...condition,
-                            parentheses: true,
-                        },
-                    }
-                } else {
-                    ast.where = {
-                        ...condition,
-                        parentheses: true,
-                    }
-                }
-            } else {
-                // For INSERT, enforce column values
-                if (ast.values && ast.values.length > 0) {
-                    const columnIndex = ast.columns.findIndex(
-                        (col: any) =>
-                            normalizeIdentifier(col) ===
-                            normalizeIdentifier(condition.left.column)
-                    )
-                    if (columnIndex !== -1) {
-                        ast.values.forEach((valueList: any) => {
-                            if (
-                                valueList.type === 'expr_list' &&
-                                Array.isArray(valueList.value)
-                            ) {
-                                valueList.value[columnIndex] = {
-                                    type: condition.right.type,
-                                    value: condition.right.value,
-                                }
-                            } else {
-                                valueList[columnIndex] = {
-                                    type: condition.right.type,
-                                    value: condition.right.value,
-                                }
-                            }
-                        })
-                    }
-                }
+            // Inserted values are checked by `enforceWritePolicies`
+            if (statementType !== 'INSERT') {
+                andWhere(ast, bindCondition(condition, state.claims))
             }
         })
 
+    // Rows an upsert conflicts with are only updated when an UPDATE could update them
+    if (upsert) {
+        state.policies
+            .filter(
+                (policy) =>
+                    (policy.action === 'UPDATE' || policy.action === '*') &&
+                    tables.includes(
+                        normalizeIdentifier(policy.condition.left.table)
+                    )
+            )
+            .forEach(({ condition }) =>
+                andWhere(upsert, bindCondition(condition, state.claims))
+            )
+    }
+
     ast.from?.forEach((fromItem: any) => {
         if (fromItem.expr && fromItem.expr.type === 'select') {
-            applyRLSToAst(fromItem.expr)
+            applyRLSToAst(fromItem.expr, state)
         }
 
         // Handle both single join and array of joins
@@ -360,28 +617,993 @@ function applyRLSToAst(ast: any): void {
                 : [fromItem]
             joins.forEach((joinItem: any) => {
                 if (joinItem.expr && joinItem.expr.type === 'select') {
-                    applyRLSToAst(joinItem.expr)
+                    applyRLSToAst(joinItem.expr, state)
                 }
             })
         }
     })
 
     if (ast.where) {
-        traverseWhere(ast.where)
+        traverseWhere(ast.where, state)
     }
 
     ast.columns?.forEach((column: any) => {
         if (column.expr && column.expr.type === 'select') {
-            applyRLSToAst(column.expr)
+            applyRLSToAst(column.expr, state)
+        }
+    })
+
+    // Expression policies are applied last, so the subqueries they may contain are
+    // not traversed as part of the statement.
+    tableRefs.forEach((tableRef: any) =>
+        applyExpressionPolicies(ast, statementType, tableRef, state)
+    )
+    if (upsert) applyUpsertPolicies(ast, upsert, tableRefs[0], state)
+}
+
+// The update of an `INSERT ... ON CONFLICT DO UPDATE`, applied to the rows it conflicts with
+function getUpsert(ast: any): any {
+    const action = ast?.conflict?.action?.expr
+    return ast?.type === 'insert' && action?.type === 'update'
+        ? action
+        : undefined
+}
+
+// Replaces the `excluded` columns of an upsert, the values of the row it inserts
+function rewriteExcluded(node: any, replace: (column: string) => any): any {
+    if (Array.isArray(node)) {
+        return node.map((item) => rewriteExcluded(item, replace))
+    }
+    if (!node || typeof node !== 'object') return node
+
+    if (
+        node.type === 'column_ref' &&
+        node.table &&
+        normalizeIdentifier(node.table).toLowerCase() === 'excluded'
+    ) {
+        return replace(normalizeIdentifier(node.column))
+    }
+
+    return Object.fromEntries(
+        Object.entries(node).map(([key, value]) => [
+            key,
+            rewriteExcluded(value, replace),
+        ])
+    )
+}
+
+/**
+ * Applies the expression policies of the UPDATE action to the rows an upsert conflicts
+ * with. Rows failing the using expressions are left as they are, and rows updated to
+ * values failing the check expressions reject the statement, as for an UPDATE.
+ */
+function applyUpsertPolicies(
+    ast: any,
+    upsert: any,
+    tableRef: any,
+    state: RLSState
+): void {
+    const table = tableName(tableRef.table)
+    const matching = state.expressionPolicies.filter(
+        (policy) => policy.table === table && policy.action === 'UPDATE'
+    )
+    if (matching.length === 0) return
+
+    const qualify = (column: string) => ({
+        type: 'column_ref',
+        table: tableRef.as || tableRef.table,
+        column,
+    })
+
+    if (matching.every((policy) => policy.using)) {
+        andWhere(
+            upsert,
+            anyOf(
+                matching.map((policy) =>
+                    rewriteColumns(
+                        bindClaims(policy.using, state.claims),
+                        table,
+                        qualify
+                    )
+                )
+            )
+        )
+    }
+
+    // Conflicting rows are found by the conflict columns of each inserted row
+    const target = ast.conflict.target?.expr
+    if (
+        !Array.isArray(target) ||
+        !Array.isArray(ast.values) ||
+        !ast.columns?.length
+    ) {
+        throw new RLSViolationError(
+            `Unauthorized access: Only upserts with conflict columns, a column list and values can be checked against the policies of table ${table}`
+        )
+    }
+
+    const columns = ast.columns.map(normalizeIdentifier)
+    const values = new Map(
+        upsert.set.map((item: any) => [
+            normalizeIdentifier(item.column),
+            item.value,
+        ])
+    )
+
+    const failed = ast.values.map((valueList: any) => {
+        const row = valueList.type === 'expr_list' ? valueList.value : valueList
+        const inserted = (column: string) => {
+            const index = columns.indexOf(column)
+            if (index === -1) {
+                throw new RLSViolationError(
+                    `Unauthorized access: Upserts of table ${table} must insert column ${column} to be checked against its policies`
+                )
+            }
+            return checkedValue(row[index], table)
         }
+        const valueOf = (column: string) =>
+            values.has(column)
+                ? rewriteExcluded(
+                      checkedValue(values.get(column), table),
+                      inserted
+                  )
+                : qualify(column)
+
+        return [
+            ...target.map((ref: any) => ({
+                type: 'binary_expr',
+                operator: '=',
+                left: qualify(normalizeIdentifier(ref.column)),
+                right: inserted(normalizeIdentifier(ref.column)),
+            })),
+            ...(upsert.where
+                ? [rewriteExcluded(checkedValue(upsert.where, table), inserted)]
+                : []),
+            failedCheck(
+                anyOf(
+                    matching.map((policy) =>
+                        rewriteColumns(
+                            bindClaims(
+                                policy.check ?? policy.using,
+                                state.claims
+                            ),
+                            table,
+                            valueOf
+                        )
+                    )
+                )
+            ),
+        ]
+            .map((condition) => ({ ...condition, parentheses: true }))
+            .reduce((left, right) => ({
+                type: 'binary_expr',
+                operator: 'AND',
+                left,
+                right,
+            }))
     })
+
+    state.checks.push({
+        action: 'UPDATE',
+        table,
+        ast: violationsOf([tableRef], anyOf(failed)),
+    })
+}
+
+function getTableRefs(ast: any, statementType: string): any[] {
+    if (statementType === 'INSERT') return [ast.table[0]]
+    if (statementType === 'UPDATE') return ast.table
+
+    // SELECT or DELETE, subqueries in FROM are handled as statements of their own
+    return ast.from?.filter((fromTable: any) => fromTable.table) || []
+}
+
+// Add condition to WHERE with parentheses
+function andWhere(ast: any, condition: any): void {
+    if (ast.where) {
+        ast.where = {
+            type: 'binary_expr',
+            operator: 'AND',
+            parentheses: true,
+            left: {
+                ...ast.where,
+                parentheses: true,
+            },
+            right: {
+                ...condition,
+                parentheses: true,
+            },
+        }
+    } else {
+        ast.where = {
+            ...condition,
+            parentheses: true,
+        }
+    }
+}
+
+// Policies of a table and action are permissive, a row passes when any of them allows it
+function anyOf(conditions: any[]): any {
+    return conditions
+        .map((condition) => ({ ...condition, parentheses: true }))
+        .reduce((left, right) => ({
+            type: 'binary_expr',
+            operator: 'OR',
+            left,
+            right,
+        }))
+}
+
+/**
+ * Copies a policy expression, replacing the columns of its table. Unqualified columns
+ * refer to the table outside of subqueries, within subqueries only columns qualified
+ * with the name of the table do.
+ */
+function rewriteColumns(
+    node: any,
+    table: string,
+    replace: (column: string) => any,
+    isSubquery = false
+): any {
+    if (Array.isArray(node)) {
+        return node.map((item) =>
+            rewriteColumns(item, table, replace, isSubquery)
+        )
+    }
+    if (!node || typeof node !== 'object') return node
+
+    if (node.type === 'column_ref' && node.column !== '*') {
+        const isTableColumn = node.table
+            ? tableName(node.table) === table
+            : !isSubquery
+        return isTableColumn
+            ? replace(normalizeIdentifier(node.column))
+            : { ...node }
+    }
+
+    const nested = isSubquery || node.type === 'select' || 'ast' in node
+    return Object.fromEntries(
+        Object.entries(node).map(([key, value]) => [
+            key,
+            rewriteColumns(value, table, replace, nested),
+        ])
+    )
+}
+
+function applyExpressionPolicies(
+    ast: any,
+    statementType: string,
+    tableRef: any,
+    state: RLSState
+): void {
+    const table = tableName(tableRef.table)
+    const matching = state.expressionPolicies.filter(
+        (policy) => policy.table === table && policy.action === statementType
+    )
+    if (matching.length === 0) return
+
+    // Columns are qualified with the alias the statement gave the table, if any
+    const qualify = (column: string) => ({
+        type: 'column_ref',
+        table: tableRef.as || tableRef.table,
+        column,
+    })
+
+    if (statementType === 'INSERT') {
+        if (!Array.isArray(ast.values) || !ast.columns?.length) {
+            throw new RLSViolationError(
+                `Unauthorized access: Only INSERT statements with a column list and values can be checked against the policies of table ${table}`
+            )
+        }
+
+        const columns = ast.columns.map(normalizeIdentifier)
+        const failed = ast.values.map((valueList: any) => {
+            const row =
+                valueList.type === 'expr_list' ? valueList.value : valueList
+            const valueOf = (column: string) => {
+                const index = columns.indexOf(column)
+                return index === -1
+                    ? { type: 'null', value: null }
+                    : checkedValue(row[index], table)
+            }
+
+            return failedCheck(
+                anyOf(
+                    matching.map((policy) =>
+                        rewriteColumns(
+                            bindClaims(policy.check, state.claims),
+                            table,
+                            valueOf
+                        )
+                    )
+                )
+            )
+        })
+
+        state.checks.push({
+            action: statementType,
+            table,
+            ast: violationsOf(null, anyOf(failed)),
+        })
+        return
+    }
+
+    // A policy without a using expression lets the statement see every row
+    if (matching.every((policy) => policy.using)) {
+        andWhere(
+            ast,
+            anyOf(
+                matching.map((policy) =>
+                    rewriteColumns(
+                        bindClaims(policy.using, state.claims),
+                        table,
+                        qualify
+                    )
+                )
+            )
+        )
+    }
+
+    if (statementType === 'UPDATE') {
+        // Rows are checked with the values they are updated to, an update without a
+        // check expression checks its using expression instead.
+        const values = new Map(
+            ast.set.map((item: any) => [
+                normalizeIdentifier(item.column),
+                item.value,
+            ])
+        )
+        const valueOf = (column: string) =>
+            values.has(column)
+                ? checkedValue(values.get(column), table)
+                : qualify(column)
+
+        const rows = violationsOf(
+            [...ast.table, ...(ast.from ?? [])],
+            ast.where ? checkedValue(ast.where, table) : null
+        )
+        andWhere(
+            rows,
+            failedCheck(
+                anyOf(
+                    matching.map((policy) =>
+                        rewriteColumns(
+                            bindClaims(
+                                policy.check ?? policy.using,
+                                state.claims
+                            ),
+                            table,
+                            valueOf
+                        )
+                    )
+                )
+            )
+        )
+        state.checks.push({ action: statementType, table, ast: rows })
+    }
 }
 
-function traverseWhere(node: any): void {
+// True for rows failing a check, which includes checks evaluating to NULL
+function failedCheck(check: any): any {
+    return {
+        type: 'binary_expr',
+        operator: '=',
+        left: {
+            type: 'case',
+            expr: null,
+            args: [
+                {
+                    type: 'when',
+                    cond: { ...check, parentheses: true },
+                    result: { type: 'number', value: 0 },
+                },
+                { type: 'else', result: { type: 'number', value: 1 } },
+            ],
+        },
+        right: { type: 'number', value: 1 },
+    }
+}
+
+// A statement returning a row when any of the given rows fails, see `WriteCheck`
+function violationsOf(from: any[] | null, where: any): any {
+    return {
+        with: null,
+        type: 'select',
+        options: null,
+        distinct: null,
+        columns: [{ expr: { type: 'number', value: 1 }, as: 'violation' }],
+        from,
+        where: where && { ...where, parentheses: true },
+        groupby: null,
+        having: null,
+        orderby: null,
+        limit: { seperator: '', value: [{ type: 'number', value: 1 }] },
+    }
+}
+
+function traverseWhere(node: any, state: RLSState): void {
     if (!node) return
     if (node.type === 'select') {
-        applyRLSToAst(node)
+        applyRLSToAst(node, state)
+    }
+    if (node.left) traverseWhere(node.left, state)
+    if (node.right) traverseWhere(node.right, state)
+}
+
+function countPlaceholders(node: any): number {
+    if (Array.isArray(node)) {
+        return node.reduce((count, item) => count + countPlaceholders(item), 0)
+    }
+    if (!node || typeof node !== 'object') return 0
+    if (node.type === 'origin' && node.value === '?') return 1
+
+    return Object.values(node).reduce(
+        (count: number, value) => count + countPlaceholders(value),
+        0
+    )
+}
+
+function toLiteral(value: unknown, dialect: string): any {
+    if (value === null || value === undefined) {
+        return { type: 'null', value: null }
+    }
+    if (typeof value === 'boolean') return { type: 'bool', value }
+    if (typeof value === 'number' && Number.isFinite(value)) {
+        return { type: 'number', value }
+    }
+    if (typeof value !== 'string') return undefined
+
+    // The parser writes string literals as they are, without escaping them. MySQL
+    // also treats backslashes as escape characters.
+    let escaped = value.replace(/'/g, "''")
+    if (dialect === 'mysql') escaped = escaped.replace(/\\/g, '\\\\')
+    return { type: 'single_quote_string', value: escaped }
+}
+
+/**
+ * Attaches the values of positional parameters to the `?` placeholders of the values
+ * an INSERT or UPDATE writes and of the rows an UPDATE selects, see `BoundParameter`.
+ *
+ * @param ast - The statement.
+ * @param params - Positional parameters of the whole query.
+ * @param position - Number of positional parameters used by preceding statements.
+ * @param dialect - Dialect the literals of the values are written in.
+ */
+function bindWrittenValues(
+    ast: any,
+    params: unknown[],
+    position: number,
+    dialect: string
+): void {
+    const statementType = ast?.type?.toUpperCase()
+
+    // Placeholders in a WITH clause precede the values of the statement
+    let index = position + countPlaceholders(ast?.with)
+
+    const bind = (node: any): void => {
+        if (Array.isArray(node)) return node.forEach(bind)
+        if (!node || typeof node !== 'object') return
+
+        if (node.type === 'origin' && node.value === '?') {
+            const value = params[index++]
+            node.bound = { value, literal: toLiteral(value, dialect) }
+            return
+        }
+
+        Object.values(node).forEach(bind)
+    }
+
+    if (statementType === 'INSERT' && Array.isArray(ast.values)) {
+        bind(ast.values)
+        bind(ast.conflict)
+    } else if (statementType === 'UPDATE') {
+        ast.set.forEach((item: any) => bind(item.value))
+        bind(ast.from)
+        bind(ast.where)
+    }
+}
+
+// Value of a literal or a parameter, `undefined` when it is only known once executed
+function resolveValue(node: any, params: QueryParams | undefined): unknown {
+    switch (node?.type) {
+        case 'number':
+        case 'bool':
+        case 'string':
+        case 'single_quote_string':
+            return node.value
+        case 'null':
+            return null
+        case 'origin':
+            return (node.bound as BoundParameter | undefined)?.value
+        case 'param':
+            return params && !Array.isArray(params)
+                ? params[node.value]
+                : undefined
+        default:
+            return undefined
+    }
+}
+
+// A copy of part of the statement used within a check, which is a statement of its own
+// so the values of positional parameters are inlined as literals.
+function checkedValue(node: any, table: string): any {
+    if (Array.isArray(node))
+        return node.map((item) => checkedValue(item, table))
+    if (!node || typeof node !== 'object') return node
+
+    if (node.type === 'origin' && node.value === '?') {
+        const literal = (node.bound as BoundParameter | undefined)?.literal
+        if (literal) return { ...literal }
+
+        throw new RLSViolationError(
+            `Unauthorized access: Values written to table ${table} must be literals or parameters to be checked against its policies`
+        )
+    }
+
+    return Object.fromEntries(
+        Object.entries(node).map(([key, value]) => [
+            key,
+            checkedValue(value, table),
+        ])
+    )
+}
+
+function satisfiesPolicy(
+    value: unknown,
+    operator: string,
+    expected: unknown
+): boolean | undefined {
+    // Comparisons with NULL are never true, neither are those with a missing claim
+    if (value === null || !isClaimValue(expected)) return false
+
+    // An array claim is a list of values, such as `groups`
+    if (Array.isArray(expected)) {
+        const found = expected.some((item) => satisfiesPolicy(value, '=', item))
+        switch (operator.toUpperCase()) {
+            case 'IN':
+                return found
+            case 'NOT IN':
+                return !found
+            default:
+                return false
+        }
+    }
+
+    // Booleans are stored as 1 and 0
+    const actual = typeof value === 'boolean' ? Number(value) : value
+    const [left, right] =
+        typeof expected === 'number'
+            ? [Number(actual), expected]
+            : [String(actual), String(expected)]
+
+    switch (operator.toUpperCase()) {
+        case '=':
+        case '==':
+        case 'IN':
+            return left === right
+        case '!=':
+        case '<>':
+            return left !== right
+        case '<':
+            return left < right
+        case '<=':
+            return left <= right
+        case '>':
+            return left > right
+        case '>=':
+            return left >= right
+        default:
+            return undefined
+    }
+}
+
+/**
+ * Checks the rows an INSERT or UPDATE writes against the column policies of its
+ * table, so callers cannot write rows they would not be allowed to read back. Values
+ * must be literals or parameters. An INSERT leaving out the column of an `=` policy
+ * has the column set to the value of the policy.
+ *
+ * @param ast - The statement, before policies are applied to it.
+ * @param state - Policies of the request and its claims.
+ * @param params - Parameters of the statement.
+ */
+function enforceWritePolicies(
+    ast: any,
+    state: RLSState,
+    params?: QueryParams
+): void {
+    const statementType = ast?.type?.toUpperCase()
+    if (statementType !== 'INSERT' && statementType !== 'UPDATE') return
+
+    const tables = getTableRefs(ast, statementType).map((tableRef) =>
+        tableName(tableRef.table)
+    )
+    const applicable = state.policies.filter(
+        (policy) =>
+            (policy.action === statementType || policy.action === '*') &&
+            tables.includes(normalizeIdentifier(policy.condition.left.table))
+    )
+    if (applicable.length === 0) return
+
+    for (const { condition } of applicable) {
+        const table = normalizeIdentifier(condition.left.table)
+        const column = normalizeIdentifier(condition.left.column)
+        const path = getClaimPath(condition.right)
+        const expected =
+            path === undefined
+                ? condition.right.value
+                : getClaim(path, state.claims)
+
+        const violation = () =>
+            new RLSViolationError(
+                `Unauthorized access: New rows of table ${table} violate its ${statementType} policy on column ${column}`
+            )
+
+        // Every value written to the column of the policy
+        const written: any[] = []
+
+        if (statementType === 'INSERT') {
+            const columns: string[] | undefined =
+                ast.columns?.map(normalizeIdentifier)
+            if (!Array.isArray(ast.values) || !columns) {
+                throw new RLSViolationError(
+                    `Unauthorized access: Only INSERT statements with a column list and values can be checked against the policies of table ${table}`
+                )
+            }
+
+            const rows = ast.values.map((valueList: any) =>
+                valueList.type === 'expr_list' ? valueList.value : valueList
+            )
+            const index = columns.indexOf(column)
+
+            if (index === -1 && condition.operator === '=') {
+                if (!isClaimValue(expected) || Array.isArray(expected)) {
+                    throw violation()
+                }
+
+                ast.columns.push(column)
+                rows.forEach((row: any[]) =>
+                    row.push(
+                        path === undefined
+                            ? { ...condition.right }
+                            : bindClaimValue(expected, state.claims)
+                    )
+                )
+                continue
+            }
+
+            // A left out column is checked as NULL, its default is not known here
+            rows.forEach((row: any[]) =>
+                written.push(index === -1 ? { type: 'null' } : row[index])
+            )
+        } else {
+            ast.set
+                .filter(
+                    (item: any) => normalizeIdentifier(item.column) === column
+                )
+                .forEach((item: any) => written.push(item.value))
+        }
+
+        checkWrittenValues(written, condition, expected, statementType, params)
+    }
+}
+
+/**
+ * Checks the values an upsert updates the rows it conflicts with to against the column
+ * policies of the UPDATE action, as `enforceWritePolicies` does for an UPDATE. Columns
+ * of `excluded` are the values of the rows the statement inserts.
+ *
+ * @param ast - The statement, after `enforceWritePolicies` filled in its columns.
+ * @param state - Policies of the request and its claims.
+ * @param params - Parameters of the statement.
+ */
+function enforceUpsertPolicies(
+    ast: any,
+    state: RLSState,
+    params?: QueryParams
+): void {
+    const upsert = getUpsert(ast)
+    if (!upsert) return
+
+    const table = tableName(ast.table[0].table)
+    const applicable = state.policies.filter(
+        (policy) =>
+            (policy.action === 'UPDATE' || policy.action === '*') &&
+            normalizeIdentifier(policy.condition.left.table) === table
+    )
+    if (applicable.length === 0) return
+
+    const columns: string[] = (ast.columns ?? []).map(normalizeIdentifier)
+    const rows = Array.isArray(ast.values)
+        ? ast.values.map((valueList: any) =>
+              valueList.type === 'expr_list' ? valueList.value : valueList
+          )
+        : []
+
+    for (const { condition } of applicable) {
+        const column = normalizeIdentifier(condition.left.column)
+        const path = getClaimPath(condition.right)
+        const expected =
+            path === undefined
+                ? condition.right.value
+                : getClaim(path, state.claims)
+
+        // Every value written to the column of the policy, a left out column is
+        // checked as NULL
+        const written: any[] = []
+        for (const item of upsert.set) {
+            if (normalizeIdentifier(item.column) !== column) continue
+
+            const { value } = item
+            const isExcluded =
+                value?.type === 'column_ref' &&
+                normalizeIdentifier(value.table ?? '').toLowerCase() ===
+                    'excluded'
+            if (!isExcluded) {
+                written.push(value)
+                continue
+            }
+
+            const index = columns.indexOf(normalizeIdentifier(value.column))
+            rows.forEach((row: any[]) =>
+                written.push(index === -1 ? { type: 'null' } : row[index])
+            )
+        }
+
+        checkWrittenValues(written, condition, expected, 'UPDATE', params)
+    }
+}
+
+// Checks the values written to the column of a policy, which must be literals or parameters
+function checkWrittenValues(
+    written: any[],
+    condition: Policy['condition'],
+    expected: unknown,
+    statementType: string,
+    params?: QueryParams
+): void {
+    const table = normalizeIdentifier(condition.left.table)
+    const column = normalizeIdentifier(condition.left.column)
+
+    for (const node of written) {
+        const value = resolveValue(node, params)
+        if (value === undefined) {
+            throw new RLSViolationError(
+                `Unauthorized access: The value of column ${column} in table ${table} must be a literal or a parameter to be checked against its ${statementType} policy`
+            )
+        }
+
+        const satisfied = satisfiesPolicy(value, condition.operator, expected)
+        if (satisfied === undefined) {
+            throw new RLSViolationError(
+                `Unauthorized access: The ${condition.operator} operator of the ${statementType} policy on table ${table} cannot be checked against written rows`
+            )
+        }
+        if (!satisfied) {
+            throw new RLSViolationError(
+                `Unauthorized access: New rows of table ${table} violate its ${statementType} policy on column ${column}`
+            )
+        }
+    }
+}
+
+function getClaimPath(node: any): string | undefined {
+    if (typeof node?.value !== 'string') return undefined
+    if (node.value === CONTEXT_ID) return 'sub'
+    return node.value.startsWith(CLAIM_PREFIX)
+        ? node.value.slice(CLAIM_PREFIX.length)
+        : undefined
+}
+
+// Claim of the request at a path such as `org.id`, `undefined` when it is missing
+function getClaim(path: string, binding: ClaimBinding): unknown {
+    return path
+        .split('.')
+        .reduce<unknown>(
+            (value, key) =>
+                value &&
+                typeof value === 'object' &&
+                Object.prototype.hasOwnProperty.call(value, key)
+                    ? (value as Record<string, unknown>)[key]
+                    : undefined,
+            binding.claims
+        )
+}
+
+// Only scalars and non-empty arrays of scalars can be bound, anything else denies
+function isClaimValue(value: unknown): boolean {
+    if (Array.isArray(value)) {
+        return (
+            value.length > 0 &&
+            value.every((item) => isClaimValue(item) && !Array.isArray(item))
+        )
+    }
+    return (
+        typeof value === 'string' ||
+        typeof value === 'boolean' ||
+        (typeof value === 'number' && Number.isFinite(value))
+    )
+}
+
+function bindClaimValue(value: unknown, binding: ClaimBinding): any {
+    binding.values.push(value)
+    return {
+        type: 'param',
+        value: `__rls_claim_${binding.values.length - 1}`,
+    }
+}
+
+// A condition no row satisfies
+function denyAll(): any {
+    return {
+        type: 'binary_expr',
+        operator: '=',
+        left: { type: 'number', value: 1 },
+        right: { type: 'number', value: 0 },
+    }
+}
+
+/**
+ * Replaces the claims a policy expression refers to with parameters. Array claims are
+ * expanded within `IN (...)` lists. An expression using a claim the request does not
+ * have, or an array claim outside of a list, denies every row.
+ *
+ * @param expression - The parsed policy expression.
+ * @param binding - Claims of the request, receiving the values that are bound.
+ * @returns A copy of the expression with its claims bound.
+ */
+function bindClaims(expression: any, binding: ClaimBinding): any {
+    let isDenied = false
+
+    const bindValue = (node: any, inList: boolean): any[] => {
+        const value = getClaim(getClaimPath(node)!, binding)
+        if (!isClaimValue(value) || (Array.isArray(value) && !inList)) {
+            isDenied = true
+            return [node]
+        }
+        return (Array.isArray(value) ? value : [value]).map((item) =>
+            bindClaimValue(item, binding)
+        )
+    }
+
+    const bind = (node: any): any => {
+        if (Array.isArray(node)) return node.map(bind)
+        if (!node || typeof node !== 'object') return node
+
+        if (node.type === 'expr_list' && Array.isArray(node.value)) {
+            return {
+                ...node,
+                value: node.value.flatMap((item: any) =>
+                    getClaimPath(item) === undefined
+                        ? [bind(item)]
+                        : bindValue(item, true)
+                ),
+            }
+        }
+        if (getClaimPath(node) !== undefined) return bindValue(node, false)[0]
+
+        return Object.fromEntries(
+            Object.entries(node).map(([key, value]) => [key, bind(value)])
+        )
     }
-    if (node.left) traverseWhere(node.left)
-    if (node.right) traverseWhere(node.right)
+
+    const bound = bind(expression)
+    return isDenied ? denyAll() : bound
+}
+
+// The condition of a column policy with its claim bound, `IN` compares with a list
+function bindCondition(
+    condition: Policy['condition'],
+    binding: ClaimBinding
+): any {
+    if (getClaimPath(condition.right) === undefined) return condition
+
+    const isList = ['IN', 'NOT IN'].includes(condition.operator.toUpperCase())
+    return bindClaims(
+        {
+            ...condition,
+            right: isList
+                ? { type: 'expr_list', value: [condition.right] }
+                : condition.right,
+        },
+        binding
+    )
+}
+
+/**
+ * Binds the values of claims to their `:__rls_claim_<index>` placeholders in the
+ * generated statement, in the parameter style of the query. Object parameters gain a
+ * key for each claim, positional parameters are interleaved in the order placeholders
+ * appear, and on Postgres claims are numbered after the parameters of the query.
+ *
+ * @param sql - The statement generated with policies applied.
+ * @param params - Parameters of the query.
+ * @param values - Values of the claims by their index.
+ * @param dialect - Dialect of the statement.
+ * @returns The statement and its parameters.
+ */
+function bindClaimParameters(
+    sql: string,
+    params: QueryParams | undefined,
+    values: unknown[],
+    dialect: string
+): { sql: string; params?: QueryParams } {
+    if (values.length === 0) return { sql, params }
+
+    if (params && !Array.isArray(params)) {
+        return {
+            sql,
+            params: {
+                ...params,
+                ...Object.fromEntries(
+                    values.map((value, index) => [
+                        `__rls_claim_${index}`,
+                        value,
+                    ])
+                ),
+            },
+        }
+    }
+
+    const positional = params ?? []
+    const bound: unknown[] = []
+    const numbered = new Map<string, number>()
+    let position = 0
+    let result = ''
+    let index = 0
+
+    while (index < sql.length) {
+        const char = sql[index]
+
+        // Copy string literals and quoted identifiers as they are, MySQL escapes
+        // quotes within strings with a backslash.
+        if (char === "'" || char === '"' || char === '`') {
+            let end = index + 1
+            while (end < sql.length && sql[end] !== char) {
+                end += dialect === 'mysql' && sql[end] === '\\' ? 2 : 1
+            }
+            result += sql.slice(index, end + 1)
+            index = end + 1
+            continue
+        }
+
+        const claim = /^:__rls_claim_(\d+)/.exec(sql.slice(index))
+        if (char === ':' && claim) {
+            if (dialect === 'postgresql') {
+                if (!numbered.has(claim[1])) {
+                    numbered.set(
+                        claim[1],
+                        positional.length + numbered.size + 1
+                    )
+                }
+                result += `$${numbered.get(claim[1])}`
+            } else {
+                bound.push(values[Number(claim[1])])
+                result += '?'
+            }
+            index += claim[0].length
+            continue
+        }
+
+        if (char === '?' && dialect !== 'postgresql') {
+            bound.push(positional[position++])
+        }
+
+        result += char
+        index++
+    }
+
+    if (dialect === 'postgresql') {
+        return {
+            sql: result,
+            params: [
+                ...positional,
+                ...Array.from(numbered.keys()).map(
+                    (key) => values[Number(key)]
+                ),
+            ],
+        }
+    }
+
+    return { sql: result, params: [...bound, ...positional.slice(position)] }
 }
@@ -0,0 +1,318 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import {
+    buildMatchExpression,
+    buildSearchIndexStatements,
+    createSearchIndexRoute,
+    dropSearchIndexRoute,
+    searchRoute,
+} from './index'
+import { executeQuery, executeTransaction } from '../operation'
+import { applyRLS } from '../rls'
+import type { DataSource } from '../types'
+import type { StarbaseDBConfiguration } from '../handler'
+
+vi.mock('../operation', () => ({
+    executeQuery: vi.fn(),
+    executeTransaction: vi.fn(),
+}))
+
+const config: StarbaseDBConfiguration = { role: 'admin' }
+
+const internal = { source: 'internal' } as unknown as DataSource
+
+const postgres = {
+    source: 'external',
+    external: { dialect: 'postgresql' },
+} as unknown as DataSource
+
+// Columns of `posts` and, once indexed, of its search index
+function mockColumns(indexed: boolean) {
+    vi.mocked(executeQuery).mockImplementation(async ({ sql }) => {
+        if (sql === 'PRAGMA table_info(posts)') {
+            return [{ name: 'id' }, { name: 'title' }, { name: 'body' }]
+        }
+
+        if (sql === 'PRAGMA table_info(tmp_fts_posts)') {
+            return indexed ? [{ name: 'title' }, { name: 'body' }] : []
+        }
+
+        return []
+    })
+}
+
+function createIndexRequest(body: unknown) {
+    return new Request('http://localhost/admin/search', {
+        method: 'POST',
+        body: JSON.stringify(body),
+    })
+}
+
+beforeEach(() => {
+    vi.clearAllMocks()
+})
+
+describe('Search - buildSearchIndexStatements', () => {
+    it('should create the index, the triggers keeping it in sync and fill it', () => {
+        expect(
+            buildSearchIndexStatements({
+                table: 'posts',
+                columns: ['title', 'body'],
+                tokenize: 'porter unicode61',
+            })
+        ).toEqual([
+            "CREATE VIRTUAL TABLE tmp_fts_posts USING fts5(title, body, content='posts', content_rowid='rowid', tokenize='porter unicode61')",
+            'CREATE TRIGGER tmp_fts_posts_insert AFTER INSERT ON posts BEGIN INSERT INTO tmp_fts_posts (rowid, title, body) VALUES (new.rowid, new.title, new.body); END',
+            "CREATE TRIGGER tmp_fts_posts_delete AFTER DELETE ON posts BEGIN INSERT INTO tmp_fts_posts (tmp_fts_posts, rowid, title, body) VALUES ('delete', old.rowid, old.title, old.body); END",
+            "CREATE TRIGGER tmp_fts_posts_update AFTER UPDATE ON posts BEGIN INSERT INTO tmp_fts_posts (tmp_fts_posts, rowid, title, body) VALUES ('delete', old.rowid, old.title, old.body); INSERT INTO tmp_fts_posts (rowid, title, body) VALUES (new.rowid, new.title, new.body); END",
+            "INSERT INTO tmp_fts_posts (tmp_fts_posts) VALUES ('rebuild')",
+        ])
+    })
+})
+
+describe('Search - buildMatchExpression', () => {
+    it('should quote every term', () => {
+        expect(buildMatchExpression('  quick "brown" fox* ')).toBe(
+            '"quick" """brown""" "fox*"'
+        )
+    })
+})
+
+describe('Search - createSearchIndexRoute', () => {
+    it('should create the index in a single transaction', async () => {
+        mockColumns(false)
+
+        const response = await createSearchIndexRoute(
+            createIndexRequest({ table: 'posts', columns: ['title', 'body'] }),
+            internal,
+            config
+        )
+
+        expect(response.status).toBe(201)
+        expect(vi.mocked(executeTransaction)).toHaveBeenCalledTimes(1)
+        expect(
+            vi.mocked(executeTransaction).mock.calls[0][0].queries
+        ).toHaveLength(5)
+    })
+
+    it('should reject unknown columns and invalid names', async () => {
+        mockColumns(false)
+
+        const unknown = await createSearchIndexRoute(
+            createIndexRequest({ table: 'posts', columns: ['summary'] }),
+            internal,
+            config
+        )
+        const invalid = await createSearchIndexRoute(
+            createIndexRequest({ table: 'posts; --', columns: ['title'] }),
+            internal,
+            config
+        )
+
+        expect(unknown.status).toBe(400)
+        expect(((await unknown.json()) as any).error).toBe(
+            "Column 'summary' does not exist on table 'posts'."
+        )
+        expect(invalid.status).toBe(400)
+        expect(executeTransaction).not.toHaveBeenCalled()
+    })
+
+    it('should refuse to index a table twice', async () => {
+        mockColumns(true)
+
+        const response = await createSearchIndexRoute(
+            createIndexRequest({ table: 'posts', columns: ['title'] }),
+            internal,
+            config
+        )
+
+        expect(response.status).toBe(409)
+    })
+
+    it('should require a SQLite data source', async () => {
+        const response = await createSearchIndexRoute(
+            createIndexRequest({ table: 'posts', columns: ['title'] }),
+            postgres,
+            config
+        )
+
+        expect(response.status).toBe(400)
+        expect(executeQuery).not.toHaveBeenCalled()
+    })
+})
+
+describe('Search - dropSearchIndexRoute', () => {
+    it('should drop the triggers and the index', async () => {
+        mockColumns(true)
+
+        const response = await dropSearchIndexRoute('posts', internal, config)
+
+        expect(response.status).toBe(200)
+        expect(
+            vi
+                .mocked(executeTransaction)
+                .mock.calls[0][0].queries.map((query) => query.sql)
+        ).toEqual([
+            'DROP TRIGGER IF EXISTS tmp_fts_posts_insert',
+            'DROP TRIGGER IF EXISTS tmp_fts_posts_delete',
+            'DROP TRIGGER IF EXISTS tmp_fts_posts_update',
+            'DROP TABLE tmp_fts_posts',
+        ])
+    })
+
+    it('should return 404 without an index', async () => {
+        mockColumns(false)
+
+        const response = await dropSearchIndexRoute('posts', internal, config)
+
+        expect(response.status).toBe(404)
+    })
+})
+
+describe('Search - searchRoute', () => {
+    it('should return ranked matches with snippets', async () => {
+        mockColumns(true)
+        vi.mocked(executeQuery).mockImplementation(async ({ sql }) =>
+            sql.startsWith('PRAGMA')
+                ? [{ name: 'title' }]
+                : [
+                      {
+                          id: 3,
+                          title: 'Foxes',
+                          __rank: -0.7,
+                          __snippet: '<mark>Foxes</mark>',
+                      },
+                  ]
+        )
+
+        const response = await searchRoute(
+            'posts',
+            new Request('http://localhost/search/posts?q=foxes&limit=5'),
+            internal,
+            config
+        )
+
+        expect(response.status).toBe(200)
+        expect(((await response.json()) as any).result).toEqual([
+            {
+                rank: -0.7,
+                snippet: '<mark>Foxes</mark>',
+                row: { id: 3, title: 'Foxes' },
+            },
+        ])
+
+        const search = vi.mocked(executeQuery).mock.calls[1][0]
+        expect(search.sql).toContain('WHERE tmp_fts_posts = ?')
+        expect(search.params).toEqual(['"foxes"', 5, 0])
+    })
+
+    it('should search with policies of row level security applied', async () => {
+        mockColumns(true)
+        await searchRoute(
+            'posts',
+            new Request('http://localhost/search/posts?q=foxes'),
+            internal,
+            config
+        )
+        const search = vi.mocked(executeQuery).mock.calls[1][0]
+
+        const { sql, params } = await applyRLS({
+            sql: search.sql,
+            params: search.params,
+            isEnabled: true,
+            dataSource: {
+                source: 'internal',
+                context: { sub: 'user123' },
+                rpc: {
+                    executeQuery: vi.fn(async ({ sql }) =>
+                        sql.includes('tmp_rls_expression_policies')
+                            ? []
+                            : [
+                                  {
+                                      actions: 'SELECT',
+                                      table: 'posts',
+                                      column: 'author',
+                                      value: 'context.id()',
+                                      value_type: 'string',
+                                      operator: '=',
+                                  },
+                              ]
+                    ),
+                },
+            } as unknown as DataSource,
+            config: { role: 'client', features: { rls: true } },
+        })
+
+        expect(sql).toContain(
+            'WHERE ((`tmp_fts_posts` = ?) AND (`posts`.`author` = ?))'
+        )
+        expect(params).toEqual(['"foxes"', 'user123', 20, 0])
+    })
+
+    it('should report invalid raw queries as a bad request', async () => {
+        vi.mocked(executeQuery).mockImplementation(async ({ sql }) => {
+            if (sql.startsWith('PRAGMA')) return [{ name: 'title' }]
+            throw new Error('fts5: syntax error near "AND"')
+        })
+
+        const response = await searchRoute(
+            'posts',
+            new Request('http://localhost/search/posts?match=fox%20AND'),
+            internal,
+            config
+        )
+
+        expect(response.status).toBe(400)
+        expect(((await response.json()) as any).error).toBe(
+            'Invalid search query: fox AND'
+        )
+    })
+
+    it('should refuse to search indexes covering masked columns', async () => {
+        mockColumns(true)
+        const dataSource = {
+            source: 'internal',
+            rpc: {
+                executeQuery: vi
+                    .fn()
+                    .mockResolvedValue([
+                        { table: 'posts', column: 'body', mask: 'hash' },
+                    ]),
+            },
+        } as unknown as DataSource
+
+        const response = await searchRoute(
+            'posts',
+            new Request('http://localhost/search/posts?match=body:secret*'),
+            dataSource,
+            { role: 'client', features: { masking: true } }
+        )
+
+        expect(response.status).toBe(403)
+        expect(((await response.json()) as any).error).toBe(
+            'Permission denied: the search index of table posts covers masked column body.'
+        )
+        expect(executeQuery).toHaveBeenCalledTimes(1)
+    })
+
+    it('should require search terms and an index', async () => {
+        mockColumns(false)
+
+        const missingTerms = await searchRoute(
+            'posts',
+            new Request('http://localhost/search/posts?q=%20'),
+            internal,
+            config
+        )
+        const missingIndex = await searchRoute(
+            'posts',
+            new Request('http://localhost/search/posts?q=fox'),
+            internal,
+            config
+        )
+
+        expect(missingTerms.status).toBe(400)
+        expect(((await missingIndex.json()) as any).error).toBe(
+            "Table 'posts' has no search index."
+        )
+    })
+})
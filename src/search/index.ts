@@ -0,0 +1,464 @@
+import { DataSource } from '../types'
+import { StarbaseDBConfiguration } from '../handler'
+import { executeQuery, executeTransaction } from '../operation'
+import { createResponse } from '../utils'
+import { loadMaskingPolicies } from '../masking'
+import { PermissionDeniedError } from '../rbac'
+
+export type SearchIndex = {
+    table: string
+    columns: string[]
+}
+
+export type SearchMatch = {
+    // BM25 score of the match, lower scores are better matches
+    rank: number
+    // Excerpt of the best matching column with the matched terms highlighted
+    snippet: string
+    row: Record<string, unknown>
+}
+
+// The request is invalid, reported to the client as a bad request.
+class SearchRequestError extends Error {}
+
+// The search index conflicts with an index that already exists.
+class SearchConflictError extends Error {}
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/
+
+// Search indexes are internal tables, hidden from LiteREST, OpenAPI and GraphQL
+const INDEX_PREFIX = 'tmp_fts_'
+
+const DEFAULT_LIMIT = 20
+
+function isSQLite(dataSource: DataSource): boolean {
+    return (
+        dataSource.source === 'internal' ||
+        dataSource.external?.dialect === 'sqlite'
+    )
+}
+
+function getIndexName(table: string): string {
+    return `${INDEX_PREFIX}${table}`
+}
+
+function assertIdentifier(name: unknown, kind: string): string {
+    if (typeof name !== 'string' || !IDENTIFIER_PATTERN.test(name)) {
+        throw new SearchRequestError(`Invalid ${kind} name.`)
+    }
+
+    return name
+}
+
+/**
+ * Builds the statements creating an FTS5 index of columns of a table. The index is an
+ * external content table reading the rows from the table itself, kept in sync with
+ * triggers and filled with the rows the table already has.
+ *
+ * @param opts.table - The table to index, already validated.
+ * @param opts.columns - The text columns to index, already validated.
+ * @param opts.tokenize - The FTS5 tokenizer, e.g. `porter unicode61` or `trigram`.
+ */
+export function buildSearchIndexStatements(opts: {
+    table: string
+    columns: string[]
+    tokenize?: string
+}): string[] {
+    const { table, columns, tokenize } = opts
+    const index = getIndexName(table)
+    const list = columns.join(', ')
+    const values = (row: 'new' | 'old') =>
+        columns.map((column) => `${row}.${column}`).join(', ')
+
+    return [
+        `CREATE VIRTUAL TABLE ${index} USING fts5(${list}, content='${table}', content_rowid='rowid'${tokenize ? `, tokenize='${tokenize}'` : ''})`,
+        `CREATE TRIGGER ${index}_insert AFTER INSERT ON ${table} BEGIN INSERT INTO ${index} (rowid, ${list}) VALUES (new.rowid, ${values('new')}); END`,
+        `CREATE TRIGGER ${index}_delete AFTER DELETE ON ${table} BEGIN INSERT INTO ${index} (${index}, rowid, ${list}) VALUES ('delete', old.rowid, ${values('old')}); END`,
+        `CREATE TRIGGER ${index}_update AFTER UPDATE ON ${table} BEGIN INSERT INTO ${index} (${index}, rowid, ${list}) VALUES ('delete', old.rowid, ${values('old')}); INSERT INTO ${index} (rowid, ${list}) VALUES (new.rowid, ${values('new')}); END`,
+        `INSERT INTO ${index} (${index}) VALUES ('rebuild')`,
+    ]
+}
+
+/**
+ * Turns the terms of a search into an FTS5 query matching rows that contain every
+ * term. Terms are quoted, so characters with a meaning in the FTS5 syntax are searched
+ * for literally.
+ *
+ * @param terms - The search terms, separated by whitespace.
+ * @returns The FTS5 query, empty without terms.
+ */
+export function buildMatchExpression(terms: string): string {
+    return terms
+        .split(/\s+/)
+        .filter(Boolean)
+        .map((term) => `"${term.replace(/"/g, '""')}"`)
+        .join(' ')
+}
+
+async function getColumns(
+    table: string,
+    dataSource: DataSource,
+    config: StarbaseDBConfiguration
+): Promise<string[]> {
+    const columns = (await executeQuery({
+        sql: `PRAGMA table_info(${table})`,
+        params: [],
+        isRaw: false,
+        dataSource,
+        config,
+    })) as any[]
+
+    return (columns ?? []).map((column) => column.name)
+}
+
+/**
+ * Lists the tables that have a search index, with the columns they index.
+ */
+export async function getSearchIndexes(
+    dataSource: DataSource,
+    config: StarbaseDBConfiguration
+): Promise<SearchIndex[]> {
+    const tables = (await executeQuery({
+        sql: `SELECT name FROM sqlite_master WHERE type = 'table' AND name LIKE 'tmp\\_fts\\_%' ESCAPE '\\' AND sql LIKE 'CREATE VIRTUAL TABLE%' ORDER BY name`,
+        params: [],
+        isRaw: false,
+        dataSource,
+        config,
+    })) as any[]
+    const indexes: SearchIndex[] = []
+
+    for (const { name } of tables ?? []) {
+        indexes.push({
+            table: name.slice(INDEX_PREFIX.length),
+            columns: await getColumns(name, dataSource, config),
+        })
+    }
+
+    return indexes
+}
+
+/**
+ * Creates the search index of a table.
+ *
+ * @param opts.table - The table to index.
+ * @param opts.columns - The columns to index, every column must exist on the table.
+ * @param opts.tokenize - The FTS5 tokenizer, the default tokenizer when omitted.
+ */
+export async function createSearchIndex(opts: {
+    table: unknown
+    columns: unknown
+    tokenize?: unknown
+    dataSource: DataSource
+    config: StarbaseDBConfiguration
+}): Promise<SearchIndex> {
+    const { dataSource, config } = opts
+    const table = assertIdentifier(opts.table, 'table')
+
+    if (!Array.isArray(opts.columns) || opts.columns.length === 0) {
+        throw new SearchRequestError('A list of columns is required.')
+    }
+
+    const columns = opts.columns.map((column) =>
+        assertIdentifier(column, 'column')
+    )
+
+    if (
+        opts.tokenize !== undefined &&
+        (typeof opts.tokenize !== 'string' ||
+            !/^[A-Za-z0-9_ ]+$/.test(opts.tokenize))
+    ) {
+        throw new SearchRequestError('Invalid tokenizer.')
+    }
+
+    const existing = await getColumns(table, dataSource, config)
+
+    if (!existing.length) {
+        throw new SearchRequestError(`Table '${table}' does not exist.`)
+    }
+
+    for (const column of columns) {
+        if (!existing.includes(column)) {
+            throw new SearchRequestError(
+                `Column '${column}' does not exist on table '${table}'.`
+            )
+        }
+    }
+
+    if ((await getColumns(getIndexName(table), dataSource, config)).length) {
+        throw new SearchConflictError(
+            `Table '${table}' already has a search index, drop it to index other columns.`
+        )
+    }
+
+    await executeTransaction({
+        queries: buildSearchIndexStatements({
+            table,
+            columns,
+            tokenize: opts.tokenize as string | undefined,
+        }).map((sql) => ({ sql, params: [] })),
+        isRaw: false,
+        dataSource,
+        config,
+    })
+
+    return { table, columns }
+}
+
+/**
+ * Drops the search index of a table together with the triggers keeping it in sync.
+ *
+ * @returns Whether the table had a search index.
+ */
+export async function dropSearchIndex(opts: {
+    table: string
+    dataSource: DataSource
+    config: StarbaseDBConfiguration
+}): Promise<boolean> {
+    const { dataSource, config } = opts
+    const table = assertIdentifier(opts.table, 'table')
+    const index = getIndexName(table)
+
+    if (!(await getColumns(index, dataSource, config)).length) {
+        return false
+    }
+
+    await executeTransaction({
+        queries: [
+            `DROP TRIGGER IF EXISTS ${index}_insert`,
+            `DROP TRIGGER IF EXISTS ${index}_delete`,
+            `DROP TRIGGER IF EXISTS ${index}_update`,
+            `DROP TABLE ${index}`,
+        ].map((sql) => ({ sql, params: [] })),
+        isRaw: false,
+        dataSource,
+        config,
+    })
+
+    return true
+}
+
+/**
+ * Searches the rows of a table through its search index, best matches first. Indexes
+ * covering columns masked for the request cannot be searched.
+ *
+ * @param opts.terms - Words every matching row contains.
+ * @param opts.match - A raw FTS5 query, used instead of the terms.
+ */
+export async function searchTable(opts: {
+    table: string
+    terms?: string
+    match?: string
+    limit?: number
+    offset?: number
+    dataSource: DataSource
+    config: StarbaseDBConfiguration
+}): Promise<SearchMatch[]> {
+    const { dataSource, config } = opts
+    const table = assertIdentifier(opts.table, 'table')
+    const index = getIndexName(table)
+    const expression =
+        opts.match?.trim() || buildMatchExpression(opts.terms ?? '')
+
+    if (!expression) {
+        throw new SearchRequestError('Search terms are required.')
+    }
+
+    const columns = await getColumns(index, dataSource, config)
+
+    if (!columns.length) {
+        throw new SearchRequestError(`Table '${table}' has no search index.`)
+    }
+
+    // Snippets and the column filters of raw queries read the indexed values, which the
+    // masks of the table are not applied to
+    if (config.features?.masking) {
+        const masked = (await loadMaskingPolicies(dataSource, config)).find(
+            (policy) =>
+                policy.table === table.toLowerCase() &&
+                columns.some((column) => column.toLowerCase() === policy.column)
+        )
+
+        if (masked) {
+            throw new PermissionDeniedError(
+                `Permission denied: the search index of table ${table} covers masked column ${masked.column}.`
+            )
+        }
+    }
+
+    let rows: any[]
+
+    // FTS5 matches with `=` on the column named after the index as it does with `MATCH`,
+    // which the parser row level security rewrites statements with does not support
+    try {
+        rows = (await executeQuery({
+            sql: `SELECT ${table}.*, bm25(${index}) AS "__rank", snippet(${index}, -1, '<mark>', '</mark>', '…', 16) AS "__snippet" FROM ${index} JOIN ${table} ON ${table}.rowid = ${index}.rowid WHERE ${index} = ? ORDER BY "__rank" LIMIT ? OFFSET ?`,
+            params: [expression, opts.limit ?? DEFAULT_LIMIT, opts.offset ?? 0],
+            isRaw: false,
+            dataSource,
+            config,
+        })) as any[]
+    } catch (error: any) {
+        // Raw queries may not be valid FTS5 syntax or name unknown columns
+        if (
+            opts.match &&
+            /fts5: syntax error|unterminated string|no such column/i.test(
+                error?.message ?? ''
+            )
+        ) {
+            throw new SearchRequestError(`Invalid search query: ${expression}`)
+        }
+
+        throw error
+    }
+
+    return (rows ?? []).map(({ __rank, __snippet, ...row }) => ({
+        rank: __rank,
+        snippet: __snippet,
+        row,
+    }))
+}
+
+function createErrorResponse(error: any, fallback: string): Response {
+    if (error instanceof SearchRequestError) {
+        return createResponse(undefined, error.message, 400)
+    }
+
+    if (error instanceof SearchConflictError) {
+        return createResponse(undefined, error.message, 409)
+    }
+
+    if (error instanceof PermissionDeniedError) {
+        return createResponse(undefined, error.message, 403)
+    }
+
+    console.error('Search Error:', error)
+    return createResponse(undefined, error?.message ?? fallback, 500)
+}
+
+function createDialectErrorResponse(): Response {
+    return createResponse(
+        undefined,
+        'Full-text search requires a SQLite data source.',
+        400
+    )
+}
+
+export async function listSearchIndexesRoute(
+    dataSource: DataSource,
+    config: StarbaseDBConfiguration
+): Promise<Response> {
+    if (!isSQLite(dataSource)) {
+        return createDialectErrorResponse()
+    }
+
+    try {
+        const indexes = await getSearchIndexes(dataSource, config)
+        return createResponse(indexes, undefined, 200)
+    } catch (error: any) {
+        return createErrorResponse(error, 'Failed to list search indexes.')
+    }
+}
+
+export async function createSearchIndexRoute(
+    request: Request,
+    dataSource: DataSource,
+    config: StarbaseDBConfiguration
+): Promise<Response> {
+    if (!isSQLite(dataSource)) {
+        return createDialectErrorResponse()
+    }
+
+    let body: { table?: unknown; columns?: unknown; tokenize?: unknown }
+
+    try {
+        body = await request.json()
+    } catch {
+        return createResponse(undefined, 'Invalid request body.', 400)
+    }
+
+    try {
+        const index = await createSearchIndex({
+            table: body?.table,
+            columns: body?.columns,
+            tokenize: body?.tokenize,
+            dataSource,
+            config,
+        })
+
+        return createResponse(index, undefined, 201)
+    } catch (error: any) {
+        return createErrorResponse(error, 'Failed to create search index.')
+    }
+}
+
+export async function dropSearchIndexRoute(
+    tableName: string,
+    dataSource: DataSource,
+    config: StarbaseDBConfiguration
+): Promise<Response> {
+    if (!isSQLite(dataSource)) {
+        return createDialectErrorResponse()
+    }
+
+    try {
+        const dropped = await dropSearchIndex({
+            table: tableName,
+            dataSource,
+            config,
+        })
+
+        return dropped
+            ? createResponse({ table: tableName }, undefined, 200)
+            : createResponse(
+                  undefined,
+                  `Table '${tableName}' has no search index.`,
+                  404
+              )
+    } catch (error: any) {
+        return createErrorResponse(error, 'Failed to drop search index.')
+    }
+}
+
+export async function searchRoute(
+    tableName: string,
+    request: Request,
+    dataSource: DataSource,
+    config: StarbaseDBConfiguration
+): Promise<Response> {
+    if (!isSQLite(dataSource)) {
+        return createDialectErrorResponse()
+    }
+
+    const { searchParams } = new URL(request.url)
+    const limit = Number(searchParams.get('limit') ?? DEFAULT_LIMIT)
+    const offset = Number(searchParams.get('offset') ?? 0)
+
+    if (
+        !Number.isInteger(limit) ||
+        limit < 1 ||
+        !Number.isInteger(offset) ||
+        offset < 0
+    ) {
+        return createResponse(
+            undefined,
+            'Limit must be a positive integer and offset a non-negative integer.',
+            400
+        )
+    }
+
+    try {
+        const matches = await searchTable({
+            table: tableName,
+            terms: searchParams.get('q') ?? undefined,
+            match: searchParams.get('match') ?? undefined,
+            limit,
+            offset,
+            dataSource,
+            config,
+        })
+
+        return createResponse(matches, undefined, 200)
+    } catch (error: any) {
+        return createErrorResponse(error, 'Failed to search.')
+    }
+}
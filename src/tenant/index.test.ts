@@ -0,0 +1,193 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import {
+    createDatabaseRoute,
+    databaseExists,
+    deleteDatabaseRoute,
+    getDatabaseStub,
+    resolveDatabaseName,
+} from './index'
+
+function createToken(payload: Record<string, unknown>): string {
+    const encode = (value: object) =>
+        btoa(JSON.stringify(value))
+            .replace(/=+$/, '')
+            .replace(/\+/g, '-')
+            .replace(/\//g, '_')
+
+    return `${encode({ alg: 'RS256' })}.${encode(payload)}.signature`
+}
+
+const mockRegistry = {
+    executeQuery: vi.fn(),
+}
+
+const mockTenant = {
+    deleteDatabase: vi.fn(),
+}
+
+const mockNamespace = {
+    idFromName: vi.fn((name: string) => name),
+    get: vi.fn((id: string) =>
+        id === 'sql-durable-object'
+            ? { init: vi.fn().mockResolvedValue(mockRegistry) }
+            : mockTenant
+    ),
+} as any
+
+beforeEach(() => {
+    vi.clearAllMocks()
+})
+
+describe('resolveDatabaseName', () => {
+    it('should use the default database when no tenant is given', () => {
+        const request = new Request('https://db.example.com/query')
+
+        expect(resolveDatabaseName({ request, token: null })).toBeUndefined()
+    })
+
+    it('should read the database from the header', () => {
+        const request = new Request('https://db.example.com/query', {
+            headers: { 'X-Starbase-Database': 'Acme' },
+        })
+
+        expect(resolveDatabaseName({ request, token: null })).toBe('acme')
+    })
+
+    it('should read the database from the subdomain', () => {
+        const request = new Request('https://acme.db.example.com/query')
+
+        expect(
+            resolveDatabaseName({
+                request,
+                token: null,
+                hostname: 'db.example.com',
+            })
+        ).toBe('acme')
+    })
+
+    it('should prefer the JWT claim over the header', () => {
+        const request = new Request('https://db.example.com/query', {
+            headers: { 'X-Starbase-Database': 'other' },
+        })
+
+        expect(
+            resolveDatabaseName({
+                request,
+                token: createToken({ sub: 'user', tenant: 'acme' }),
+                claim: 'tenant',
+            })
+        ).toBe('acme')
+    })
+
+    it('should ignore tokens that are not a JWT', () => {
+        const request = new Request('https://db.example.com/query')
+
+        expect(
+            resolveDatabaseName({ request, token: 'ABC123', claim: 'tenant' })
+        ).toBeUndefined()
+    })
+
+    it('should reject invalid database names', () => {
+        const request = new Request('https://db.example.com/query', {
+            headers: { 'X-Starbase-Database': '../acme' },
+        })
+
+        expect(() => resolveDatabaseName({ request, token: null })).toThrow(
+            "Invalid database name '../acme'."
+        )
+    })
+})
+
+describe('getDatabaseStub', () => {
+    it('should keep tenant databases apart from the default database', () => {
+        getDatabaseStub(mockNamespace)
+        getDatabaseStub(mockNamespace, { name: 'acme' })
+
+        expect(mockNamespace.idFromName).toHaveBeenNthCalledWith(
+            1,
+            'sql-durable-object'
+        )
+        expect(mockNamespace.idFromName).toHaveBeenNthCalledWith(
+            2,
+            'tenant:acme'
+        )
+    })
+})
+
+describe('databaseExists', () => {
+    it('should remember databases that exist until they are deleted', async () => {
+        mockRegistry.executeQuery.mockResolvedValueOnce([{ 1: 1 }])
+
+        expect(
+            await databaseExists(mockNamespace, 'globex', { cached: true })
+        ).toBe(true)
+        expect(
+            await databaseExists(mockNamespace, 'globex', { cached: true })
+        ).toBe(true)
+        expect(mockRegistry.executeQuery).toHaveBeenCalledTimes(1)
+
+        mockRegistry.executeQuery.mockResolvedValueOnce([{ 1: 1 }])
+        await deleteDatabaseRoute('globex', mockNamespace)
+        mockRegistry.executeQuery.mockResolvedValueOnce([])
+
+        expect(
+            await databaseExists(mockNamespace, 'globex', { cached: true })
+        ).toBe(false)
+    })
+})
+
+describe('Database routes', () => {
+    it('should register a new database', async () => {
+        mockRegistry.executeQuery.mockResolvedValueOnce([])
+
+        const response = await createDatabaseRoute(
+            new Request('https://db.example.com/databases', {
+                method: 'POST',
+                body: JSON.stringify({ name: 'acme' }),
+            }),
+            mockNamespace
+        )
+
+        expect(response.status).toBe(201)
+        expect(mockRegistry.executeQuery).toHaveBeenLastCalledWith({
+            sql: 'INSERT INTO tmp_databases ("name") VALUES (?)',
+            params: ['acme'],
+        })
+    })
+
+    it('should not register a database twice', async () => {
+        mockRegistry.executeQuery.mockResolvedValueOnce([{ 1: 1 }])
+
+        const response = await createDatabaseRoute(
+            new Request('https://db.example.com/databases', {
+                method: 'POST',
+                body: JSON.stringify({ name: 'acme' }),
+            }),
+            mockNamespace
+        )
+
+        expect(response.status).toBe(409)
+    })
+
+    it('should delete the storage of a database and unregister it', async () => {
+        mockRegistry.executeQuery.mockResolvedValueOnce([{ 1: 1 }])
+
+        const response = await deleteDatabaseRoute('acme', mockNamespace)
+
+        expect(response.status).toBe(200)
+        expect(mockTenant.deleteDatabase).toHaveBeenCalled()
+        expect(mockRegistry.executeQuery).toHaveBeenLastCalledWith({
+            sql: 'DELETE FROM tmp_databases WHERE "name" = ?',
+            params: ['acme'],
+        })
+    })
+
+    it('should return 404 when deleting an unknown database', async () => {
+        mockRegistry.executeQuery.mockResolvedValueOnce([])
+
+        const response = await deleteDatabaseRoute('acme', mockNamespace)
+
+        expect(response.status).toBe(404)
+        expect(mockTenant.deleteDatabase).not.toHaveBeenCalled()
+    })
+})
@@ -0,0 +1,263 @@
+import { decodeJwt } from 'jose'
+import type { StarbaseDBDurableObject } from '../do'
+import { QueryResult, RegionLocationHint } from '../types'
+import { createResponse } from '../utils'
+
+export type DatabaseNamespace = DurableObjectNamespace<StarbaseDBDurableObject>
+
+// Name of the Durable Object that serves requests without a tenant database, it
+// also keeps the registry of tenant databases.
+export const DEFAULT_DATABASE = 'sql-durable-object'
+
+const DATABASE_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,62}$/
+
+function validateDatabaseName(name: string): string {
+    const normalized = name.trim().toLowerCase()
+
+    if (!DATABASE_NAME_PATTERN.test(normalized)) {
+        throw new Error(
+            `Invalid database name '${name}'. Use up to 63 letters, digits, dashes and underscores.`
+        )
+    }
+
+    return normalized
+}
+
+/**
+ * Determines the tenant database a request is for. In order of precedence it is taken
+ * from a JWT claim, the `X-Starbase-Database` header or the subdomain of the request.
+ *
+ * The JWT is only decoded here to route the request, its signature is verified
+ * later on together with the rest of the authentication.
+ *
+ * @param opts.request - The incoming request.
+ * @param opts.token - The authentication token sent with the request, if any.
+ * @param opts.claim - Name of the JWT claim holding the database name.
+ * @param opts.hostname - Hostname under which each subdomain is a database name.
+ * @returns The database name, or `undefined` for the default database.
+ */
+export function resolveDatabaseName(opts: {
+    request: Request
+    token: string | null
+    claim?: string
+    hostname?: string
+}): string | undefined {
+    const { request, token, claim, hostname } = opts
+
+    if (claim && token) {
+        let payload: Record<string, unknown> | undefined
+
+        try {
+            payload = decodeJwt(token)
+        } catch {
+            // Not a JWT, for example the admin or client authorization token.
+        }
+
+        if (typeof payload?.[claim] === 'string') {
+            return validateDatabaseName(payload[claim] as string)
+        }
+    }
+
+    const header = request.headers.get('X-Starbase-Database')
+
+    if (header) {
+        return validateDatabaseName(header)
+    }
+
+    if (hostname) {
+        const requestHostname = new URL(request.url).hostname
+        const suffix = `.${hostname.toLowerCase()}`
+
+        if (requestHostname.endsWith(suffix)) {
+            const subdomain = requestHostname.slice(0, -suffix.length)
+
+            // Only a single label in front of the hostname names a database.
+            if (!subdomain.includes('.')) {
+                return validateDatabaseName(subdomain)
+            }
+        }
+    }
+
+    return undefined
+}
+
+/**
+ * Returns the Durable Object stub of a database.
+ *
+ * @param namespace - The Durable Object namespace holding all databases.
+ * @param opts.name - Name of the tenant database, the default database if omitted.
+ * @param opts.region - Location hint used when the Durable Object is first created.
+ */
+export function getDatabaseStub(
+    namespace: DatabaseNamespace,
+    opts?: { name?: string; region?: string }
+) {
+    // Tenant names are prefixed so that none can address the default database.
+    const id = namespace.idFromName(
+        opts?.name ? `tenant:${opts.name}` : DEFAULT_DATABASE
+    )
+    const region = opts?.region ?? RegionLocationHint.AUTO
+
+    return region !== RegionLocationHint.AUTO
+        ? namespace.get(id, {
+              locationHint: region as DurableObjectLocationHint,
+          })
+        : namespace.get(id)
+}
+
+async function getRegistry(namespace: DatabaseNamespace) {
+    return getDatabaseStub(namespace).init()
+}
+
+// Tenant databases known to exist, with when they were last looked up. This keeps
+// requests of an isolate from all asking the registry, while databases deleted
+// through other isolates stop being served once their entry expires.
+const existingDatabases = new Map<string, number>()
+
+// How long a tenant database is known to exist without asking the registry again
+const EXISTING_DATABASE_TTL = 60_000
+
+/**
+ * Checks the registry for a tenant database.
+ *
+ * @param namespace - The Durable Object namespace holding all databases.
+ * @param name - Name of the tenant database.
+ * @param opts.cached - Trust a recent lookup of the same isolate that found it.
+ */
+export async function databaseExists(
+    namespace: DatabaseNamespace,
+    name: string,
+    opts?: { cached?: boolean }
+): Promise<boolean> {
+    const foundAt = existingDatabases.get(name)
+
+    if (
+        opts?.cached &&
+        foundAt !== undefined &&
+        Date.now() - foundAt < EXISTING_DATABASE_TTL
+    ) {
+        return true
+    }
+
+    const registry = await getRegistry(namespace)
+    const result = (await registry.executeQuery({
+        sql: 'SELECT 1 FROM tmp_databases WHERE "name" = ?',
+        params: [name],
+    })) as QueryResult[]
+
+    if (result.length > 0) {
+        existingDatabases.set(name, Date.now())
+    } else {
+        existingDatabases.delete(name)
+    }
+
+    return result.length > 0
+}
+
+export async function listDatabasesRoute(
+    namespace: DatabaseNamespace
+): Promise<Response> {
+    try {
+        const registry = await getRegistry(namespace)
+        const result = await registry.executeQuery({
+            sql: 'SELECT "name", "created_at" FROM tmp_databases ORDER BY "name"',
+        })
+
+        return createResponse(result, undefined, 200)
+    } catch (error: any) {
+        console.error('List Databases Error:', error)
+        return createResponse(
+            undefined,
+            error?.message ?? 'Failed to list databases.',
+            500
+        )
+    }
+}
+
+export async function createDatabaseRoute(
+    request: Request,
+    namespace: DatabaseNamespace
+): Promise<Response> {
+    let name: string
+
+    try {
+        const body = (await request.json()) as { name?: unknown }
+
+        if (typeof body?.name !== 'string') {
+            return createResponse(undefined, 'Database name is required.', 400)
+        }
+
+        name = validateDatabaseName(body.name)
+    } catch (error: any) {
+        return createResponse(
+            undefined,
+            error?.message ?? 'Invalid request body.',
+            400
+        )
+    }
+
+    try {
+        if (await databaseExists(namespace, name)) {
+            return createResponse(
+                undefined,
+                `Database '${name}' already exists.`,
+                409
+            )
+        }
+
+        // The Durable Object itself is created on the first request it receives.
+        const registry = await getRegistry(namespace)
+        await registry.executeQuery({
+            sql: 'INSERT INTO tmp_databases ("name") VALUES (?)',
+            params: [name],
+        })
+
+        return createResponse({ name }, undefined, 201)
+    } catch (error: any) {
+        console.error('Create Database Error:', error)
+        return createResponse(
+            undefined,
+            error?.message ?? 'Failed to create database.',
+            500
+        )
+    }
+}
+
+export async function deleteDatabaseRoute(
+    name: string,
+    namespace: DatabaseNamespace
+): Promise<Response> {
+    try {
+        name = validateDatabaseName(name)
+    } catch (error: any) {
+        return createResponse(undefined, error.message, 400)
+    }
+
+    try {
+        if (!(await databaseExists(namespace, name))) {
+            return createResponse(
+                undefined,
+                `Database '${name}' does not exist.`,
+                404
+            )
+        }
+
+        existingDatabases.delete(name)
+        await getDatabaseStub(namespace, { name }).deleteDatabase()
+
+        const registry = await getRegistry(namespace)
+        await registry.executeQuery({
+            sql: 'DELETE FROM tmp_databases WHERE "name" = ?',
+            params: [name],
+        })
+
+        return createResponse({ name }, undefined, 200)
+    } catch (error: any) {
+        console.error('Delete Database Error:', error)
+        return createResponse(
+            undefined,
+            error?.message ?? 'Failed to delete database.',
+            500
+        )
+    }
+}
@@ -10,6 +10,8 @@ export type RemoteSource = {
     password: string
     database: string
     defaultSchema?: string
+    // Connect through this URL instead, e.g. the one of a Hyperdrive binding
+    connectionString?: string
 }
 
 export type PostgresSource = {
@@ -53,6 +55,17 @@ export type DataSource = {
     rpc: Awaited<ReturnType<DurableObjectStub<StarbaseDBDurableObject>['init']>>
     source: 'internal' | 'external'
     external?: ExternalDatabaseSource
+    // Name of the registered external source selected with `X-Starbase-Source`
+    sourceName?: string
+    transactionId?: string
+    // Nearest read replica of the internal database, serves read-only queries
+    replica?: {
+        stub: DurableObjectStub<StarbaseDBDurableObject>
+        region: string
+        database?: string
+    }
+    // Latest change the client has observed, only set when read replicas are enabled
+    bookmark?: number
     context?: Record<string, unknown>
     cache?: boolean
     cacheTTL?: number
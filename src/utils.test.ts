@@ -1,6 +1,6 @@
 import { expect, test } from 'vitest'
 
-import { createResponse } from './utils'
+import { createResponse, TransactionError } from './utils'
 
 test('createResponse returns success response with data', async () => {
     const data = { foo: 'bar' }
@@ -23,3 +23,19 @@ test('createResponse returns error response', async () => {
 
     expect(response.status).toBe(500)
 })
+
+test('TransactionError is rebuilt from a serialized RPC error', () => {
+    const error = TransactionError.from(
+        new Error('Transaction failed at statement 2: no such table: foo')
+    ) as TransactionError
+
+    expect(error).toBeInstanceOf(TransactionError)
+    expect(error.statementIndex).toBe(2)
+    expect(error.reason).toBe('no such table: foo')
+})
+
+test('TransactionError leaves unrelated errors untouched', () => {
+    const original = new Error('Something went wrong')
+
+    expect(TransactionError.from(original)).toBe(original)
+})
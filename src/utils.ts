@@ -6,7 +6,39 @@ export type QueryTransactionRequest = {
 
 export type QueryRequest = {
     sql: string
-    params?: any[]
+    params?: any[] | Record<string, any>
+}
+
+/**
+ * Thrown when one statement within a transaction fails. All statements in the
+ * transaction are rolled back and `statementIndex` points at the failing entry.
+ */
+export class TransactionError extends Error {
+    constructor(
+        public statementIndex: number,
+        public reason: string
+    ) {
+        super(`Transaction failed at statement ${statementIndex}: ${reason}`)
+        this.name = 'TransactionError'
+    }
+
+    /**
+     * Errors thrown inside of the Durable Object lose their class when they are
+     * serialized over RPC, so we rebuild the `TransactionError` from its message.
+     * @param error - The error received from the RPC call.
+     * @returns The original error if it was not a transaction failure.
+     */
+    static from(error: unknown): unknown {
+        if (error instanceof TransactionError || !(error instanceof Error)) {
+            return error
+        }
+
+        const match = error.message.match(
+            /Transaction failed at statement (\d+): ([\s\S]*)$/
+        )
+
+        return match ? new TransactionError(Number(match[1]), match[2]) : error
+    }
 }
 
 export function createResponse(
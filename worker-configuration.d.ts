@@ -8,6 +8,8 @@ interface Env {
     STUDIO_PASS: '123456'
     ENABLE_ALLOWLIST: 0
     ENABLE_RLS: 0
+    ENABLE_RBAC: 0
+    ENABLE_MASKING: 0
     AUTH_ALGORITHM: 'RS256'
     AUTH_JWKS_ENDPOINT: ''
     DATABASE_DURABLE_OBJECT: DurableObjectNamespace<